@@ -10,7 +10,7 @@ import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 import { z } from 'zod';
-import { Server } from 'http';
+import { Server, type IncomingHttpHeaders } from 'http';
 import { createRequire } from 'module';
 import {
   createSuccessTask,
@@ -58,6 +58,9 @@ export interface AgentRuntimeOptions<TContext = any> {
     model: LanguageModel;
     baseSystemPrompt?: string;
   };
+  // Resolves who invoked a skill from the MCP request's headers (throw to refuse the call).
+  // Tools receive the result as `context.caller`; it is never part of the LLM prompt.
+  authenticateCaller?: (headers: IncomingHttpHeaders) => Promise<unknown>;
 }
 
 /**
@@ -71,7 +74,7 @@ export interface SkillDefinition<I extends z.ZodTypeAny, TContext = any> {
   examples: string[]; // required, must have at least one example
   inputSchema: I;
   tools: Array<VibkitToolDefinition<any, Task | Message, TContext, z.infer<I>>>; // Tools now have access to skill input type
-  handler?: (input: z.infer<I>) => Promise<Task | Message>; // Optional - when provided, bypasses LLM orchestration
+  handler?: (input: z.infer<I>, caller?: unknown) => Promise<Task | Message>; // Optional - when provided, bypasses LLM orchestration
   mcpServers?: Record<string, StdioMcpConfig | HttpMcpConfig>; // Optional - MCP servers this skill needs (named object format)
 }
 
@@ -120,10 +123,11 @@ export function defineSkill<TInputSchema extends z.ZodTypeAny, TContext = any>(
   return definition;
 }
 
-export interface AgentContext<TCustom = any, TSkillInput = any> {
+export interface AgentContext<TCustom = any, TSkillInput = any, TCaller = any> {
   custom: TCustom;
   mcpClients?: Record<string, Client>; // MCP clients by server module name
   skillInput?: TSkillInput; // Skill input parameters from the skill invocation
+  caller?: TCaller; // Who invoked the skill, as resolved by the authenticateCaller runtime option
 }
 
 export interface VibkitToolDefinition<
@@ -153,6 +157,7 @@ export class Agent<TSkillsArray extends SkillDefinition<z.ZodTypeAny, TContext>[
   private model?: LanguageModel;
   private baseSystemPrompt?: string;
   private customContext?: TContext;
+  private authenticateCaller?: (headers: IncomingHttpHeaders) => Promise<unknown>;
   private skillMcpClients = new Map<string, Map<string, Client>>(); // skillName -> (moduleName -> Client)
 
   private constructor(
@@ -176,6 +181,7 @@ export class Agent<TSkillsArray extends SkillDefinition<z.ZodTypeAny, TContext>[
       this.model = runtimeOptions.llm.model;
       this.baseSystemPrompt = runtimeOptions.llm.baseSystemPrompt;
     }
+    this.authenticateCaller = runtimeOptions.authenticateCaller;
 
     this.mcpServer = new McpServer({
       name: this.card.name,
@@ -270,6 +276,17 @@ export class Agent<TSkillsArray extends SkillDefinition<z.ZodTypeAny, TContext>[
               'InputValidationError'
             );
           }
+          let caller: unknown;
+          if (this.authenticateCaller) {
+            try {
+              caller = await this.authenticateCaller(extra?.requestInfo?.headers ?? {});
+            } catch (error: unknown) {
+              return createMcpErrorResponse(
+                error instanceof Error ? error.message : String(error),
+                'AuthenticationError'
+              );
+            }
+          }
           try {
             // Use manual handler if present, else LLM handler
             let handler = skillDefinition.handler;
@@ -279,7 +296,7 @@ export class Agent<TSkillsArray extends SkillDefinition<z.ZodTypeAny, TContext>[
             if (!handler) {
               throw new Error(`No handler available for skill ${skill.name}`);
             }
-            const a2aResponse = await handler(parseResult.data);
+            const a2aResponse = await handler(parseResult.data, caller);
             return createMcpA2AResponse(a2aResponse, this.card.name);
           } catch (error: unknown) {
             console.error(`Unexpected error in skill ${skill.name}:`, error);
@@ -541,7 +558,7 @@ export class Agent<TSkillsArray extends SkillDefinition<z.ZodTypeAny, TContext>[
   }
 
   private createSkillHandler(skill: SkillDefinition<any, TContext>) {
-    return async (input: any) => {
+    return async (input: any, caller?: unknown) => {
       if (!this.model) {
         throw new Error('No language model configured');
       }
@@ -562,6 +579,7 @@ export class Agent<TSkillsArray extends SkillDefinition<z.ZodTypeAny, TContext>[
               const context: AgentContext<TContext, typeof input> = {
                 custom: this.customContext ?? ({} as TContext),
                 skillInput: input,
+                ...(caller !== undefined && { caller }),
                 ...(skillMcpClients &&
                   skillMcpClients.size > 0 && {
                     mcpClients: Object.fromEntries(skillMcpClients),
@@ -0,0 +1,174 @@
+/**
+ * Authentication & Authorization Middleware
+ *
+ * `authenticate` runs for every request and attaches the principal of its session token
+ * or API key (or, for the agent's tools, of the caller the agent vouches for) to `req.auth`;
+ * the route-level guards then decide who may see or change
+ * what, by scope and by owning address.
+ */
+
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { prisma } from '../../services/prisma.js';
+import { canActFor, hasScope, resolveAgentPrincipal, resolveToken, type AuthPrincipal } from '../../services/auth.js';
+import type { ApiResponse, ApiScope } from '../../types/shared.js';
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthPrincipal;
+    }
+  }
+}
+
+// Generic over the route's params so guards don't erase the typed `req.params` of the handlers after them
+type Guard = <P>(req: Request<P>, res: Response, next: NextFunction) => unknown;
+
+const REJECTION_ERRORS = { 400: 'Invalid Address', 401: 'Unauthorized', 403: 'Forbidden' } as const;
+
+const isAddress = (value: unknown): value is string => typeof value === 'string' && /^0x[a-fA-F0-9]{40}$/.test(value);
+
+function reject(res: Response, status: 400 | 401 | 403, message: string) {
+  const response: ApiResponse = {
+    success: false,
+    error: REJECTION_ERRORS[status],
+    message,
+  };
+  return res.status(status).json(response);
+}
+
+/**
+ * Resolve the `Authorization: Bearer <token>` or `X-API-Key` header, if any.
+ * Browsers' EventSource can't set headers, so event streams may pass `?access_token=` instead.
+ * The agent's tools send `X-Agent-Token` and `X-Agent-Principal` instead of a credential.
+ */
+export const authenticate: RequestHandler = async (req, res, next) => {
+  const agentToken = req.headers['x-agent-token'];
+  const agentPrincipal = req.headers['x-agent-principal'];
+  if (typeof agentToken === 'string' && typeof agentPrincipal === 'string') {
+    try {
+      const principal = await resolveAgentPrincipal(prisma, agentToken, agentPrincipal);
+      if (!principal) {
+        return reject(res, 401, 'Invalid agent call, or the credentials it was made with were revoked');
+      }
+      req.auth = principal;
+      return next();
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  const header = req.headers.authorization;
+  const apiKey = req.headers['x-api-key'];
+  const queryToken = req.headers.accept?.includes('text/event-stream') ? req.query.access_token : undefined;
+  let token: string | undefined;
+
+  if (header) {
+    const [scheme, value] = header.split(' ');
+    if (scheme !== 'Bearer' || !value) {
+      return reject(res, 401, 'Expected an Authorization: Bearer <token> header');
+    }
+    token = value;
+  } else if (typeof apiKey === 'string' && apiKey) {
+    token = apiKey;
+  } else if (typeof queryToken === 'string' && queryToken) {
+    token = queryToken;
+  } else {
+    return next();
+  }
+
+  try {
+    const principal = await resolveToken(prisma, token);
+    if (!principal) {
+      return reject(res, 401, 'Invalid, expired or revoked credentials');
+    }
+    req.auth = principal;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Check authentication and scope; sends the rejection and returns null on failure
+ */
+function authorize(req: Request<any>, res: Response, scope: ApiScope): AuthPrincipal | null {
+  if (!req.auth) {
+    reject(res, 401, 'Sign in with Ethereum or provide an API key to use this endpoint');
+    return null;
+  }
+  if (!hasScope(req.auth, scope)) {
+    reject(res, 403, scope === 'admin' ? 'Admin role required' : `Missing scope ${scope}`);
+    return null;
+  }
+  return req.auth;
+}
+
+/**
+ * Require any authenticated caller
+ */
+export const requireAuth: Guard = (req, res, next) => {
+  if (!req.auth) {
+    return reject(res, 401, 'Sign in with Ethereum or provide an API key to use this endpoint');
+  }
+  next();
+};
+
+/**
+ * Require an admin session or an API key with the admin scope
+ */
+export const requireAdmin: Guard = (req, res, next) => {
+  if (authorize(req, res, 'admin')) {
+    next();
+  }
+};
+
+/**
+ * Require a scope and that the caller may act for the address the request is about
+ * @param getAddress - reads the address from the request; requests without one (undefined) are only
+ * checked for scope, and anything but a single valid address is rejected with a 400
+ */
+export function requireOwner(scope: ApiScope, getAddress: (req: Request<any>) => unknown): Guard {
+  return (req, res, next) => {
+    const principal = authorize(req, res, scope);
+    if (!principal) {
+      return;
+    }
+    const address = getAddress(req);
+    if (address === undefined) {
+      return next();
+    }
+    if (!isAddress(address)) {
+      return reject(res, 400, 'Invalid Ethereum address format');
+    }
+    if (!canActFor(principal, address)) {
+      return reject(res, 403, 'You can only access your own plans and vault positions');
+    }
+    next();
+  };
+}
+
+/**
+ * Require a scope and that the caller may act for the owner of the plan in `:planId`;
+ * unknown plans fall through to the route's 404
+ */
+export function requirePlanOwner(scope: ApiScope): Guard {
+  return async (req, res, next) => {
+    const principal = authorize(req, res, scope);
+    if (!principal) {
+      return;
+    }
+
+    try {
+      const plan = await prisma.dcaPlan.findUnique({
+        where: { id: (req.params as Record<string, string>).planId },
+        select: { userAddress: true },
+      });
+      if (plan && !canActFor(principal, plan.userAddress)) {
+        return reject(res, 403, 'You can only access your own plans');
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Rate Limiting Middleware
+ *
+ * Fixed-window limits per client IP (before authentication, so bad credentials are
+ * limited too) and per API key or signed-in address (after it). Limits of 0 are off;
+ * calls the agent's tools make for a user are not limited per principal.
+ */
+
+import type { RequestHandler, Response } from 'express';
+import { prisma } from '../../services/prisma.js';
+import { MemoryRateLimitStore, PostgresRateLimitStore, type RateLimitStore } from '../../services/rateLimit.js';
+import type { ApiResponse } from '../../types/shared.js';
+
+const WINDOW_MS = parseInt(process.env.RATE_LIMIT_WINDOW_SECONDS || '60', 10) * 1000;
+const LIMIT_PER_IP = parseInt(process.env.RATE_LIMIT_PER_IP || '120', 10);
+const LIMIT_PER_API_KEY = parseInt(process.env.RATE_LIMIT_PER_API_KEY || '600', 10);
+const LIMIT_PER_USER = parseInt(process.env.RATE_LIMIT_PER_USER || '120', 10);
+
+const store: RateLimitStore = process.env.RATE_LIMIT_STORE === 'postgres'
+  ? new PostgresRateLimitStore(prisma)
+  : new MemoryRateLimitStore();
+
+export interface RateLimitInfo {
+  scope: 'ip' | 'apiKey' | 'user';
+  limit: number;
+  remaining: number;
+  resetAt: string;
+}
+
+/**
+ * Count a request against `key`; sends the 429 and returns false when over the limit
+ */
+async function consume(res: Response, scope: RateLimitInfo['scope'], key: string, limit: number): Promise<boolean> {
+  if (limit <= 0) {
+    return true;
+  }
+
+  let hit;
+  try {
+    hit = await store.hit(`${scope}:${key}`, WINDOW_MS);
+  } catch (error) {
+    // A broken store must not take the API down with it
+    console.warn('[RateLimit] ⚠️  Counter store failed, allowing request:', error instanceof Error ? error.message : error);
+    return true;
+  }
+
+  const remaining = Math.max(limit - hit.count, 0);
+  const resetSeconds = Math.max(Math.ceil((hit.resetAt.getTime() - Date.now()) / 1000), 0);
+  res.setHeader('X-RateLimit-Limit', limit);
+  res.setHeader('X-RateLimit-Remaining', remaining);
+  res.setHeader('X-RateLimit-Reset', Math.floor(hit.resetAt.getTime() / 1000));
+
+  if (hit.count <= limit) {
+    return true;
+  }
+
+  res.setHeader('Retry-After', resetSeconds);
+  const response: ApiResponse<RateLimitInfo> = {
+    success: false,
+    error: 'Too Many Requests',
+    message: `Rate limit of ${limit} requests per ${WINDOW_MS / 1000}s exceeded (${scope}); retry in ${resetSeconds}s`,
+    data: { scope, limit, remaining, resetAt: hit.resetAt.toISOString() },
+  };
+  res.status(429).json(response);
+  return false;
+}
+
+/**
+ * Limit requests per client IP
+ */
+export const rateLimitByIp: RequestHandler = async (req, res, next) => {
+  if (await consume(res, 'ip', req.ip ?? 'unknown', LIMIT_PER_IP)) {
+    next();
+  }
+};
+
+/**
+ * Limit requests per API key or signed-in address (runs after authenticate)
+ */
+export const rateLimitByPrincipal: RequestHandler = async (req, res, next) => {
+  const principal = req.auth;
+  if (!principal || principal.viaAgent) {
+    return next();
+  }
+
+  const allowed = principal.kind === 'apiKey'
+    ? await consume(res, 'apiKey', principal.apiKeyId!, LIMIT_PER_API_KEY)
+    : await consume(res, 'user', principal.address!, LIMIT_PER_USER);
+  if (allowed) {
+    next();
+  }
+};
@@ -0,0 +1,154 @@
+import { Router } from 'express';
+import { prisma } from '../../services/prisma.js';
+import { createApiKey, formatApiKey, revokeApiKey, rotateApiKey } from '../../services/apiKeys.js';
+import { requireAdmin } from '../middleware/auth.js';
+import {
+  CreateApiKeySchema,
+  type ApiKeyResponse,
+  type ApiResponse,
+} from '../../types/shared.js';
+
+const router: Router = Router();
+
+// Key management is admin-only
+router.use(requireAdmin);
+
+// List API keys (secrets are never returned)
+router.get('/', async (req, res) => {
+  try {
+    const keys = await prisma.apiKey.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+    
+    const response: ApiResponse<ApiKeyResponse[]> = {
+      success: true,
+      data: keys.map(key => formatApiKey(key)),
+      message: `Found ${keys.length} API keys`,
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error listing API keys:', error);
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to list API keys',
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Create an API key - the full key is only returned here
+router.post('/', async (req, res) => {
+  try {
+    const validatedData = CreateApiKeySchema.parse(req.body);
+    const { apiKey, key } = await createApiKey(prisma, validatedData, req.auth!.address);
+    
+    console.log(`🔑 Created API key ${apiKey.keyPrefix}… (${apiKey.name}) with scopes ${apiKey.scopes.join(', ')}`);
+    
+    const response: ApiResponse<ApiKeyResponse> = {
+      success: true,
+      data: formatApiKey(apiKey, key),
+      message: 'API key created - store it now, it cannot be shown again',
+    };
+    
+    res.status(201).json(response);
+    
+  } catch (error) {
+    console.error('Error creating API key:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation Error',
+        message: (error as any).errors.map((e: any) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      };
+      return res.status(400).json(response);
+    }
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to create API key',
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Replace an API key's secret, keeping its id, scopes and restrictions
+router.post('/:keyId/rotate', async (req, res) => {
+  try {
+    const { keyId } = req.params;
+    const rotated = await rotateApiKey(prisma, keyId);
+    
+    if (!rotated) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Key Not Found',
+        message: 'API key not found or already revoked',
+      };
+      return res.status(404).json(response);
+    }
+    
+    console.log(`🔑 Rotated API key ${keyId} (now ${rotated.apiKey.keyPrefix}…)`);
+    
+    const response: ApiResponse<ApiKeyResponse> = {
+      success: true,
+      data: formatApiKey(rotated.apiKey, rotated.key),
+      message: 'API key rotated - the previous key no longer works',
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error rotating API key:', error);
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to rotate API key',
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Revoke an API key
+router.delete('/:keyId', async (req, res) => {
+  try {
+    const { keyId } = req.params;
+    const apiKey = await revokeApiKey(prisma, keyId);
+    
+    if (!apiKey) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Key Not Found',
+        message: 'API key not found',
+      };
+      return res.status(404).json(response);
+    }
+    
+    console.log(`🔑 Revoked API key ${keyId} (${apiKey.name})`);
+    
+    const response: ApiResponse<ApiKeyResponse> = {
+      success: true,
+      data: formatApiKey(apiKey),
+      message: 'API key revoked',
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to revoke API key',
+    };
+    res.status(500).json(response);
+  }
+});
+
+export { router as apiKeyRoutes };
@@ -0,0 +1,111 @@
+import { Router } from 'express';
+import type { Address } from 'viem';
+import type { DCAContext } from '../../context/types.js';
+import { listExecutorApprovals, revokeExecutorApproval } from '../../services/approvals.js';
+import { requireAdmin } from '../middleware/auth.js';
+import {
+  RevokeApprovalSchema,
+  type ApiResponse,
+  type ExecutorApprovalResponse,
+  type RevokedApprovalResponse,
+} from '../../types/shared.js';
+
+const router: Router = Router();
+
+// The executor's allowances are admin-only
+router.use(requireAdmin);
+
+/**
+ * The agent context, once the agent is running with an executor
+ */
+function executorContext(): DCAContext | null {
+  const context: DCAContext | undefined = (global as any).dcaContext;
+  return context?.executeTransaction ? context : null;
+}
+
+const unavailable: ApiResponse = {
+  success: false,
+  error: 'Service Unavailable',
+  message: 'Approvals are unavailable until the agent has started with transaction execution enabled',
+};
+
+// List the executor's current allowances per token and spender (?all=true includes zero allowances)
+router.get('/', async (req, res) => {
+  try {
+    const context = executorContext();
+    if (!context) {
+      return res.status(503).json(unavailable);
+    }
+    
+    const approvals = await listExecutorApprovals(context, req.query.all === 'true');
+    const unlimited = approvals.filter(approval => approval.unlimited).length;
+    
+    const response: ApiResponse<ExecutorApprovalResponse[]> = {
+      success: true,
+      data: approvals,
+      message: `Found ${approvals.length} approvals${unlimited > 0 ? ` (${unlimited} unlimited)` : ''}`,
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error listing executor approvals:', error);
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to list executor approvals',
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Revoke one of the executor's allowances
+router.post('/revoke', async (req, res) => {
+  try {
+    const { tokenAddress, spender } = RevokeApprovalSchema.parse(req.body);
+    
+    const context = executorContext();
+    if (!context) {
+      return res.status(503).json(unavailable);
+    }
+    
+    const revoked = await revokeExecutorApproval(context, tokenAddress as Address, spender as Address);
+    
+    console.log(`🔒 ${req.auth!.address} revoked executor allowance of ${tokenAddress} to ${spender}`);
+    
+    const response: ApiResponse<RevokedApprovalResponse> = {
+      success: true,
+      data: {
+        tokenAddress,
+        spender,
+        previousAllowance: revoked.previousAllowance.toString(),
+        txHash: revoked.txHash,
+      },
+      message: revoked.txHash ? 'Approval revoked' : 'Nothing to revoke - the allowance is already zero',
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error revoking executor approval:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation Error',
+        message: (error as any).errors.map((e: any) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      };
+      return res.status(400).json(response);
+    }
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to revoke executor approval',
+    };
+    res.status(500).json(response);
+  }
+});
+
+export { router as approvalRoutes };
@@ -0,0 +1,130 @@
+import { Router } from 'express';
+import type { Hex } from 'viem';
+import { prisma } from '../../services/prisma.js';
+import { issueNonce, loginWithSiwe, revokeSession } from '../../services/auth.js';
+import { requireAuth } from '../middleware/auth.js';
+import {
+  SiweLoginSchema,
+  type AuthSessionResponse,
+  type ApiResponse,
+} from '../../types/shared.js';
+
+const router: Router = Router();
+
+// Issue a single-use nonce for a SIWE message
+router.get('/nonce', async (req, res) => {
+  try {
+    const { nonce, expiresAt } = await issueNonce(prisma);
+    
+    const response: ApiResponse<{ nonce: string; expiresAt: string }> = {
+      success: true,
+      data: { nonce, expiresAt: expiresAt.toISOString() },
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error issuing SIWE nonce:', error);
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to issue nonce',
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Exchange a signed SIWE message for a session token
+router.post('/login', async (req, res) => {
+  try {
+    const { message, signature } = SiweLoginSchema.parse(req.body);
+    const result = await loginWithSiwe(prisma, message, signature as Hex);
+    
+    if ('error' in result) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized',
+        message: result.error,
+      };
+      return res.status(401).json(response);
+    }
+    
+    console.log(`🔐 SIWE login for ${result.address} (${result.role})`);
+    
+    const response: ApiResponse<AuthSessionResponse> = {
+      success: true,
+      data: {
+        token: result.token,
+        address: result.address,
+        role: result.role,
+        expiresAt: result.expiresAt.toISOString(),
+      },
+      message: 'Signed in',
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error during SIWE login:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation Error',
+        message: (error as any).errors.map((e: any) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      };
+      return res.status(400).json(response);
+    }
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to sign in',
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Who the current token or API key belongs to
+router.get('/session', requireAuth, (req, res) => {
+  const response: ApiResponse<AuthSessionResponse> = {
+    success: true,
+    data: {
+      kind: req.auth!.kind,
+      address: req.auth!.address,
+      role: req.auth!.role,
+      scopes: req.auth!.scopes,
+    },
+  };
+  
+  res.json(response);
+});
+
+// Revoke the current session
+router.post('/logout', requireAuth, async (req, res) => {
+  try {
+    if (req.auth!.sessionId) {
+      await revokeSession(prisma, req.auth!.sessionId);
+    }
+    
+    const response: ApiResponse = {
+      success: true,
+      message: 'Signed out',
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error during logout:', error);
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to sign out',
+    };
+    res.status(500).json(response);
+  }
+});
+
+export { router as authRoutes };
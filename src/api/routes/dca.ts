@@ -1,70 +1,359 @@
 import { Router } from 'express';
+import type { DcaPlan, ExecutionHistory, Prisma } from '@prisma/client';
+import type { DCAContext, TokenInfo } from '../../context/types.js';
 import { prisma } from '../../services/prisma.js';
 import { 
   CreateDCAPlanSchema, 
   UpdateDCAPlanSchema,
+  TaxExportQuerySchema,
+  BASKET_TOKEN,
+  REBALANCE_TOKEN,
+  type BasketLeg,
+  type TargetWeight,
+  type CalendarRule,
+  type DipTier,
+  type FundingCheck,
   type DCAPlanResponse,
+  type ExecutionHistoryResponse,
+  type PlanEditResponse,
+  type PlanPerformanceResponse,
+  type UserPerformanceResponse,
+  type TaxExportResponse,
   type PlatformStatsResponse,
+  type WebhookEvent,
+  type MovingAverageStatus,
   type ApiResponse 
 } from '../../types/shared.js';
+import {
+  getNextExecution,
+  getNextExecutionAfterRun,
+  getFirstExecution,
+  countExecutionsBetween,
+  recomputePlanWindow,
+  scheduleWindowError,
+  planScheduleFromRecord,
+  type PlanSchedule,
+} from '../../utils/schedule.js';
+import { editSource } from '../../services/auth.js';
+import { getPlanPerformance, getUserPerformance } from '../../services/performance.js';
+import { getPlanMovingAverage } from '../../services/priceHistory.js';
+import { buildTaxExport, formatTaxCsv } from '../../services/taxLots.js';
+import { requireOwner, requirePlanOwner } from '../middleware/auth.js';
+import { checkUserPlanQuota, toQuotaPlan } from '../../services/quotas.js';
+import { emitPlanEvent } from '../../services/webhooks.js';
+import { publishPlanState, subscribeLiveEvents } from '../../services/liveEvents.js';
+import { applyFundingCheck, checkPlanFunding } from '../../services/fundingChecks.js';
+import { checkPermitConflict, planPermitToken, savePlanPermit, verifyPlanPermit } from '../../services/permits.js';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const STREAM_RETRY_MS = 5 * 1000;
+const STREAM_HEARTBEAT_MS = 25 * 1000;
 
 const router: Router = Router();
 
+/**
+ * Format a DcaPlan row for API responses
+ */
+function formatPlan(plan: DcaPlan, movingAverage: MovingAverageStatus | null): DCAPlanResponse {
+  return {
+    id: plan.id,
+    userAddress: plan.userAddress,
+    fromToken: plan.fromToken,
+    toToken: plan.toToken,
+    kind: plan.kind,
+    basket: (plan.basketLegs as unknown as BasketLeg[] | null) ?? null,
+    targetWeights: (plan.targetWeights as unknown as TargetWeight[] | null) ?? null,
+    driftThreshold: plan.driftThreshold?.toString() || null,
+    side: plan.side,
+    amount: plan.amount.toString(),
+    intervalMinutes: plan.intervalMinutes,
+    scheduleType: plan.scheduleType,
+    cronExpression: plan.cronExpression,
+    calendarRule: (plan.calendarRule as unknown as CalendarRule | null) ?? null,
+    timezone: plan.timezone,
+    durationWeeks: plan.durationWeeks,
+    startAt: plan.startAt?.toISOString() || null,
+    endAt: plan.endAt?.toISOString() || null,
+    missedRunPolicy: plan.missedRunPolicy,
+    status: plan.status as any,
+    nextExecution: plan.nextExecution?.toISOString() || null,
+    executionCount: plan.executionCount,
+    totalExecutions: plan.totalExecutions,
+    slippage: plan.slippage.toString(),
+    dryRun: plan.dryRun,
+    strategy: plan.strategy,
+    targetIncrement: plan.targetIncrement?.toString() || null,
+    minRunAmount: plan.minRunAmount?.toString() || null,
+    maxRunAmount: plan.maxRunAmount?.toString() || null,
+    minPrice: plan.minPrice?.toString() || null,
+    maxPrice: plan.maxPrice?.toString() || null,
+    dipTiers: (plan.dipTiers as unknown as DipTier[] | null) ?? null,
+    movingAverageDays: plan.movingAverageDays,
+    movingAverage,
+    funding: (plan.fundingCheck as unknown as FundingCheck | null) ?? null,
+    failures: {
+      consecutive: plan.consecutiveFailures,
+      lastClass: plan.lastFailureClass,
+      lastAt: plan.lastFailureAt?.toISOString() || null,
+      retryAfter: plan.retryAfter?.toISOString() || null,
+    },
+    pauseReason: plan.pauseReason,
+    createdAt: plan.createdAt.toISOString(),
+    updatedAt: plan.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Format an ExecutionHistory row (and the legs of a basket group row) for API responses
+ */
+function formatExecution(execution: ExecutionHistory & { legs?: ExecutionHistory[] }): ExecutionHistoryResponse {
+  return {
+    id: execution.id,
+    planId: execution.planId,
+    executedAt: execution.executedAt.toISOString(),
+    fromAmount: execution.fromAmount.toString(),
+    toAmount: execution.toAmount.toString(),
+    exchangeRate: execution.exchangeRate.toString(),
+    quotedToAmount: execution.quotedToAmount?.toString() || null,
+    quotedExchangeRate: execution.quotedExchangeRate?.toString() || null,
+    realizedSlippage: execution.realizedSlippage?.toString() || null,
+    gasFee: execution.gasFee?.toString() || null,
+    txHash: execution.txHash,
+    status: execution.status,
+    errorMessage: execution.errorMessage,
+    skipReason: execution.skipReason,
+    depositPending: execution.depositPending,
+    groupId: execution.groupId,
+    legFromToken: execution.legFromToken,
+    legToken: execution.legToken,
+    ...(execution.legs && { legs: execution.legs.map(leg => formatExecution(leg)) }),
+    simulation: execution.simulation ?? null,
+  };
+}
+
+// Plan fields an edit can change, as recorded in the audit trail
+const EDITABLE_PLAN_FIELDS = [
+  'status',
+  'amount',
+  'slippage',
+  'intervalMinutes',
+  'nextExecution',
+  'endAt',
+  'totalExecutions',
+  'durationWeeks',
+] as const;
+
+// Webhook event for a status change made through the API
+const PLAN_STATUS_EVENTS: Partial<Record<DcaPlan['status'], WebhookEvent>> = {
+  ACTIVE: 'plan.resumed',
+  PAUSED: 'plan.paused',
+  CANCELLED: 'plan.cancelled',
+  COMPLETED: 'plan.completed',
+};
+
+/**
+ * Compare a plan with the update about to be applied: { field: { from, to } } per changed field
+ */
+function diffPlanFields(
+  plan: DcaPlan,
+  update: Prisma.DcaPlanUpdateInput
+): Record<string, { from: string | null; to: string | null }> {
+  const asString = (value: unknown): string | null => {
+    if (value === null || value === undefined) return null;
+    if (value instanceof Date) return value.toISOString();
+    return String(value);
+  };
+
+  const changes: Record<string, { from: string | null; to: string | null }> = {};
+  for (const field of EDITABLE_PLAN_FIELDS) {
+    if (!(field in update)) continue;
+    const from = asString(plan[field]);
+    const to = asString(update[field]);
+    // Decimals compare by value ("2.00" vs "2")
+    const unchanged = from === to || (from !== null && to !== null && !isNaN(Number(from)) && Number(from) === Number(to));
+    if (!unchanged) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
 // Create DCA Plan
-router.post('/create', async (req, res) => {
+router.post('/create', requireOwner('write:plans', req => req.body?.userAddress), async (req, res) => {
   try {
     // Validate request body
     const validatedData = CreateDCAPlanSchema.parse(req.body);
     
-    // Calculate total executions based on duration and interval
-    const totalMinutes = validatedData.durationWeeks * 7 * 24 * 60;
-    const totalExecutions = Math.floor(totalMinutes / validatedData.intervalMinutes);
+    const schedule: PlanSchedule = {
+      scheduleType: validatedData.scheduleType,
+      intervalMinutes: validatedData.intervalMinutes ?? null,
+      cronExpression: validatedData.cronExpression ?? null,
+      calendarRule: validatedData.calendarRule ?? null,
+      timezone: validatedData.timezone,
+    };
+    
+    // First execution: the explicit start date, or one schedule slot from now
+    const now = new Date();
+    const startAt = validatedData.startAt ? new Date(validatedData.startAt) : null;
+    const nextExecution = startAt && startAt > now
+      ? getFirstExecution(schedule, startAt)
+      : getNextExecution(schedule, now);
+    
+    // Plan window ends at the explicit end date, or after durationWeeks from the start
+    const windowStart = startAt ?? now;
+    const endAt = validatedData.endAt
+      ? new Date(validatedData.endAt)
+      : new Date(windowStart.getTime() + (validatedData.durationWeeks ?? 0) * WEEK_MS);
+    const durationWeeks = validatedData.durationWeeks ?? Math.ceil((endAt.getTime() - windowStart.getTime()) / WEEK_MS);
+    
+    const windowError = scheduleWindowError(schedule, nextExecution, endAt);
+    if (windowError) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation Error',
+        message: windowError,
+      };
+      return res.status(400).json(response);
+    }
+    
+    // Total executions is the number of schedule slots from the first execution to the end date
+    const totalExecutions = nextExecution <= endAt
+      ? 1 + countExecutionsBetween(schedule, nextExecution, endAt)
+      : 0;
     
-    // Calculate next execution time (start immediately or after interval)
-    const nextExecution = new Date(Date.now() + validatedData.intervalMinutes * 60 * 1000);
+    if (totalExecutions === 0) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation Error',
+        message: 'Schedule has no executions between the start and end of the plan',
+      };
+      return res.status(400).json(response);
+    }
     
     // Convert amount and slippage to Decimal
     const amount = validatedData.amount;
     const slippage = parseFloat(validatedData.slippage || '2'); // Convert percentage to decimal
     
-    // Create DCA plan in database
-    const dcaPlan = await prisma.dcaPlan.create({
-      data: {
-        userAddress: validatedData.userAddress,
-        fromToken: validatedData.fromToken.toUpperCase(),
-        toToken: validatedData.toToken.toUpperCase(),
-        amount: amount,
-        intervalMinutes: validatedData.intervalMinutes,
-        durationWeeks: validatedData.durationWeeks,
-        nextExecution,
-        totalExecutions,
-        slippage: slippage,
-        status: 'ACTIVE',
-      },
+    const isRebalance = validatedData.kind === 'REBALANCE';
+    const fromToken = validatedData.fromToken.toUpperCase();
+    const toToken = isRebalance
+      ? REBALANCE_TOKEN
+      : validatedData.basket ? BASKET_TOKEN : validatedData.toToken!.toUpperCase();
+    
+    const quotaError = await checkUserPlanQuota(prisma, validatedData.userAddress, undefined, {
+      status: 'ACTIVE',
+      side: validatedData.side,
+      fromToken,
+      toToken,
+      amount,
+      remainingExecutions: totalExecutions,
+    });
+    if (quotaError) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Quota Exceeded',
+        message: quotaError,
+      };
+      return res.status(429).json(response);
+    }
+    
+    // A permit signed with the plan replaces the user's standing approval to the executor
+    let permitToken: TokenInfo | null = null;
+    const context: DCAContext | undefined = (global as any).dcaContext;
+    if (validatedData.permit) {
+      if (!context?.executeTransaction) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Service Unavailable',
+          message: 'Permits are unavailable until the agent has started with transaction execution enabled',
+        };
+        return res.status(503).json(response);
+      }
+      permitToken = planPermitToken(context, { kind: validatedData.kind, side: validatedData.side, fromToken, toToken });
+      const permitError = permitToken
+        ? await verifyPlanPermit(context, permitToken, validatedData.userAddress, validatedData.permit)
+        : 'Rebalancing plans swap in place and take no permit';
+      if (!permitToken || permitError) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Invalid Permit',
+          message: permitError ?? 'Invalid permit',
+        };
+        return res.status(400).json(response);
+      }
+      const conflict = await checkPermitConflict(
+        prisma,
+        null,
+        validatedData.userAddress,
+        permitToken.address,
+        context.executeTransaction.executorAddress
+      );
+      if (conflict) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Permit Conflict',
+          message: conflict,
+        };
+        return res.status(409).json(response);
+      }
+    }
+    
+    // Create DCA plan in database, queueing its plan.created webhooks with it
+    const dcaPlan = await prisma.$transaction(async tx => {
+      const plan = await tx.dcaPlan.create({
+        data: {
+          userAddress: validatedData.userAddress,
+          fromToken,
+          toToken,
+          kind: validatedData.kind,
+          basketLegs: validatedData.basket
+            ? validatedData.basket.map(leg => ({ toToken: leg.toToken.toUpperCase(), weight: leg.weight }))
+            : undefined,
+          targetWeights: validatedData.targetWeights
+            ? validatedData.targetWeights.map(target => ({ token: target.token.toUpperCase(), weight: target.weight }))
+            : undefined,
+          driftThreshold: isRebalance ? (validatedData.driftThreshold ?? '5') : null,
+          side: validatedData.side,
+          amount: amount,
+          intervalMinutes: validatedData.intervalMinutes ?? null,
+          scheduleType: validatedData.scheduleType,
+          cronExpression: validatedData.cronExpression ?? null,
+          calendarRule: validatedData.calendarRule ?? undefined,
+          timezone: validatedData.timezone,
+          durationWeeks,
+          startAt,
+          endAt,
+          missedRunPolicy: validatedData.missedRunPolicy,
+          nextExecution,
+          totalExecutions,
+          slippage: slippage,
+          dryRun: validatedData.dryRun,
+          strategy: validatedData.strategy,
+          targetIncrement: validatedData.targetIncrement ?? null,
+          minRunAmount: validatedData.minRunAmount ?? null,
+          maxRunAmount: validatedData.maxRunAmount ?? null,
+          minPrice: validatedData.minPrice ?? null,
+          maxPrice: validatedData.maxPrice ?? null,
+          dipTiers: validatedData.dipTiers ?? undefined,
+          movingAverageDays: validatedData.movingAverageDays,
+          status: 'ACTIVE',
+        },
+      });
+      if (validatedData.permit && permitToken) {
+        await savePlanPermit(tx, plan.id, permitToken, context!.executeTransaction!.executorAddress, validatedData.permit);
+      }
+      await emitPlanEvent(tx, 'plan.created', plan);
+      return plan;
     });
     
     const response: ApiResponse<DCAPlanResponse> = {
       success: true,
-      data: {
-        id: dcaPlan.id,
-        userAddress: dcaPlan.userAddress,
-        fromToken: dcaPlan.fromToken,
-        toToken: dcaPlan.toToken,
-        amount: dcaPlan.amount.toString(),
-        intervalMinutes: dcaPlan.intervalMinutes,
-        durationWeeks: dcaPlan.durationWeeks,
-        status: dcaPlan.status as any,
-        nextExecution: dcaPlan.nextExecution?.toISOString() || null,
-        executionCount: dcaPlan.executionCount,
-        totalExecutions: dcaPlan.totalExecutions,
-        slippage: dcaPlan.slippage.toString(),
-        createdAt: dcaPlan.createdAt.toISOString(),
-        updatedAt: dcaPlan.updatedAt.toISOString(),
-      },
+      data: formatPlan(dcaPlan, await getPlanMovingAverage(prisma, dcaPlan)),
       message: 'DCA plan created successfully',
     };
     
-    console.log(`✅ Created DCA plan: ${validatedData.fromToken} → ${validatedData.toToken} for ${validatedData.userAddress}`);
+    console.log(`✅ Created DCA plan: ${validatedData.fromToken} → ${dcaPlan.toToken} for ${validatedData.userAddress}`);
+    publishPlanState(dcaPlan);
     res.status(201).json(response);
     
   } catch (error) {
@@ -89,7 +378,7 @@ router.post('/create', async (req, res) => {
 });
 
 // Get user's DCA plans
-router.get('/plans/:userAddress', async (req, res) => {
+router.get('/plans/:userAddress', requireOwner('read:plans', req => req.params.userAddress), async (req, res) => {
   try {
     const { userAddress } = req.params;
     
@@ -118,22 +407,9 @@ router.get('/plans/:userAddress', async (req, res) => {
       },
     });
     
-    const formattedPlans: DCAPlanResponse[] = dcaPlans.map(plan => ({
-      id: plan.id,
-      userAddress: plan.userAddress,
-      fromToken: plan.fromToken,
-      toToken: plan.toToken,
-      amount: plan.amount.toString(),
-      intervalMinutes: plan.intervalMinutes,
-      durationWeeks: plan.durationWeeks,
-      status: plan.status as any,
-      nextExecution: plan.nextExecution?.toISOString() || null,
-      executionCount: plan.executionCount,
-      totalExecutions: plan.totalExecutions,
-      slippage: plan.slippage.toString(),
-      createdAt: plan.createdAt.toISOString(),
-      updatedAt: plan.updatedAt.toISOString(),
-    }));
+    const formattedPlans: DCAPlanResponse[] = await Promise.all(
+      dcaPlans.map(async plan => formatPlan(plan, await getPlanMovingAverage(prisma, plan)))
+    );
     
     const response: ApiResponse<DCAPlanResponse[]> = {
       success: true,
@@ -155,8 +431,8 @@ router.get('/plans/:userAddress', async (req, res) => {
   }
 });
 
-// Update DCA plan status
-router.put('/plans/:planId', async (req, res) => {
+// Update a DCA plan: status and/or amount, interval, slippage, end date or remaining executions
+router.put('/plans/:planId', requirePlanOwner('write:plans'), async (req, res) => {
   try {
     const { planId } = req.params;
     const validatedData = UpdateDCAPlanSchema.parse(req.body);
@@ -175,37 +451,162 @@ router.put('/plans/:planId', async (req, res) => {
       return res.status(404).json(response);
     }
     
-    // Update plan status
-    const updatedPlan = await prisma.dcaPlan.update({
-      where: { id: planId },
-      data: {
-        status: validatedData.status,
-        updatedAt: new Date(),
-      },
+    const { status, amount, intervalMinutes, slippage, endAt, remainingExecutions } = validatedData;
+    // Attributed from the credentials, never from the request body
+    const source = editSource(req.auth!);
+    const editsWindow = intervalMinutes !== undefined || endAt !== undefined || remainingExecutions !== undefined;
+    const editsParameters = editsWindow || amount !== undefined || slippage !== undefined;
+    
+    if (editsParameters && !['ACTIVE', 'AWAITING_FUNDS', 'PAUSED'].includes(existingPlan.status)) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Plan Not Editable',
+        message: `Only active, awaiting-funds or paused plans can be edited (plan is ${existingPlan.status})`,
+      };
+      return res.status(409).json(response);
+    }
+    
+    const now = new Date();
+    const data: Prisma.DcaPlanUpdateInput = { updatedAt: now };
+    if (status !== undefined) {
+      data.status = status;
+      data.pauseReason = null;
+      // Resuming gives the plan a clean slate (the user presumably fixed what made it fail)
+      if (status === 'ACTIVE') {
+        data.consecutiveFailures = 0;
+        data.retryAfter = null;
+      }
+    }
+    if (amount !== undefined) data.amount = amount;
+    if (slippage !== undefined) data.slippage = parseFloat(slippage);
+    let totalExecutions = existingPlan.totalExecutions;
+    
+    if (editsWindow) {
+      if (intervalMinutes !== undefined && existingPlan.scheduleType !== 'INTERVAL') {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Validation Error',
+          message: `intervalMinutes can only be changed on INTERVAL plans (plan uses ${existingPlan.scheduleType})`,
+        };
+        return res.status(400).json(response);
+      }
+      if (endAt !== undefined && new Date(endAt) <= now) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Validation Error',
+          message: 'endAt must be in the future',
+        };
+        return res.status(400).json(response);
+      }
+      const windowError = endAt !== undefined
+        ? scheduleWindowError(planScheduleFromRecord(existingPlan), existingPlan.nextExecution ?? now, new Date(endAt))
+        : null;
+      if (windowError) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Validation Error',
+          message: windowError,
+        };
+        return res.status(400).json(response);
+      }
+      
+      const window = recomputePlanWindow(
+        {
+          schedule: planScheduleFromRecord(existingPlan),
+          nextExecution: existingPlan.nextExecution,
+          endAt: existingPlan.endAt,
+          executionCount: existingPlan.executionCount,
+          totalExecutions: existingPlan.totalExecutions,
+        },
+        {
+          intervalMinutes,
+          endAt: endAt !== undefined ? new Date(endAt) : undefined,
+          remainingExecutions,
+        },
+        now
+      );
+      
+      if (window.remainingExecutions === 0) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Validation Error',
+          message: 'The edited schedule leaves no executions before the end date',
+        };
+        return res.status(400).json(response);
+      }
+      
+      const windowStart = existingPlan.startAt ?? existingPlan.createdAt;
+      data.intervalMinutes = window.schedule.intervalMinutes ?? null;
+      data.nextExecution = window.nextExecution;
+      data.endAt = window.endAt;
+      totalExecutions = window.totalExecutions;
+      data.totalExecutions = totalExecutions;
+      data.durationWeeks = Math.max(Math.ceil((window.endAt.getTime() - windowStart.getTime()) / WEEK_MS), 1);
+    }
+    
+    // A resumed plan picks up at its next future slot: RUN_ALL catches up on runs missed while the
+    // agent was down, not on the ones the user paused
+    const scheduledAt = (data.nextExecution as Date | undefined) ?? existingPlan.nextExecution;
+    if (status === 'ACTIVE' && existingPlan.status === 'PAUSED' && scheduledAt && scheduledAt <= now) {
+      const schedule = planScheduleFromRecord(existingPlan);
+      data.nextExecution = getNextExecutionAfterRun(
+        { ...schedule, intervalMinutes: (data.intervalMinutes as number | null | undefined) ?? schedule.intervalMinutes },
+        scheduledAt,
+        now
+      );
+    }
+    
+    // Resuming a plan or raising what it will still spend counts against the user's quota
+    const wasActive = existingPlan.status === 'ACTIVE' || existingPlan.status === 'AWAITING_FUNDS';
+    if (status === 'ACTIVE' || (wasActive && (amount !== undefined || editsWindow))) {
+      const quotaError = await checkUserPlanQuota(prisma, existingPlan.userAddress, planId, {
+        ...toQuotaPlan(existingPlan),
+        status: status ?? existingPlan.status,
+        amount: amount ?? existingPlan.amount.toFixed(),
+        remainingExecutions: totalExecutions - existingPlan.executionCount,
+      });
+      if (quotaError) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Quota Exceeded',
+          message: quotaError,
+        };
+        return res.status(429).json(response);
+      }
+    }
+    
+    // Audit trail: every field whose value actually changed
+    const changes = diffPlanFields(existingPlan, data);
+    
+    const updatedPlan = await prisma.$transaction(async tx => {
+      const plan = await tx.dcaPlan.update({
+        where: { id: planId },
+        data,
+      });
+      if (Object.keys(changes).length > 0) {
+        await tx.planEdit.create({
+          data: { planId, changes, source },
+        });
+      }
+      if (changes.status) {
+        await emitPlanEvent(tx, PLAN_STATUS_EVENTS[plan.status] ?? 'plan.updated', plan);
+      } else if (Object.keys(changes).length > 0) {
+        await emitPlanEvent(tx, 'plan.updated', plan);
+      }
+      return plan;
     });
     
+    const changedFields = Object.keys(changes);
     const response: ApiResponse<DCAPlanResponse> = {
       success: true,
-      data: {
-        id: updatedPlan.id,
-        userAddress: updatedPlan.userAddress,
-        fromToken: updatedPlan.fromToken,
-        toToken: updatedPlan.toToken,
-        amount: updatedPlan.amount.toString(),
-        intervalMinutes: updatedPlan.intervalMinutes,
-        durationWeeks: updatedPlan.durationWeeks,
-        status: updatedPlan.status as any,
-        nextExecution: updatedPlan.nextExecution?.toISOString() || null,
-        executionCount: updatedPlan.executionCount,
-        totalExecutions: updatedPlan.totalExecutions,
-        slippage: updatedPlan.slippage.toString(),
-        createdAt: updatedPlan.createdAt.toISOString(),
-        updatedAt: updatedPlan.updatedAt.toISOString(),
-      },
-      message: `DCA plan status updated to ${validatedData.status}`,
+      data: formatPlan(updatedPlan, await getPlanMovingAverage(prisma, updatedPlan)),
+      message: editsParameters
+        ? `DCA plan updated: ${changedFields.length > 0 ? changedFields.join(', ') : 'no changes'}`
+        : `DCA plan status updated to ${status}`,
     };
     
-    console.log(`✅ Updated DCA plan ${planId} status to ${validatedData.status}`);
+    console.log(`✅ Updated DCA plan ${planId} (${source}): ${changedFields.join(', ') || 'no changes'}`);
+    publishPlanState(updatedPlan);
     res.json(response);
     
   } catch (error) {
@@ -229,8 +630,246 @@ router.put('/plans/:planId', async (req, res) => {
   }
 });
 
+// Get the edit history of a plan
+router.get('/plans/:planId/edits', requirePlanOwner('read:plans'), async (req, res) => {
+  try {
+    const { planId } = req.params;
+    
+    const edits = await prisma.planEdit.findMany({
+      where: { planId },
+      orderBy: { createdAt: 'desc' },
+    });
+    
+    const formattedEdits: PlanEditResponse[] = edits.map(edit => ({
+      id: edit.id,
+      planId: edit.planId,
+      changes: edit.changes as unknown as PlanEditResponse['changes'],
+      source: edit.source,
+      createdAt: edit.createdAt.toISOString(),
+    }));
+    
+    const response: ApiResponse<PlanEditResponse[]> = {
+      success: true,
+      data: formattedEdits,
+      message: `Found ${formattedEdits.length} edits`,
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error fetching plan edits:', error);
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to fetch plan edits',
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Get cost basis, PnL and lump-sum comparison for a plan
+router.get('/plans/:planId/performance', requirePlanOwner('read:plans'), async (req, res) => {
+  try {
+    const { planId } = req.params;
+    
+    const plan = await prisma.dcaPlan.findUnique({
+      where: { id: planId },
+    });
+    
+    if (!plan) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Plan Not Found',
+        message: 'DCA plan not found',
+      };
+      return res.status(404).json(response);
+    }
+    
+    if (plan.kind === 'REBALANCE') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unsupported Plan',
+        message: 'Performance is not available for rebalancing plans',
+      };
+      return res.status(400).json(response);
+    }
+    
+    const performance = await getPlanPerformance(prisma, plan);
+    
+    const response: ApiResponse<PlanPerformanceResponse> = {
+      success: true,
+      data: performance,
+      message: `Performance across ${performance.positions.length} positions`,
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error computing plan performance:', error);
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to compute plan performance',
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Check now whether the plan's wallet can pay for its next runs (resumes a funded AWAITING_FUNDS plan)
+router.get('/plans/:planId/funding', requirePlanOwner('read:plans'), async (req, res) => {
+  try {
+    const { planId } = req.params;
+    
+    const plan = await prisma.dcaPlan.findUnique({
+      where: { id: planId },
+    });
+    
+    if (!plan) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Plan Not Found',
+        message: 'DCA plan not found',
+      };
+      return res.status(404).json(response);
+    }
+    
+    const context: DCAContext | undefined = (global as any).dcaContext;
+    if (!context) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Service Unavailable',
+        message: 'Funding checks are unavailable until the agent has started',
+      };
+      return res.status(503).json(response);
+    }
+    
+    const check = await checkPlanFunding(context, plan);
+    if (!check) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unsupported Plan',
+        message: 'This plan is not funded from the wallet (rebalancing, dry run or vault sell)',
+      };
+      return res.status(400).json(response);
+    }
+    
+    const updatedPlan = await applyFundingCheck(context, plan, check);
+    
+    const response: ApiResponse<DCAPlanResponse> = {
+      success: true,
+      data: formatPlan(updatedPlan, await getPlanMovingAverage(prisma, updatedPlan)),
+      message: check.warning ?? `Funded for the next ${check.runsCovered} runs`,
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error checking plan funding:', error);
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to check plan funding',
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Get performance across all of a user's plans
+router.get('/user/:userAddress/performance', requireOwner('read:plans', req => req.params.userAddress), async (req, res) => {
+  try {
+    const { userAddress } = req.params;
+    
+    // Validate Ethereum address format
+    if (!/^0x[a-fA-F0-9]{40}$/.test(userAddress)) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Invalid Address',
+        message: 'Invalid Ethereum address format',
+      };
+      return res.status(400).json(response);
+    }
+    
+    const performance = await getUserPerformance(prisma, userAddress);
+    
+    const response: ApiResponse<UserPerformanceResponse> = {
+      success: true,
+      data: performance,
+      message: `Performance across ${performance.plans.length} plans`,
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error computing user performance:', error);
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to compute user performance',
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Export a user's tax lots and realized gains (JSON, or one table as CSV)
+router.get('/user/:userAddress/tax-lots', requireOwner('read:plans', req => req.params.userAddress), async (req, res) => {
+  try {
+    const { userAddress } = req.params;
+    
+    // Validate Ethereum address format
+    if (!/^0x[a-fA-F0-9]{40}$/.test(userAddress)) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Invalid Address',
+        message: 'Invalid Ethereum address format',
+      };
+      return res.status(400).json(response);
+    }
+    
+    const query = TaxExportQuerySchema.parse(req.query);
+    const report = await buildTaxExport(prisma, userAddress, query);
+    
+    if (query.format === 'csv') {
+      const filename = `dca-${query.report}-${query.method.toLowerCase()}-${userAddress.slice(0, 10)}.csv`;
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      return res.send(formatTaxCsv(report, query.report));
+    }
+    
+    const response: ApiResponse<TaxExportResponse> = {
+      success: true,
+      data: report,
+      message: `Found ${report.lots.length} lots and ${report.gains.length} realized gains (${query.method})`,
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error exporting tax lots:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation Error',
+        message: (error as any).errors.map((e: any) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      };
+      return res.status(400).json(response);
+    }
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to export tax lots',
+    };
+    res.status(500).json(response);
+  }
+});
+
 // Get all execution history for a user (across all plans)
-router.get('/user/:userAddress/history', async (req, res) => {
+router.get('/user/:userAddress/history', requireOwner('read:plans', req => req.params.userAddress), async (req, res) => {
   try {
     const { userAddress } = req.params;
     const { limit = '50', offset = '0' } = req.query;
@@ -270,16 +909,7 @@ router.get('/user/:userAddress/history', async (req, res) => {
     console.log(`[DCAAPI] 🔍 Found ${executions.length} executions for user ${userAddress}`);
     
     const formattedExecutions = executions.map(execution => ({
-      id: execution.id,
-      planId: execution.planId,
-      executedAt: execution.executedAt.toISOString(),
-      fromAmount: execution.fromAmount.toString(),
-      toAmount: execution.toAmount.toString(),
-      exchangeRate: execution.exchangeRate.toString(),
-      gasFee: execution.gasFee?.toString() || null,
-      txHash: execution.txHash,
-      status: execution.status,
-      errorMessage: execution.errorMessage,
+      ...formatExecution(execution),
       // Vault-related fields  
       vaultAddress: execution.vaultAddress,
       shareTokens: execution.shareTokens?.toString() || null,
@@ -312,8 +942,44 @@ router.get('/user/:userAddress/history', async (req, res) => {
   }
 });
 
+// Stream live plan and execution updates for a user (Server-Sent Events)
+router.get('/stream/:userAddress', requireOwner('read:plans', req => req.params.userAddress), (req, res) => {
+  const { userAddress } = req.params;
+  
+  if (!/^0x[a-fA-F0-9]{40}$/.test(userAddress)) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Invalid Address',
+      message: 'Invalid Ethereum address format',
+    };
+    return res.status(400).json(response);
+  }
+  
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Keep reverse proxies from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.write(`retry: ${STREAM_RETRY_MS}\n\n`);
+  
+  const unsubscribe = subscribeLiveEvents(userAddress, event => {
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+  // Comment lines keep idle connections from being closed by proxies
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), STREAM_HEARTBEAT_MS);
+  
+  console.log(`📡 Live stream opened for ${userAddress}`);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    console.log(`📡 Live stream closed for ${userAddress}`);
+  });
+});
+
 // Get execution history for a plan
-router.get('/history/:planId', async (req, res) => {
+router.get('/history/:planId', requirePlanOwner('read:plans'), async (req, res) => {
   try {
     const { planId } = req.params;
     const { limit = '50', offset = '0' } = req.query;
@@ -332,26 +998,16 @@ router.get('/history/:planId', async (req, res) => {
       return res.status(404).json(response);
     }
     
-    // Get execution history
+    // Get execution history (basket legs are nested under their group row)
     const executions = await prisma.executionHistory.findMany({
-      where: { planId },
+      where: { planId, groupId: null },
+      include: { legs: { orderBy: { executedAt: 'asc' } } },
       orderBy: { executedAt: 'desc' },
       take: parseInt(limit as string),
       skip: parseInt(offset as string),
     });
     
-    const formattedExecutions = executions.map(execution => ({
-      id: execution.id,
-      planId: execution.planId,
-      executedAt: execution.executedAt.toISOString(),
-      fromAmount: execution.fromAmount.toString(),
-      toAmount: execution.toAmount.toString(),
-      exchangeRate: execution.exchangeRate.toString(),
-      gasFee: execution.gasFee?.toString() || null,
-      txHash: execution.txHash,
-      status: execution.status,
-      errorMessage: execution.errorMessage,
-    }));
+    const formattedExecutions = executions.map(execution => formatExecution(execution));
     
     const response: ApiResponse = {
       success: true,
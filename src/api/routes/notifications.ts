@@ -0,0 +1,217 @@
+import { Router } from 'express';
+import { prisma } from '../../services/prisma.js';
+import { requireOwner } from '../middleware/auth.js';
+import { checkOutboundUrl } from '../../utils/outboundUrls.js';
+import {
+  NotificationPreferencesSchema,
+  RegisterNotificationTokenSchema,
+  type NotificationPreferencesResponse,
+  type ApiResponse,
+} from '../../types/shared.js';
+
+const router: Router = Router();
+
+const isAddress = (value: string) => /^0x[a-fA-F0-9]{40}$/.test(value);
+
+/**
+ * A user's preferences (all notifications on when never set) and enabled token count
+ */
+async function getPreferences(userAddress: string): Promise<NotificationPreferencesResponse> {
+  const [preference, tokens] = await Promise.all([
+    prisma.notificationPreference.findUnique({ where: { userAddress } }),
+    prisma.notificationToken.count({ where: { userAddress, enabled: true } }),
+  ]);
+
+  return {
+    userAddress,
+    executions: preference?.executions ?? true,
+    failures: preference?.failures ?? true,
+    completions: preference?.completions ?? true,
+    lowAllowance: preference?.lowAllowance ?? true,
+    tokens,
+  };
+}
+
+// Register the Farcaster notification token the mini-app received for this user
+router.post('/:userAddress/tokens', requireOwner('write:plans', req => req.params.userAddress), async (req, res) => {
+  try {
+    const userAddress = req.params.userAddress.toLowerCase();
+    if (!isAddress(userAddress)) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Invalid Address',
+        message: 'Invalid Ethereum address format',
+      };
+      return res.status(400).json(response);
+    }
+    
+    const { fid, url, token } = RegisterNotificationTokenSchema.parse(req.body);
+    
+    const urlError = await checkOutboundUrl(url);
+    if (urlError) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation Error',
+        message: `url: ${urlError}`,
+      };
+      return res.status(400).json(response);
+    }
+    
+    // A token belongs to whoever registered it last
+    await prisma.notificationToken.upsert({
+      where: { notification_token_unique: { url, token } },
+      create: { userAddress, fid: fid ?? null, url, token },
+      update: { userAddress, fid: fid ?? null, enabled: true },
+    });
+    
+    console.log(`🔔 Registered Farcaster notification token for ${userAddress}${fid ? ` (fid ${fid})` : ''}`);
+    
+    const response: ApiResponse<NotificationPreferencesResponse> = {
+      success: true,
+      data: await getPreferences(userAddress),
+      message: 'Notification token registered',
+    };
+    
+    res.status(201).json(response);
+    
+  } catch (error) {
+    console.error('Error registering notification token:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation Error',
+        message: (error as any).errors.map((e: any) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      };
+      return res.status(400).json(response);
+    }
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to register notification token',
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Remove a notification token (e.g. the user disabled notifications in the mini-app)
+router.delete('/:userAddress/tokens/:token', requireOwner('write:plans', req => req.params.userAddress), async (req, res) => {
+  try {
+    const userAddress = req.params.userAddress.toLowerCase();
+    const removed = await prisma.notificationToken.deleteMany({
+      where: { userAddress, token: req.params.token },
+    });
+    
+    if (removed.count === 0) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Token Not Found',
+        message: 'Notification token not found',
+      };
+      return res.status(404).json(response);
+    }
+    
+    const response: ApiResponse<NotificationPreferencesResponse> = {
+      success: true,
+      data: await getPreferences(userAddress),
+      message: 'Notification token removed',
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error removing notification token:', error);
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to remove notification token',
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Get notification preferences
+router.get('/:userAddress/preferences', requireOwner('read:plans', req => req.params.userAddress), async (req, res) => {
+  try {
+    const userAddress = req.params.userAddress.toLowerCase();
+    if (!isAddress(userAddress)) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Invalid Address',
+        message: 'Invalid Ethereum address format',
+      };
+      return res.status(400).json(response);
+    }
+    
+    const response: ApiResponse<NotificationPreferencesResponse> = {
+      success: true,
+      data: await getPreferences(userAddress),
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to fetch notification preferences',
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Update notification preferences (omitted fields keep their value)
+router.put('/:userAddress/preferences', requireOwner('write:plans', req => req.params.userAddress), async (req, res) => {
+  try {
+    const userAddress = req.params.userAddress.toLowerCase();
+    if (!isAddress(userAddress)) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Invalid Address',
+        message: 'Invalid Ethereum address format',
+      };
+      return res.status(400).json(response);
+    }
+    
+    const validatedData = NotificationPreferencesSchema.parse(req.body);
+    
+    await prisma.notificationPreference.upsert({
+      where: { userAddress },
+      create: { userAddress, ...validatedData },
+      update: validatedData,
+    });
+    
+    const response: ApiResponse<NotificationPreferencesResponse> = {
+      success: true,
+      data: await getPreferences(userAddress),
+      message: 'Notification preferences updated',
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error updating notification preferences:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation Error',
+        message: (error as any).errors.map((e: any) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      };
+      return res.status(400).json(response);
+    }
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to update notification preferences',
+    };
+    res.status(500).json(response);
+  }
+});
+
+export { router as notificationRoutes };
@@ -0,0 +1,268 @@
+import { Router } from 'express';
+import { parseUnits, type Address } from 'viem';
+import type { DCAContext } from '../../context/types.js';
+import { prisma } from '../../services/prisma.js';
+import { requireOwner, requirePlanOwner } from '../middleware/auth.js';
+import {
+  buildPermitTypedData,
+  checkPermitConflict,
+  formatPlanPermit,
+  getPermitNonce,
+  hasPermit2Approval,
+  planPermitToken,
+  resolvePermitToken,
+  savePlanPermit,
+  verifyPlanPermit,
+} from '../../services/permits.js';
+import { serializeTypedData } from '../../utils/permits.js';
+import { decimalsOf } from '../../utils/tokens.js';
+import {
+  PlanPermitSchema,
+  PreparePermitSchema,
+  type ApiResponse,
+  type PlanPermitResponse,
+  type PreparedPermitResponse,
+} from '../../types/shared.js';
+
+const router: Router = Router();
+
+/**
+ * The agent context, once the agent is running with an executor to grant permits to
+ */
+function executorContext(): DCAContext | null {
+  const context: DCAContext | undefined = (global as any).dcaContext;
+  return context?.executeTransaction ? context : null;
+}
+
+const unavailable: ApiResponse = {
+  success: false,
+  error: 'Service Unavailable',
+  message: 'Permits are unavailable until the agent has started with transaction execution enabled',
+};
+
+// Build the typed data a user signs to grant a plan's budget with a permit
+router.post('/prepare', requireOwner('write:plans', req => req.body?.userAddress), async (req, res) => {
+  try {
+    const { userAddress, kind, token: symbol, budget, expiresAt } = PreparePermitSchema.parse(req.body);
+    
+    const context = executorContext();
+    if (!context) {
+      return res.status(503).json(unavailable);
+    }
+    
+    const token = resolvePermitToken(context, symbol);
+    if (!token) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation Error',
+        message: `Unknown token ${symbol}`,
+      };
+      return res.status(400).json(response);
+    }
+    
+    const deadline = BigInt(Math.floor(new Date(expiresAt).getTime() / 1000));
+    if (deadline <= BigInt(Math.floor(Date.now() / 1000))) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation Error',
+        message: 'expiresAt must be in the future',
+      };
+      return res.status(400).json(response);
+    }
+    
+    const owner = userAddress as Address;
+    const spender = context.executeTransaction!.executorAddress;
+    const amount = parseUnits(budget, decimalsOf(token));
+    const nonce = await getPermitNonce(context, kind, token, owner, spender);
+    const typedData = await buildPermitTypedData(context, token, { kind, owner, spender, amount, nonce, deadline });
+    
+    const response: ApiResponse<PreparedPermitResponse> = {
+      success: true,
+      data: {
+        kind,
+        token: token.symbol,
+        tokenAddress: token.address,
+        spender,
+        amount: amount.toString(),
+        nonce: nonce.toString(),
+        deadline: deadline.toString(),
+        typedData: serializeTypedData(typedData),
+        requiresPermit2Approval: kind === 'PERMIT2' && !(await hasPermit2Approval(context, token, owner, amount)),
+      },
+      message: 'Sign typedData and send it back with kind, amount, nonce and deadline',
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error preparing permit:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation Error',
+        message: (error as any).errors.map((e: any) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      };
+      return res.status(400).json(response);
+    }
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to prepare permit',
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Get the permit stored for a plan
+router.get('/plans/:planId', requirePlanOwner('read:plans'), async (req, res) => {
+  try {
+    const permit = await prisma.planPermit.findUnique({
+      where: { planId: req.params.planId },
+    });
+    
+    if (!permit) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Permit Not Found',
+        message: 'This plan has no permit',
+      };
+      return res.status(404).json(response);
+    }
+    
+    const response: ApiResponse<PlanPermitResponse> = {
+      success: true,
+      data: formatPlanPermit(permit),
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error fetching plan permit:', error);
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to fetch plan permit',
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Attach a signed permit to a plan, replacing its previous one (e.g. to renew or raise it)
+router.put('/plans/:planId', requirePlanOwner('write:plans'), async (req, res) => {
+  try {
+    const { planId } = req.params;
+    const permit = PlanPermitSchema.parse(req.body);
+    
+    const plan = await prisma.dcaPlan.findUnique({
+      where: { id: planId },
+    });
+    
+    if (!plan) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Plan Not Found',
+        message: 'DCA plan not found',
+      };
+      return res.status(404).json(response);
+    }
+    
+    const context = executorContext();
+    if (!context) {
+      return res.status(503).json(unavailable);
+    }
+    
+    const token = planPermitToken(context, plan);
+    const permitError = token
+      ? await verifyPlanPermit(context, token, plan.userAddress, permit)
+      : 'Rebalancing plans swap in place and take no permit';
+    if (!token || permitError) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Invalid Permit',
+        message: permitError ?? 'Invalid permit',
+      };
+      return res.status(400).json(response);
+    }
+    
+    const conflict = await checkPermitConflict(prisma, planId, plan.userAddress, token.address, context.executeTransaction!.executorAddress);
+    if (conflict) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Permit Conflict',
+        message: conflict,
+      };
+      return res.status(409).json(response);
+    }
+    
+    const saved = await savePlanPermit(prisma, planId, token, context.executeTransaction!.executorAddress, permit);
+    
+    console.log(`🔏 Stored ${permit.kind} permit for plan ${planId}`);
+    
+    const response: ApiResponse<PlanPermitResponse> = {
+      success: true,
+      data: formatPlanPermit(saved),
+      message: 'Permit stored',
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error storing plan permit:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation Error',
+        message: (error as any).errors.map((e: any) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      };
+      return res.status(400).json(response);
+    }
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to store plan permit',
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Stop using a plan's permit (an allowance already submitted on-chain stays until revoked)
+router.delete('/plans/:planId', requirePlanOwner('write:plans'), async (req, res) => {
+  try {
+    const removed = await prisma.planPermit.deleteMany({
+      where: { planId: req.params.planId },
+    });
+    
+    if (removed.count === 0) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Permit Not Found',
+        message: 'This plan has no permit',
+      };
+      return res.status(404).json(response);
+    }
+    
+    const response: ApiResponse = {
+      success: true,
+      message: 'Permit removed',
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error removing plan permit:', error);
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to remove plan permit',
+    };
+    res.status(500).json(response);
+  }
+});
+
+export { router as permitRoutes };
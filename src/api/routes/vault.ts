@@ -11,6 +11,8 @@ import { getVaultMapping } from '../../utils/vaultUtils.js';
 import { createWalletClient, createPublicClient, http, erc20Abi, formatUnits, type Address } from 'viem';
 import { arbitrum } from 'viem/chains';
 import { privateKeyToAccount } from 'viem/accounts';
+import { requireOwner } from '../middleware/auth.js';
+import { emitWebhookEvent } from '../../services/webhooks.js';
 
 const router: express.Router = express.Router();
 const prisma = new PrismaClient();
@@ -19,7 +21,7 @@ const prisma = new PrismaClient();
  * Withdraw ALL user's vault shares from ALL vaults and transfer underlying tokens to user
  * POST /api/vault/withdraw/:userAddress
  */
-router.post('/withdraw/:userAddress', async (req, res) => {
+router.post('/withdraw/:userAddress', requireOwner('vault:withdraw', req => req.params.userAddress), async (req, res) => {
   try {
     const { userAddress } = req.params;
     
@@ -196,6 +198,12 @@ router.post('/withdraw/:userAddress', async (req, res) => {
       return res.status(500).json(response);
     }
 
+    await emitWebhookEvent(prisma, 'vault.withdrawn', userAddress, {
+      vaultsProcessed: totalVaultsProcessed,
+      totalVaults: allUserHoldings.length,
+      withdrawals: withdrawalResults,
+    }).catch(error => console.error('[VaultAPI] ❌ Failed to queue vault.withdrawn webhook:', error));
+
     const response: ApiResponse = {
       success: true,
       data: {
@@ -224,7 +232,7 @@ router.post('/withdraw/:userAddress', async (req, res) => {
  * Get user's vault holdings
  * GET /api/vault/holdings/:userAddress
  */
-router.get('/holdings/:userAddress', async (req, res) => {
+router.get('/holdings/:userAddress', requireOwner('read:plans', req => req.params.userAddress), async (req, res) => {
   try {
     const { userAddress } = req.params;
     
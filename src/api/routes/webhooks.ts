@@ -0,0 +1,235 @@
+import { Router, type Request, type Response } from 'express';
+import type { WebhookSubscription } from '@prisma/client';
+import { prisma } from '../../services/prisma.js';
+import { canActFor, hasScope } from '../../services/auth.js';
+import {
+  createWebhookSubscription,
+  formatWebhookDelivery,
+  formatWebhookSubscription,
+} from '../../services/webhooks.js';
+import { requireOwner } from '../middleware/auth.js';
+import { checkOutboundUrl } from '../../utils/outboundUrls.js';
+import {
+  CreateWebhookSchema,
+  type WebhookDeliveryResponse,
+  type WebhookSubscriptionResponse,
+  type ApiResponse,
+} from '../../types/shared.js';
+
+const router: Router = Router();
+
+/**
+ * Load a subscription the caller may manage: their own, or a global one for admins.
+ * Sends the 404/403 and returns null otherwise.
+ */
+async function findManagedSubscription(req: Request<{ subscriptionId: string }>, res: Response): Promise<WebhookSubscription | null> {
+  const subscription = await prisma.webhookSubscription.findUnique({
+    where: { id: req.params.subscriptionId },
+  });
+
+  if (!subscription) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Webhook Not Found',
+      message: 'Webhook subscription not found',
+    };
+    res.status(404).json(response);
+    return null;
+  }
+
+  const allowed = subscription.userAddress
+    ? canActFor(req.auth!, subscription.userAddress)
+    : hasScope(req.auth!, 'admin');
+  if (!allowed) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Forbidden',
+      message: 'You can only manage your own webhooks',
+    };
+    res.status(403).json(response);
+    return null;
+  }
+
+  return subscription;
+}
+
+// Subscribe a URL to events - the signing secret is only returned here
+router.post('/', requireOwner('write:plans', req => req.body?.userAddress), async (req, res) => {
+  try {
+    const validatedData = CreateWebhookSchema.parse(req.body);
+    
+    if (validatedData.global && !hasScope(req.auth!, 'admin')) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Forbidden',
+        message: 'Only admins can subscribe to every user\'s events',
+      };
+      return res.status(403).json(response);
+    }
+    
+    const userAddress = validatedData.global ? null : (validatedData.userAddress ?? req.auth!.address);
+    if (!validatedData.global && !userAddress) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation Error',
+        message: 'userAddress is required when the caller is not signed in as an address',
+      };
+      return res.status(400).json(response);
+    }
+    
+    const urlError = await checkOutboundUrl(validatedData.url);
+    if (urlError) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation Error',
+        message: `url: ${urlError}`,
+      };
+      return res.status(400).json(response);
+    }
+    
+    const subscription = await createWebhookSubscription(prisma, validatedData.url, validatedData.events, userAddress);
+    
+    console.log(`🪝 Created webhook ${subscription.id} → ${subscription.url} (${subscription.events.join(', ')}) for ${userAddress ?? 'all users'}`);
+    
+    const response: ApiResponse<WebhookSubscriptionResponse> = {
+      success: true,
+      data: formatWebhookSubscription(subscription, true),
+      message: 'Webhook created - store the signing secret now, it cannot be shown again',
+    };
+    
+    res.status(201).json(response);
+    
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation Error',
+        message: (error as any).errors.map((e: any) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      };
+      return res.status(400).json(response);
+    }
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to create webhook',
+    };
+    res.status(500).json(response);
+  }
+});
+
+// List webhooks: an address's (?userAddress=, default the caller's), or all of them for admins
+router.get('/', requireOwner('read:plans', req => req.query.userAddress), async (req, res) => {
+  try {
+    // requireOwner has checked it is a single valid address when present
+    const queryAddress = req.query.userAddress;
+    const userAddress = (typeof queryAddress === 'string' ? queryAddress : undefined) ?? req.auth!.address;
+    const isAdmin = hasScope(req.auth!, 'admin');
+    
+    if (!userAddress && !isAdmin) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation Error',
+        message: 'userAddress query parameter is required',
+      };
+      return res.status(400).json(response);
+    }
+    
+    const subscriptions = await prisma.webhookSubscription.findMany({
+      where: userAddress ? { userAddress: { equals: userAddress, mode: 'insensitive' } } : {},
+      orderBy: { createdAt: 'desc' },
+    });
+    
+    const response: ApiResponse<WebhookSubscriptionResponse[]> = {
+      success: true,
+      data: subscriptions.map(subscription => formatWebhookSubscription(subscription)),
+      message: `Found ${subscriptions.length} webhooks`,
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error listing webhooks:', error);
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to list webhooks',
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Recent deliveries of a webhook, newest first
+router.get('/:subscriptionId/deliveries', requireOwner('read:plans', () => undefined), async (req, res) => {
+  try {
+    const subscription = await findManagedSubscription(req, res);
+    if (!subscription) {
+      return;
+    }
+    
+    const limit = Math.min((typeof req.query.limit === 'string' && parseInt(req.query.limit, 10)) || 50, 200);
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { subscriptionId: subscription.id },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+    
+    const response: ApiResponse<WebhookDeliveryResponse[]> = {
+      success: true,
+      data: deliveries.map(formatWebhookDelivery),
+      message: `Found ${deliveries.length} deliveries`,
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to fetch webhook deliveries',
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Deactivate a webhook; its delivery log is kept and pending deliveries are dropped
+router.delete('/:subscriptionId', requireOwner('write:plans', () => undefined), async (req, res) => {
+  try {
+    const subscription = await findManagedSubscription(req, res);
+    if (!subscription) {
+      return;
+    }
+    
+    const updated = await prisma.webhookSubscription.update({
+      where: { id: subscription.id },
+      data: { active: false },
+    });
+    
+    console.log(`🪝 Deactivated webhook ${subscription.id} (${subscription.url})`);
+    
+    const response: ApiResponse<WebhookSubscriptionResponse> = {
+      success: true,
+      data: formatWebhookSubscription(updated),
+      message: 'Webhook deactivated',
+    };
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Error deactivating webhook:', error);
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to deactivate webhook',
+    };
+    res.status(500).json(response);
+  }
+});
+
+export { router as webhookRoutes };
@@ -4,9 +4,22 @@ import { prisma, getDatabaseHealth } from '../services/prisma.js';
 import { dcaRoutes } from './routes/dca.js';
 import vaultRoutes from './routes/vault.js';
 import { statusRoutes } from './routes/status.js';
+import { authRoutes } from './routes/auth.js';
+import { apiKeyRoutes } from './routes/apiKeys.js';
+import { webhookRoutes } from './routes/webhooks.js';
+import { notificationRoutes } from './routes/notifications.js';
+import { permitRoutes } from './routes/permits.js';
+import { approvalRoutes } from './routes/approvals.js';
+import { authenticate } from './middleware/auth.js';
+import { rateLimitByIp, rateLimitByPrincipal } from './middleware/rateLimit.js';
 
 const app: express.Application = express();
 
+// Behind a load balancer, trust its X-Forwarded-For so rate limits see client IPs
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', /^\d+$/.test(process.env.TRUST_PROXY) ? parseInt(process.env.TRUST_PROXY, 10) : process.env.TRUST_PROXY);
+}
+
 // Middleware
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
@@ -15,8 +28,8 @@ app.use(express.urlencoded({ extended: true }));
 const corsOrigin = process.env.CORS_ORIGIN || 'http://localhost:3000';
 app.use(cors({
   origin: corsOrigin,
-  methods: ['POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
   credentials: true,
 }));
 
@@ -40,7 +53,20 @@ app.get('/health', async (req, res) => {
   }
 });
 
+// Rate limits apply to everything below (the health check above is exempt)
+app.use(rateLimitByIp);
+
+// Attach the principal of the session token or API key (if any) to every request
+app.use(authenticate);
+app.use(rateLimitByPrincipal);
+
 // API Routes
+app.use('/api/auth', authRoutes);
+app.use('/api/keys', apiKeyRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/permits', permitRoutes);
+app.use('/api/approvals', approvalRoutes);
 app.use('/api/dca', dcaRoutes);
 app.use('/api/vault', vaultRoutes);
 app.use('/api/status', statusRoutes);
@@ -53,6 +79,8 @@ app.get('/', (req, res) => {
     description: 'Multi-user DCA automation platform',
     endpoints: {
       health: '/health',
+      auth: '/api/auth/*',
+      keys: '/api/keys/*',
       dca: '/api/dca/*',
       vault: '/api/vault/*',
       status: '/api/status/*',
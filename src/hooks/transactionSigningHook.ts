@@ -1,8 +1,23 @@
 import { createSuccessTask, createErrorTask } from 'arbitrum-vibekit-core';
 import type { AfterHook } from './withHooks.js';
 import type { DCAContext } from '../context/types.js';
-import { VaultInteractions } from '../utils/vaultInteractions.js';
 import { getVaultMapping } from '../utils/vaultUtils.js';
+import {
+  createPendingExecution,
+  completePendingExecution,
+  failPendingExecution,
+  advancePlanAfterExecution,
+  recordSimulatedExecution,
+} from '../services/executionRecords.js';
+import { computeExecutionPricing } from '../utils/swapSettlement.js';
+import {
+  depositSwapOutput,
+  reportPendingVaultDeposit,
+  returnRedeemedTokens,
+  type VaultDeposit,
+} from '../services/vaultPositions.js';
+import { emitExecutionEvent } from '../services/webhooks.js';
+import { publishLiveEvent, refreshPlanState } from '../services/liveEvents.js';
 
 /**
  * Transaction execution result interface
@@ -12,6 +27,21 @@ interface TransactionResult {
   [key: string]: any;
 }
 
+/**
+ * Whether the receipt of a broadcast transaction shows it reverted (false while it is unknown or pending)
+ */
+async function swapReverted(context: DCAContext, txHash: string): Promise<boolean> {
+  const { createPublicClient, http } = await import('viem');
+  const { arbitrum } = await import('viem/chains');
+
+  const publicClient = createPublicClient({
+    chain: arbitrum,
+    transport: http(context.config.arbitrumRpcUrl)
+  });
+  const receipt = await publicClient.getTransactionReceipt({ hash: txHash as `0x${string}` }).catch(() => null);
+  return receipt?.status === 'reverted';
+}
+
 /**
  * After hook for secure transaction signing and execution using Vibekit's withHooks pattern.
  * This hook handles the transaction signing and execution for blockchain operations.
@@ -26,10 +56,20 @@ export const transactionSigningAfterHook: AfterHook<TransactionResult, any, DCAC
   context,
   args
 ) => {
+  // ID of the PENDING execution row written once the swap transaction is broadcast
+  let pendingExecutionId: string | null = null;
+  // Every transaction broadcast so far (approvals, then the swap)
+  const broadcastTxHashes: string[] = [];
+  let swapTxHash: string | null = null;
+
   try {
     // Extract transactions and DCA-specific data from the result
     console.log("result in transactionSigningAfterHook", result);
     const { transactions, planId, fromToken, toToken, fromAmount, toAmount, exchangeRate, userAddress, ...otherData } = result;
+    // Legs of a grouped run are recorded under their group row, which advances the plan
+    const groupId: string | null = result.executionGroupId || null;
+    const legFromToken: string | null = groupId ? fromToken : null;
+    const legToken: string | null = groupId ? toToken : null;
     
     // Get user address from either the result or args (support both legacy and new parameter names)
     const finalUserAddress = userAddress || args.userAddress || args.walletAddress;
@@ -45,6 +85,63 @@ export const transactionSigningAfterHook: AfterHook<TransactionResult, any, DCAC
       throw new Error('Transaction executor not available');
     }
 
+    // The tool checks the calldata against the plan's tokens before moving any funds; without
+    // them nothing was checked, so refuse to sign (or simulate)
+    if (!result.settlementTokens) {
+      throw new Error('Unsafe swap calldata blocked: the swap was prepared without its token details, so its calldata was not checked');
+    }
+
+    // Dry run: simulate every transaction, record the outcome, broadcast nothing
+    if (result.dryRun) {
+      const funding = result.simulationFunding
+        ? { ...result.simulationFunding, amount: BigInt(result.simulationFunding.amount) }
+        : undefined;
+      const simulation = await context.custom.executeTransaction.simulateDCASwap(
+        planId || `${finalUserAddress}-transaction`,
+        transactions,
+        funding
+      );
+
+      if (planId) {
+        const simulatedRecord = await recordSimulatedExecution(context.custom.prisma, {
+          planId,
+          fromAmount,
+          toAmount,
+          exchangeRate,
+          simulation,
+          vaultAddress: result.vaultAddress,
+          groupId,
+          legFromToken,
+          legToken,
+        });
+        console.log(`📝 [withHooks] SIMULATED execution recorded: ${simulatedRecord.id}`);
+      }
+
+      const failedStep = simulation.transactions.find(step => !step.success);
+      publishLiveEvent(finalUserAddress, simulation.success ? 'execution.succeeded' : 'execution.failed', planId || null, {
+        dryRun: true,
+        fromToken,
+        toToken,
+        fromAmount,
+        toAmount,
+        gasCostEth: simulation.gasCostEth,
+        ...(failedStep && { error: failedStep.error }),
+      });
+
+      if (!simulation.success) {
+        return createErrorTask(
+          'executeDCASwap',
+          new Error(`Dry run failed at transaction ${(failedStep?.index ?? 0) + 1}/${simulation.transactions.length}: ${failedStep?.error}`)
+        );
+      }
+
+      return createSuccessTask(
+        'executeDCASwap',
+        [],
+        `Dry run passed: ${fromAmount} ${fromToken} → ~${toAmount} ${toToken} (estimated gas: ${simulation.gasUsed}, ~${simulation.gasCostEth} ETH). Nothing was broadcast.`
+      );
+    }
+
     // Pre-execution: measure executor's toToken balance BEFORE swap
     let balanceBefore = BigInt(0);
     let vaultMapping = null;
@@ -75,13 +172,50 @@ export const transactionSigningAfterHook: AfterHook<TransactionResult, any, DCAC
     
     const executionResult = await context.custom.executeTransaction.executeDCASwap(
       planId || `${finalUserAddress}-transaction`, 
-      transactions
+      transactions,
+      {
+        // Decode what the swap actually paid and delivered from its receipt logs
+        settlement: {
+          ...result.settlementTokens,
+          payer: executorAddress,
+          recipient: result.recipient || finalUserAddress,
+        },
+        // Persist a PENDING row as soon as the swap (the last transaction) is on-chain, so a
+        // crash before its receipt arrives can be reconciled on restart instead of re-executing
+        // the plan. Approvals alone don't move funds, so a crash after one just reruns the plan.
+        onBroadcast: async (txHash, index, total) => {
+          broadcastTxHashes.push(txHash);
+          publishLiveEvent(finalUserAddress, 'tx.broadcast', planId || null, { txHash });
+          if (index !== total - 1) return;
+          swapTxHash = txHash;
+          if (!planId) return;
+          const pendingRecord = await createPendingExecution(context.custom.prisma, {
+            planId,
+            txHash,
+            priorTxHashes: broadcastTxHashes.slice(0, -1),
+            fromAmount,
+            toAmount,
+            exchangeRate,
+            vaultAddress: result.vaultAddress || result.vaultRedemption?.vaultAddress,
+            groupId,
+            legFromToken,
+            legToken,
+          });
+          pendingExecutionId = pendingRecord.id;
+          console.log(`📝 [withHooks] PENDING execution recorded: ${pendingRecord.id} (tx: ${txHash})`);
+        },
+      }
     );
 
     console.log(`✅ [withHooks] Transaction executed: ${executionResult.txHash}`);
+    publishLiveEvent(finalUserAddress, 'tx.confirmed', planId || null, {
+      txHash: executionResult.txHash,
+      gasCostEth: executionResult.gasCostEth,
+    });
 
     // Handle vault deposit if the toToken has vault support
-    let vaultDepositResult = null;
+    let vaultDepositResult: VaultDeposit | null = null;
+    let vaultDepositError: string | null = null;
     let actualTokensReceived = '0';
     
     if (result.hasVaultSupport && result.vaultAddress && vaultMapping) {
@@ -114,175 +248,164 @@ export const transactionSigningAfterHook: AfterHook<TransactionResult, any, DCAC
       
       // Only deposit if we received tokens from the swap
       if (tokensReceivedWei > 0) {
-        const vaultInteractions = new VaultInteractions(
-          context.custom.executeTransaction.executorAccount,
-          context.custom.config.arbitrumRpcUrl
-        );
-        
-        vaultDepositResult = await vaultInteractions.depositToVault(
-          vaultMapping.tokenAddress as any,
-          result.vaultAddress as any,
-          actualTokensReceived, // Use exact amount received from swap
-          vaultMapping.decimals,
-          finalUserAddress as any
-        );
-      } else {
-        console.log(`⚠️ [withHooks] No ${toToken} received from swap (diff: ${tokensReceivedWei.toString()}) - skipping vault deposit`);
-      }
-      
-      if (vaultDepositResult && vaultDepositResult.success) {
-        console.log(`✅ [withHooks] Vault deposit successful: ${vaultDepositResult.shareTokens} shares`);
-        
-        // Update user vault holdings - INCREMENT shares, don't overwrite
-        // Use proper string-based arithmetic to prevent precision loss
-        const shareTokensReceived = vaultDepositResult.shareTokens;
-        
         try {
-          const existingHolding = await context.custom.prisma.userVaultHoldings.findUnique({
-            where: {
-              user_vault_unique: {
-                userAddress: finalUserAddress,
-                vaultAddress: result.vaultAddress,
-              },
-            },
+          vaultDepositResult = await depositSwapOutput(context.custom, finalUserAddress, toToken, actualTokensReceived);
+          console.log(`✅ [withHooks] Vault deposit successful: ${vaultDepositResult.shareTokens} shares`);
+          publishLiveEvent(finalUserAddress, 'vault.deposited', planId || null, {
+            vaultAddress: result.vaultAddress,
+            token: toToken,
+            amount: actualTokensReceived,
+            shareTokens: vaultDepositResult.shareTokens,
+            depositTxHash: vaultDepositResult.depositTxHash,
           });
-          
-          if (existingHolding) {
-            // User already has holdings - increment the share tokens
-            // Convert to BigInt for precise addition, then back to string
-            const { parseUnits, formatUnits } = await import('viem');
-            
-            // Get vault decimals for proper conversion
-            if (vaultMapping) {
-              const currentSharesWei = parseUnits(existingHolding.shareTokens.toString(), vaultMapping.decimals);
-              const receivedSharesWei = parseUnits(shareTokensReceived, vaultMapping.decimals);
-              const newTotalWei = currentSharesWei + receivedSharesWei;
-              const newTotalHuman = formatUnits(newTotalWei, vaultMapping.decimals);
-              
-              await context.custom.prisma.userVaultHoldings.update({
-                where: {
-                  user_vault_unique: {
-                    userAddress: finalUserAddress,
-                    vaultAddress: result.vaultAddress,
-                  },
-                },
-                data: {
-                  shareTokens: newTotalHuman,
-                  updatedAt: new Date(),
-                },
-              });
-              
-              console.log(`📝 [withHooks] Incremented vault holdings: ${existingHolding.shareTokens} + ${shareTokensReceived} = ${newTotalHuman} shares`);
-            } else {
-              // Fallback to simple string concatenation if no vault mapping (shouldn't happen)
-              console.warn(`⚠️ [withHooks] No vault mapping found for precision arithmetic, using parseFloat fallback`);
-              const currentShares = parseFloat(existingHolding.shareTokens.toString());
-              const receivedShares = parseFloat(shareTokensReceived);
-              const newTotal = currentShares + receivedShares;
-              
-              await context.custom.prisma.userVaultHoldings.update({
-                where: {
-                  user_vault_unique: {
-                    userAddress: finalUserAddress,
-                    vaultAddress: result.vaultAddress,
-                  },
-                },
-                data: {
-                  shareTokens: newTotal.toString(),
-                  updatedAt: new Date(),
-                },
-              });
-              
-              console.log(`📝 [withHooks] Incremented vault holdings: ${currentShares} + ${receivedShares} = ${newTotal} shares`);
-            }
-          } else {
-            // First time user - create new holding record
-            await context.custom.prisma.userVaultHoldings.create({
-              data: {
-                userAddress: finalUserAddress,
-                vaultAddress: result.vaultAddress,
-                shareTokens: shareTokensReceived,
-                tokenSymbol: toToken,
-              },
-            });
-            
-            console.log(`📝 [withHooks] Created new vault holding: ${shareTokensReceived} shares`);
-          }
-        } catch (dbError) {
-          console.error(`❌ [withHooks] Failed to update vault holdings:`, dbError);
+        } catch (error) {
+          // The swap output stays on the executor; the row is flagged and the reconciler retries the deposit
+          vaultDepositError = error instanceof Error ? error.message : String(error);
+          console.error(`❌ [withHooks] ${vaultDepositError}`);
         }
       } else {
-        console.error(`❌ [withHooks] Vault deposit failed: ${vaultDepositResult?.error || 'Unknown error'}`);
+        console.log(`⚠️ [withHooks] No ${toToken} received from swap (diff: ${tokensReceivedWei.toString()}) - skipping vault deposit`);
       }
     }
 
-    // Record in database only if we have a valid planId (for DCA plan executions)
-    let executionRecord = null;
-    if (planId) {
-      executionRecord = await context.custom.prisma.executionHistory.create({
-        data: {
-          planId: planId,
-          fromAmount: fromAmount || '0',
-          toAmount: toAmount || '0',
-          exchangeRate: exchangeRate || '0',
-          // Store total gas cost in ETH as string (reusing existing gasFee column)
-          gasFee: executionResult.gasCostEth,
-          txHash: executionResult.txHash,
-          status: 'SUCCESS',
-          // Vault-related fields
-          vaultAddress: result.vaultAddress || null,
-          shareTokens: vaultDepositResult?.shareTokens || null,
-          depositTxHash: vaultDepositResult?.depositTxHash || null,
-        },
-      });
-      console.log(`📝 [withHooks] Success recorded in database: ${executionRecord.id}`);
-    } else {
-      console.log(`📝 [withHooks] No planId provided - skipping database recording (standalone swap)`);
+    // Realized amounts replace the quote; fall back to the quote if nothing could be decoded
+    const hasSettlement = parseFloat(executionResult.toAmount) > 0;
+    const realizedFromAmount = hasSettlement ? executionResult.fromAmount : fromAmount;
+    const realizedToAmount = hasSettlement ? executionResult.toAmount : toAmount;
+    const pricing = hasSettlement
+      ? computeExecutionPricing(fromAmount, toAmount, realizedFromAmount, realizedToAmount)
+      : null;
+    if (pricing) {
+      console.log(`📐 [withHooks] Realized ${realizedToAmount} ${toToken} vs quoted ${toAmount} (slippage ${pricing.slippagePercent !== null ? `${pricing.slippagePercent}%` : 'unknown'})`);
     }
 
-    // Update plan
+    // Finalize the execution record and advance the plan (only for DCA plan executions)
     if (planId) {
-      const plan = await context.custom.prisma.dcaPlan.findUnique({
-        where: { id: planId },
-      });
+      const completedData = {
+        txHash: executionResult.txHash,
+        // Store total gas cost in ETH as string (reusing existing gasFee column)
+        gasFee: executionResult.gasCostEth,
+        fromAmount: realizedFromAmount || '0',
+        toAmount: realizedToAmount || '0',
+        exchangeRate: pricing?.exchangeRate ?? (exchangeRate || '0'),
+        realizedSlippage: pricing?.slippagePercent ?? null,
+        // Shares deposited for a buy, or redeemed for a vault sell
+        shareTokens: vaultDepositResult?.shareTokens || result.vaultRedemption?.sharesRedeemed || null,
+        depositTxHash: vaultDepositResult?.depositTxHash || null,
+        depositPending: vaultDepositError !== null,
+        errorMessage: vaultDepositError,
+      };
 
-      if (plan) {
-        const newExecutionCount = plan.executionCount + 1;
-        // Set next execution based on interval from now
-        const nextExecution = new Date(Date.now() + plan.intervalMinutes * 60 * 1000);
-        const isCompleted = newExecutionCount >= plan.totalExecutions;
-
-        await context.custom.prisma.dcaPlan.update({
-          where: { id: planId },
-          data: {
-            executionCount: newExecutionCount,
-            nextExecution: isCompleted ? null : nextExecution,
-            status: isCompleted ? 'COMPLETED' : 'ACTIVE',
-            updatedAt: new Date(),
-          },
+      let executionId: string | null = pendingExecutionId;
+      if (pendingExecutionId) {
+        const finalized = await completePendingExecution(context.custom.prisma, pendingExecutionId, completedData);
+        console.log(finalized
+          ? `📝 [withHooks] Success recorded in database: ${pendingExecutionId}`
+          : `📝 [withHooks] Execution ${pendingExecutionId} was already finalized by the reconciler`);
+      } else {
+        // The PENDING write failed at broadcast time - record the outcome directly
+        const executionRecord = await context.custom.prisma.$transaction(async tx => {
+          const record = await tx.executionHistory.create({
+            data: {
+              planId: planId,
+              quotedToAmount: toAmount || null,
+              quotedExchangeRate: exchangeRate || null,
+              ...completedData,
+              broadcastTxHashes,
+              status: 'SUCCESS',
+              vaultAddress: result.vaultAddress || result.vaultRedemption?.vaultAddress || null,
+              groupId,
+              legFromToken,
+              legToken,
+            },
+          });
+          if (!groupId) {
+            await emitExecutionEvent(tx, record.id);
+            await advancePlanAfterExecution(tx, planId);
+          }
+          return record;
         });
+        console.log(`📝 [withHooks] Success recorded in database: ${executionRecord.id}`);
+        executionId = executionRecord.id;
+      }
 
-        console.log(`📊 [withHooks] Plan updated: ${newExecutionCount}/${plan.totalExecutions} executions`);
-        if (!isCompleted) {
-          console.log(`⏰ [withHooks] Next execution scheduled for: ${nextExecution.toISOString()}`);
-        }
+      if (vaultDepositError && executionId) {
+        await reportPendingVaultDeposit(context.custom.prisma, finalUserAddress, planId, {
+          executionId,
+          vaultAddress: result.vaultAddress,
+          token: toToken,
+          amount: actualTokensReceived,
+          error: vaultDepositError,
+        }).catch(reportError => console.error('❌ [withHooks] Failed to report pending vault deposit:', reportError));
       }
+    } else {
+      console.log(`📝 [withHooks] No planId provided - skipping database recording (standalone swap)`);
+    }
+
+    publishLiveEvent(finalUserAddress, 'execution.succeeded', planId || null, {
+      fromToken,
+      toToken,
+      fromAmount: realizedFromAmount,
+      toAmount: realizedToAmount,
+      txHash: executionResult.txHash,
+    });
+    if (planId) {
+      await refreshPlanState(context.custom.prisma, planId);
     }
 
     // Return success task with execution details
     return createSuccessTask(
       'executeDCASwap',
       [],
-      `DCA swap executed: ${fromAmount} ${fromToken} → ${toAmount} ${toToken} (tx: ${executionResult.txHash})`
+      `DCA swap executed: ${realizedFromAmount} ${fromToken} → ${realizedToAmount} ${toToken} (tx: ${executionResult.txHash})`
     );
 
   } catch (error) {
     console.error('❌ [withHooks] Transaction signing/execution failed:', error);
+
+    // Once the swap is on-chain only a reverted receipt proves it failed. Anything else (receipt
+    // timeout, vault deposit or bookkeeping errors) leaves the execution PENDING for the reconciler,
+    // which also keeps the scheduler from swapping again in the meantime.
+    const swapFailed = swapTxHash ? await swapReverted(context.custom, swapTxHash) : true;
+
+    // Tokens redeemed from a vault for this sell go back to the user rather than idling on the executor
+    // (only if the swap never went through - one that may still settle can spend them)
+    if (result.vaultRedemption && swapFailed && context.custom.executeTransaction) {
+      const ownerAddress = result.userAddress || args.userAddress || args.walletAddress;
+      await returnRedeemedTokens(context.custom, ownerAddress, result.vaultRedemption).catch(returnError =>
+        console.error('❌ [withHooks] Failed to return redeemed vault tokens to user:', returnError)
+      );
+    }
     
     // Record failure only if we have a valid planId
     try {
-      if (result.planId && context.custom.prisma) {
-        await context.custom.prisma.executionHistory.create({
+      if (!swapFailed) {
+        if (!pendingExecutionId && result.planId && context.custom.prisma) {
+          // The PENDING write failed at broadcast time - the reconciler needs the row
+          const pendingRecord = await createPendingExecution(context.custom.prisma, {
+            planId: result.planId,
+            txHash: swapTxHash!,
+            priorTxHashes: broadcastTxHashes.slice(0, -1),
+            fromAmount: result.fromAmount,
+            toAmount: result.toAmount,
+            exchangeRate: result.exchangeRate,
+            vaultAddress: result.vaultAddress || result.vaultRedemption?.vaultAddress,
+            groupId: result.executionGroupId || null,
+            legFromToken: result.executionGroupId ? result.fromToken : null,
+            legToken: result.executionGroupId ? result.toToken : null,
+          });
+          pendingExecutionId = pendingRecord.id;
+        }
+        console.log(`[withHooks] 📝 Left execution ${pendingExecutionId ?? '(standalone swap)'} PENDING for reconciliation (tx: ${swapTxHash})`);
+      } else if (pendingExecutionId) {
+        await failPendingExecution(
+          context.custom.prisma,
+          pendingExecutionId,
+          error instanceof Error ? error.message : String(error)
+        );
+        console.log(`[withHooks] 📝 Marked PENDING execution ${pendingExecutionId} as FAILED`);
+      } else if (result.planId && context.custom.prisma) {
+        const failed = await context.custom.prisma.executionHistory.create({
           data: {
             planId: result.planId,
             fromAmount: args.amount || '0',
@@ -290,10 +413,15 @@ export const transactionSigningAfterHook: AfterHook<TransactionResult, any, DCAC
             exchangeRate: '0',
             gasFee: null,
             txHash: null,
+            broadcastTxHashes,
             status: 'FAILED',
             errorMessage: error instanceof Error ? error.message : String(error),
+            groupId: result.executionGroupId || null,
+            legFromToken: result.executionGroupId ? result.fromToken : null,
+            legToken: result.executionGroupId ? result.toToken : null,
           },
         });
+        await emitExecutionEvent(context.custom.prisma, failed.id);
         console.log('[withHooks] 📝 Recorded FAILED execution in database');
       } else {
         console.log('[withHooks] 📝 No planId for failed execution - skipping database recording (standalone swap)');
@@ -301,6 +429,15 @@ export const transactionSigningAfterHook: AfterHook<TransactionResult, any, DCAC
     } catch (dbError) {
       console.error('❌ [withHooks] Database error:', dbError);
     }
+
+    const failedUserAddress = result.userAddress || args.userAddress || args.walletAddress;
+    if (failedUserAddress) {
+      publishLiveEvent(failedUserAddress, 'execution.failed', result.planId || null, {
+        fromToken: result.fromToken,
+        toToken: result.toToken,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
     
     return createErrorTask(
       'executeDCASwap',
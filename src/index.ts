@@ -12,6 +12,10 @@ import { contextProvider } from './context/provider.js';
 import { agentConfig } from './config.js';
 import { app as apiServer } from './api/server.js';
 import { DCAScheduler } from './services/scheduler.js';
+import { WebhookDispatcher } from './services/webhooks.js';
+import { FarcasterNotifier } from './services/notifications.js';
+import { prisma } from './services/prisma.js';
+import { assertAuthConfigured, authenticateSkillCaller } from './services/auth.js';
 
 // Skills - implemented and planned
 // import { dcaSwappingSkill } from './skills/dca-swapping.js';
@@ -37,6 +41,13 @@ if (!selectedProvider) {
   process.exit(1);
 }
 
+try {
+  assertAuthConfigured();
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
+
 const modelOverride = process.env.LLM_MODEL;
 
 // Export agent configuration for testing
@@ -50,6 +61,8 @@ const agent = Agent.create(agentConfig, {
   llm: {
     model: modelOverride ? selectedProvider!(modelOverride) : selectedProvider!(process.env.LLM_MODEL || 'deepseek/deepseek-chat-v3-0324:free'),
   },
+  // Skill callers sign in through their MCP request headers; tools only see the resolved principal
+  authenticateCaller: headers => authenticateSkillCaller(prisma, headers),
 });
 
 // Start the agent
@@ -68,6 +81,14 @@ async function startAgent() {
       console.log(`❤️  Health Check: http://localhost:${API_PORT}/health`);
     });
 
+    // Deliver queued webhook events
+    webhookDispatcher = new WebhookDispatcher(prisma);
+    webhookDispatcher.start();
+
+    // Farcaster notifications for swaps, failures, completions and low allowances
+    farcasterNotifier = new FarcasterNotifier(prisma);
+    farcasterNotifier.start();
+
     // Start the MCP agent
     await agent.start(PORT, async deps => {
 
@@ -113,6 +134,9 @@ async function startAgent() {
       const llmModel = selectedProvider!(modelOverride);
       const context = await contextProvider({ ...updatedDeps, llmModel });
 
+      // Expose context for API price quotes (performance analytics)
+      (global as any).dcaContext = context;
+
       // Start the DCA scheduler if transaction execution is enabled
       if (context.executeTransaction && process.env.ENABLE_SCHEDULER !== 'false') {
         console.log('🤖 Starting DCA scheduler...');
@@ -200,6 +224,8 @@ async function startAgent() {
 // Store API server instance and scheduler for graceful shutdown
 let apiServerInstance: any = null;
 let dcaScheduler: DCAScheduler | null = null;
+let webhookDispatcher: WebhookDispatcher | null = null;
+let farcasterNotifier: FarcasterNotifier | null = null;
 
 // Graceful shutdown handling
 const shutdown = async (signal: string) => {
@@ -214,6 +240,17 @@ const shutdown = async (signal: string) => {
       dcaScheduler = null;
     }
 
+    if (webhookDispatcher) {
+      webhookDispatcher.stop();
+      webhookDispatcher = null;
+    }
+
+    if (farcasterNotifier) {
+      farcasterNotifier.stop();
+      await farcasterNotifier.flush();
+      farcasterNotifier = null;
+    }
+
     // Close API server
     if (apiServerInstance) {
       await new Promise<void>((resolve) => {
@@ -0,0 +1,135 @@
+/**
+ * API Keys
+ *
+ * Long-lived keys for service clients that can't sign a SIWE message. A key carries
+ * scopes and may be pinned to one address; only its SHA-256 is stored, so the full key
+ * is shown once, when it is created or rotated. Rotation keeps the key's id and settings
+ * and replaces its secret, invalidating the old one immediately.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { ApiKey, PrismaClient } from '@prisma/client';
+import type { ApiKeyResponse, ApiScope, CreateApiKeyRequest } from '../types/shared.js';
+import type { AuthPrincipal } from './auth.js';
+
+export const API_KEY_PREFIX = 'dca_';
+
+const KEY_PREFIX_LENGTH = 12;
+// Don't write lastUsedAt more often than this per key
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const hashKey = (key: string) => createHash('sha256').update(key).digest('hex');
+
+function generateKey(): { key: string; keyHash: string; keyPrefix: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  return { key, keyHash: hashKey(key), keyPrefix: key.slice(0, KEY_PREFIX_LENGTH) };
+}
+
+/**
+ * Format a key for API responses (never includes the hash)
+ */
+export function formatApiKey(apiKey: ApiKey, key?: string): ApiKeyResponse {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    keyPrefix: apiKey.keyPrefix,
+    scopes: apiKey.scopes as ApiScope[],
+    address: apiKey.address,
+    createdBy: apiKey.createdBy,
+    expiresAt: apiKey.expiresAt?.toISOString() ?? null,
+    lastUsedAt: apiKey.lastUsedAt?.toISOString() ?? null,
+    rotatedAt: apiKey.rotatedAt?.toISOString() ?? null,
+    revokedAt: apiKey.revokedAt?.toISOString() ?? null,
+    createdAt: apiKey.createdAt.toISOString(),
+    ...(key && { key }),
+  };
+}
+
+/**
+ * Create a key
+ * @returns the stored key and the full secret, which can't be recovered later
+ */
+export async function createApiKey(
+  prisma: PrismaClient,
+  request: CreateApiKeyRequest,
+  createdBy: string | null
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const { key, keyHash, keyPrefix } = generateKey();
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      name: request.name,
+      keyHash,
+      keyPrefix,
+      scopes: [...new Set(request.scopes)],
+      address: request.address?.toLowerCase() ?? null,
+      createdBy,
+      expiresAt: request.expiresAt ? new Date(request.expiresAt) : null,
+    },
+  });
+  return { apiKey, key };
+}
+
+/**
+ * Replace a key's secret
+ * @returns null if the key doesn't exist or was revoked
+ */
+export async function rotateApiKey(prisma: PrismaClient, keyId: string): Promise<{ apiKey: ApiKey; key: string } | null> {
+  const { key, keyHash, keyPrefix } = generateKey();
+  const updated = await prisma.apiKey.updateMany({
+    where: { id: keyId, revokedAt: null },
+    data: { keyHash, keyPrefix, rotatedAt: new Date() },
+  });
+  if (updated.count === 0) {
+    return null;
+  }
+  const apiKey = await prisma.apiKey.findUniqueOrThrow({ where: { id: keyId } });
+  return { apiKey, key };
+}
+
+/**
+ * Revoke a key
+ * @returns null if the key doesn't exist
+ */
+export async function revokeApiKey(prisma: PrismaClient, keyId: string): Promise<ApiKey | null> {
+  await prisma.apiKey.updateMany({
+    where: { id: keyId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return prisma.apiKey.findUnique({ where: { id: keyId } });
+}
+
+/**
+ * Resolve a presented key to its principal (null if unknown, expired or revoked)
+ */
+export async function resolveApiKey(prisma: PrismaClient, key: string): Promise<AuthPrincipal | null> {
+  return principalOf(prisma, await prisma.apiKey.findUnique({ where: { keyHash: hashKey(key) } }));
+}
+
+/**
+ * Resolve a key by id, for API calls the agent makes for a caller it already authenticated
+ */
+export async function resolveApiKeyById(prisma: PrismaClient, keyId: string): Promise<AuthPrincipal | null> {
+  return principalOf(prisma, await prisma.apiKey.findUnique({ where: { id: keyId } }));
+}
+
+async function principalOf(prisma: PrismaClient, apiKey: ApiKey | null): Promise<AuthPrincipal | null> {
+  const now = new Date();
+  if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+    return null;
+  }
+
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await prisma.apiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: now } });
+  }
+
+  const scopes = apiKey.scopes as ApiScope[];
+  return {
+    kind: 'apiKey',
+    address: apiKey.address,
+    role: scopes.includes('admin') ? 'ADMIN' : 'USER',
+    sessionId: null,
+    apiKeyId: apiKey.id,
+    scopes,
+    viaAgent: false,
+  };
+}
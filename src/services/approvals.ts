@@ -0,0 +1,149 @@
+/**
+ * Executor Approvals
+ *
+ * Sizes the executor's router approvals (utils/approvals.ts) and keeps an inventory of what
+ * the executor has approved: the router and vaults for every token a plan spends or buys.
+ * Admins can revoke any allowance, e.g. one left unlimited by an older release.
+ */
+
+import type { DcaPlan } from '@prisma/client';
+import { createPublicClient, createWalletClient, erc20Abi, formatUnits, http, type Address, type Hash, type PublicClient } from 'viem';
+import { arbitrum } from 'viem/chains';
+import type { DCAContext, TokenInfo } from '../context/types.js';
+import type { BasketLeg, ExecutorApprovalResponse, TargetWeight } from '../types/shared.js';
+import { isUnlimitedAllowance, ROUTER_ADDRESS, routerApprovalAmount } from '../utils/approvals.js';
+import { parseNotionalCaps } from '../utils/quotas.js';
+import { getVaultAddress } from '../utils/vaultUtils.js';
+import { decimalsOf } from '../utils/tokens.js';
+
+const APPROVAL_CAPS = parseNotionalCaps(process.env.ROUTER_APPROVAL_CAPS);
+
+const CHAIN_ID = 42161;
+
+export interface RevokedApproval {
+  previousAllowance: bigint;
+  // null when there was nothing to revoke
+  txHash: Hash | null;
+}
+
+const publicClientFor = (context: DCAContext): PublicClient => createPublicClient({
+  chain: arbitrum,
+  transport: http(context.config.arbitrumRpcUrl),
+}) as PublicClient;
+
+/**
+ * How much the executor approves the router for a swap of `required` atomic units of `token`
+ */
+export function routerApprovalFor(token: TokenInfo, required: bigint): bigint {
+  return routerApprovalAmount(required, token.symbol, decimalsOf(token), APPROVAL_CAPS);
+}
+
+/**
+ * Every token symbol a plan can make the executor spend
+ */
+function planTokens(plan: Pick<DcaPlan, 'fromToken' | 'toToken' | 'basketLegs' | 'targetWeights'>): string[] {
+  const legs = (plan.basketLegs as unknown as BasketLeg[] | null) ?? [];
+  const targets = (plan.targetWeights as unknown as TargetWeight[] | null) ?? [];
+  return [plan.fromToken, plan.toToken, ...legs.map(leg => leg.toToken), ...targets.map(target => target.token)];
+}
+
+/**
+ * The executor's current allowances to the router and vaults, per token the plans use
+ * @param includeZero - also list pairs with nothing approved
+ */
+export async function listExecutorApprovals(context: DCAContext, includeZero: boolean = false): Promise<ExecutorApprovalResponse[]> {
+  if (!context.executeTransaction) {
+    throw new Error('Transaction executor not available');
+  }
+  const owner = context.executeTransaction.executorAddress;
+
+  const plans = await context.prisma.dcaPlan.findMany({
+    select: { fromToken: true, toToken: true, basketLegs: true, targetWeights: true },
+  });
+  const tokens = new Map<string, TokenInfo>();
+  for (const symbol of new Set(plans.flatMap(planTokens).map(symbol => symbol.toUpperCase()))) {
+    const token = context.tokenMap[symbol]?.find(candidate => candidate.chainId === CHAIN_ID);
+    if (token) {
+      tokens.set(token.address.toLowerCase(), token);
+    }
+  }
+
+  const pairs = [...tokens.values()].flatMap(token => {
+    const vault = getVaultAddress(token.symbol);
+    return [
+      { token, spender: ROUTER_ADDRESS, spenderLabel: 'router' as const },
+      ...(vault ? [{ token, spender: vault as Address, spenderLabel: 'vault' as const }] : []),
+    ];
+  });
+  if (pairs.length === 0) {
+    return [];
+  }
+
+  const allowances = await publicClientFor(context).multicall({
+    contracts: pairs.map(pair => ({
+      address: pair.token.address as Address,
+      abi: erc20Abi,
+      functionName: 'allowance' as const,
+      args: [owner, pair.spender] as const,
+    })),
+  });
+
+  return pairs.flatMap((pair, index) => {
+    const result = allowances[index];
+    if (result?.status !== 'success') {
+      console.warn(`[Approvals] ⚠️ Could not read ${pair.token.symbol} allowance to ${pair.spender}: ${result?.error?.message}`);
+      return [];
+    }
+    const allowance = result.result as bigint;
+    if (allowance === 0n && !includeZero) {
+      return [];
+    }
+    return [{
+      token: pair.token.symbol,
+      tokenAddress: pair.token.address,
+      spender: pair.spender,
+      spenderLabel: pair.spenderLabel,
+      allowance: formatUnits(allowance, decimalsOf(pair.token)),
+      atomicAllowance: allowance.toString(),
+      unlimited: isUnlimitedAllowance(allowance),
+    }];
+  });
+}
+
+/**
+ * Set the executor's allowance of `tokenAddress` to `spender` back to zero
+ */
+export async function revokeExecutorApproval(context: DCAContext, tokenAddress: Address, spender: Address): Promise<RevokedApproval> {
+  if (!context.executeTransaction) {
+    throw new Error('Transaction executor not available');
+  }
+  const account = context.executeTransaction.executorAccount;
+  const publicClient = publicClientFor(context);
+
+  const previousAllowance = await publicClient.readContract({
+    address: tokenAddress,
+    abi: erc20Abi,
+    functionName: 'allowance',
+    args: [account.address, spender],
+  });
+  if (previousAllowance === 0n) {
+    return { previousAllowance, txHash: null };
+  }
+
+  const { request } = await publicClient.simulateContract({
+    account,
+    address: tokenAddress,
+    abi: erc20Abi,
+    functionName: 'approve',
+    args: [spender, 0n],
+  });
+  const walletClient = createWalletClient({ account, chain: arbitrum, transport: http(context.config.arbitrumRpcUrl) });
+  const txHash = await walletClient.writeContract(request);
+  const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+  if (receipt.status === 'reverted') {
+    throw new Error(`Revoke transaction ${txHash} reverted`);
+  }
+
+  console.log(`[Approvals] 🔒 Revoked ${tokenAddress} allowance to ${spender}: ${txHash}`);
+  return { previousAllowance, txHash };
+}
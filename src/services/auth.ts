@@ -0,0 +1,307 @@
+/**
+ * API Authentication
+ *
+ * Users sign in with Ethereum (EIP-4361): they fetch a single-use nonce, sign a SIWE
+ * message containing it, and exchange message + signature for an opaque bearer token.
+ * Signatures are verified against Arbitrum with ERC-6492, so smart-contract wallets can
+ * sign in as well as EOAs. Only a SHA-256 of each token is stored.
+ *
+ * Service clients use scoped API keys instead (see apiKeys.ts). Skill calls to the agent carry
+ * the same credentials in their MCP request headers; the agent resolves them to a principal
+ * before any tool runs, so the credential never reaches the tools or the model. Tools call the
+ * API over localhost for that principal: a per-process token, never persisted, vouches for the
+ * call, and the principal's session or key is looked up again, so revoking it stops the agent too.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { createPublicClient, http, type Hex } from 'viem';
+import { arbitrum } from 'viem/chains';
+import { generateSiweNonce, parseSiweMessage, verifySiweMessage } from 'viem/siwe';
+import type { AuthRole, AuthSession, PrismaClient } from '@prisma/client';
+import type { ApiScope } from '../types/shared.js';
+import { API_KEY_PREFIX, resolveApiKey, resolveApiKeyById } from './apiKeys.js';
+
+const NONCE_TTL_MS = 10 * 60 * 1000;
+const SESSION_TTL_MS = parseInt(process.env.SESSION_TTL_HOURS || '24', 10) * 60 * 60 * 1000;
+
+// Addresses that are given the ADMIN role when they sign in
+const ADMIN_ADDRESSES = (process.env.ADMIN_ADDRESSES || '')
+  .split(',')
+  .map(address => address.trim().toLowerCase())
+  .filter(Boolean);
+
+const AGENT_TOKEN = randomBytes(32).toString('hex');
+
+// Returned by the agent's tools when the skill was invoked without the user's credentials
+export const AGENT_SIGN_IN_REQUIRED = 'Sign in with Ethereum or use an API key, and send it as the Authorization header of your MCP requests, so the agent can act for you';
+
+// Domain SIWE messages must be issued for; required so messages signed for other sites are refused
+const SIWE_DOMAIN = process.env.SIWE_DOMAIN?.trim() || null;
+
+export interface AuthPrincipal {
+  kind: 'session' | 'apiKey';
+  // Signed-in address, or an API key's address restriction, lowercased (null: none)
+  address: string | null;
+  role: AuthRole;
+  sessionId: string | null;
+  apiKeyId: string | null;
+  // Scopes of an API key (null: not limited by scope)
+  scopes: ApiScope[] | null;
+  // Made by the agent's tools on the user's behalf
+  viaAgent: boolean;
+}
+
+export interface IssuedSession {
+  token: string;
+  address: string;
+  role: AuthRole;
+  expiresAt: Date;
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+/**
+ * Headers for the agent's API calls on behalf of the principal who invoked a skill
+ */
+export function agentAuthHeaders(principal: AuthPrincipal): Record<string, string> {
+  const reference = principal.kind === 'session' ? `session:${principal.sessionId}` : `apiKey:${principal.apiKeyId}`;
+  return { 'X-Agent-Token': AGENT_TOKEN, 'X-Agent-Principal': reference };
+}
+
+/**
+ * Whether a presented X-Agent-Token is this process's agent token
+ */
+function isAgentToken(token: string | undefined): boolean {
+  if (!token) {
+    return false;
+  }
+  const agentToken = Buffer.from(AGENT_TOKEN);
+  const candidate = Buffer.from(token);
+  return candidate.length === agentToken.length && timingSafeEqual(candidate, agentToken);
+}
+
+/**
+ * Refuse to start without SIWE_DOMAIN
+ * @throws when SIWE_DOMAIN is not set
+ */
+export function assertAuthConfigured(): void {
+  if (!SIWE_DOMAIN) {
+    throw new Error('SIWE_DOMAIN is not set; set it to the domain users sign in from (e.g. app.example.com)');
+  }
+}
+
+/**
+ * Whether a principal may read or change data owned by `address`
+ */
+export function canActFor(principal: AuthPrincipal, address: string): boolean {
+  if (principal.role === 'ADMIN') {
+    return true;
+  }
+  // Unrestricted API keys act for any address
+  if (principal.kind === 'apiKey' && principal.address === null) {
+    return true;
+  }
+  return principal.address === address.toLowerCase();
+}
+
+/**
+ * Who an edit made by a principal is attributed to in the audit trail
+ */
+export function editSource(principal: AuthPrincipal): 'agent' | 'admin' | 'api-key' | 'user' {
+  if (principal.viaAgent) {
+    return 'agent';
+  }
+  if (principal.role === 'ADMIN') {
+    return 'admin';
+  }
+  return principal.kind === 'apiKey' ? 'api-key' : 'user';
+}
+
+/**
+ * Whether a principal holds a scope; sessions hold every scope but admin,
+ * which comes with the ADMIN role
+ */
+export function hasScope(principal: AuthPrincipal, scope: ApiScope): boolean {
+  if (principal.scopes === null) {
+    return scope !== 'admin' || principal.role === 'ADMIN';
+  }
+  return principal.scopes.includes(scope) || principal.scopes.includes('admin');
+}
+
+/**
+ * Create a single-use SIWE nonce
+ */
+export async function issueNonce(prisma: PrismaClient): Promise<{ nonce: string; expiresAt: Date }> {
+  const nonce = generateSiweNonce();
+  const expiresAt = new Date(Date.now() + NONCE_TTL_MS);
+
+  // Drop nonces that expired a while ago so the table stays small
+  await prisma.authNonce.deleteMany({ where: { expiresAt: { lt: new Date(Date.now() - NONCE_TTL_MS) } } });
+  await prisma.authNonce.create({ data: { nonce, expiresAt } });
+
+  return { nonce, expiresAt };
+}
+
+/**
+ * Verify a signed SIWE message and open a session for its address
+ */
+export async function loginWithSiwe(
+  prisma: PrismaClient,
+  message: string,
+  signature: Hex
+): Promise<IssuedSession | { error: string }> {
+  let parsed: ReturnType<typeof parseSiweMessage>;
+  try {
+    parsed = parseSiweMessage(message);
+  } catch {
+    return { error: 'Malformed SIWE message' };
+  }
+  if (!SIWE_DOMAIN) {
+    return { error: 'Sign-in is not configured (SIWE_DOMAIN is not set)' };
+  }
+  if (!parsed.address || !parsed.nonce) {
+    return { error: 'SIWE message is missing its address or nonce' };
+  }
+
+  const publicClient = createPublicClient({
+    chain: arbitrum,
+    transport: http(process.env.ARBITRUM_RPC_URL || 'https://arb1.arbitrum.io/rpc'),
+  });
+  const valid = await verifySiweMessage(publicClient, {
+    message,
+    signature,
+    nonce: parsed.nonce,
+    domain: SIWE_DOMAIN,
+  });
+  if (!valid) {
+    return { error: 'Invalid SIWE signature or message' };
+  }
+
+  // Consume the nonce atomically so a signed message can only be used once
+  const now = new Date();
+  const consumed = await prisma.authNonce.updateMany({
+    where: { nonce: parsed.nonce, usedAt: null, expiresAt: { gt: now } },
+    data: { usedAt: now },
+  });
+  if (consumed.count === 0) {
+    return { error: 'Unknown, expired or already used nonce' };
+  }
+
+  const address = parsed.address.toLowerCase();
+  const role: AuthRole = ADMIN_ADDRESSES.includes(address) ? 'ADMIN' : 'USER';
+  const maxExpiry = now.getTime() + SESSION_TTL_MS;
+  const expiresAt = new Date(Math.min(maxExpiry, parsed.expirationTime?.getTime() ?? maxExpiry));
+  const token = randomBytes(32).toString('hex');
+
+  await prisma.authSession.create({
+    data: { tokenHash: hashToken(token), address, role, expiresAt },
+  });
+
+  return { token, address, role, expiresAt };
+}
+
+/**
+ * Resolve a bearer token or API key to its principal (null if unknown, expired or revoked)
+ */
+export async function resolveToken(prisma: PrismaClient, token: string): Promise<AuthPrincipal | null> {
+  if (token.startsWith(API_KEY_PREFIX)) {
+    return resolveApiKey(prisma, token);
+  }
+  return sessionPrincipal(await prisma.authSession.findUnique({ where: { tokenHash: hashToken(token) } }));
+}
+
+/**
+ * Resolve the principal an API call from the agent's tools is made for
+ * @param agentToken - the request's X-Agent-Token; nothing resolves without this process's token
+ * @param reference - the request's X-Agent-Principal (`session:<id>` or `apiKey:<id>`)
+ */
+export async function resolveAgentPrincipal(
+  prisma: PrismaClient,
+  agentToken: string,
+  reference: string
+): Promise<AuthPrincipal | null> {
+  if (!isAgentToken(agentToken)) {
+    return null;
+  }
+  const [kind, id] = reference.split(':');
+  if (!id) {
+    return null;
+  }
+  const principal = kind === 'session'
+    ? sessionPrincipal(await prisma.authSession.findUnique({ where: { id } }))
+    : kind === 'apiKey'
+      ? await resolveApiKeyById(prisma, id)
+      : null;
+  return principal && { ...principal, viaAgent: true };
+}
+
+function sessionPrincipal(session: AuthSession | null): AuthPrincipal | null {
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+    return null;
+  }
+  return {
+    kind: 'session',
+    address: session.address,
+    role: session.role,
+    sessionId: session.id,
+    apiKeyId: null,
+    scopes: null,
+    viaAgent: false,
+  };
+}
+
+/**
+ * Resolve who invoked a skill from the `Authorization: Bearer` or `X-API-Key` header of the MCP request
+ * @returns null for an anonymous call (tools acting for a user then refuse)
+ * @throws when credentials are presented but are invalid, expired or revoked
+ */
+export async function authenticateSkillCaller(
+  prisma: PrismaClient,
+  headers: IncomingHttpHeaders
+): Promise<AuthPrincipal | null> {
+  const [scheme, bearer] = headers.authorization?.split(' ') ?? [];
+  const apiKey = headers['x-api-key'];
+  const token = scheme === 'Bearer' ? bearer : typeof apiKey === 'string' ? apiKey : undefined;
+  if (!token) {
+    return null;
+  }
+
+  const principal = await resolveToken(prisma, token);
+  if (!principal) {
+    throw new Error('Invalid, expired or revoked credentials');
+  }
+  return { ...principal, viaAgent: true };
+}
+
+/**
+ * Check that the principal who invoked an agent skill may act for `address` with `scope`,
+ * for tools that act directly rather than through the API
+ * @returns an error message, or null if allowed
+ */
+export function authorizeSkillCaller(
+  principal: AuthPrincipal | undefined,
+  address: string,
+  scope: ApiScope
+): string | null {
+  if (!principal) {
+    return AGENT_SIGN_IN_REQUIRED;
+  }
+  if (!hasScope(principal, scope)) {
+    return `Missing scope ${scope}`;
+  }
+  if (!canActFor(principal, address)) {
+    return `These credentials can't act for ${address}`;
+  }
+  return null;
+}
+
+/**
+ * Revoke a session (logout)
+ */
+export async function revokeSession(prisma: PrismaClient, sessionId: string): Promise<void> {
+  await prisma.authSession.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
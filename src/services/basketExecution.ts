@@ -0,0 +1,186 @@
+/**
+ * Basket Execution
+ *
+ * Runs one slot of a basket plan: the run amount is split across the plan's legs by
+ * weight and each leg is swapped with the same executeDCASwap tool as single-token plans.
+ * The legs are recorded under a PENDING group row that is settled once all of them have
+ * an outcome, so the plan advances once per run however many legs succeeded.
+ * A run whose legs all failed can be left open and retried under the same group.
+ * Rebalancing runs reuse the same grouping for their swaps (see executeSwapGroup).
+ */
+
+import type { DcaPlan, ExecutionStatus } from '@prisma/client';
+import type { Message, Task } from '@google-a2a/types';
+import { TaskState } from '@google-a2a/types';
+import type { DCAContext } from '../context/types.js';
+import type { BasketLeg } from '../types/shared.js';
+import { applyMultiplier } from '../utils/priceConditions.js';
+import { executeDCASwapTool } from '../tools/executeDCASwap.js';
+import { createBasketExecution, finalizeBasketExecution, reopenBasketExecution } from './executionRecords.js';
+
+export interface BasketRunOptions {
+  slippage: string;
+  dryRun: boolean;
+  // Group of an earlier attempt of this run, left open because all its legs failed
+  groupId?: string;
+  // false leaves the group open when every leg fails, for the caller to retry (default true)
+  finalizeFailed?: boolean;
+}
+
+export interface GroupedSwap {
+  fromToken: string;
+  toToken: string;
+  amount: string;
+}
+
+export interface SwapGroupOptions extends BasketRunOptions {
+  // false delivers vault-supported tokens to the wallet instead of depositing them
+  depositToVault?: boolean;
+}
+
+export interface BasketLegOutcome {
+  fromToken: string;
+  toToken: string;
+  amount: string;
+  success: boolean;
+  message: string;
+}
+
+export interface BasketRunResult {
+  groupId: string;
+  // Settled group status (null while a leg is pending, or when the group was left open for a retry)
+  status: ExecutionStatus | null;
+  legs: BasketLegOutcome[];
+}
+
+/**
+ * Split a run amount across basket legs by weight, rounded down to the token's decimals
+ */
+export function splitBasketAmount(amount: string, legs: BasketLeg[], decimals?: number): string[] {
+  return legs.map(leg => applyMultiplier(amount, leg.weight / 100, decimals));
+}
+
+/**
+ * Read success and the text message out of the swap tool's Task | Message result
+ */
+function describeToolResult(result: Task | Message): { success: boolean; message: string } {
+  if (result.kind === 'task') {
+    const part = result.status.message?.parts?.[0];
+    return {
+      success: result.status.state === TaskState.Completed,
+      message: part && part.kind === 'text' ? part.text : result.status.state,
+    };
+  }
+  const part = result.parts?.[0];
+  return { success: true, message: part && part.kind === 'text' ? part.text : 'Swap completed' };
+}
+
+/**
+ * Swap every leg of a basket plan for one run and settle the group
+ */
+export async function runBasket(
+  context: DCAContext,
+  plan: Pick<DcaPlan, 'id' | 'userAddress' | 'fromToken'>,
+  legs: BasketLeg[],
+  amount: string,
+  options: BasketRunOptions
+): Promise<BasketRunResult> {
+  if (legs.length === 0) {
+    throw new Error(`Plan ${plan.id} has no basket legs`);
+  }
+
+  const fromDecimals = context.tokenMap[plan.fromToken.toUpperCase()]
+    ?.find(token => token.chainId === 42161)?.decimals;
+  const legAmounts = splitBasketAmount(amount, legs, fromDecimals);
+
+  return executeSwapGroup(
+    context,
+    plan,
+    legs.map((leg, index) => ({ fromToken: plan.fromToken, toToken: leg.toToken, amount: legAmounts[index] ?? '0' })),
+    amount,
+    options
+  );
+}
+
+/**
+ * Run a set of swaps as the legs of one grouped execution and settle the group
+ * @param groupFromAmount - what the group row reports as spent until it is settled
+ */
+export async function executeSwapGroup(
+  context: DCAContext,
+  plan: Pick<DcaPlan, 'id' | 'userAddress'>,
+  swaps: GroupedSwap[],
+  groupFromAmount: string,
+  options: SwapGroupOptions
+): Promise<BasketRunResult> {
+  const reopened = options.groupId ? await reopenBasketExecution(context.prisma, options.groupId, swaps.length) : null;
+  const group = reopened ?? await createBasketExecution(context.prisma, {
+    planId: plan.id,
+    fromAmount: groupFromAmount,
+    legCount: swaps.length,
+  });
+  console.log(`[Basket] 🧺 Running ${swaps.length} leg(s) for plan ${plan.id} (${group.id}): ${swaps.map(swap => `${swap.amount} ${swap.fromToken} → ${swap.toToken}`).join(', ')}`);
+
+  const outcomes: BasketLegOutcome[] = [];
+  for (const [index, swap] of swaps.entries()) {
+    let outcome: { success: boolean; message: string };
+
+    if (parseFloat(swap.amount) <= 0) {
+      outcome = { success: false, message: `Leg amount rounds down to zero ${swap.fromToken}` };
+    } else {
+      try {
+        const toolResult = await executeDCASwapTool.execute(
+          {
+            planId: plan.id,
+            executionGroupId: group.id,
+            walletAddress: plan.userAddress,
+            amount: swap.amount,
+            amountType: 'exactIn',
+            toChain: 'Arbitrum One',
+            fromChain: 'Arbitrum One',
+            fromToken: swap.fromToken,
+            toToken: swap.toToken,
+            slippage: options.slippage,
+            dryRun: options.dryRun,
+            depositToVault: options.depositToVault,
+          },
+          { custom: context } as any
+        );
+        outcome = describeToolResult(toolResult);
+      } catch (error) {
+        outcome = { success: false, message: error instanceof Error ? error.message : String(error) };
+      }
+    }
+
+    // Legs that failed before the signing hook ran have no row yet
+    const recorded = await context.prisma.executionHistory.count({
+      where: { groupId: group.id, executedAt: { gte: group.executedAt } },
+    });
+    if (recorded <= index) {
+      await context.prisma.executionHistory.create({
+        data: {
+          planId: plan.id,
+          groupId: group.id,
+          legFromToken: swap.fromToken,
+          legToken: swap.toToken,
+          fromAmount: swap.amount,
+          toAmount: '0',
+          exchangeRate: '0',
+          status: 'FAILED',
+          errorMessage: outcome.message,
+        },
+      });
+    }
+
+    console.log(`[Basket] ${outcome.success ? '✅' : '❌'} Leg ${index + 1}/${swaps.length} (${swap.amount} ${swap.fromToken} → ${swap.toToken}): ${outcome.message}`);
+    outcomes.push({ ...swap, ...outcome });
+  }
+
+  if (options.finalizeFailed === false && outcomes.every(outcome => !outcome.success)) {
+    console.log(`[Basket] 🔁 Every leg of ${group.id} failed, leaving it open for a retry`);
+    return { groupId: group.id, status: null, legs: outcomes };
+  }
+
+  const status = await finalizeBasketExecution(context.prisma, group.id, { force: true });
+  return { groupId: group.id, status, legs: outcomes };
+}
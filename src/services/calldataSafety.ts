@@ -0,0 +1,95 @@
+/**
+ * Swap Calldata Safety
+ *
+ * Runs the checks of utils/calldataSafety.ts on a swap plan from Ember before any funds
+ * move for it (the user's tokens are pulled and the router approved only afterwards).
+ * Transactions that don't match their plan are recorded in blocked_transactions and the
+ * swap is refused, so the run fails as UNSAFE_CALLDATA without being retried. With CALLDATA_SAFETY_MODE=log
+ * mismatches are recorded but the swap is signed anyway (for rolling out new routers).
+ * Routers other than the default one are allowed with SWAP_ROUTER_ALLOWLIST. Router calls the
+ * checks can't decode are refused too, unless ALLOW_UNDECODED_ROUTER_CALLS=true.
+ */
+
+import { isAddress } from 'viem';
+import type { DCAContext } from '../context/types.js';
+import { ROUTER_ADDRESS } from '../utils/approvals.js';
+import { checkSwapTransactions, type CalldataCheck, type SwapExpectation, type SwapTransaction } from '../utils/calldataSafety.js';
+import type { SettlementToken } from '../utils/swapSettlement.js';
+
+const ENFORCE = process.env.CALLDATA_SAFETY_MODE !== 'log';
+const EXTRA_ROUTERS = (process.env.SWAP_ROUTER_ALLOWLIST || '')
+  .split(',')
+  .map(address => address.trim())
+  .filter(address => isAddress(address));
+
+const ALLOW_UNDECODED_ROUTER_CALLS = process.env.ALLOW_UNDECODED_ROUTER_CALLS === 'true';
+
+const CHAIN_ID = '42161';
+
+export interface PreparedSwap {
+  planId: string | null;
+  userAddress: string;
+  transactions: SwapTransaction[];
+  fromToken: SettlementToken;
+  toToken: SettlementToken;
+  recipient: string;
+  // Atomic input amount, for exactIn swaps
+  amountIn: string | null;
+  // Largest router approval the swap may need, in atomic units
+  maxApproval: string | null;
+}
+
+/**
+ * Routers swap transactions may call
+ */
+export function allowedRouters(): string[] {
+  return [ROUTER_ADDRESS, ...EXTRA_ROUTERS];
+}
+
+/**
+ * Check a prepared swap and record any transaction that doesn't match its plan
+ * @throws when a transaction doesn't match and CALLDATA_SAFETY_MODE is not `log`
+ */
+export async function enforceCalldataSafety(context: DCAContext, swap: PreparedSwap): Promise<void> {
+  const expected: SwapExpectation = {
+    chainId: CHAIN_ID,
+    fromToken: swap.fromToken,
+    toToken: swap.toToken,
+    amountIn: swap.amountIn !== null ? BigInt(swap.amountIn) : null,
+    recipient: swap.recipient,
+    routers: allowedRouters(),
+    maxApproval: swap.maxApproval !== null ? BigInt(swap.maxApproval) : null,
+    allowUndecodedRouterCalls: ALLOW_UNDECODED_ROUTER_CALLS,
+  };
+  const mismatches = checkSwapTransactions(swap.transactions, expected);
+  if (mismatches.length === 0) {
+    return;
+  }
+
+  await context.prisma.blockedTransaction.createMany({
+    data: mismatches.map((check: CalldataCheck) => {
+      const tx = swap.transactions[check.index]!;
+      return {
+        planId: swap.planId,
+        userAddress: swap.userAddress,
+        txIndex: check.index,
+        target: tx.to,
+        value: tx.value || '0',
+        selector: check.selector,
+        functionName: check.functionName,
+        violations: check.violations,
+        calldata: tx.data || '0x',
+        enforced: ENFORCE,
+      };
+    }),
+  });
+
+  const summary = mismatches
+    .map(check => `transaction ${check.index + 1}: ${check.violations.join('; ')}`)
+    .join(' | ');
+  if (!ENFORCE) {
+    console.warn(`[CalldataSafety] ⚠️ Signing swap${swap.planId ? ` of plan ${swap.planId}` : ''} despite mismatches (log mode): ${summary}`);
+    return;
+  }
+  throw new Error(`Unsafe swap calldata blocked: ${summary}`);
+}
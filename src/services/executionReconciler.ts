@@ -0,0 +1,315 @@
+/**
+ * Pending Execution Reconciler
+ *
+ * Resolves ExecutionHistory rows left in PENDING, because the process crashed or restarted
+ * between broadcasting a swap and recording its outcome, or because the run failed after the
+ * broadcast without a receipt showing the swap reverted (e.g. a receipt timeout).
+ * Each row's transaction receipt is looked up on-chain:
+ * - mined and successful → SUCCESS, plan counters advanced (exactly once)
+ * - mined and reverted   → FAILED
+ * - unknown to the node for longer than the drop timeout → FAILED (dropped)
+ * - still in the mempool → left PENDING for the next pass
+ *
+ * Group rows of basket and rebalancing runs have no transaction of their own: they are settled from their legs
+ * once those are resolved, or with the missing legs counted as failed after the drop timeout.
+ *
+ * A vault buy whose swap settled but whose output was never deposited (the process stopped first, or
+ * the deposit failed) is recorded as SUCCESS with `depositPending` set and reported to the user. Each
+ * pass retries those deposits from the executor's balance until one goes through.
+ */
+
+import { createPublicClient, http, formatEther, type Hash } from 'viem';
+import { arbitrum } from 'viem/chains';
+import type { DCAContext, TokenInfo } from '../context/types.js';
+import {
+  completePendingExecution,
+  failPendingExecution,
+  finalizeBasketExecution,
+  type CompletedExecutionData,
+} from './executionRecords.js';
+import { depositSwapOutput, reportPendingVaultDeposit } from './vaultPositions.js';
+import { publishLiveEvent } from './liveEvents.js';
+import { decodeSwapSettlement, computeExecutionPricing, type SettlementToken } from '../utils/swapSettlement.js';
+
+export interface ReconcileOptions {
+  // Only rows older than this are touched, so in-flight executions are left to their hook
+  minAgeSeconds: number;
+  // A transaction the node has never seen after this long is considered dropped
+  dropAfterSeconds: number;
+}
+
+export interface ReconcileSummary {
+  checked: number;
+  succeeded: number;
+  failed: number;
+  stillPending: number;
+  // Vault deposits retried for settled buys, and how many of those went through
+  depositsRetried: number;
+  depositsCompleted: number;
+}
+
+const DEFAULT_OPTIONS: ReconcileOptions = {
+  minAgeSeconds: parseInt(process.env.RECONCILE_MIN_AGE_SECONDS || '180', 10),
+  dropAfterSeconds: parseInt(process.env.RECONCILE_DROP_AFTER_SECONDS || '1800', 10),
+};
+
+const NATIVE_TOKEN_ADDRESSES = [
+  '0x0000000000000000000000000000000000000000',
+  '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
+];
+
+/**
+ * Resolve a plan token symbol to the settlement metadata needed to decode receipt logs
+ */
+function resolveSettlementToken(symbol: string, tokenMap: Record<string, TokenInfo[]>): SettlementToken | null {
+  const token = tokenMap[symbol.toUpperCase()]?.find(t => t.chainId === arbitrum.id);
+  if (!token) return null;
+  return {
+    address: token.address,
+    decimals: token.decimals,
+    isNative: NATIVE_TOKEN_ADDRESSES.includes(token.address.toLowerCase()),
+  };
+}
+
+/**
+ * Reconcile all stale PENDING executions against on-chain receipts
+ */
+export async function reconcilePendingExecutions(
+  context: DCAContext,
+  options: Partial<ReconcileOptions> = {}
+): Promise<ReconcileSummary> {
+  const { minAgeSeconds, dropAfterSeconds } = { ...DEFAULT_OPTIONS, ...options };
+  const summary: ReconcileSummary = {
+    checked: 0,
+    succeeded: 0,
+    failed: 0,
+    stillPending: 0,
+    depositsRetried: 0,
+    depositsCompleted: 0,
+  };
+
+  const pendingExecutions = await context.prisma.executionHistory.findMany({
+    where: {
+      status: 'PENDING',
+      executedAt: { lte: new Date(Date.now() - minAgeSeconds * 1000) },
+    },
+    orderBy: { executedAt: 'asc' },
+    include: { plan: true },
+  });
+
+  if (pendingExecutions.length === 0) {
+    await retryPendingDeposits(context, minAgeSeconds, summary);
+    return summary;
+  }
+
+  console.log(`[Reconciler] 🔍 Reconciling ${pendingExecutions.length} PENDING execution(s)...`);
+
+  const publicClient = createPublicClient({
+    chain: arbitrum,
+    transport: http(context.config.arbitrumRpcUrl),
+  });
+
+  // Legs first, so their group can settle in the same pass
+  const groupRows = pendingExecutions.filter(execution => execution.legCount !== null);
+  const swapExecutions = pendingExecutions.filter(execution => execution.legCount === null);
+
+  for (const execution of swapExecutions) {
+    summary.checked++;
+
+    try {
+      if (!execution.txHash) {
+        await failPendingExecution(context.prisma, execution.id, 'Execution was interrupted before any transaction was broadcast');
+        summary.failed++;
+        continue;
+      }
+
+      const txHash = execution.txHash as Hash;
+      const receipt = await publicClient.getTransactionReceipt({ hash: txHash }).catch(() => null);
+
+      if (receipt) {
+        if (receipt.status === 'success') {
+          const gasFee = receipt.effectiveGasPrice
+            ? formatEther(receipt.gasUsed * receipt.effectiveGasPrice)
+            : null;
+          const completedData: CompletedExecutionData = { txHash, gasFee };
+
+          // Replace the quoted amounts with what the receipt shows was actually swapped
+          // SELL plans swap toToken back into fromToken
+          // Legs of grouped runs carry their own pair
+          const isSell = execution.plan.side === 'SELL';
+          const [fromSymbol, toSymbol] = execution.groupId
+            ? [execution.legFromToken ?? execution.plan.fromToken, execution.legToken ?? execution.plan.toToken]
+            : isSell
+              ? [execution.plan.toToken, execution.plan.fromToken]
+              : [execution.plan.fromToken, execution.plan.toToken];
+          const fromToken = resolveSettlementToken(fromSymbol, context.tokenMap);
+          const toToken = resolveSettlementToken(toSymbol, context.tokenMap);
+          const executorAddress = context.executeTransaction?.executorAddress;
+          if (fromToken && toToken && executorAddress) {
+            const transaction = await publicClient.getTransaction({ hash: txHash }).catch(() => null);
+            const settlement = decodeSwapSettlement(
+              receipt.logs,
+              {
+                fromToken,
+                toToken,
+                payer: executorAddress,
+                // Vault buys route the swap output to the executor for the deposit
+                recipient: execution.vaultAddress && !isSell ? executorAddress : execution.plan.userAddress,
+                router: transaction?.to ?? undefined,
+              },
+              transaction?.value ?? 0n
+            );
+            if (settlement.toAmountRaw > 0n) {
+              const pricing = computeExecutionPricing(
+                execution.fromAmount.toFixed(),
+                execution.toAmount.toFixed(),
+                settlement.fromAmount,
+                settlement.toAmount
+              );
+              completedData.fromAmount = settlement.fromAmount;
+              completedData.toAmount = settlement.toAmount;
+              completedData.exchangeRate = pricing.exchangeRate;
+              completedData.realizedSlippage = pricing.slippagePercent;
+            }
+          }
+
+          // The hook never got to the vault deposit; the swap output is still on the executor
+          const depositError = execution.vaultAddress && !isSell
+            ? 'Swap settled but the vault deposit never ran; it will be retried'
+            : null;
+          if (depositError) {
+            completedData.depositPending = true;
+            completedData.errorMessage = depositError;
+          }
+
+          const finalized = await completePendingExecution(context.prisma, execution.id, completedData);
+          if (finalized) {
+            summary.succeeded++;
+            console.log(`[Reconciler] ✅ Execution ${execution.id} confirmed in block ${receipt.blockNumber} - marked SUCCESS`);
+            if (depositError) {
+              console.warn(`[Reconciler] ⚠️  Execution ${execution.id} targeted vault ${execution.vaultAddress}; marked deposit-pending`);
+              await reportPendingVaultDeposit(context.prisma, execution.plan.userAddress, execution.planId, {
+                executionId: execution.id,
+                vaultAddress: execution.vaultAddress,
+                token: toSymbol,
+                amount: completedData.toAmount ?? execution.toAmount.toFixed(),
+                error: depositError,
+              });
+            }
+          }
+        } else {
+          await failPendingExecution(context.prisma, execution.id, `Transaction ${txHash} reverted (reconciled)`);
+          summary.failed++;
+          console.log(`[Reconciler] ❌ Execution ${execution.id} reverted - marked FAILED`);
+        }
+        continue;
+      }
+
+      // No receipt yet: still in the mempool, or dropped altogether
+      const transaction = await publicClient.getTransaction({ hash: txHash }).catch(() => null);
+      const ageSeconds = (Date.now() - execution.executedAt.getTime()) / 1000;
+
+      if (!transaction && ageSeconds > dropAfterSeconds) {
+        await failPendingExecution(context.prisma, execution.id, `Transaction ${txHash} was dropped (not found after ${Math.round(ageSeconds)}s)`);
+        summary.failed++;
+        console.log(`[Reconciler] ❌ Execution ${execution.id} dropped - marked FAILED`);
+      } else {
+        summary.stillPending++;
+        console.log(`[Reconciler] ⏳ Execution ${execution.id} still pending (tx: ${txHash})`);
+      }
+    } catch (error) {
+      summary.stillPending++;
+      console.error(`[Reconciler] ❌ Failed to reconcile execution ${execution.id}:`, error);
+    }
+  }
+
+  for (const group of groupRows) {
+    summary.checked++;
+
+    try {
+      const ageSeconds = (Date.now() - group.executedAt.getTime()) / 1000;
+      const status = await finalizeBasketExecution(context.prisma, group.id, { force: ageSeconds > dropAfterSeconds });
+
+      if (status === 'SUCCESS' || status === 'PARTIAL') {
+        summary.succeeded++;
+        console.log(`[Reconciler] ✅ Grouped run ${group.id} settled as ${status}`);
+      } else if (status) {
+        summary.failed++;
+        console.log(`[Reconciler] ❌ Grouped run ${group.id} settled as ${status}`);
+      } else {
+        summary.stillPending++;
+        console.log(`[Reconciler] ⏳ Grouped run ${group.id} still has legs outstanding`);
+      }
+    } catch (error) {
+      summary.stillPending++;
+      console.error(`[Reconciler] ❌ Failed to reconcile grouped run ${group.id}:`, error);
+    }
+  }
+
+  await retryPendingDeposits(context, minAgeSeconds, summary);
+
+  console.log(`[Reconciler] 📊 Reconciled ${summary.checked}: ${summary.succeeded} succeeded, ${summary.failed} failed, ${summary.stillPending} still pending`);
+  return summary;
+}
+
+/**
+ * Deposit the output of settled vault buys that is still on the executor.
+ * Each row is claimed (flag cleared) before its deposit so no two passes deposit it twice, and
+ * flagged again if the deposit fails; a crash mid-deposit leaves the claim message on the row.
+ */
+async function retryPendingDeposits(context: DCAContext, minAgeSeconds: number, summary: ReconcileSummary): Promise<void> {
+  if (!context.executeTransaction) {
+    return;
+  }
+
+  const pendingDeposits = await context.prisma.executionHistory.findMany({
+    where: {
+      status: 'SUCCESS',
+      depositPending: true,
+      executedAt: { lte: new Date(Date.now() - minAgeSeconds * 1000) },
+    },
+    orderBy: { executedAt: 'asc' },
+    include: { plan: true },
+  });
+
+  for (const execution of pendingDeposits) {
+    const claimed = await context.prisma.executionHistory.updateMany({
+      where: { id: execution.id, depositPending: true },
+      data: { depositPending: false, errorMessage: 'Vault deposit retry in progress' },
+    });
+    if (claimed.count === 0) {
+      continue;
+    }
+    summary.depositsRetried++;
+
+    const userAddress = execution.plan.userAddress;
+    const token = execution.legToken ?? execution.plan.toToken;
+    try {
+      const deposit = await depositSwapOutput(context, userAddress, token, execution.toAmount.toFixed());
+      await context.prisma.executionHistory.update({
+        where: { id: execution.id },
+        data: { shareTokens: deposit.shareTokens, depositTxHash: deposit.depositTxHash, errorMessage: null },
+      });
+      summary.depositsCompleted++;
+      publishLiveEvent(userAddress, 'vault.deposited', execution.planId, {
+        vaultAddress: deposit.vaultAddress,
+        token,
+        amount: deposit.amount,
+        shareTokens: deposit.shareTokens,
+        depositTxHash: deposit.depositTxHash,
+      });
+      console.log(`[Reconciler] 🏦 Deposited ${deposit.amount} ${token} for execution ${execution.id} (tx: ${deposit.depositTxHash})`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await context.prisma.executionHistory.update({
+        where: { id: execution.id },
+        data: { depositPending: true, errorMessage: message },
+      });
+      console.error(`[Reconciler] ❌ Vault deposit for execution ${execution.id} still pending: ${message}`);
+    }
+  }
+
+  if (summary.depositsRetried > 0) {
+    console.log(`[Reconciler] 🏦 Retried ${summary.depositsRetried} vault deposit(s): ${summary.depositsCompleted} completed`);
+  }
+}
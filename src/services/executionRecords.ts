@@ -0,0 +1,421 @@
+/**
+ * Execution Record Service
+ *
+ * Owns the lifecycle of ExecutionHistory rows for plan executions:
+ * PENDING (written as soon as the swap transaction is broadcast) → SUCCESS | FAILED.
+ *
+ * The PENDING → SUCCESS transition is a conditional update performed in the same
+ * database transaction as the plan counter update, so whichever caller finalizes the
+ * row first (the after-hook or the startup reconciler) advances the plan exactly once.
+ *
+ * Dry runs are recorded as SIMULATED rows; they never touch the plan's execution count.
+ * Runs the scheduler decides not to swap (price guards, nothing to buy) are SKIPPED rows
+ * that still use up their schedule slot.
+ *
+ * A basket or rebalancing run is a PENDING group row with one child row per swap. Legs never advance the
+ * plan themselves; finalizeBasketExecution settles the group once every leg has an outcome.
+ * A retry of a run whose legs all failed reopens its group: only legs recorded since the group's
+ * executedAt (the start of the latest attempt) count, earlier ones stay as its history.
+ */
+
+import { Prisma, type ExecutionStatus, type PrismaClient } from '@prisma/client';
+import type { SwapSimulationResult } from '../utils/transactionExecutor.js';
+import { getNextExecution, getNextExecutionAfterRun, planScheduleFromRecord } from '../utils/schedule.js';
+import { emitExecutionEvent, emitPlanEvent } from './webhooks.js';
+
+export interface PendingExecutionData {
+  planId: string;
+  // The swap transaction
+  txHash: string;
+  // Approvals broadcast before the swap, kept alongside it
+  priorTxHashes?: string[];
+  fromAmount: string;
+  toAmount: string;
+  exchangeRate: string;
+  vaultAddress?: string | null;
+  // Set for the legs of a grouped run (basket, rebalance)
+  groupId?: string | null;
+  legFromToken?: string | null;
+  legToken?: string | null;
+}
+
+export interface CompletedExecutionData {
+  txHash: string;
+  gasFee?: string | null;
+  // Realized amounts decoded from the swap receipt (the PENDING row holds the quote)
+  fromAmount?: string;
+  toAmount?: string;
+  exchangeRate?: string;
+  realizedSlippage?: string | null;
+  shareTokens?: string | null;
+  depositTxHash?: string | null;
+  // A vault buy whose deposit didn't happen; errorMessage says why
+  depositPending?: boolean;
+  errorMessage?: string | null;
+}
+
+export interface SimulatedExecutionData {
+  planId: string;
+  fromAmount: string;
+  toAmount: string;
+  exchangeRate: string;
+  simulation: SwapSimulationResult;
+  vaultAddress?: string | null;
+  groupId?: string | null;
+  legFromToken?: string | null;
+  legToken?: string | null;
+}
+
+export interface SkippedExecutionData {
+  planId: string;
+  reason: string;
+  // Price observed when the run was skipped (fromToken per toToken), if any
+  price?: string | null;
+}
+
+export interface BasketGroupData {
+  planId: string;
+  fromAmount: string;
+  legCount: number;
+}
+
+export interface FinalizeBasketOptions {
+  // Settle even if some legs never recorded a row (they count as failed)
+  force?: boolean;
+}
+
+export interface AdvancePlanOptions {
+  // false for simulated runs: move the schedule forward without consuming an execution
+  countExecution?: boolean;
+  // false for skipped runs: they don't show the plan can swap again, so failures keep counting
+  clearFailures?: boolean;
+}
+
+/**
+ * Insert a PENDING execution for a transaction that has just been broadcast
+ */
+export async function createPendingExecution(prisma: PrismaClient, data: PendingExecutionData) {
+  return prisma.executionHistory.create({
+    data: {
+      planId: data.planId,
+      fromAmount: data.fromAmount || '0',
+      toAmount: data.toAmount || '0',
+      exchangeRate: data.exchangeRate || '0',
+      quotedToAmount: data.toAmount || null,
+      quotedExchangeRate: data.exchangeRate || null,
+      txHash: data.txHash,
+      broadcastTxHashes: [...(data.priorTxHashes ?? []), data.txHash],
+      status: 'PENDING',
+      vaultAddress: data.vaultAddress || null,
+      groupId: data.groupId || null,
+      legFromToken: data.legFromToken || null,
+      legToken: data.legToken || null,
+    },
+  });
+}
+
+/**
+ * Advance a plan's counters and schedule after one successful execution.
+ * Must be called inside the transaction that finalized the execution row.
+ */
+export async function advancePlanAfterExecution(
+  tx: Prisma.TransactionClient,
+  planId: string,
+  options: AdvancePlanOptions = {}
+): Promise<void> {
+  const { countExecution = true, clearFailures = true } = options;
+  const plan = await tx.dcaPlan.findUnique({
+    where: { id: planId },
+  });
+
+  if (!plan) {
+    return;
+  }
+
+  const newExecutionCount = countExecution ? plan.executionCount + 1 : plan.executionCount;
+  // Advance from the scheduled slot (not from "now") so the schedule doesn't drift.
+  // An ad-hoc run ahead of schedule (e.g. the first swap at creation) keeps the upcoming slot.
+  // RUN_ALL plans step one slot at a time so the scheduler replays every missed run.
+  const now = new Date();
+  const schedule = planScheduleFromRecord(plan);
+  let nextExecution: Date;
+  if (plan.nextExecution && plan.nextExecution > now) {
+    nextExecution = plan.nextExecution;
+  } else if (plan.nextExecution && plan.missedRunPolicy === 'RUN_ALL') {
+    nextExecution = getNextExecution(schedule, plan.nextExecution);
+  } else {
+    nextExecution = getNextExecutionAfterRun(schedule, plan.nextExecution ?? now, now);
+  }
+  const isCompleted = (countExecution && newExecutionCount >= plan.totalExecutions) ||
+    (plan.endAt !== null && nextExecution > plan.endAt);
+
+  const updatedPlan = await tx.dcaPlan.update({
+    where: { id: planId },
+    data: {
+      executionCount: newExecutionCount,
+      nextExecution: isCompleted ? null : nextExecution,
+      status: isCompleted ? 'COMPLETED' : plan.status,
+      ...(clearFailures && { consecutiveFailures: 0, retryAfter: null }),
+      updatedAt: new Date(),
+    },
+  });
+
+  if (isCompleted && plan.status !== 'COMPLETED') {
+    await emitPlanEvent(tx, 'plan.completed', updatedPlan);
+  }
+
+  console.log(`📊 [Executions] Plan ${planId} updated: ${newExecutionCount}/${plan.totalExecutions} executions`);
+  if (!isCompleted) {
+    console.log(`⏰ [Executions] Next execution scheduled for: ${nextExecution.toISOString()}`);
+  }
+}
+
+/**
+ * Move a PENDING execution to SUCCESS and advance its plan, exactly once.
+ * @returns false if the row was already finalized by someone else
+ */
+export async function completePendingExecution(
+  prisma: PrismaClient,
+  executionId: string,
+  data: CompletedExecutionData
+): Promise<boolean> {
+  return prisma.$transaction(async tx => {
+    const execution = await tx.executionHistory.findUnique({ where: { id: executionId } });
+    if (!execution) {
+      return false;
+    }
+
+    const updated = await tx.executionHistory.updateMany({
+      where: { id: executionId, status: 'PENDING' },
+      data: {
+        status: 'SUCCESS',
+        txHash: data.txHash,
+        gasFee: data.gasFee ?? null,
+        ...(data.fromAmount !== undefined && { fromAmount: data.fromAmount }),
+        ...(data.toAmount !== undefined && { toAmount: data.toAmount }),
+        ...(data.exchangeRate !== undefined && { exchangeRate: data.exchangeRate }),
+        ...(data.realizedSlippage !== undefined && { realizedSlippage: data.realizedSlippage }),
+        shareTokens: data.shareTokens ?? null,
+        depositTxHash: data.depositTxHash ?? null,
+        depositPending: data.depositPending ?? false,
+        errorMessage: data.errorMessage ?? null,
+      },
+    });
+
+    if (updated.count === 0) {
+      return false;
+    }
+
+    // Basket legs are accounted for when their group is finalized
+    if (!execution.groupId) {
+      await emitExecutionEvent(tx, executionId);
+      await advancePlanAfterExecution(tx, execution.planId);
+    }
+    return true;
+  });
+}
+
+/**
+ * Record the outcome of a dry run (nothing was broadcast, the plan is not advanced)
+ */
+export async function recordSimulatedExecution(prisma: PrismaClient, data: SimulatedExecutionData) {
+  const failedStep = data.simulation.transactions.find(step => !step.success);
+
+  return prisma.executionHistory.create({
+    data: {
+      planId: data.planId,
+      fromAmount: data.fromAmount || '0',
+      toAmount: data.toAmount || '0',
+      exchangeRate: data.exchangeRate || '0',
+      quotedToAmount: data.toAmount || null,
+      quotedExchangeRate: data.exchangeRate || null,
+      gasFee: data.simulation.gasCostEth,
+      status: 'SIMULATED',
+      errorMessage: failedStep ? `Transaction ${failedStep.index + 1} would fail: ${failedStep.error}` : null,
+      simulation: data.simulation as unknown as Prisma.InputJsonValue,
+      vaultAddress: data.vaultAddress || null,
+      groupId: data.groupId || null,
+      legFromToken: data.legFromToken || null,
+      legToken: data.legToken || null,
+    },
+  });
+}
+
+/**
+ * Record a run the scheduler decided not to swap and move the plan to its next slot
+ */
+export async function recordSkippedExecution(
+  prisma: PrismaClient,
+  data: SkippedExecutionData,
+  options: AdvancePlanOptions = {}
+) {
+  return prisma.$transaction(async tx => {
+    const record = await tx.executionHistory.create({
+      data: {
+        planId: data.planId,
+        fromAmount: '0',
+        toAmount: '0',
+        // Stored as toToken per fromToken like swap rates
+        exchangeRate: data.price && parseFloat(data.price) > 0 ? (1 / parseFloat(data.price)).toFixed(18) : '0',
+        status: 'SKIPPED',
+        skipReason: data.reason,
+      },
+    });
+    await advancePlanAfterExecution(tx, data.planId, { ...options, clearFailures: false });
+    return record;
+  });
+}
+
+/**
+ * Insert the PENDING group row of a basket run; its legs reference it by groupId
+ */
+export async function createBasketExecution(prisma: PrismaClient, data: BasketGroupData) {
+  return prisma.executionHistory.create({
+    data: {
+      planId: data.planId,
+      fromAmount: data.fromAmount,
+      toAmount: '0',
+      exchangeRate: '0',
+      status: 'PENDING',
+      legCount: data.legCount,
+    },
+  });
+}
+
+/**
+ * Start another attempt of a PENDING group whose legs all failed
+ * @returns the group, or null if it was settled in the meantime
+ */
+export async function reopenBasketExecution(prisma: PrismaClient, groupId: string, legCount: number) {
+  const reopened = await prisma.executionHistory.updateMany({
+    where: { id: groupId, status: 'PENDING' },
+    data: { executedAt: new Date(), legCount },
+  });
+  return reopened.count > 0 ? prisma.executionHistory.findUnique({ where: { id: groupId } }) : null;
+}
+
+/**
+ * Settle a basket group from its legs and advance the plan, exactly once:
+ * all legs SUCCESS → SUCCESS, some → PARTIAL, dry-run legs whose simulation passed → SIMULATED,
+ * none → FAILED.
+ * Failed groups leave the plan where it is so the run is retried, like a failed swap.
+ * @returns the group's status, or null while legs are still outstanding
+ */
+export async function finalizeBasketExecution(
+  prisma: PrismaClient,
+  groupId: string,
+  options: FinalizeBasketOptions = {}
+): Promise<ExecutionStatus | null> {
+  return prisma.$transaction(async tx => {
+    const group = await tx.executionHistory.findUnique({
+      where: { id: groupId },
+      include: { legs: true, plan: { select: { kind: true } } },
+    });
+    if (!group || group.status !== 'PENDING') {
+      return group?.status ?? null;
+    }
+
+    // Legs of earlier attempts of the run don't count
+    const legs = group.legs.filter(leg => leg.executedAt >= group.executedAt);
+    const legCount = group.legCount ?? legs.length;
+    if (legs.some(leg => leg.status === 'PENDING') || (!options.force && legs.length < legCount)) {
+      return null;
+    }
+
+    const succeeded = legs.filter(leg => leg.status === 'SUCCESS');
+    // A dry-run leg whose simulation failed is recorded SIMULATED with the failing step as its error
+    const simulated = legs.filter(leg => leg.status === 'SIMULATED' && !leg.errorMessage);
+    let status: ExecutionStatus;
+    if (succeeded.length > 0) {
+      status = succeeded.length === legCount ? 'SUCCESS' : 'PARTIAL';
+    } else if (simulated.length > 0) {
+      status = 'SIMULATED';
+    } else {
+      status = 'FAILED';
+    }
+
+    const settledLegs = status === 'SIMULATED' ? simulated : succeeded;
+    const fromAmount = settledLegs.reduce((sum, leg) => sum.add(leg.fromAmount), new Prisma.Decimal(0));
+    const failedTokens = legs
+      .filter(leg => !settledLegs.includes(leg))
+      .map(leg => leg.legToken ?? '?');
+    const missingLegs = legCount - legs.length;
+    const errors = [
+      ...(failedTokens.length > 0 ? [`Failed legs: ${failedTokens.join(', ')}`] : []),
+      ...(missingLegs > 0 ? [`${missingLegs} leg(s) never executed`] : []),
+    ];
+
+    const updated = await tx.executionHistory.updateMany({
+      where: { id: groupId, status: 'PENDING' },
+      data: {
+        status,
+        // Rebalancing legs sell different tokens, so their group keeps the value it was created with
+        ...(status !== 'FAILED' && group.plan.kind === 'DCA' && { fromAmount }),
+        errorMessage: errors.length > 0 ? errors.join('; ') : null,
+      },
+    });
+    if (updated.count === 0) {
+      return null;
+    }
+
+    await emitExecutionEvent(tx, groupId);
+    if (status === 'SUCCESS' || status === 'PARTIAL') {
+      await advancePlanAfterExecution(tx, group.planId);
+    } else if (status === 'SIMULATED') {
+      await advancePlanAfterExecution(tx, group.planId, { countExecution: false });
+    }
+
+    console.log(`🧺 [Executions] Basket run ${groupId} settled as ${status} (${succeeded.length}/${legCount} legs swapped)`);
+    return status;
+  });
+}
+
+/**
+ * Advance a plan to its next slot for a run that didn't swap (e.g. a dry run)
+ */
+export async function advancePlanSchedule(
+  prisma: PrismaClient,
+  planId: string,
+  options: AdvancePlanOptions = {}
+): Promise<void> {
+  await prisma.$transaction(tx => advancePlanAfterExecution(tx, planId, options));
+}
+
+/**
+ * Move a PENDING execution to FAILED (plan counters are not advanced)
+ * @returns false if the row was already finalized by someone else
+ */
+export async function failPendingExecution(
+  prisma: PrismaClient,
+  executionId: string,
+  errorMessage: string
+): Promise<boolean> {
+  return prisma.$transaction(async tx => {
+    const updated = await tx.executionHistory.updateMany({
+      where: { id: executionId, status: 'PENDING' },
+      data: {
+        status: 'FAILED',
+        errorMessage,
+      },
+    });
+
+    if (updated.count === 0) {
+      return false;
+    }
+
+    await emitExecutionEvent(tx, executionId);
+    return true;
+  });
+}
+
+/**
+ * Whether a plan has an execution whose outcome is not yet known
+ * @param exceptId - an execution to leave out (the open group of a run being retried)
+ */
+export async function hasPendingExecution(prisma: PrismaClient, planId: string, exceptId?: string | null): Promise<boolean> {
+  const pending = await prisma.executionHistory.count({
+    where: { planId, status: 'PENDING', ...(exceptId && { id: { not: exceptId } }) },
+  });
+
+  return pending > 0;
+}
@@ -0,0 +1,198 @@
+/**
+ * Pre-flight Funding Checks
+ *
+ * Before a plan runs, check that the wallet holds the token the plan spends and (when a
+ * separate executor pulls it) has approved the executor for enough of it. Plans that
+ * can't pay for their next run are moved to AWAITING_FUNDS instead of failing on-chain
+ * and burning retries; the scheduler re-checks them and resumes them once they're funded.
+ * Plans that cover fewer than FUNDING_LOOKAHEAD_RUNS runs keep running with a warning.
+ *
+ * The scheduler checks plans due within FUNDING_CHECK_AHEAD_MINUTES (and every waiting
+ * plan) at most every FUNDING_RECHECK_MINUTES, and once more right before each run.
+ * Rebalancing plans, dry runs and sells from a vault position aren't wallet-funded.
+ */
+
+import type { DcaPlan, Prisma } from '@prisma/client';
+import { createPublicClient, erc20Abi, formatUnits, http, parseUnits, type Address } from 'viem';
+import { arbitrum } from 'viem/chains';
+import type { DCAContext } from '../context/types.js';
+import type { FundingCheck } from '../types/shared.js';
+import { assessFunding } from '../utils/funding.js';
+import { decimalsOf } from '../utils/tokens.js';
+import { findVaultHolding } from './vaultPositions.js';
+import { findUsablePermit, getReservedAllowance } from './permits.js';
+import { emitPlanEvent } from './webhooks.js';
+import { publishLiveEvent, publishPlanState } from './liveEvents.js';
+
+const LOOKAHEAD_RUNS = parseInt(process.env.FUNDING_LOOKAHEAD_RUNS || '3', 10);
+const CHECK_AHEAD_MS = parseInt(process.env.FUNDING_CHECK_AHEAD_MINUTES || '60', 10) * 60 * 1000;
+const RECHECK_MS = parseInt(process.env.FUNDING_RECHECK_MINUTES || '10', 10) * 60 * 1000;
+const BATCH_SIZE = 50;
+
+const NATIVE_TOKEN_ADDRESSES = [
+  '0x0000000000000000000000000000000000000000',
+  '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
+];
+
+/**
+ * Check whether a plan's wallet can pay for its upcoming runs
+ * @param runAmount - what the next run spends, if known (defaults to the plan's base amount)
+ * @returns null for plans that aren't paid from the user's wallet
+ */
+export async function checkPlanFunding(
+  context: DCAContext,
+  plan: DcaPlan,
+  runAmount?: string
+): Promise<FundingCheck | null> {
+  if (plan.kind === 'REBALANCE' || plan.dryRun || !context.executeTransaction) {
+    return null;
+  }
+
+  // SELL plans spend toToken; a vault position is sold from the vault instead of the wallet
+  const symbol = plan.side === 'SELL' ? plan.toToken : plan.fromToken;
+  if (plan.side === 'SELL' && await findVaultHolding(context.prisma, plan.userAddress, symbol)) {
+    return null;
+  }
+
+  const token = context.tokenMap[symbol.toUpperCase()]?.find(candidate => candidate.chainId === 42161);
+  if (!token) {
+    throw new Error(`Unknown token ${symbol}`);
+  }
+  const tokenAddress = token.address.toLowerCase();
+  const decimals = decimalsOf(token);
+  const isNative = NATIVE_TOKEN_ADDRESSES.includes(tokenAddress);
+
+  const perRunAmount = runAmount
+    ?? (plan.strategy === 'VALUE_AVERAGING' ? (plan.targetIncrement ?? plan.amount) : plan.amount).toFixed();
+  const perRun = parseUnits(perRunAmount, decimals);
+
+  const publicClient = createPublicClient({
+    chain: arbitrum,
+    transport: http(context.config.arbitrumRpcUrl),
+  });
+  const userAddress = plan.userAddress as Address;
+  const executorAddress = context.executeTransaction.executorAddress;
+  const selfExecution = plan.userAddress.toLowerCase() === executorAddress.toLowerCase();
+
+  // A permit signed for the plan stands in for the ERC-20 allowance
+  const permit = isNative || selfExecution ? null : await findUsablePermit(context, plan.id, token.address);
+  const [balance, allowance] = await Promise.all([
+    isNative
+      ? publicClient.getBalance({ address: userAddress })
+      : publicClient.readContract({ address: token.address as Address, abi: erc20Abi, functionName: 'balanceOf', args: [userAddress] }),
+    isNative || selfExecution
+      ? Promise.resolve(null)
+      : permit
+        ? Promise.resolve(permit.allowance)
+        : Promise.all([
+          publicClient.readContract({ address: token.address as Address, abi: erc20Abi, functionName: 'allowance', args: [userAddress, executorAddress] }),
+          // Part of the ERC-20 allowance may belong to other plans' EIP-2612 permits
+          getReservedAllowance(context, plan.id, plan.userAddress, token.address),
+        ]).then(([approved, reserved]) => approved > reserved ? approved - reserved : 0n),
+  ]);
+
+  const assessment = assessFunding({
+    perRun,
+    balance,
+    allowance,
+    remainingRuns: plan.totalExecutions - plan.executionCount,
+    lookaheadRuns: LOOKAHEAD_RUNS,
+  });
+
+  let warning: string | null = null;
+  if (assessment.shortfall === 'allowance') {
+    warning = permit
+      ? `The plan's ${permit.permit.kind} permit has ${formatUnits(allowance ?? 0n, decimals)} ${token.symbol} left, enough for ${assessment.runsCovered} run(s) of ${perRunAmount}; sign a new permit to keep the plan running`
+      : `Approved ${formatUnits(allowance ?? 0n, decimals)} ${token.symbol} to the executor, enough for ${assessment.runsCovered} run(s) of ${perRunAmount}; approve more to keep the plan running`;
+  } else if (assessment.shortfall === 'balance') {
+    warning = `Wallet holds ${formatUnits(balance, decimals)} ${token.symbol}, enough for ${assessment.runsCovered} run(s) of ${perRunAmount}; top it up to keep the plan running`;
+  }
+
+  return {
+    token: token.symbol,
+    perRun: perRunAmount,
+    balance: formatUnits(balance, decimals),
+    allowance: allowance === null ? null : formatUnits(allowance, decimals),
+    runsCovered: assessment.runsCovered,
+    lookaheadRuns: LOOKAHEAD_RUNS,
+    shortfall: assessment.shortfall,
+    warning,
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Store a check on its plan and move the plan between ACTIVE and AWAITING_FUNDS
+ * @returns the plan as stored afterwards
+ */
+export async function applyFundingCheck(context: DCAContext, plan: DcaPlan, check: FundingCheck): Promise<DcaPlan> {
+  const canRunNext = check.runsCovered >= 1;
+  const from = canRunNext ? 'AWAITING_FUNDS' : 'ACTIVE';
+  const to = canRunNext ? 'ACTIVE' : 'AWAITING_FUNDS';
+  const data = {
+    fundingCheck: check as unknown as Prisma.InputJsonValue,
+    fundingCheckedAt: new Date(check.checkedAt),
+  };
+
+  const { updated, changed } = await context.prisma.$transaction(async tx => {
+    // Conditional on the status so a pause or cancel made meanwhile isn't overwritten
+    const moved = await tx.dcaPlan.updateMany({
+      where: { id: plan.id, status: from },
+      data: { ...data, status: to },
+    });
+    if (moved.count === 0) {
+      return { updated: await tx.dcaPlan.update({ where: { id: plan.id }, data }), changed: false };
+    }
+
+    const updated = await tx.dcaPlan.findUniqueOrThrow({ where: { id: plan.id } });
+    await emitPlanEvent(tx, canRunNext ? 'plan.resumed' : 'plan.awaiting_funds', updated);
+    return { updated, changed: true };
+  });
+
+  if (changed) {
+    console.log(canRunNext
+      ? `[Funding] ✅ Plan ${plan.id} is funded again (${check.runsCovered} run(s) covered), resumed`
+      : `[Funding] ⏸️  Plan ${plan.id} can't pay for its next run, awaiting funds: ${check.warning}`);
+    publishPlanState(updated);
+    if (!canRunNext) {
+      publishLiveEvent(plan.userAddress, 'funding.insufficient', plan.id, { ...check });
+    }
+  } else if (check.warning) {
+    console.log(`[Funding] ⚠️  Plan ${plan.id}: ${check.warning}`);
+  }
+
+  return updated;
+}
+
+/**
+ * Check plans due soon, and re-check plans awaiting funds
+ */
+export async function runFundingChecks(context: DCAContext): Promise<void> {
+  const now = Date.now();
+  const plans = await context.prisma.dcaPlan.findMany({
+    where: {
+      kind: { not: 'REBALANCE' },
+      dryRun: false,
+      OR: [
+        { status: 'ACTIVE', nextExecution: { lte: new Date(now + CHECK_AHEAD_MS) } },
+        { status: 'AWAITING_FUNDS' },
+      ],
+      AND: [
+        { OR: [{ fundingCheckedAt: null }, { fundingCheckedAt: { lt: new Date(now - RECHECK_MS) } }] },
+      ],
+    },
+    orderBy: { nextExecution: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  for (const plan of plans) {
+    try {
+      const check = await checkPlanFunding(context, plan);
+      if (check) {
+        await applyFundingCheck(context, plan, check);
+      }
+    } catch (error) {
+      console.error(`[Funding] ❌ Failed to check funding of plan ${plan.id}:`, error);
+    }
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Live Events
+ *
+ * In-process event bus behind the SSE stream (GET /api/dca/stream/:userAddress): the
+ * scheduler, the swap tool and its after-hook publish execution progress as it happens,
+ * and each open stream listens to the events of its user. Events are not stored, so a
+ * client only sees what happens while it is connected, in the process that runs the API.
+ * In-process consumers (notifications) can listen to every user's events.
+ */
+
+import { EventEmitter } from 'events';
+import type { DcaPlan, PrismaClient } from '@prisma/client';
+import type { LiveEvent, LiveEventType } from '../types/shared.js';
+
+const emitter = new EventEmitter();
+// One listener per open stream
+emitter.setMaxListeners(0);
+
+let lastEventId = 0;
+
+const channel = (userAddress: string) => `user:${userAddress.toLowerCase()}`;
+const ALL_USERS = 'all';
+
+/**
+ * Publish an event to the streams of `userAddress`; never throws into the caller
+ */
+export function publishLiveEvent(
+  userAddress: string,
+  type: LiveEventType,
+  planId: string | null,
+  data: Record<string, unknown> = {}
+): void {
+  const event: LiveEvent = {
+    id: ++lastEventId,
+    type,
+    planId,
+    data,
+    timestamp: new Date().toISOString(),
+  };
+
+  try {
+    emitter.emit(channel(userAddress), event);
+    emitter.emit(ALL_USERS, userAddress.toLowerCase(), event);
+  } catch (error) {
+    console.error(`[LiveEvents] ❌ Listener failed for ${type}:`, error);
+  }
+}
+
+/**
+ * Listen to the events of `userAddress`
+ * @returns a function that removes the listener
+ */
+export function subscribeLiveEvents(userAddress: string, listener: (event: LiveEvent) => void): () => void {
+  const name = channel(userAddress);
+  emitter.on(name, listener);
+  return () => {
+    emitter.off(name, listener);
+  };
+}
+
+/**
+ * Listen to the events of every user
+ * @returns a function that removes the listener
+ */
+export function subscribeAllLiveEvents(listener: (userAddress: string, event: LiveEvent) => void): () => void {
+  emitter.on(ALL_USERS, listener);
+  return () => {
+    emitter.off(ALL_USERS, listener);
+  };
+}
+
+/**
+ * Publish a plan's current status and progress
+ */
+export function publishPlanState(
+  plan: Pick<DcaPlan, 'id' | 'userAddress' | 'status' | 'executionCount' | 'totalExecutions' | 'nextExecution'>
+): void {
+  publishLiveEvent(plan.userAddress, 'plan.state', plan.id, {
+    status: plan.status,
+    executionCount: plan.executionCount,
+    totalExecutions: plan.totalExecutions,
+    nextExecution: plan.nextExecution?.toISOString() ?? null,
+  });
+}
+
+/**
+ * Reload a plan and publish its state (after an execution moved it on)
+ */
+export async function refreshPlanState(prisma: PrismaClient, planId: string): Promise<void> {
+  try {
+    const plan = await prisma.dcaPlan.findUnique({ where: { id: planId } });
+    if (plan) {
+      publishPlanState(plan);
+    }
+  } catch (error) {
+    console.error(`[LiveEvents] ❌ Failed to load plan ${planId}:`, error);
+  }
+}
@@ -0,0 +1,318 @@
+/**
+ * Farcaster Notifications
+ *
+ * Sends mini-app notifications for successful swaps, plans that keep failing, completed
+ * plans, vault deposits left pending after a swap, allowances that won't cover the next run
+ * and plans paused awaiting funds. The notifier listens to the live event bus, queues
+ * notifications, and every few seconds sends them in batches (see utils/notifications.ts) to
+ * the tokens the user registered, honouring their preferences. Tokens a Farcaster client
+ * reports as invalid are disabled.
+ *
+ * Delivery goes through a NotificationTransport: HTTP to the Farcaster client by default,
+ * or a stub that only records what would be sent (NOTIFICATION_TRANSPORT=log).
+ */
+
+import type { NotificationPreference, PrismaClient } from '@prisma/client';
+import type { LiveEvent } from '../types/shared.js';
+import {
+  chunk,
+  coalesceNotifications,
+  MAX_TOKENS_PER_REQUEST,
+  type NotificationKind,
+  type PendingNotification,
+} from '../utils/notifications.js';
+import { checkOutboundUrl } from '../utils/outboundUrls.js';
+import { subscribeAllLiveEvents } from './liveEvents.js';
+
+const BATCH_INTERVAL_MS = parseInt(process.env.NOTIFICATION_BATCH_SECONDS || '10', 10) * 1000;
+// Consecutive failed runs of a plan before its owner is told
+const FAILURE_THRESHOLD = parseInt(process.env.NOTIFICATION_FAILURE_THRESHOLD || '3', 10);
+const MINI_APP_URL = process.env.FARCASTER_MINI_APP_URL || 'http://localhost:3000';
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+export interface FarcasterNotificationRequest {
+  notificationId: string;
+  title: string;
+  body: string;
+  targetUrl: string;
+  tokens: string[];
+}
+
+export interface FarcasterNotificationResult {
+  successfulTokens: string[];
+  invalidTokens: string[];
+  rateLimitedTokens: string[];
+}
+
+export interface NotificationTransport {
+  send(url: string, request: FarcasterNotificationRequest): Promise<FarcasterNotificationResult>;
+}
+
+/**
+ * POSTs to the notification URL of the Farcaster client that issued the tokens
+ */
+export class HttpNotificationTransport implements NotificationTransport {
+  async send(url: string, request: FarcasterNotificationRequest): Promise<FarcasterNotificationResult> {
+    const urlError = await checkOutboundUrl(url);
+    if (urlError) {
+      throw new Error(urlError);
+    }
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      // Redirects aren't followed (3xx fails the send), so they can't lead to a refused address
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const { result } = await response.json() as { result?: Partial<FarcasterNotificationResult> };
+    return {
+      successfulTokens: result?.successfulTokens ?? [],
+      invalidTokens: result?.invalidTokens ?? [],
+      rateLimitedTokens: result?.rateLimitedTokens ?? [],
+    };
+  }
+}
+
+/**
+ * Records and logs notifications instead of sending them (local development, tests)
+ */
+export class LogNotificationTransport implements NotificationTransport {
+  readonly sent: Array<{ url: string; request: FarcasterNotificationRequest }> = [];
+
+  async send(url: string, request: FarcasterNotificationRequest): Promise<FarcasterNotificationResult> {
+    this.sent.push({ url, request });
+    console.log(`[Notifications] 📝 Would notify ${request.tokens.length} token(s) via ${url}: ${request.title} - ${request.body}`);
+    return { successfulTokens: request.tokens, invalidTokens: [], rateLimitedTokens: [] };
+  }
+}
+
+/**
+ * The transport selected with NOTIFICATION_TRANSPORT (http by default)
+ */
+export function createNotificationTransport(): NotificationTransport {
+  return process.env.NOTIFICATION_TRANSPORT === 'log'
+    ? new LogNotificationTransport()
+    : new HttpNotificationTransport();
+}
+
+const PREFERENCE_BY_KIND: Record<NotificationKind, keyof Omit<NotificationPreference, 'userAddress' | 'updatedAt'>> = {
+  execution: 'executions',
+  failure: 'failures',
+  completion: 'completions',
+  lowAllowance: 'lowAllowance',
+};
+
+const targetUrl = (planId: string | null) => planId ? `${MINI_APP_URL}?planId=${encodeURIComponent(planId)}` : MINI_APP_URL;
+
+export class FarcasterNotifier {
+  private queue: PendingNotification[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private flushing = false;
+
+  constructor(private prisma: PrismaClient, private transport: NotificationTransport = createNotificationTransport()) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.unsubscribe = subscribeAllLiveEvents((userAddress, event) => {
+      void this.handleEvent(userAddress, event).catch(error =>
+        console.error(`[Notifications] ❌ Failed to handle ${event.type} for ${userAddress}:`, error)
+      );
+    });
+    this.timer = setInterval(() => {
+      void this.flush();
+    }, BATCH_INTERVAL_MS);
+    console.log(`[Notifications] 🔔 Farcaster notifier started (batches every ${BATCH_INTERVAL_MS / 1000}s)`);
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  enqueue(notification: PendingNotification): void {
+    this.queue.push(notification);
+  }
+
+  /**
+   * Turn a live event into a notification, if it warrants one
+   */
+  private async handleEvent(userAddress: string, event: LiveEvent): Promise<void> {
+    const { planId, data } = event;
+    if (!planId || data.dryRun) {
+      return;
+    }
+
+    switch (event.type) {
+      case 'execution.succeeded':
+        this.enqueue({
+          userAddress,
+          kind: 'execution',
+          notificationId: `exec-${data.txHash ?? event.id}`,
+          title: 'DCA swap executed',
+          body: `Swapped ${data.fromAmount} ${data.fromToken} for ${data.toAmount} ${data.toToken}`,
+          targetUrl: targetUrl(planId),
+        });
+        return;
+
+      case 'execution.failed': {
+        if (data.paused) {
+          this.enqueue({
+            userAddress,
+            kind: 'failure',
+            notificationId: `paused-${planId}-${event.id}`,
+            title: 'DCA plan paused',
+            body: `${data.pauseReason ?? 'Your plan kept failing'}. Resume it once the problem is fixed.`,
+            targetUrl: targetUrl(planId),
+          });
+          return;
+        }
+        const runs = await this.prisma.executionHistory.findMany({
+          where: { planId, groupId: null, status: { in: ['SUCCESS', 'PARTIAL', 'FAILED'] } },
+          orderBy: { executedAt: 'desc' },
+          take: FAILURE_THRESHOLD + 1,
+          select: { id: true, status: true },
+        });
+        const consecutive = runs.findIndex(run => run.status !== 'FAILED');
+        const failures = consecutive === -1 ? runs.length : consecutive;
+        // Only when the streak reaches the threshold, so a broken plan notifies once
+        if (failures !== FAILURE_THRESHOLD) {
+          return;
+        }
+        this.enqueue({
+          userAddress,
+          kind: 'failure',
+          notificationId: `failing-${planId}-${runs[0]!.id}`,
+          title: 'DCA plan failing',
+          body: `Your plan failed ${failures} times in a row: ${data.error ?? 'unknown error'}`,
+          targetUrl: targetUrl(planId),
+        });
+        return;
+      }
+
+      case 'vault.deposit_failed':
+        this.enqueue({
+          userAddress,
+          kind: 'failure',
+          notificationId: `deposit-${data.executionId ?? event.id}`,
+          title: 'Vault deposit pending',
+          body: `Your swap for ${data.amount} ${data.token} went through, but the vault deposit didn't yet. It will be retried.`,
+          targetUrl: targetUrl(planId),
+        });
+        return;
+
+      case 'plan.state':
+        if (data.status === 'COMPLETED') {
+          this.enqueue({
+            userAddress,
+            kind: 'completion',
+            notificationId: `completed-${planId}`,
+            title: 'DCA plan completed',
+            body: `Your plan finished after ${data.executionCount} of ${data.totalExecutions} executions`,
+            targetUrl: targetUrl(planId),
+          });
+        }
+        return;
+
+      case 'allowance.low':
+        this.enqueue({
+          userAddress,
+          kind: 'lowAllowance',
+          // At most one reminder per plan and day
+          notificationId: `allowance-${planId}-${event.timestamp.slice(0, 10)}`,
+          title: `${data.token} allowance running low`,
+          body: `${data.allowance} ${data.token} approved, ${data.required} needed per run. Approve more so your plan keeps running.`,
+          targetUrl: targetUrl(planId),
+        });
+        return;
+
+      case 'funding.insufficient':
+        this.enqueue({
+          userAddress,
+          kind: 'lowAllowance',
+          notificationId: `funds-${planId}-${event.timestamp.slice(0, 10)}`,
+          title: 'DCA plan awaiting funds',
+          body: `${data.warning ?? `Not enough ${data.token} for the next run`}. The plan resumes once it's funded.`,
+          targetUrl: targetUrl(planId),
+        });
+        return;
+    }
+  }
+
+  /**
+   * Send everything queued so far
+   */
+  async flush(): Promise<void> {
+    if (this.flushing || this.queue.length === 0) {
+      return;
+    }
+    this.flushing = true;
+    const batch = this.queue;
+    this.queue = [];
+
+    try {
+      const notifications = coalesceNotifications(batch);
+      const users = [...new Set(notifications.map(notification => notification.userAddress.toLowerCase()))];
+      const [tokens, preferences] = await Promise.all([
+        this.prisma.notificationToken.findMany({ where: { userAddress: { in: users }, enabled: true } }),
+        this.prisma.notificationPreference.findMany({ where: { userAddress: { in: users } } }),
+      ]);
+      const preferencesByUser = new Map(preferences.map(preference => [preference.userAddress, preference]));
+
+      for (const notification of notifications) {
+        const user = notification.userAddress.toLowerCase();
+        const preference = preferencesByUser.get(user);
+        if (preference && !preference[PREFERENCE_BY_KIND[notification.kind]]) {
+          continue;
+        }
+
+        // Tokens of different Farcaster clients go to different URLs
+        const tokensByUrl = new Map<string, string[]>();
+        for (const token of tokens.filter(token => token.userAddress === user)) {
+          tokensByUrl.set(token.url, [...(tokensByUrl.get(token.url) ?? []), token.token]);
+        }
+
+        for (const [url, urlTokens] of tokensByUrl) {
+          for (const tokenBatch of chunk(urlTokens, MAX_TOKENS_PER_REQUEST)) {
+            await this.send(url, { ...notification, tokens: tokenBatch });
+          }
+        }
+      }
+    } catch (error) {
+      console.error('[Notifications] ❌ Failed to send notification batch:', error);
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  private async send(url: string, notification: PendingNotification & { tokens: string[] }): Promise<void> {
+    const { notificationId, title, body, targetUrl, tokens } = notification;
+    try {
+      const result = await this.transport.send(url, { notificationId, title, body, targetUrl, tokens });
+
+      if (result.invalidTokens.length > 0) {
+        await this.prisma.notificationToken.updateMany({
+          where: { url, token: { in: result.invalidTokens } },
+          data: { enabled: false },
+        });
+        console.log(`[Notifications] 🔕 Disabled ${result.invalidTokens.length} invalid token(s) of ${url}`);
+      }
+      if (result.rateLimitedTokens.length > 0) {
+        console.warn(`[Notifications] ⚠️  ${result.rateLimitedTokens.length} token(s) rate limited for "${title}"`);
+      }
+    } catch (error) {
+      console.error(`[Notifications] ❌ Failed to send "${title}" via ${url}:`, error);
+    }
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Plan Performance
+ *
+ * Builds the performance report of a plan (or all of a user's plans) from its successful
+ * swaps. Each bought token is its own position - single-token plans have one, basket plans
+ * one per leg. Current prices come from a live Ember quote when the agent's context is
+ * available to the API, otherwise from the latest stored price sample for the pair.
+ */
+
+import type { DcaPlan, PrismaClient } from '@prisma/client';
+import type { DCAContext } from '../context/types.js';
+import type {
+  PerformanceTotals,
+  PlanPerformanceResponse,
+  PositionPerformance,
+  UserPerformanceResponse,
+} from '../types/shared.js';
+import { computePositionPerformance, sumPerformance, type PerformanceFill } from '../utils/performance.js';
+import { getPlanPrice } from './priceQuotes.js';
+
+type PerformancePlan = Pick<DcaPlan, 'id' | 'kind' | 'side' | 'fromToken' | 'toToken' | 'amount'>;
+
+interface CurrentPrice {
+  price: string;
+  source: 'quote' | 'sample';
+}
+
+/**
+ * Current price of one `token` in the plan's fromToken
+ */
+async function getCurrentPrice(
+  prisma: PrismaClient,
+  plan: PerformancePlan,
+  token: string
+): Promise<CurrentPrice | null> {
+  const context: DCAContext | undefined = (global as any).dcaContext;
+  if (context?.mcpClient) {
+    try {
+      const price = await getPlanPrice(context, { side: plan.side, fromToken: plan.fromToken, toToken: token, amount: plan.amount });
+      return { price, source: 'quote' };
+    } catch (error) {
+      console.warn(`[Performance] ⚠️  Price quote for ${plan.fromToken}/${token} failed, using stored samples:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  const sample = await prisma.priceSample.findFirst({
+    where: { fromToken: plan.fromToken.toUpperCase(), toToken: token.toUpperCase() },
+    orderBy: { observedAt: 'desc' },
+  });
+  return sample ? { price: sample.price.toFixed(), source: 'sample' } : null;
+}
+
+/**
+ * Compute the performance report of one plan
+ */
+export async function getPlanPerformance(prisma: PrismaClient, plan: PerformancePlan): Promise<PlanPerformanceResponse> {
+  if (plan.kind === 'REBALANCE') {
+    throw new Error('Performance is not available for rebalancing plans');
+  }
+
+  // Single swaps and basket legs; group rows only summarize their legs
+  const executions = await prisma.executionHistory.findMany({
+    where: { planId: plan.id, status: 'SUCCESS', legCount: null },
+    orderBy: { executedAt: 'asc' },
+  });
+
+  const fillsByToken = new Map<string, PerformanceFill[]>();
+  for (const execution of executions) {
+    const token = (execution.legToken ?? plan.toToken).toUpperCase();
+    const fills = fillsByToken.get(token) ?? [];
+    fills.push({
+      fromAmount: execution.fromAmount.toFixed(),
+      toAmount: execution.toAmount.toFixed(),
+      executedAt: execution.executedAt,
+    });
+    fillsByToken.set(token, fills);
+  }
+
+  const positions: PositionPerformance[] = [];
+  const priceSources: PlanPerformanceResponse['priceSources'] = {};
+  for (const [token, fills] of fillsByToken) {
+    const current = await getCurrentPrice(prisma, plan, token);
+    priceSources[token] = current?.source ?? null;
+    positions.push(computePositionPerformance(token, plan.side, fills, current?.price ?? null));
+  }
+
+  return {
+    planId: plan.id,
+    fromToken: plan.fromToken,
+    toToken: plan.toToken,
+    side: plan.side,
+    positions,
+    totals: sumPerformance(plan.fromToken.toUpperCase(), positions),
+    priceSources,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Compute the performance of all of a user's plans, totalled per fromToken
+ */
+export async function getUserPerformance(prisma: PrismaClient, userAddress: string): Promise<UserPerformanceResponse> {
+  const plans = await prisma.dcaPlan.findMany({
+    where: { userAddress, kind: { not: 'REBALANCE' } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const reports: PlanPerformanceResponse[] = [];
+  for (const plan of plans) {
+    reports.push(await getPlanPerformance(prisma, plan));
+  }
+
+  const positionsByQuote = new Map<string, PositionPerformance[]>();
+  for (const report of reports) {
+    const quoteToken = report.fromToken.toUpperCase();
+    positionsByQuote.set(quoteToken, [...(positionsByQuote.get(quoteToken) ?? []), ...report.positions]);
+  }
+  const totals: PerformanceTotals[] = [...positionsByQuote].map(([quoteToken, positions]) => sumPerformance(quoteToken, positions));
+
+  return {
+    userAddress,
+    plans: reports,
+    totals,
+    generatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,490 @@
+/**
+ * Plan Permits
+ *
+ * Lets a plan pull its runs through a signed, bounded allowance (utils/permits.ts) rather
+ * than a standing approve to the executor. The user signs typed data prepared here for the
+ * plan's budget; the signature is verified (EOA or ERC-1271 wallet) and stored per plan.
+ * The executor submits the permit on the first run that needs it and then pulls each run's
+ * amount: through Permit2's `transferFrom` for PERMIT2, the token's `transferFrom` for EIP2612.
+ * A permit that has lapsed unused is ignored, and the plan falls back to the ERC-20 allowance.
+ *
+ * Both kinds grant one allowance per (owner, token, executor), not per plan, so the plan's
+ * share is tracked here: each pull is added to the permit's `spent`, a plan never pulls more
+ * than its permit's amount, and a permit is refused while another live plan of the same
+ * wallet still has an allowance from a permit for that token (applying it would replace that
+ * allowance and, for Permit2, invalidate the other signature's nonce). Plans without a permit
+ * leave the part of the ERC-20 allowance reserved by EIP-2612 permits to their plans.
+ */
+
+import type { DcaPlan, PlanPermit, Prisma, PrismaClient } from '@prisma/client';
+import {
+  createPublicClient,
+  createWalletClient,
+  erc20Abi,
+  http,
+  parseSignature,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type WriteContractParameters,
+} from 'viem';
+import { arbitrum } from 'viem/chains';
+import type { DCAContext, TokenInfo } from '../context/types.js';
+import type { PermitKind, PlanPermitRequest, PlanPermitResponse } from '../types/shared.js';
+import {
+  buildEip2612TypedData,
+  buildPermit2TypedData,
+  eip2612Abi,
+  permit2Abi,
+  PERMIT2_ADDRESS,
+} from '../utils/permits.js';
+
+const CHAIN_ID = 42161;
+
+// Plans that may still run, and so still count on their permit's allowance
+const LIVE_PLAN_STATUSES: DcaPlan['status'][] = ['ACTIVE', 'AWAITING_FUNDS', 'PAUSED'];
+
+export interface PermitTerms {
+  kind: PermitKind;
+  owner: Address;
+  spender: Address;
+  amount: bigint;
+  nonce: bigint;
+  // Unix seconds
+  deadline: bigint;
+}
+
+export interface UsablePermit {
+  permit: PlanPermit;
+  // What the permit still lets the executor pull
+  allowance: bigint;
+}
+
+const publicClientFor = (context: DCAContext): PublicClient => createPublicClient({
+  chain: arbitrum,
+  transport: http(context.config.arbitrumRpcUrl),
+}) as PublicClient;
+
+/**
+ * The token a plan spends, as listed by Ember on Arbitrum
+ */
+export function resolvePermitToken(context: DCAContext, symbol: string): TokenInfo | null {
+  return context.tokenMap[symbol.toUpperCase()]?.find(token => token.chainId === CHAIN_ID) ?? null;
+}
+
+/**
+ * The token a plan pulls from the wallet (null for rebalancing plans, which swap in place)
+ */
+export function planPermitToken(
+  context: DCAContext,
+  plan: Pick<DcaPlan, 'kind' | 'side' | 'fromToken' | 'toToken'>
+): TokenInfo | null {
+  if (plan.kind === 'REBALANCE') {
+    return null;
+  }
+  return resolvePermitToken(context, plan.side === 'SELL' ? plan.toToken : plan.fromToken);
+}
+
+/**
+ * The typed data for a permit (reads the token's EIP-712 domain for EIP-2612)
+ */
+export async function buildPermitTypedData(context: DCAContext, token: TokenInfo, terms: PermitTerms) {
+  if (terms.kind === 'PERMIT2') {
+    return buildPermit2TypedData({
+      chainId: CHAIN_ID,
+      token: token.address as Address,
+      spender: terms.spender,
+      amount: terms.amount,
+      expiration: terms.deadline,
+      nonce: terms.nonce,
+    });
+  }
+
+  const publicClient = publicClientFor(context);
+  const [name, version] = await Promise.all([
+    publicClient.readContract({ address: token.address as Address, abi: erc20Abi, functionName: 'name' }),
+    // Tokens without version() use the EIP-2612 default
+    publicClient.readContract({ address: token.address as Address, abi: eip2612Abi, functionName: 'version' }).catch(() => '1'),
+  ]);
+  return buildEip2612TypedData({
+    chainId: CHAIN_ID,
+    token: token.address as Address,
+    name,
+    version,
+    owner: terms.owner,
+    spender: terms.spender,
+    value: terms.amount,
+    nonce: terms.nonce,
+    deadline: terms.deadline,
+  });
+}
+
+/**
+ * The nonce the next permit of `owner` must be signed with
+ */
+export async function getPermitNonce(context: DCAContext, kind: PermitKind, token: TokenInfo, owner: Address, spender: Address): Promise<bigint> {
+  const publicClient = publicClientFor(context);
+  if (kind === 'PERMIT2') {
+    const [, , nonce] = await publicClient.readContract({
+      address: PERMIT2_ADDRESS,
+      abi: permit2Abi,
+      functionName: 'allowance',
+      args: [owner, token.address as Address, spender],
+    });
+    return BigInt(nonce);
+  }
+  return publicClient.readContract({ address: token.address as Address, abi: eip2612Abi, functionName: 'nonces', args: [owner] });
+}
+
+/**
+ * Whether the user has approved the token to Permit2 for at least `amount`
+ */
+export async function hasPermit2Approval(context: DCAContext, token: TokenInfo, owner: Address, amount: bigint): Promise<boolean> {
+  const approved = await publicClientFor(context).readContract({
+    address: token.address as Address,
+    abi: erc20Abi,
+    functionName: 'allowance',
+    args: [owner, PERMIT2_ADDRESS],
+  });
+  return approved >= amount;
+}
+
+/**
+ * Check a signed permit for a plan spending `token`
+ * @returns why the permit is refused, or null if it is valid
+ */
+export async function verifyPlanPermit(
+  context: DCAContext,
+  token: TokenInfo,
+  owner: string,
+  permit: PlanPermitRequest
+): Promise<string | null> {
+  if (!context.executeTransaction) {
+    return 'Transaction execution is not enabled, so there is no executor to grant a permit to';
+  }
+  const deadline = BigInt(permit.deadline);
+  if (deadline <= BigInt(Math.floor(Date.now() / 1000))) {
+    return 'Permit deadline has passed';
+  }
+
+  let typedData: Awaited<ReturnType<typeof buildPermitTypedData>>;
+  try {
+    typedData = await buildPermitTypedData(context, token, {
+      kind: permit.kind,
+      owner: owner as Address,
+      spender: context.executeTransaction.executorAddress,
+      amount: BigInt(permit.amount),
+      nonce: BigInt(permit.nonce),
+      deadline,
+    });
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  // Covers smart-contract wallets (ERC-1271) as well as EOAs
+  const valid = await publicClientFor(context).verifyTypedData({
+    address: owner as Address,
+    ...typedData,
+    signature: permit.signature as Hex,
+  } as Parameters<PublicClient['verifyTypedData']>[0]);
+  return valid ? null : `Permit signature does not match ${owner}`;
+}
+
+/**
+ * What a permit has left of its amount (never negative)
+ */
+function permitRemaining(permit: Pick<PlanPermit, 'amount' | 'spent'>): bigint {
+  const remaining = BigInt(permit.amount) - BigInt(permit.spent);
+  return remaining > 0n ? remaining : 0n;
+}
+
+/**
+ * Whether a permit still grants (or, unapplied, can still grant) an allowance
+ */
+function isLivePermit(permit: PlanPermit, now: number): boolean {
+  if (permitRemaining(permit) === 0n) {
+    return false;
+  }
+  if (!permit.appliedAt) {
+    return permit.deadline.getTime() > now;
+  }
+  return !permit.expiresAt || permit.expiresAt.getTime() > now;
+}
+
+/**
+ * The live permits of `owner`'s other live plans for the same token and executor
+ */
+async function otherPlanPermits(
+  db: Prisma.TransactionClient | PrismaClient,
+  owner: string,
+  tokenAddress: string,
+  spender: string,
+  planId: string | null
+): Promise<PlanPermit[]> {
+  const permits = await db.planPermit.findMany({
+    where: {
+      tokenAddress: tokenAddress.toLowerCase(),
+      spender: spender.toLowerCase(),
+      ...(planId ? { planId: { not: planId } } : {}),
+      plan: {
+        userAddress: { equals: owner, mode: 'insensitive' },
+        status: { in: LIVE_PLAN_STATUSES },
+      },
+    },
+  });
+  const now = Date.now();
+  return permits.filter(permit => isLivePermit(permit, now));
+}
+
+/**
+ * Check that a permit for `planId` (null for a plan being created) would not replace the
+ * allowance another of the owner's live plans holds through its own permit
+ * @returns why the permit is refused, or null if it may be stored and applied
+ */
+export async function checkPermitConflict(
+  db: Prisma.TransactionClient | PrismaClient,
+  planId: string | null,
+  owner: string,
+  tokenAddress: string,
+  spender: string
+): Promise<string | null> {
+  const [other] = await otherPlanPermits(db, owner, tokenAddress, spender, planId);
+  return other
+    ? `Plan ${other.planId} still has an allowance from its ${other.kind} permit for this token; a new permit would replace it. Wait until it is used up or expired, or remove it first`
+    : null;
+}
+
+/**
+ * The part of the executor's ERC-20 allowance from `owner` that applied EIP-2612 permits
+ * reserve for the owner's other live plans
+ */
+export async function getReservedAllowance(context: DCAContext, planId: string, owner: string, tokenAddress: string): Promise<bigint> {
+  if (!context.executeTransaction) {
+    return 0n;
+  }
+  const permits = await otherPlanPermits(context.prisma, owner, tokenAddress, context.executeTransaction.executorAddress, planId);
+  return permits
+    .filter(permit => permit.kind === 'EIP2612' && permit.appliedAt)
+    .reduce((reserved, permit) => reserved + permitRemaining(permit), 0n);
+}
+
+/**
+ * Store a verified permit on its plan, replacing any previous one
+ */
+export async function savePlanPermit(
+  db: Prisma.TransactionClient | PrismaClient,
+  planId: string,
+  token: TokenInfo,
+  spender: string,
+  permit: PlanPermitRequest
+): Promise<PlanPermit> {
+  const deadline = new Date(Number(permit.deadline) * 1000);
+  const data = {
+    kind: permit.kind,
+    tokenAddress: token.address.toLowerCase(),
+    spender: spender.toLowerCase(),
+    amount: permit.amount,
+    nonce: permit.nonce,
+    deadline,
+    expiresAt: permit.kind === 'PERMIT2' ? deadline : null,
+    signature: permit.signature,
+    spent: '0',
+    appliedTxHash: null,
+    appliedAt: null,
+  };
+  return db.planPermit.upsert({
+    where: { planId },
+    create: { planId, ...data },
+    update: data,
+  });
+}
+
+export function formatPlanPermit(permit: PlanPermit): PlanPermitResponse {
+  return {
+    planId: permit.planId,
+    kind: permit.kind,
+    tokenAddress: permit.tokenAddress,
+    spender: permit.spender,
+    amount: permit.amount,
+    spent: permit.spent,
+    deadline: permit.deadline.toISOString(),
+    expiresAt: permit.expiresAt?.toISOString() ?? null,
+    appliedAt: permit.appliedAt?.toISOString() ?? null,
+    appliedTxHash: permit.appliedTxHash,
+    createdAt: permit.createdAt.toISOString(),
+  };
+}
+
+const minOf = (a: bigint, b: bigint): bigint => a < b ? a : b;
+
+/**
+ * What a permit still lets the executor pull from `owner` for its plan: what is left of the
+ * permit's amount, capped by what the chain still allows
+ * @returns null when the permit no longer applies (lapsed unused)
+ */
+async function getPermitAllowance(publicClient: PublicClient, permit: PlanPermit, owner: Address): Promise<bigint | null> {
+  const now = Date.now();
+  if (!permit.appliedAt && permit.deadline.getTime() <= now) {
+    return null;
+  }
+  const remaining = permitRemaining(permit);
+  if (!permit.appliedAt && permit.kind === 'EIP2612') {
+    return remaining;
+  }
+
+  const token = permit.tokenAddress as Address;
+  if (permit.kind === 'EIP2612') {
+    const granted = await publicClient.readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: 'allowance',
+      args: [owner, permit.spender as Address],
+    });
+    return minOf(remaining, granted);
+  }
+
+  const [approvedToPermit2, granted] = await Promise.all([
+    publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'allowance', args: [owner, PERMIT2_ADDRESS] }),
+    permit.appliedAt
+      ? publicClient.readContract({
+        address: PERMIT2_ADDRESS,
+        abi: permit2Abi,
+        functionName: 'allowance',
+        args: [owner, token, permit.spender as Address],
+      }).then(([amount, expiration]) => expiration * 1000 > now ? amount : 0n)
+      : Promise.resolve(remaining),
+  ]);
+  // Permit2 can only move what the token lets it move
+  return minOf(remaining, minOf(granted, approvedToPermit2));
+}
+
+/**
+ * The plan's permit for `tokenAddress`, if it still grants the executor an allowance
+ */
+export async function findUsablePermit(context: DCAContext, planId: string, tokenAddress: string): Promise<UsablePermit | null> {
+  const permit = await context.prisma.planPermit.findUnique({ where: { planId } });
+  if (!permit || !context.executeTransaction
+    || permit.tokenAddress !== tokenAddress.toLowerCase()
+    || permit.spender !== context.executeTransaction.executorAddress.toLowerCase()) {
+    return null;
+  }
+
+  const plan = await context.prisma.dcaPlan.findUnique({ where: { id: planId }, select: { userAddress: true } });
+  if (!plan) {
+    return null;
+  }
+  const allowance = await getPermitAllowance(publicClientFor(context), permit, plan.userAddress as Address);
+  return allowance === null ? null : { permit, allowance };
+}
+
+/**
+ * Move `amount` from the user to the executor under a permit, submitting it first if needed,
+ * and count it against the permit. In dry-run mode the calls are only simulated.
+ */
+export async function pullWithPermit(
+  context: DCAContext,
+  permit: PlanPermit,
+  owner: string,
+  amount: bigint,
+  dryRun: boolean = false
+): Promise<void> {
+  if (!context.executeTransaction) {
+    throw new Error('Transaction executor not available');
+  }
+  const account = context.executeTransaction.executorAccount;
+  const executorAddress = context.executeTransaction.executorAddress;
+  const publicClient = publicClientFor(context);
+  const walletClient = createWalletClient({ account, chain: arbitrum, transport: http(context.config.arbitrumRpcUrl) });
+  const token = permit.tokenAddress as Address;
+  const deadline = BigInt(Math.floor(permit.deadline.getTime() / 1000));
+
+  if (permitRemaining(permit) < amount) {
+    throw new Error(`Permit of plan ${permit.planId} has ${permitRemaining(permit)} left, less than the ${amount} to pull`);
+  }
+
+  // Simulate each call first so a bad permit fails before anything is broadcast
+  const send = async (
+    label: string,
+    simulate: () => Promise<{ request: WriteContractParameters }>
+  ): Promise<void> => {
+    const { request } = await simulate();
+    if (dryRun) {
+      console.log(`[Permits] 🧪 Dry run: ${label} of plan ${permit.planId} would succeed`);
+      return;
+    }
+    const txHash = await walletClient.writeContract(request);
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+    if (receipt.status === 'reverted') {
+      throw new Error(`${label} transaction ${txHash} reverted`);
+    }
+    console.log(`[Permits] ✅ ${label} of plan ${permit.planId} confirmed: ${txHash}`);
+    if (!permit.appliedAt) {
+      await context.prisma.planPermit.update({
+        where: { id: permit.id },
+        data: { appliedTxHash: txHash, appliedAt: new Date() },
+      });
+    }
+  };
+
+  if (!permit.appliedAt) {
+    const conflict = await checkPermitConflict(context.prisma, permit.planId, owner, token, executorAddress);
+    if (conflict) {
+      throw new Error(conflict);
+    }
+    if (permit.kind === 'PERMIT2') {
+      await send('Permit2 permit', () => publicClient.simulateContract({
+        account,
+        address: PERMIT2_ADDRESS,
+        abi: permit2Abi,
+        functionName: 'permit',
+        args: [
+          owner as Address,
+          {
+            details: { token, amount: BigInt(permit.amount), expiration: Number(deadline), nonce: Number(permit.nonce) },
+            spender: executorAddress,
+            sigDeadline: deadline,
+          },
+          permit.signature as Hex,
+        ],
+      }));
+    } else {
+      const { r, s, v, yParity } = parseSignature(permit.signature as Hex);
+      await send('EIP-2612 permit', () => publicClient.simulateContract({
+        account,
+        address: token,
+        abi: eip2612Abi,
+        functionName: 'permit',
+        args: [owner as Address, executorAddress, BigInt(permit.amount), deadline, Number(v ?? BigInt(yParity + 27)), r, s],
+      }));
+    }
+    if (dryRun) {
+      // The pull depends on the permit being on-chain, so it can't be simulated yet
+      return;
+    }
+    permit = { ...permit, appliedAt: new Date() };
+  }
+
+  if (permit.kind === 'PERMIT2') {
+    await send(`Permit2 pull of ${amount}`, () => publicClient.simulateContract({
+      account,
+      address: PERMIT2_ADDRESS,
+      abi: permit2Abi,
+      functionName: 'transferFrom',
+      args: [owner as Address, executorAddress, amount, token],
+    }));
+  } else {
+    await send(`Pull of ${amount}`, () => publicClient.simulateContract({
+      account,
+      address: token,
+      abi: erc20Abi,
+      functionName: 'transferFrom',
+      args: [owner as Address, executorAddress, amount],
+    }));
+  }
+  if (!dryRun) {
+    await context.prisma.planPermit.update({
+      where: { id: permit.id },
+      data: { spent: (BigInt(permit.spent) + amount).toString() },
+    });
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Plan Failure Tracking
+ *
+ * When a run fails after all of its attempts, the failure is classified (utils/failures.ts)
+ * and counted on the plan. The plan then waits out a backoff for that class (the scheduler
+ * doesn't claim it before `retryAfter`), and after PLAN_FAILURE_PAUSE_THRESHOLD failures in
+ * a row it is paused with a reason. A successful run resets the count (see
+ * advancePlanAfterExecution), and so does resuming the plan.
+ */
+
+import type { DcaPlan, PrismaClient } from '@prisma/client';
+import type { FailureClass } from '../types/shared.js';
+import { classifyFailure, describePauseReason, failureBackoffMs, shouldAutoPause } from '../utils/failures.js';
+import { emitPlanEvent } from './webhooks.js';
+import { publishPlanState } from './liveEvents.js';
+
+const PAUSE_THRESHOLD = parseInt(process.env.PLAN_FAILURE_PAUSE_THRESHOLD || '5', 10);
+
+export interface PlanFailureOutcome {
+  plan: DcaPlan;
+  failureClass: FailureClass;
+  paused: boolean;
+}
+
+/**
+ * Count a failed run against its plan, back it off and pause it if it keeps failing
+ * @returns null if the plan is gone or no longer active
+ */
+export async function recordPlanFailure(
+  prisma: PrismaClient,
+  planId: string,
+  message: string
+): Promise<PlanFailureOutcome | null> {
+  const failureClass = classifyFailure(message);
+
+  const outcome = await prisma.$transaction(async tx => {
+    const plan = await tx.dcaPlan.findUnique({ where: { id: planId } });
+    if (!plan || plan.status !== 'ACTIVE') {
+      return null;
+    }
+
+    const consecutiveFailures = plan.consecutiveFailures + 1;
+    const paused = shouldAutoPause(failureClass, consecutiveFailures, PAUSE_THRESHOLD);
+    const now = new Date();
+
+    // Conditional on the status so a pause or cancel made meanwhile isn't overwritten
+    const updated = await tx.dcaPlan.updateMany({
+      where: { id: planId, status: 'ACTIVE' },
+      data: {
+        consecutiveFailures,
+        lastFailureClass: failureClass,
+        lastFailureAt: now,
+        retryAfter: paused ? null : new Date(now.getTime() + failureBackoffMs(failureClass, consecutiveFailures)),
+        ...(paused && { status: 'PAUSED', pauseReason: describePauseReason(failureClass, consecutiveFailures, message) }),
+      },
+    });
+    if (updated.count === 0) {
+      return null;
+    }
+
+    const updatedPlan = await tx.dcaPlan.findUniqueOrThrow({ where: { id: planId } });
+    if (paused) {
+      await emitPlanEvent(tx, 'plan.paused', updatedPlan);
+    }
+    return { plan: updatedPlan, failureClass, paused };
+  });
+
+  if (!outcome) {
+    return null;
+  }
+
+  if (outcome.paused) {
+    console.log(`[Failures] ⏸️  Plan ${planId} paused: ${outcome.plan.pauseReason}`);
+    publishPlanState(outcome.plan);
+  } else {
+    console.log(`[Failures] ⏳ Plan ${planId} failed ${outcome.plan.consecutiveFailures} time(s) in a row (${failureClass}), next attempt after ${outcome.plan.retryAfter?.toISOString()}`);
+  }
+  return outcome;
+}
@@ -0,0 +1,99 @@
+/**
+ * DCA Plan Lease Service
+ *
+ * Lets several agent replicas poll the same database without executing a plan twice.
+ * Each due plan is claimed atomically with `FOR UPDATE SKIP LOCKED`, stamped with the
+ * claiming worker and a lease expiry. A worker that crashes mid-execution simply stops
+ * renewing; once its lease expires the plan becomes claimable by any other worker.
+ */
+
+import os from 'os';
+import { nanoid } from 'nanoid';
+import type { PrismaClient } from '@prisma/client';
+
+/**
+ * Build a worker identifier that is unique per process (hostname + pid + random suffix)
+ */
+export function createWorkerId(): string {
+  return `${os.hostname()}-${process.pid}-${nanoid(6)}`;
+}
+
+/**
+ * Atomically claim up to `limit` due ACTIVE plans for this worker.
+ * Plans held by another worker with an unexpired lease are skipped, as are plans backing
+ * off after failed runs and rows currently locked by a concurrent claim.
+ * Returns the claimed plan IDs in due order.
+ */
+export async function claimDuePlans(
+  prisma: PrismaClient,
+  workerId: string,
+  leaseSeconds: number,
+  limit: number,
+  excludeIds: string[] = []
+): Promise<string[]> {
+  const claimed = await prisma.$queryRaw<{ id: string }[]>`
+    UPDATE dca_plans
+    SET claimed_by = ${workerId},
+        claim_expires_at = NOW() + (${leaseSeconds}::int * INTERVAL '1 second')
+    WHERE id IN (
+      SELECT id FROM dca_plans
+      WHERE status = 'ACTIVE'
+        AND next_execution IS NOT NULL
+        AND next_execution <= NOW()
+        AND (claim_expires_at IS NULL OR claim_expires_at < NOW())
+        AND (retry_after IS NULL OR retry_after <= NOW())
+        AND NOT (id = ANY(${excludeIds}::text[]))
+      ORDER BY next_execution ASC
+      LIMIT ${limit}::int
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id
+  `;
+
+  return claimed.map(row => row.id);
+}
+
+/**
+ * Extend the lease on a plan this worker still holds (e.g. between retry attempts).
+ * Returns false if the claim was lost to lease expiry and another worker took over.
+ */
+export async function renewPlanLease(
+  prisma: PrismaClient,
+  planId: string,
+  workerId: string,
+  leaseSeconds: number
+): Promise<boolean> {
+  const renewed = await prisma.$executeRaw`
+    UPDATE dca_plans
+    SET claim_expires_at = NOW() + (${leaseSeconds}::int * INTERVAL '1 second')
+    WHERE id = ${planId} AND claimed_by = ${workerId}
+  `;
+
+  return renewed > 0;
+}
+
+/**
+ * Release a plan claimed by this worker so it can be picked up on its next due time
+ */
+export async function releasePlanClaim(
+  prisma: PrismaClient,
+  planId: string,
+  workerId: string
+): Promise<void> {
+  await prisma.dcaPlan.updateMany({
+    where: { id: planId, claimedBy: workerId },
+    data: { claimedBy: null, claimExpiresAt: null },
+  });
+}
+
+/**
+ * Release every claim held by this worker (used on graceful shutdown)
+ */
+export async function releaseAllClaims(prisma: PrismaClient, workerId: string): Promise<number> {
+  const released = await prisma.dcaPlan.updateMany({
+    where: { claimedBy: workerId },
+    data: { claimedBy: null, claimExpiresAt: null },
+  });
+
+  return released.count;
+}
@@ -0,0 +1,109 @@
+/**
+ * Price History
+ *
+ * Prices the scheduler observes while sizing runs are kept as samples per pair, so
+ * price-conditional plans can compare the current price with its moving average.
+ * Pairs of plans with dip tiers are also sampled on their own schedule, so the window
+ * is covered evenly rather than only at run times.
+ */
+
+import type { DcaPlan, PrismaClient } from '@prisma/client';
+import type { MovingAverageStatus } from '../types/shared.js';
+import { computeMovingAverage } from '../utils/priceConditions.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Share of the window's days that need a sample before the moving average is used
+const MIN_COVERAGE = Math.min(1, Math.max(0, parseFloat(process.env.PRICE_MA_MIN_COVERAGE || '0.8')));
+
+// How often pairs of plans with dip tiers are sampled between runs
+export const SAMPLE_INTERVAL_MINUTES = parseInt(process.env.PRICE_SAMPLE_INTERVAL_MINUTES || '60', 10);
+
+/**
+ * Store an observed price (fromToken per toToken)
+ */
+export async function recordPriceSample(
+  prisma: PrismaClient,
+  fromToken: string,
+  toToken: string,
+  price: string
+): Promise<void> {
+  await prisma.priceSample.create({
+    data: {
+      fromToken: fromToken.toUpperCase(),
+      toToken: toToken.toUpperCase(),
+      price,
+    },
+  });
+}
+
+/**
+ * Moving average of a pair's prices over the last `days`, with how much of the window is covered
+ */
+export async function getMovingAverage(
+  prisma: PrismaClient,
+  fromToken: string,
+  toToken: string,
+  days: number
+): Promise<MovingAverageStatus> {
+  const now = new Date();
+  const samples = await prisma.priceSample.findMany({
+    where: {
+      fromToken: fromToken.toUpperCase(),
+      toToken: toToken.toUpperCase(),
+      observedAt: { gte: new Date(now.getTime() - days * DAY_MS) },
+    },
+    select: { price: true, observedAt: true },
+  });
+
+  return computeMovingAverage(
+    samples.map(sample => ({ price: sample.price.toNumber(), observedAt: sample.observedAt })),
+    days,
+    now,
+    MIN_COVERAGE
+  );
+}
+
+/**
+ * The moving average a plan's dip tiers use (null for plans without dip tiers)
+ */
+export async function getPlanMovingAverage(prisma: PrismaClient, plan: DcaPlan): Promise<MovingAverageStatus | null> {
+  const dipTiers = plan.dipTiers as unknown[] | null;
+  if (!dipTiers?.length) {
+    return null;
+  }
+  return getMovingAverage(prisma, plan.fromToken, plan.toToken, plan.movingAverageDays);
+}
+
+/**
+ * Plans with dip tiers, one per pair, whose pair hasn't been sampled for SAMPLE_INTERVAL_MINUTES
+ */
+export async function findPairsDueForSampling(prisma: PrismaClient): Promise<DcaPlan[]> {
+  const plans = await prisma.dcaPlan.findMany({
+    where: { status: 'ACTIVE', kind: 'DCA' },
+  });
+  const pairs = new Map<string, DcaPlan>();
+  for (const plan of plans) {
+    const dipTiers = plan.dipTiers as unknown[] | null;
+    const pair = `${plan.fromToken.toUpperCase()}/${plan.toToken.toUpperCase()}`;
+    if (dipTiers?.length && !pairs.has(pair)) {
+      pairs.set(pair, plan);
+    }
+  }
+
+  const since = new Date(Date.now() - SAMPLE_INTERVAL_MINUTES * 60 * 1000);
+  const due: DcaPlan[] = [];
+  for (const plan of pairs.values()) {
+    const recent = await prisma.priceSample.count({
+      where: {
+        fromToken: plan.fromToken.toUpperCase(),
+        toToken: plan.toToken.toUpperCase(),
+        observedAt: { gte: since },
+      },
+    });
+    if (recent === 0) {
+      due.push(plan);
+    }
+  }
+  return due;
+}
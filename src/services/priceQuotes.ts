@@ -0,0 +1,90 @@
+/**
+ * Price Quotes
+ *
+ * Current token prices for plan sizing, derived from an Ember createSwap quote for the
+ * plan's own pair and size. Only the quote is used; its transactions are never executed.
+ */
+
+import { parseMcpToolResponsePayload } from 'arbitrum-vibekit-core';
+import { z } from 'zod';
+import type { DcaPlan } from '@prisma/client';
+import type { DCAContext } from '../context/types.js';
+
+const SwapQuoteSchema = z.object({
+  displayFromAmount: z.string(),
+  displayToAmount: z.string(),
+});
+
+export interface PriceQuote {
+  // Price of one toToken, in fromToken
+  price: string;
+  fromAmount: string;
+  toAmount: string;
+}
+
+/**
+ * Quote a swap of `amount` fromToken and derive the toToken price from it
+ */
+export async function getQuotedPrice(
+  context: DCAContext,
+  fromToken: string,
+  toToken: string,
+  amount: string
+): Promise<PriceQuote> {
+  if (!context.mcpClient) {
+    throw new Error('Ember MCP client not available');
+  }
+
+  const walletAddress = context.executeTransaction?.executorAddress ?? context.userAddress;
+  if (!walletAddress) {
+    throw new Error('No wallet address available for price quotes');
+  }
+
+  const quoteResult: any = await context.mcpClient.callTool({
+    name: 'createSwap',
+    arguments: {
+      walletAddress,
+      amount,
+      amountType: 'exactIn',
+      fromChain: 'Arbitrum One',
+      toChain: 'Arbitrum One',
+      fromToken,
+      toToken,
+    },
+  });
+
+  if (quoteResult.isError) {
+    throw new Error(`Failed to get price quote for ${fromToken}/${toToken}: ${JSON.stringify(quoteResult.content)}`);
+  }
+
+  const quote = parseMcpToolResponsePayload(quoteResult, SwapQuoteSchema);
+  const fromAmount = parseFloat(quote.displayFromAmount);
+  const toAmount = parseFloat(quote.displayToAmount);
+
+  if (!(fromAmount > 0) || !(toAmount > 0)) {
+    throw new Error(`Invalid price quote for ${fromToken}/${toToken}: ${quote.displayFromAmount} → ${quote.displayToAmount}`);
+  }
+
+  return {
+    price: (fromAmount / toAmount).toFixed(18),
+    fromAmount: quote.displayFromAmount,
+    toAmount: quote.displayToAmount,
+  };
+}
+
+/**
+ * Price of one toToken in fromToken, quoted in the direction the plan trades
+ * (SELL plans quote selling `amount` toToken, so the quote size is meaningful)
+ */
+export async function getPlanPrice(
+  context: DCAContext,
+  plan: Pick<DcaPlan, 'side' | 'fromToken' | 'toToken' | 'amount'>
+): Promise<string> {
+  if (plan.side === 'SELL') {
+    const quote = await getQuotedPrice(context, plan.toToken, plan.fromToken, plan.amount.toFixed());
+    return (1 / parseFloat(quote.price)).toFixed(18);
+  }
+
+  const quote = await getQuotedPrice(context, plan.fromToken, plan.toToken, plan.amount.toFixed());
+  return quote.price;
+}
@@ -0,0 +1,53 @@
+/**
+ * Plan Quota Enforcement
+ *
+ * Loads a user's plans and checks a create or edit against the caps configured with
+ * MAX_ACTIVE_PLANS_PER_USER and MAX_COMMITTED_NOTIONAL (see utils/quotas.ts).
+ */
+
+import type { DcaPlan, PrismaClient } from '@prisma/client';
+import { checkPlanQuota, parseNotionalCaps, type QuotaLimits, type QuotaPlan } from '../utils/quotas.js';
+
+const MAX_ACTIVE_PLANS = parseInt(process.env.MAX_ACTIVE_PLANS_PER_USER || '25', 10);
+
+export const quotaLimits: QuotaLimits = {
+  maxActivePlans: MAX_ACTIVE_PLANS > 0 ? MAX_ACTIVE_PLANS : null,
+  maxCommittedNotional: parseNotionalCaps(process.env.MAX_COMMITTED_NOTIONAL),
+};
+
+/**
+ * The quota-relevant view of a stored plan
+ */
+export function toQuotaPlan(
+  plan: Pick<DcaPlan, 'status' | 'side' | 'fromToken' | 'toToken' | 'amount' | 'totalExecutions' | 'executionCount'>
+): QuotaPlan {
+  return {
+    status: plan.status,
+    side: plan.side,
+    fromToken: plan.fromToken,
+    toToken: plan.toToken,
+    amount: plan.amount.toFixed(),
+    remainingExecutions: plan.totalExecutions - plan.executionCount,
+  };
+}
+
+/**
+ * Check creating (planId undefined) or changing a plan of `userAddress`
+ * @param next - the plan as it will be stored after the change
+ * @returns why the change exceeds the user's quota, or null
+ */
+export async function checkUserPlanQuota(
+  prisma: PrismaClient,
+  userAddress: string,
+  planId: string | undefined,
+  next: QuotaPlan
+): Promise<string | null> {
+  const plans = await prisma.dcaPlan.findMany({
+    where: { userAddress, status: { in: ['ACTIVE', 'AWAITING_FUNDS'] } },
+    select: { id: true, status: true, side: true, fromToken: true, toToken: true, amount: true, totalExecutions: true, executionCount: true },
+  });
+
+  const before = plans.map(toQuotaPlan);
+  const after = [...plans.filter(plan => plan.id !== planId).map(toQuotaPlan), next];
+  return checkPlanQuota(before, after, quotaLimits);
+}
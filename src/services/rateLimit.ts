@@ -0,0 +1,85 @@
+/**
+ * Rate Limit Stores
+ *
+ * Fixed-window request counters. The in-memory store is per process; the Postgres store
+ * shares counters between API replicas at the cost of one upsert per limited request.
+ * RATE_LIMIT_STORE picks the store (memory by default).
+ */
+
+import type { PrismaClient } from '@prisma/client';
+
+export interface RateLimitHit {
+  // Requests counted in the current window, including this one
+  count: number;
+  resetAt: Date;
+}
+
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+const windowStart = (windowMs: number, now: number) => Math.floor(now / windowMs) * windowMs;
+
+/**
+ * Per-process counters
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { count: number; resetAt: number }>();
+  private lastSweep = 0;
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    this.sweep(now, windowMs);
+
+    const resetAt = windowStart(windowMs, now) + windowMs;
+    const counter = this.counters.get(key);
+    if (!counter || counter.resetAt !== resetAt) {
+      this.counters.set(key, { count: 1, resetAt });
+      return { count: 1, resetAt: new Date(resetAt) };
+    }
+
+    counter.count++;
+    return { count: counter.count, resetAt: new Date(resetAt) };
+  }
+
+  // Drop counters of past windows, at most once per window
+  private sweep(now: number, windowMs: number) {
+    if (now - this.lastSweep < windowMs) {
+      return;
+    }
+    this.lastSweep = now;
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Counters shared through the rate_limit_counters table
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  private lastSweep = 0;
+
+  constructor(private prisma: PrismaClient) {}
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const start = windowStart(windowMs, now);
+    const resetAt = new Date(start + windowMs);
+
+    const counter = await this.prisma.rateLimitCounter.upsert({
+      where: { key: `${key}:${start}` },
+      create: { key: `${key}:${start}`, count: 1, expiresAt: resetAt },
+      update: { count: { increment: 1 } },
+    });
+
+    if (now - this.lastSweep >= windowMs) {
+      this.lastSweep = now;
+      await this.prisma.rateLimitCounter.deleteMany({ where: { expiresAt: { lt: new Date(now) } } });
+    }
+
+    return { count: counter.count, resetAt };
+  }
+}
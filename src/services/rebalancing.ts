@@ -0,0 +1,149 @@
+/**
+ * Rebalancing Runs
+ *
+ * A REBALANCE plan keeps the user's wallet at a set of target weights. Each run reads the
+ * wallet's balances through Ember's getWalletBalances, values every target token in the
+ * plan's fromToken with a createSwap quote, and - once some token has drifted past the
+ * plan's threshold - sells the over-weight tokens into the under-weight ones. The swaps
+ * run as the legs of one grouped execution, like basket runs.
+ *
+ * Only wallet balances count: bought tokens are delivered to the wallet, never to a vault.
+ */
+
+import { parseMcpToolResponsePayload } from 'arbitrum-vibekit-core';
+import { formatUnits, parseUnits } from 'viem';
+import { z } from 'zod';
+import type { DcaPlan } from '@prisma/client';
+import type { DCAContext } from '../context/types.js';
+import type { TargetWeight } from '../types/shared.js';
+import { computeRebalanceTrades, type RebalanceHolding, type RebalanceResult } from '../utils/rebalance.js';
+import { getQuotedPrice } from './priceQuotes.js';
+import { executeSwapGroup, type BasketRunOptions, type BasketRunResult } from './basketExecution.js';
+
+// Mirrors GetWalletBalancesResponseSchema from ember-schemas (balance.ts)
+const WalletBalancesSchema = z.object({
+  balances: z.array(z.object({
+    token: z.object({
+      chainId: z.string(),
+      address: z.string(),
+    }),
+    // Base units of the token, as a string
+    amount: z.string(),
+    symbol: z.string(),
+    valueUsd: z.number().optional(),
+    decimals: z.number(),
+  })),
+});
+
+const ARBITRUM_CHAIN_ID = '42161';
+
+export interface WalletBalance {
+  symbol: string;
+  address: string;
+  // Human-readable amount
+  amount: string;
+  decimals: number;
+}
+
+export type RebalanceRunOptions = BasketRunOptions;
+
+export type RebalanceRunResult =
+  | (BasketRunResult & { rebalance: RebalanceResult })
+  | { skipReason: string; rebalance: RebalanceResult };
+
+/**
+ * Fetch a wallet's Arbitrum token balances from Ember
+ */
+export async function getWalletBalances(context: DCAContext, walletAddress: string): Promise<WalletBalance[]> {
+  if (!context.mcpClient) {
+    throw new Error('Ember MCP client not available');
+  }
+
+  const balancesResult: any = await context.mcpClient.callTool({
+    name: 'getWalletBalances',
+    arguments: { walletAddress },
+  });
+
+  if (balancesResult.isError) {
+    throw new Error(`Failed to get wallet balances for ${walletAddress}: ${JSON.stringify(balancesResult.content)}`);
+  }
+
+  const { balances } = parseMcpToolResponsePayload(balancesResult, WalletBalancesSchema);
+  return balances
+    .filter(balance => balance.token.chainId === ARBITRUM_CHAIN_ID)
+    .map(balance => ({
+      symbol: balance.symbol.toUpperCase(),
+      address: balance.token.address,
+      amount: formatUnits(BigInt(balance.amount), balance.decimals),
+      decimals: balance.decimals,
+    }));
+}
+
+/**
+ * Value the wallet's holdings of each target token in the plan's fromToken
+ */
+async function valueHoldings(
+  context: DCAContext,
+  plan: Pick<DcaPlan, 'userAddress' | 'fromToken'>,
+  targets: TargetWeight[]
+): Promise<RebalanceHolding[]> {
+  const balances = await getWalletBalances(context, plan.userAddress);
+  const quoteToken = plan.fromToken.toUpperCase();
+  const holdings: RebalanceHolding[] = [];
+
+  for (const target of targets) {
+    const symbol = target.token.toUpperCase();
+    const balance = balances.find(b => b.symbol === symbol);
+    if (!balance || !(parseFloat(balance.amount) > 0)) {
+      continue;
+    }
+
+    const value = symbol === quoteToken
+      ? balance.amount
+      : (await getQuotedPrice(context, symbol, quoteToken, balance.amount)).toAmount;
+    holdings.push({ token: symbol, amount: balance.amount, value, decimals: balance.decimals });
+  }
+
+  return holdings;
+}
+
+/**
+ * Check a rebalancing plan's drift and swap back to its target weights if needed
+ */
+export async function runRebalance(
+  context: DCAContext,
+  plan: Pick<DcaPlan, 'id' | 'userAddress' | 'fromToken' | 'amount' | 'targetWeights' | 'driftThreshold'>,
+  options: RebalanceRunOptions
+): Promise<RebalanceRunResult> {
+  const targets = (plan.targetWeights as unknown as TargetWeight[] | null) ?? [];
+  if (targets.length === 0) {
+    throw new Error(`Plan ${plan.id} has no target weights`);
+  }
+
+  const holdings = await valueHoldings(context, plan, targets);
+  const driftThreshold = plan.driftThreshold?.toNumber() ?? 5;
+  const rebalance = computeRebalanceTrades(holdings, targets, {
+    driftThreshold,
+    maxTradeValue: plan.amount.toFixed(),
+  });
+
+  console.log(`[Rebalance] ⚖️  Plan ${plan.id}: ${rebalance.totalValue} ${plan.fromToken} across ${rebalance.drifts.map(d => `${d.token} ${d.currentWeight.toFixed(2)}%/${d.targetWeight}%`).join(', ')} (max drift ${rebalance.maxDrift.toFixed(2)}pp)`);
+
+  if (rebalance.trades.length === 0) {
+    const skipReason = rebalance.drifts.length === 0
+      ? `Wallet holds none of the plan's target tokens`
+      : `Max drift ${rebalance.maxDrift.toFixed(2)}pp is within the ${driftThreshold}pp threshold`;
+    return { skipReason, rebalance };
+  }
+
+  const tradedValue = rebalance.trades.reduce((sum, trade) => sum + parseUnits(trade.value, 18), 0n);
+  const group = await executeSwapGroup(
+    context,
+    plan,
+    rebalance.trades.map(trade => ({ fromToken: trade.fromToken, toToken: trade.toToken, amount: trade.amount })),
+    formatUnits(tradedValue, 18),
+    { ...options, depositToVault: false }
+  );
+
+  return { ...group, rebalance };
+}
@@ -10,12 +10,41 @@
  * - Comprehensive error handling and recovery
  * - Plan completion and status management
  * - Performance monitoring and logging
+ * - Lease-based plan claiming so multiple replicas never double-execute a plan
+ * - Per-plan missed-run policy (skip / run once / run all) after downtime
+ * - Reconciliation of PENDING executions left behind by a crash or restart
+ * - Basket runs and portfolio rebalancing, executed as grouped swaps
+ * - Pre-flight balance/allowance checks that park unfunded plans as AWAITING_FUNDS
+ * - Failure classification with per-class backoff and auto-pause after repeated failures
  */
 
 import { PrismaClient, DcaPlan, DcaStatus } from '@prisma/client';
 import { TaskState } from '@google-a2a/types';
 import type { DCAContext } from '../context/types.js';
 import { executeDCASwapTool } from '../tools/executeDCASwap.js';
+import {
+  createWorkerId,
+  claimDuePlans,
+  renewPlanLease,
+  releasePlanClaim,
+  releaseAllClaims,
+} from './planLeases.js';
+import { hasPendingExecution, advancePlanSchedule, recordSkippedExecution, finalizeBasketExecution } from './executionRecords.js';
+import { getPlanPrice } from './priceQuotes.js';
+import { findVaultHolding } from './vaultPositions.js';
+import { runBasket } from './basketExecution.js';
+import { runRebalance } from './rebalancing.js';
+import { recordPriceSample, getMovingAverage, findPairsDueForSampling } from './priceHistory.js';
+import { computeValueAveragingAmount } from '../utils/valueAveraging.js';
+import { evaluatePriceConditions, hasPriceConditions, applyMultiplier } from '../utils/priceConditions.js';
+import type { BasketLeg, DipTier } from '../types/shared.js';
+import { reconcilePendingExecutions } from './executionReconciler.js';
+import { emitPlanEvent } from './webhooks.js';
+import { publishLiveEvent, publishPlanState, refreshPlanState } from './liveEvents.js';
+import { applyFundingCheck, checkPlanFunding, runFundingChecks } from './fundingChecks.js';
+import { recordPlanFailure, type PlanFailureOutcome } from './planFailures.js';
+import { countMissedSlots, getNextExecutionAfterRun, planScheduleFromRecord } from '../utils/schedule.js';
+import { classifyFailure } from '../utils/failures.js';
 
 export interface SchedulerConfig {
   intervalSeconds: number;
@@ -23,8 +52,20 @@ export interface SchedulerConfig {
   retryAttempts: number;
   retryDelayMs: number;
   enableMetrics: boolean;
+  workerId: string;
+  leaseSeconds: number;
+  // Simulate every plan instead of broadcasting (plans can also opt in individually)
+  dryRun: boolean;
 }
 
+// Outcome of sizing a run: swap `amount`, or skip it with a reason
+type RunDecision =
+  | { amount: string }
+  | { skipReason: string; price: string | null };
+
+// Group row of a basket or rebalancing run kept open between attempts (null when there is none)
+type SwapGroupRef = { id: string | null };
+
 export interface SchedulerMetrics {
   totalExecutions: number;
   successfulExecutions: number;
@@ -49,6 +90,9 @@ export class DCAScheduler {
       retryAttempts: 3,
       retryDelayMs: 5000,
       enableMetrics: process.env.ENABLE_METRICS === 'true',
+      workerId: process.env.SCHEDULER_WORKER_ID || createWorkerId(),
+      leaseSeconds: parseInt(process.env.SCHEDULER_LEASE_SECONDS || '900', 10),
+      dryRun: process.env.SCHEDULER_DRY_RUN === 'true',
       ...config,
     };
 
@@ -83,17 +127,29 @@ export class DCAScheduler {
     console.log(`[Scheduler]    - Max concurrent executions: ${this.config.maxConcurrentExecutions}`);
     console.log(`[Scheduler]    - Retry attempts: ${this.config.retryAttempts}`);
     console.log(`[Scheduler]    - Metrics enabled: ${this.config.enableMetrics}`);
+    console.log(`[Scheduler]    - Worker ID: ${this.config.workerId} (lease: ${this.config.leaseSeconds}s)`);
+    if (this.config.dryRun) {
+      console.log(`[Scheduler]    - 🧪 DRY RUN: all plans are simulated, nothing is broadcast`);
+    }
     console.log(`[Scheduler]    - Using executeDCASwapTool for consistency`);
 
     this.isRunning = true;
 
+    // Resolve executions interrupted by a previous crash before scheduling anything new
+    await this.reconcilePendingExecutions();
+
     // Initial execution
+    await this.runFundingChecks();
+    await this.samplePrices();
     await this.processDuePlans();
 
     // Set up recurring execution
     this.intervalId = setInterval(async () => {
       try {
         if (this.isRunning) {
+          await this.reconcilePendingExecutions();
+          await this.runFundingChecks();
+          await this.samplePrices();
           await this.processDuePlans();
         }
       } catch (error) {
@@ -122,6 +178,16 @@ export class DCAScheduler {
       this.intervalId = null;
     }
 
+    // Hand back any plans still claimed by this worker so other replicas can pick them up
+    try {
+      const released = await releaseAllClaims(this.context.prisma, this.config.workerId);
+      if (released > 0) {
+        console.log(`[Scheduler] 🔓 Released ${released} plan claim(s) held by ${this.config.workerId}`);
+      }
+    } catch (error) {
+      console.error('[Scheduler] ❌ Failed to release plan claims:', error);
+    }
+
     console.log('[Scheduler] ✅ DCA scheduler stopped successfully');
   }
 
@@ -137,55 +203,57 @@ export class DCAScheduler {
   }
 
   /**
-   * Process all plans due for execution
+   * Process all plans due for execution.
+   * Plans are claimed one batch at a time so that concurrent replicas split the due
+   * work between them instead of each selecting (and executing) every due plan.
    */
   private async processDuePlans(): Promise<void> {
     const executionStart = Date.now();
 
     try {
-      // Get all plans due for execution across ALL users
-      const duePlans = await this.context.prisma.dcaPlan.findMany({
-        where: {
-          status: 'ACTIVE',
-          nextExecution: {
-            not: null,  // Only plans with scheduled execution (not completed)
-            lte: new Date(),
-          },
-        },
-        include: {
-          executions: {
-            orderBy: { executedAt: 'desc' },
-            take: 1, // Get latest execution for context
-          },
-        },
-        orderBy: {
-          nextExecution: 'asc', // Process earliest due plans first
-        },
-      });
-
       this.metrics.activePlansCount = await this.context.prisma.dcaPlan.count({
         where: { status: 'ACTIVE' },
       });
 
-      if (duePlans.length === 0) {
-        console.log(`[Scheduler] 📋 No DCA plans due for execution (${this.metrics.activePlansCount} active plans)`);
-        return;
-      }
-
-      console.log(`[Scheduler] 📋 Found ${duePlans.length} plans due for execution`);
-
-      // Process plans in batches to control concurrency
-      const batches = this.createExecutionBatches(duePlans);
       let totalProcessed = 0;
       let totalSuccessful = 0;
       let totalFailed = 0;
+      const processedIds: string[] = [];
+
+      while (this.isRunning) {
+        // Claim the next batch of due plans across ALL users for this worker
+        const claimedIds = await claimDuePlans(
+          this.context.prisma,
+          this.config.workerId,
+          this.config.leaseSeconds,
+          this.config.maxConcurrentExecutions,
+          processedIds
+        );
+
+        if (claimedIds.length === 0) {
+          break;
+        }
+
+        processedIds.push(...claimedIds);
+
+        const batch = await this.context.prisma.dcaPlan.findMany({
+          where: { id: { in: claimedIds } },
+          include: {
+            executions: {
+              orderBy: { executedAt: 'desc' },
+              take: 1, // Get latest execution for context
+            },
+          },
+          orderBy: {
+            nextExecution: 'asc', // Process earliest due plans first
+          },
+        });
 
-      for (const batch of batches) {
-        console.log(`[Scheduler] ⚡ Processing batch of ${batch.length} plans...`);
+        console.log(`[Scheduler] ⚡ Claimed and processing batch of ${batch.length} plans...`);
 
         // Execute all plans in the batch in parallel
         const batchResults = await Promise.allSettled(
-          batch.map(plan => this.executeDCAPlan(plan))
+          batch.map(plan => this.executeClaimedPlan(plan))
         );
 
         // Count results
@@ -199,11 +267,16 @@ export class DCAScheduler {
         console.log(`[Scheduler] 📊 Batch complete: ${batchSuccessful} successful, ${batchFailed} failed`);
 
         // Small delay between batches to prevent overwhelming the system
-        if (batches.length > 1) {
+        if (claimedIds.length === this.config.maxConcurrentExecutions) {
           await new Promise(resolve => setTimeout(resolve, 1000));
         }
       }
 
+      if (totalProcessed === 0) {
+        console.log(`[Scheduler] 📋 No DCA plans due for execution (${this.metrics.activePlansCount} active plans)`);
+        return;
+      }
+
       // Update metrics
       this.metrics.totalExecutions += totalProcessed;
       this.metrics.successfulExecutions += totalSuccessful;
@@ -223,33 +296,280 @@ export class DCAScheduler {
   }
 
   /**
-   * Create execution batches to control concurrency
+   * Reconcile stale PENDING executions; errors are logged and never stop the scheduler
    */
-  private createExecutionBatches(plans: DcaPlan[]): DcaPlan[][] {
-    const batches: DcaPlan[][] = [];
-    const batchSize = this.config.maxConcurrentExecutions;
+  private async reconcilePendingExecutions(): Promise<void> {
+    try {
+      await reconcilePendingExecutions(this.context);
+    } catch (error) {
+      console.error('[Scheduler] ❌ Error reconciling pending executions:', error);
+    }
+  }
 
-    for (let i = 0; i < plans.length; i += batchSize) {
-      batches.push(plans.slice(i, i + batchSize));
+  /**
+   * Check funding of plans due soon and resume funded AWAITING_FUNDS plans; errors are logged.
+   * Dry runs broadcast nothing, so they don't need funds.
+   */
+  private async runFundingChecks(): Promise<void> {
+    if (this.config.dryRun) {
+      return;
+    }
+    try {
+      await runFundingChecks(this.context);
+    } catch (error) {
+      console.error('[Scheduler] ❌ Error checking plan funding:', error);
     }
+  }
 
-    return batches;
+  /**
+   * Sample the price of pairs whose plans use dip tiers, so their moving average has
+   * history across its whole window; errors are logged
+   */
+  private async samplePrices(): Promise<void> {
+    try {
+      for (const plan of await findPairsDueForSampling(this.context.prisma)) {
+        const price = await getPlanPrice(this.context, plan);
+        await recordPriceSample(this.context.prisma, plan.fromToken, plan.toToken, price);
+      }
+    } catch (error) {
+      console.error('[Scheduler] ❌ Error sampling prices:', error);
+    }
   }
 
   /**
-   * 🎯 FIXED: Execute DCA plan using the SAME TOOL with proper Task status checking
+   * Last-moment funding check before a run
+   * @returns false when the plan can't pay for this run and was moved to AWAITING_FUNDS
+   */
+  private async ensureFunded(plan: DcaPlan, runAmount: string): Promise<boolean> {
+    try {
+      const check = await checkPlanFunding(this.context, plan, runAmount);
+      if (!check) {
+        return true;
+      }
+      const updated = await applyFundingCheck(this.context, plan, check);
+      return updated.status !== 'AWAITING_FUNDS';
+    } catch (error) {
+      // An unreachable RPC shouldn't block the run; the swap itself reports real shortfalls
+      console.warn(`[Scheduler] ⚠️  Funding check failed for plan ${plan.id}, running anyway:`, error);
+      return true;
+    }
+  }
+
+  /**
+   * Execute a plan claimed by this worker and always release the claim afterwards.
+   * If the process dies before the release, the lease expiry frees the plan instead.
+   */
+  private async executeClaimedPlan(plan: DcaPlan): Promise<void> {
+    try {
+      // A swap whose outcome is still unknown must be reconciled before the plan runs again
+      if (await hasPendingExecution(this.context.prisma, plan.id)) {
+        console.log(`[Scheduler] ⏭️  Plan ${plan.id} has a PENDING execution awaiting reconciliation, skipping`);
+        return;
+      }
+
+      const shouldExecute = await this.applyMissedRunPolicy(plan);
+      if (shouldExecute) {
+        await this.executeDCAPlan(plan);
+      }
+    } finally {
+      try {
+        await releasePlanClaim(this.context.prisma, plan.id, this.config.workerId);
+      } catch (error) {
+        console.error(`[Scheduler] ❌ Failed to release claim on plan ${plan.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Apply the plan's missed-run policy when it is more than one slot behind schedule.
+   * SKIP fast-forwards to the next future slot without executing; RUN_ONCE executes once
+   * and the after-hook jumps to the next future slot; RUN_ALL executes and the after-hook
+   * advances a single slot, so one missed run is replayed per scheduler cycle.
+   *
+   * @returns whether the plan should be executed now
+   */
+  private async applyMissedRunPolicy(plan: DcaPlan): Promise<boolean> {
+    if (!plan.nextExecution) {
+      return true;
+    }
+
+    const now = new Date();
+    const schedule = planScheduleFromRecord(plan);
+    const missedSlots = countMissedSlots(schedule, plan.nextExecution, now);
+
+    if (missedSlots === 0) {
+      return true;
+    }
+
+    console.log(`[Scheduler] ⏰ Plan ${plan.id} is ${missedSlots} slot(s) behind schedule (policy: ${plan.missedRunPolicy})`);
+
+    if (plan.missedRunPolicy !== 'SKIP') {
+      return true;
+    }
+
+    const nextExecution = getNextExecutionAfterRun(schedule, plan.nextExecution, now);
+    const isCompleted = plan.endAt !== null && nextExecution > plan.endAt;
+
+    const updatedPlan = await this.context.prisma.dcaPlan.update({
+      where: { id: plan.id },
+      data: {
+        nextExecution: isCompleted ? null : nextExecution,
+        status: isCompleted ? 'COMPLETED' : 'ACTIVE',
+        updatedAt: new Date(),
+      },
+    });
+    if (isCompleted) {
+      await emitPlanEvent(this.context.prisma, 'plan.completed', updatedPlan);
+    }
+    publishPlanState(updatedPlan);
+
+    console.log(
+      `[Scheduler] ⏭️  Skipped missed runs for plan ${plan.id}; ` +
+      (isCompleted ? 'plan window has ended, marked COMPLETED' : `next execution at ${nextExecution.toISOString()}`)
+    );
+    return false;
+  }
+
+  /**
+   * Decide how much the next run buys, or why it is skipped:
+   * 1. min/max price guards
+   * 2. the plan's fixed amount, or for value averaging the shortfall between the target
+   *    path and the current value of everything bought so far
+   * 3. buy-the-dip multiplier from the drawdown against the moving average
+   */
+  private async prepareRun(plan: DcaPlan): Promise<RunDecision> {
+    const conditions = {
+      minPrice: plan.minPrice?.toFixed(),
+      maxPrice: plan.maxPrice?.toFixed(),
+      dipTiers: plan.dipTiers as unknown as DipTier[] | null,
+    };
+    const needsPrice = plan.strategy === 'VALUE_AVERAGING' || hasPriceConditions(conditions);
+
+    if (!needsPrice) {
+      return { amount: plan.amount.toString() };
+    }
+
+    const price = await getPlanPrice(this.context, plan);
+    // Read the average before adding this sample so it reflects the history only
+    const movingAverage = conditions.dipTiers?.length
+      ? await getMovingAverage(this.context.prisma, plan.fromToken, plan.toToken, plan.movingAverageDays)
+      : null;
+    await recordPriceSample(this.context.prisma, plan.fromToken, plan.toToken, price);
+    if (movingAverage && movingAverage.value === null) {
+      console.log(`[Scheduler] 📉 Plan ${plan.id}: dip tiers inactive, ${movingAverage.coveredDays}/${movingAverage.requiredDays} days of price history in its ${plan.movingAverageDays}d window`);
+    }
+
+    const condition = evaluatePriceConditions(
+      conditions,
+      parseFloat(price),
+      movingAverage?.value ? parseFloat(movingAverage.value) : null
+    );
+    if (condition.action === 'SKIP') {
+      return { skipReason: condition.reason, price };
+    }
+
+    const fromDecimals = this.context.tokenMap[plan.fromToken.toUpperCase()]
+      ?.find(token => token.chainId === 42161)?.decimals;
+    let amount = plan.amount.toString();
+
+    if (plan.strategy === 'VALUE_AVERAGING') {
+      const bought = await this.context.prisma.executionHistory.aggregate({
+        where: { planId: plan.id, status: 'SUCCESS' },
+        _sum: { toAmount: true },
+      });
+      const unitsHeld = bought._sum.toAmount?.toFixed() ?? '0';
+
+      const run = computeValueAveragingAmount({
+        targetIncrement: (plan.targetIncrement ?? plan.amount).toFixed(),
+        runNumber: plan.executionCount + 1,
+        unitsHeld,
+        price,
+        minRunAmount: plan.minRunAmount?.toFixed(),
+        maxRunAmount: plan.maxRunAmount?.toFixed(),
+        fromDecimals,
+      });
+
+      console.log(`[Scheduler] 📐 Value averaging for plan ${plan.id}: target ${run.targetValue}, current ${run.currentValue} ${plan.fromToken} (${unitsHeld} ${plan.toToken} @ ${price}) → buy ${run.amount}${run.cappedBy ? ` (capped at ${run.cappedBy})` : ''}`);
+
+      if (parseFloat(run.amount) <= 0) {
+        return { skipReason: `Position is at or above its value-averaging target (${run.currentValue} ≥ ${run.targetValue} ${plan.fromToken})`, price };
+      }
+      amount = run.amount;
+    }
+
+    if (condition.multiplier !== 1) {
+      const scaled = applyMultiplier(amount, condition.multiplier, fromDecimals);
+      console.log(`[Scheduler] 📉 Plan ${plan.id}: price ${price} is ${condition.drawdownPercent?.toFixed(2)}% below its ${plan.movingAverageDays}d average, buying ${condition.multiplier}x (${amount} → ${scaled})`);
+      amount = scaled;
+    }
+
+    return { amount };
+  }
+
+  /**
+   * Execute a plan's run, with retries. A basket or rebalancing run whose legs all failed is
+   * retried under the same group row, which is settled however the attempts end.
    */
   private async executeDCAPlan(plan: DcaPlan): Promise<void> {
+    const swapGroup: SwapGroupRef = { id: null };
+    try {
+      await this.attemptDCAPlan(plan, swapGroup);
+    } finally {
+      await this.closeSwapGroup(swapGroup);
+    }
+  }
+
+  /**
+   * Settle the group of a grouped run left open for a retry that didn't complete it
+   */
+  private async closeSwapGroup(swapGroup: SwapGroupRef): Promise<void> {
+    if (!swapGroup.id) {
+      return;
+    }
+    try {
+      await finalizeBasketExecution(this.context.prisma, swapGroup.id, { force: true });
+    } catch (error) {
+      console.error(`[Scheduler] ❌ Failed to settle grouped run ${swapGroup.id}:`, error);
+    }
+    swapGroup.id = null;
+  }
+
+  /**
+   * 🎯 FIXED: Execute DCA plan using the SAME TOOL with proper Task status checking
+   */
+  private async attemptDCAPlan(plan: DcaPlan, swapGroup: SwapGroupRef): Promise<void> {
     const planId = plan.id;
     const userAddress = plan.userAddress;
 
     console.log(`[Scheduler] 🔄 Executing DCA plan ${planId}: ${plan.amount} ${plan.fromToken} → ${plan.toToken} for ${userAddress}`);
 
     let lastError: Error | null = null;
+    let attempts = 0;
 
     // Retry logic
     for (let attempt = 1; attempt <= this.config.retryAttempts; attempt++) {
+      attempts = attempt;
       try {
+        // Keep our lease alive across retries; bail out if another worker took the plan over
+        const stillOwned = await renewPlanLease(
+          this.context.prisma,
+          planId,
+          this.config.workerId,
+          this.config.leaseSeconds
+        );
+
+        if (!stillOwned) {
+          console.log(`[Scheduler] ⏭️  Plan ${planId} is no longer claimed by this worker, skipping`);
+          return;
+        }
+
+        // A failed attempt may still have broadcast a swap; never retry over one whose outcome is unknown
+        // (the open group of a grouped run being retried is expected to be pending)
+        if (await hasPendingExecution(this.context.prisma, planId, swapGroup.id)) {
+          console.log(`[Scheduler] ⏭️  Plan ${planId} has a PENDING execution awaiting reconciliation, not retrying`);
+          return;
+        }
+
         // Check if plan is still active (might have been paused/cancelled during execution)
         const currentPlan = await this.context.prisma.dcaPlan.findUnique({
           where: { id: planId },
@@ -266,18 +586,94 @@ export class DCAScheduler {
           custom: this.context, // Wrap DCA context in custom property for tool compatibility
         };
 
-        console.log(`[Scheduler] 🔧 Calling executeDCASwapTool for plan ${planId}...`);
+        const dryRun = currentPlan.dryRun || this.config.dryRun;
+        publishLiveEvent(userAddress, 'execution.started', planId, { attempt, kind: currentPlan.kind, side: currentPlan.side, dryRun });
+
+        // Rebalancing plans size their own swaps from the wallet's balances
+        if (currentPlan.kind === 'REBALANCE') {
+          const rebalance = await runRebalance(this.context, currentPlan, {
+            slippage: plan.slippage.toString(),
+            dryRun,
+            groupId: swapGroup.id ?? undefined,
+            finalizeFailed: attempt === this.config.retryAttempts,
+          });
+          if ('skipReason' in rebalance) {
+            const skipped = await recordSkippedExecution(
+              this.context.prisma,
+              { planId, reason: rebalance.skipReason },
+              { countExecution: !dryRun }
+            );
+            console.log(`[Scheduler] ⏭️  Plan ${planId} rebalance skipped (${skipped.id}): ${rebalance.skipReason}`);
+            publishLiveEvent(userAddress, 'execution.skipped', planId, { executionId: skipped.id, reason: rebalance.skipReason });
+            await refreshPlanState(this.context.prisma, planId);
+            return;
+          }
+          swapGroup.id = rebalance.status === null ? rebalance.groupId : null;
+          if (rebalance.legs.every(leg => !leg.success)) {
+            throw new Error(`Every rebalancing swap failed: ${rebalance.legs.map(leg => `${leg.fromToken} → ${leg.toToken}: ${leg.message}`).join('; ')}`);
+          }
+          console.log(`[Scheduler] ⚖️  Plan ${planId} rebalance settled as ${rebalance.status}`);
+          await refreshPlanState(this.context.prisma, planId);
+          return;
+        }
+
+        // Price guards, value averaging and dip multipliers decide the size of this run
+        const run = await this.prepareRun(currentPlan);
+        if ('skipReason' in run) {
+          const skipped = await recordSkippedExecution(
+            this.context.prisma,
+            { planId, reason: run.skipReason, price: run.price },
+            { countExecution: !dryRun }
+          );
+          console.log(`[Scheduler] ⏭️  Plan ${planId} run skipped (${skipped.id}): ${run.skipReason}`);
+          publishLiveEvent(userAddress, 'execution.skipped', planId, { executionId: skipped.id, reason: run.skipReason, price: run.price });
+          await refreshPlanState(this.context.prisma, planId);
+          return;
+        }
+        const runAmount = run.amount;
+
+        // Park the plan rather than burning retries on a swap the wallet can't pay for
+        if (!dryRun && !(await this.ensureFunded(currentPlan, runAmount))) {
+          console.log(`[Scheduler] ⏸️  Plan ${planId} is awaiting funds, not executing`);
+          return;
+        }
+
+        // Basket legs are swapped (and recorded) individually, so a partial run is never retried as a whole
+        if (currentPlan.basketLegs) {
+          const legs = currentPlan.basketLegs as unknown as BasketLeg[];
+          const basket = await runBasket(this.context, currentPlan, legs, runAmount, {
+            slippage: plan.slippage.toString(),
+            dryRun,
+            groupId: swapGroup.id ?? undefined,
+            finalizeFailed: attempt === this.config.retryAttempts,
+          });
+          swapGroup.id = basket.status === null ? basket.groupId : null;
+          if (basket.legs.every(leg => !leg.success)) {
+            throw new Error(`Every basket leg failed: ${basket.legs.map(leg => `${leg.toToken}: ${leg.message}`).join('; ')}`);
+          }
+          console.log(`[Scheduler] 🧺 Plan ${planId} basket run settled as ${basket.status}`);
+          await refreshPlanState(this.context.prisma, planId);
+          return;
+        }
+
+        // SELL plans swap the other way, drawing from the user's vault position when there is one
+        const isSell = currentPlan.side === 'SELL';
+        const fromVault = isSell && (await findVaultHolding(this.context.prisma, plan.userAddress, plan.toToken)) !== null;
+
+        console.log(`[Scheduler] 🔧 Calling executeDCASwapTool for plan ${planId}${isSell ? ` (sell${fromVault ? ' from vault' : ''})` : ''}${dryRun ? ' (dry run)' : ''}...`);
         const toolResult = await executeDCASwapTool.execute(
           {
             planId: plan.id,
             walletAddress: plan.userAddress,
-            amount: plan.amount.toString(),
+            amount: runAmount,
             amountType: 'exactIn',
             toChain: 'Arbitrum One',
             fromChain: 'Arbitrum One',
-            fromToken: plan.fromToken,
-            toToken: plan.toToken,
+            fromToken: isSell ? plan.toToken : plan.fromToken,
+            toToken: isSell ? plan.fromToken : plan.toToken,
             slippage: plan.slippage.toString(),
+            dryRun,
+            fromVault,
           },
           toolContext as any
         );
@@ -293,6 +689,11 @@ export class DCAScheduler {
               ? toolResult.status.message.parts[0].text 
               : 'Swap completed';
             console.log(`[Scheduler]    Result: ${messageText}`);
+            if (dryRun) {
+              // Simulations aren't counted, so move the schedule on here
+              await advancePlanSchedule(this.context.prisma, planId, { countExecution: false });
+              await refreshPlanState(this.context.prisma, planId);
+            }
             return; // Success, exit retry loop
           } else {
             // Extract error message from failed task
@@ -308,6 +709,10 @@ export class DCAScheduler {
             : 'Swap completed';
           console.log(`[Scheduler] ✅ Plan ${planId} executed successfully via tool`);
           console.log(`[Scheduler]    Result: ${messageText}`);
+          if (dryRun) {
+            await advancePlanSchedule(this.context.prisma, planId, { countExecution: false });
+            await refreshPlanState(this.context.prisma, planId);
+          }
           return; // Success, exit retry loop
         } else {
           throw new Error('Unexpected tool result type');
@@ -317,6 +722,10 @@ export class DCAScheduler {
         lastError = error instanceof Error ? error : new Error(String(error));
         console.error(`[Scheduler] ❌ Attempt ${attempt}/${this.config.retryAttempts} failed for plan ${planId}:`, lastError.message);
 
+        // Blocked calldata is a problem with the route, not a transient one; a retry would only ask for it again
+        if (classifyFailure(lastError.message) === 'UNSAFE_CALLDATA') {
+          break;
+        }
         if (attempt < this.config.retryAttempts) {
           console.log(`[Scheduler] ⏳ Retrying in ${this.config.retryDelayMs}ms...`);
           await new Promise(resolve => setTimeout(resolve, this.config.retryDelayMs));
@@ -324,8 +733,32 @@ export class DCAScheduler {
       }
     }
 
+    // The last attempt may have left a swap to reconcile; that isn't a failure of the plan (yet)
+    await this.closeSwapGroup(swapGroup);
+    if (await hasPendingExecution(this.context.prisma, planId)) {
+      console.log(`[Scheduler] ⏳ Plan ${planId} has a PENDING execution awaiting reconciliation after ${attempts} attempt(s)`);
+      return;
+    }
+
     // All retries failed
-    console.error(`[Scheduler] 💥 Plan ${planId} failed after ${this.config.retryAttempts} attempts: ${lastError?.message}`);
+    console.error(`[Scheduler] 💥 Plan ${planId} failed after ${attempts} attempt(s): ${lastError?.message}`);
+    const errorMessage = lastError?.message ?? 'Execution failed';
+
+    // Back the plan off according to what went wrong, and pause it if it keeps failing
+    let failure: PlanFailureOutcome | null = null;
+    try {
+      failure = await recordPlanFailure(this.context.prisma, planId, errorMessage);
+    } catch (error) {
+      console.error(`[Scheduler] ❌ Failed to record failure of plan ${planId}:`, error);
+    }
+
+    publishLiveEvent(userAddress, 'execution.failed', planId, {
+      attempts,
+      error: errorMessage,
+      failureClass: failure?.failureClass ?? null,
+      paused: failure?.paused ?? false,
+      pauseReason: failure?.plan.pauseReason ?? null,
+    });
 
     // Note: The tool already records failed executions in the database,
     // so we don't need to duplicate that logic here
@@ -0,0 +1,214 @@
+/**
+ * Tax Lot Export
+ *
+ * Turns a user's successful swaps into taxable events - BUY runs (including basket legs)
+ * acquire the bought token, SELL runs (including their vault withdrawals) dispose of it -
+ * valued in each plan's fromToken, and matches them into lots and realized gains.
+ * Gas is paid in ETH and converted into the quote token with the swap's own price when
+ * it trades ETH, otherwise with the stored price sample closest to the swap.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { Prisma } from '@prisma/client';
+import type { TaxExportQuery, TaxExportResponse, TaxTransaction } from '../types/shared.js';
+import { matchTaxLots } from '../utils/taxLots.js';
+import { toCsv } from '../utils/csv.js';
+
+const ETH_SYMBOLS = ['ETH', 'WETH'];
+
+/**
+ * Price of one ETH in `quoteToken` around `at`, from stored price samples
+ */
+async function getEthPrice(prisma: PrismaClient, quoteToken: string, at: Date): Promise<Prisma.Decimal | null> {
+  const where = { fromToken: quoteToken, toToken: { in: ETH_SYMBOLS } };
+  const sample = await prisma.priceSample.findFirst({
+    where: { ...where, observedAt: { lte: at } },
+    orderBy: { observedAt: 'desc' },
+  }) ?? await prisma.priceSample.findFirst({
+    where: { ...where, observedAt: { gt: at } },
+    orderBy: { observedAt: 'asc' },
+  });
+  return sample?.price ?? null;
+}
+
+/**
+ * Build the lots, realized gains and taxable swaps of a user for a reporting period
+ */
+export async function buildTaxExport(
+  prisma: PrismaClient,
+  userAddress: string,
+  query: Pick<TaxExportQuery, 'method' | 'from' | 'to'>
+): Promise<TaxExportResponse> {
+  const from = query.from ? new Date(query.from) : null;
+  const to = query.to ? new Date(query.to) : new Date();
+  const warnings: string[] = [];
+
+  // Lots are matched over the whole history up to the end of the period
+  const executions = await prisma.executionHistory.findMany({
+    where: {
+      plan: { userAddress },
+      status: 'SUCCESS',
+      legCount: null,
+      executedAt: { lte: to },
+    },
+    include: { plan: { select: { kind: true, side: true, fromToken: true, toToken: true } } },
+    orderBy: { executedAt: 'asc' },
+  });
+
+  const transactions: TaxTransaction[] = [];
+  let rebalanceSwaps = 0;
+  let unpricedFees = 0;
+
+  for (const execution of executions) {
+    const { plan } = execution;
+    if (plan.kind === 'REBALANCE') {
+      rebalanceSwaps++;
+      continue;
+    }
+
+    const quoteToken = plan.fromToken.toUpperCase();
+    const isSell = plan.side === 'SELL';
+    const token = (execution.legToken ?? plan.toToken).toUpperCase();
+    const amount = isSell ? execution.fromAmount : execution.toAmount;
+    const quoteAmount = isSell ? execution.toAmount : execution.fromAmount;
+
+    let gasFeeQuote: string | null = null;
+    if (execution.gasFee) {
+      let ethPrice: Prisma.Decimal | null;
+      if (ETH_SYMBOLS.includes(quoteToken)) {
+        ethPrice = new Prisma.Decimal(1);
+      } else if (ETH_SYMBOLS.includes(token) && amount.gt(0)) {
+        ethPrice = quoteAmount.div(amount);
+      } else {
+        ethPrice = await getEthPrice(prisma, quoteToken, execution.executedAt);
+      }
+
+      if (ethPrice) {
+        gasFeeQuote = execution.gasFee.mul(ethPrice).toFixed(18);
+      } else {
+        unpricedFees++;
+      }
+    }
+
+    transactions.push({
+      executionId: execution.id,
+      planId: execution.planId,
+      type: isSell ? 'DISPOSAL' : 'ACQUISITION',
+      date: execution.executedAt.toISOString(),
+      token,
+      amount: amount.toFixed(),
+      quoteToken,
+      quoteAmount: quoteAmount.toFixed(),
+      gasFee: execution.gasFee?.toFixed() ?? null,
+      gasFeeQuote,
+      txHash: execution.txHash,
+    });
+  }
+
+  const { lots, gains } = matchTaxLots(transactions, query.method);
+  const inPeriod = (date: string | null) => !from || (date !== null && new Date(date) >= from);
+
+  const reportedGains = gains.filter(gain => inPeriod(gain.disposedAt));
+  const totals = new Map<string, { proceeds: Prisma.Decimal; costBasis: Prisma.Decimal; gain: Prisma.Decimal }>();
+  for (const gain of reportedGains) {
+    const total = totals.get(gain.quoteToken) ?? { proceeds: new Prisma.Decimal(0), costBasis: new Prisma.Decimal(0), gain: new Prisma.Decimal(0) };
+    totals.set(gain.quoteToken, {
+      proceeds: total.proceeds.add(gain.proceeds),
+      costBasis: total.costBasis.add(gain.costBasis),
+      gain: total.gain.add(gain.gain),
+    });
+  }
+
+  if (rebalanceSwaps > 0) {
+    warnings.push(`${rebalanceSwaps} rebalancing swap(s) are not included: they trade between held tokens and have no quote-token value per leg`);
+  }
+  if (unpricedFees > 0) {
+    warnings.push(`${unpricedFees} swap(s) have a gas fee with no ETH price available; those fees are not included in cost basis or proceeds`);
+  }
+  const unknownBasis = reportedGains.filter(gain => gain.lotId === null).length;
+  if (unknownBasis > 0) {
+    warnings.push(`${unknownBasis} disposal part(s) sold more than the plans acquired and are reported with a zero cost basis`);
+  }
+
+  return {
+    userAddress,
+    method: query.method,
+    from: from?.toISOString() ?? null,
+    to: to.toISOString(),
+    transactions: transactions.filter(tx => inPeriod(tx.date)),
+    // Lots bought in the period, plus older lots still open at its end
+    lots: lots.filter(lot => inPeriod(lot.acquiredAt) || parseFloat(lot.remaining) > 0),
+    gains: reportedGains,
+    totals: [...totals].map(([quoteToken, total]) => ({
+      quoteToken,
+      proceeds: total.proceeds.toFixed(),
+      costBasis: total.costBasis.toFixed(),
+      gain: total.gain.toFixed(),
+    })),
+    warnings,
+  };
+}
+
+// CSV timestamps in the "YYYY-MM-DD HH:mm:ss" UTC form tax tools import
+const csvDate = (iso: string | null) => (iso ? iso.replace('T', ' ').slice(0, 19) : null);
+
+/**
+ * Render one table of a tax export as CSV
+ * - gains: one row per matched lot part, in the usual Form 8949 columns
+ * - lots: every lot with its remaining balance
+ * - transactions: the swaps in the generic (Koinly-style) import format
+ */
+export function formatTaxCsv(report: TaxExportResponse, table: TaxExportQuery['report']): string {
+  if (table === 'lots') {
+    return toCsv(
+      ['Lot ID', 'Asset', 'Date Acquired', 'Amount', 'Cost Basis', 'Remaining', 'Remaining Cost Basis', 'Currency', 'TxHash'],
+      report.lots.map(lot => ({
+        'Lot ID': lot.id,
+        'Asset': lot.token,
+        'Date Acquired': csvDate(lot.acquiredAt),
+        'Amount': lot.amount,
+        'Cost Basis': lot.costBasis,
+        'Remaining': lot.remaining,
+        'Remaining Cost Basis': lot.remainingCostBasis,
+        'Currency': lot.quoteToken,
+        'TxHash': lot.txHash,
+      }))
+    );
+  }
+
+  if (table === 'transactions') {
+    return toCsv(
+      ['Date', 'Sent Amount', 'Sent Currency', 'Received Amount', 'Received Currency', 'Fee Amount', 'Fee Currency', 'Label', 'Description', 'TxHash'],
+      report.transactions.map(tx => {
+        const isSell = tx.type === 'DISPOSAL';
+        return {
+          'Date': csvDate(tx.date),
+          'Sent Amount': isSell ? tx.amount : tx.quoteAmount,
+          'Sent Currency': isSell ? tx.token : tx.quoteToken,
+          'Received Amount': isSell ? tx.quoteAmount : tx.amount,
+          'Received Currency': isSell ? tx.quoteToken : tx.token,
+          'Fee Amount': tx.gasFee,
+          'Fee Currency': tx.gasFee ? 'ETH' : null,
+          'Label': 'swap',
+          'Description': `DCA plan ${tx.planId}`,
+          'TxHash': tx.txHash,
+        };
+      })
+    );
+  }
+
+  return toCsv(
+    ['Description', 'Date Acquired', 'Date Sold', 'Proceeds', 'Cost Basis', 'Gain', 'Term', 'Currency', 'TxHash'],
+    report.gains.map(gain => ({
+      'Description': `${gain.amount} ${gain.token}`,
+      'Date Acquired': csvDate(gain.acquiredAt),
+      'Date Sold': csvDate(gain.disposedAt),
+      'Proceeds': gain.proceeds,
+      'Cost Basis': gain.costBasis,
+      'Gain': gain.gain,
+      'Term': gain.term,
+      'Currency': gain.quoteToken,
+      'TxHash': gain.txHash,
+    }))
+  );
+}
@@ -0,0 +1,262 @@
+/**
+ * Vault Positions
+ *
+ * Deposits the output of vault buys and credits the user's tracked vault shares
+ * (UserVaultHoldings), and redeems those shares so sell-side plans can exit a vault-backed
+ * position. Shares are held by the executor on the user's behalf, so the underlying tokens
+ * land on the executor, ready to be swapped.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { createPublicClient, createWalletClient, http, erc20Abi, formatUnits, parseUnits, type Address } from 'viem';
+import { arbitrum } from 'viem/chains';
+import type { DCAContext } from '../context/types.js';
+import { VaultInteractions } from '../utils/vaultInteractions.js';
+import { getVaultMapping } from '../utils/vaultUtils.js';
+import { emitWebhookEvent } from './webhooks.js';
+import { publishLiveEvent } from './liveEvents.js';
+
+export interface VaultDeposit {
+  vaultAddress: string;
+  amount: string;
+  shareTokens: string;
+  depositTxHash: string;
+}
+
+export interface VaultRedemption {
+  vaultAddress: string;
+  tokenAddress: string;
+  decimals: number;
+  sharesRedeemed: string;
+  tokensReceived: string;
+  withdrawTxHash: string;
+}
+
+/**
+ * Find the user's tracked vault holding for a token, if it has any shares left
+ */
+export async function findVaultHolding(prisma: PrismaClient, userAddress: string, tokenSymbol: string) {
+  const mapping = getVaultMapping(tokenSymbol);
+  if (!mapping) {
+    return null;
+  }
+
+  const holding = await prisma.userVaultHoldings.findUnique({
+    where: {
+      user_vault_unique: {
+        userAddress,
+        vaultAddress: mapping.vaultAddress,
+      },
+    },
+  });
+
+  return holding && holding.shareTokens.gt(0) ? holding : null;
+}
+
+/**
+ * Add vault shares to the user's tracked holding, creating it on their first deposit
+ */
+export async function creditVaultShares(
+  prisma: PrismaClient,
+  userAddress: string,
+  tokenSymbol: string,
+  shareTokens: string
+): Promise<void> {
+  const mapping = getVaultMapping(tokenSymbol);
+  if (!mapping) {
+    throw new Error(`No vault configured for ${tokenSymbol}`);
+  }
+
+  const where = { user_vault_unique: { userAddress, vaultAddress: mapping.vaultAddress } };
+  const holding = await prisma.userVaultHoldings.findUnique({ where });
+  if (holding) {
+    const total = parseUnits(holding.shareTokens.toFixed(), mapping.decimals) + parseUnits(shareTokens, mapping.decimals);
+    await prisma.userVaultHoldings.update({
+      where,
+      data: { shareTokens: formatUnits(total, mapping.decimals), updatedAt: new Date() },
+    });
+    console.log(`[VaultPositions] 📝 Credited ${shareTokens} ${tokenSymbol} vault shares to ${userAddress} (${holding.shareTokens} → ${formatUnits(total, mapping.decimals)})`);
+  } else {
+    await prisma.userVaultHoldings.create({
+      data: { userAddress, vaultAddress: mapping.vaultAddress, shareTokens, tokenSymbol },
+    });
+    console.log(`[VaultPositions] 📝 Created ${tokenSymbol} vault holding of ${shareTokens} shares for ${userAddress}`);
+  }
+}
+
+/**
+ * Deposit swap output held by the executor into the token's vault and credit the shares to the user
+ * @throws if the deposit did not happen (a failed credit is only logged: the shares were minted)
+ */
+export async function depositSwapOutput(
+  context: DCAContext,
+  userAddress: string,
+  tokenSymbol: string,
+  amount: string
+): Promise<VaultDeposit> {
+  if (!context.executeTransaction) {
+    throw new Error('Transaction executor not available');
+  }
+  const mapping = getVaultMapping(tokenSymbol);
+  if (!mapping) {
+    throw new Error(`No vault configured for ${tokenSymbol}`);
+  }
+
+  const vaultInteractions = new VaultInteractions(
+    context.executeTransaction.executorAccount,
+    context.config.arbitrumRpcUrl
+  );
+  const depositResult = await vaultInteractions.depositToVault(
+    mapping.tokenAddress as Address,
+    mapping.vaultAddress as Address,
+    amount,
+    mapping.decimals,
+    userAddress as Address
+  );
+  if (!depositResult.success) {
+    throw new Error(`Vault deposit failed: ${depositResult.error || 'Unknown error'}`);
+  }
+
+  try {
+    await creditVaultShares(context.prisma, userAddress, tokenSymbol, depositResult.shareTokens);
+  } catch (error) {
+    console.error(`[VaultPositions] ❌ Deposited ${amount} ${tokenSymbol} for ${userAddress} but failed to credit ${depositResult.shareTokens} shares:`, error);
+  }
+
+  return {
+    vaultAddress: mapping.vaultAddress,
+    amount,
+    shareTokens: depositResult.shareTokens,
+    depositTxHash: depositResult.depositTxHash,
+  };
+}
+
+/**
+ * Report a vault buy whose output is still waiting on the executor for its deposit
+ * (live event, which the notifier picks up, and webhook)
+ */
+export async function reportPendingVaultDeposit(
+  prisma: PrismaClient,
+  userAddress: string,
+  planId: string,
+  details: { executionId: string; vaultAddress: string | null; token: string; amount: string; error: string }
+): Promise<void> {
+  publishLiveEvent(userAddress, 'vault.deposit_failed', planId, { ...details });
+  await emitWebhookEvent(prisma, 'vault.deposit_failed', userAddress, { planId, ...details });
+}
+
+/**
+ * Withdraw up to `shareAmount` of the user's vault shares and debit their holding
+ * @returns the exact underlying tokens received (measured by balance difference)
+ */
+export async function redeemVaultShares(
+  context: DCAContext,
+  userAddress: string,
+  tokenSymbol: string,
+  shareAmount: string
+): Promise<VaultRedemption> {
+  if (!context.executeTransaction) {
+    throw new Error('Transaction executor not available');
+  }
+
+  const mapping = getVaultMapping(tokenSymbol);
+  const holding = await findVaultHolding(context.prisma, userAddress, tokenSymbol);
+  if (!mapping || !holding) {
+    throw new Error(`No ${tokenSymbol} vault position to sell from for ${userAddress}`);
+  }
+
+  // Never redeem more than the user's tracked shares
+  const heldShares = parseUnits(holding.shareTokens.toFixed(), mapping.decimals);
+  const requestedShares = parseUnits(shareAmount, mapping.decimals);
+  const shares = requestedShares < heldShares ? requestedShares : heldShares;
+  const sharesHuman = formatUnits(shares, mapping.decimals);
+
+  const executorAddress = context.executeTransaction.executorAddress;
+  const publicClient = createPublicClient({
+    chain: arbitrum,
+    transport: http(context.config.arbitrumRpcUrl)
+  });
+
+  const readBalance = () => publicClient.readContract({
+    address: mapping.tokenAddress as Address,
+    abi: erc20Abi,
+    functionName: 'balanceOf',
+    args: [executorAddress],
+  });
+
+  const balanceBefore = await readBalance();
+
+  const vaultInteractions = new VaultInteractions(
+    context.executeTransaction.executorAccount,
+    context.config.arbitrumRpcUrl
+  );
+  const withdrawResult = await vaultInteractions.withdrawFromVault(
+    mapping.vaultAddress as Address,
+    sharesHuman,
+    mapping.decimals,
+    userAddress as Address
+  );
+
+  if (!withdrawResult.success) {
+    throw new Error(`Vault withdrawal failed: ${withdrawResult.error || 'Unknown error'}`);
+  }
+
+  const tokensReceivedWei = (await readBalance()) - balanceBefore;
+  const tokensReceived = formatUnits(tokensReceivedWei, mapping.decimals);
+
+  const remainingShares = heldShares - shares;
+  if (remainingShares > 0n) {
+    await context.prisma.userVaultHoldings.update({
+      where: { id: holding.id },
+      data: { shareTokens: formatUnits(remainingShares, mapping.decimals) },
+    });
+  } else {
+    await context.prisma.userVaultHoldings.delete({ where: { id: holding.id } });
+  }
+
+  console.log(`[VaultPositions] 🏦 Redeemed ${sharesHuman} ${tokenSymbol} vault shares for ${userAddress}: ${tokensReceived} received (tx: ${withdrawResult.withdrawTxHash})`);
+
+  return {
+    vaultAddress: mapping.vaultAddress,
+    tokenAddress: mapping.tokenAddress,
+    decimals: mapping.decimals,
+    sharesRedeemed: sharesHuman,
+    tokensReceived,
+    withdrawTxHash: withdrawResult.withdrawTxHash,
+  };
+}
+
+/**
+ * Send redeemed tokens on to the user (used when the swap that should have sold them fails)
+ */
+export async function returnRedeemedTokens(
+  context: DCAContext,
+  userAddress: string,
+  redemption: VaultRedemption
+): Promise<string> {
+  if (!context.executeTransaction) {
+    throw new Error('Transaction executor not available');
+  }
+
+  const walletClient = createWalletClient({
+    account: context.executeTransaction.executorAccount,
+    chain: arbitrum,
+    transport: http(context.config.arbitrumRpcUrl)
+  });
+  const publicClient = createPublicClient({
+    chain: arbitrum,
+    transport: http(context.config.arbitrumRpcUrl)
+  });
+
+  const transferTxHash = await walletClient.writeContract({
+    address: redemption.tokenAddress as Address,
+    abi: erc20Abi,
+    functionName: 'transfer',
+    args: [userAddress as Address, parseUnits(redemption.tokensReceived, redemption.decimals)],
+    account: context.executeTransaction.executorAccount,
+  });
+
+  await publicClient.waitForTransactionReceipt({ hash: transferTxHash });
+  console.log(`[VaultPositions] 💸 Returned ${redemption.tokensReceived} redeemed tokens to ${userAddress} (tx: ${transferTxHash})`);
+  return transferTxHash;
+}
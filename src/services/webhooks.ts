@@ -0,0 +1,301 @@
+/**
+ * Webhooks
+ *
+ * Lifecycle events are written as one delivery row per matching subscription (in the
+ * caller's transaction when there is one), and the dispatcher sends due deliveries in
+ * the background: signed POSTs, retried with exponential backoff until they succeed or
+ * run out of attempts. Every attempt's outcome stays on the delivery row.
+ */
+
+import { randomBytes } from 'crypto';
+import { nanoid } from 'nanoid';
+import type { DcaPlan, Prisma, PrismaClient, WebhookDelivery, WebhookSubscription } from '@prisma/client';
+import type { WebhookDeliveryResponse, WebhookEvent, WebhookSubscriptionResponse } from '../types/shared.js';
+import { getRetryDelayMs, signWebhookPayload } from '../utils/webhooks.js';
+import { checkOutboundUrl } from '../utils/outboundUrls.js';
+
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10);
+const POLL_INTERVAL_MS = parseInt(process.env.WEBHOOK_POLL_SECONDS || '5', 10) * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// A claimed delivery is invisible to other dispatchers for this long
+const CLAIM_LEASE_MS = 60 * 1000;
+const BATCH_SIZE = 20;
+
+export interface WebhookEnvelope {
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export function formatWebhookSubscription(subscription: WebhookSubscription, includeSecret = false): WebhookSubscriptionResponse {
+  return {
+    id: subscription.id,
+    userAddress: subscription.userAddress,
+    url: subscription.url,
+    events: subscription.events as WebhookEvent[],
+    active: subscription.active,
+    createdAt: subscription.createdAt.toISOString(),
+    ...(includeSecret && { secret: subscription.secret }),
+  };
+}
+
+export function formatWebhookDelivery(delivery: WebhookDelivery): WebhookDeliveryResponse {
+  return {
+    id: delivery.id,
+    eventId: delivery.eventId,
+    event: delivery.event as WebhookEvent,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    nextAttemptAt: delivery.nextAttemptAt.toISOString(),
+    lastStatusCode: delivery.lastStatusCode,
+    lastError: delivery.lastError,
+    deliveredAt: delivery.deliveredAt?.toISOString() ?? null,
+    createdAt: delivery.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Create a subscription with a fresh signing secret
+ * @param userAddress - whose events to deliver, or null for every user's
+ */
+export async function createWebhookSubscription(
+  prisma: PrismaClient,
+  url: string,
+  events: WebhookEvent[],
+  userAddress: string | null
+): Promise<WebhookSubscription> {
+  return prisma.webhookSubscription.create({
+    data: {
+      url,
+      events: [...new Set(events)],
+      userAddress: userAddress?.toLowerCase() ?? null,
+      secret: `whsec_${randomBytes(32).toString('base64url')}`,
+    },
+  });
+}
+
+/**
+ * Queue an event for every active subscription of its user, and every global one
+ * @param db - a transaction client to queue atomically with the change being reported
+ */
+export async function emitWebhookEvent(
+  db: Prisma.TransactionClient,
+  event: WebhookEvent,
+  userAddress: string,
+  data: Record<string, unknown>
+): Promise<void> {
+  const subscriptions = await db.webhookSubscription.findMany({
+    where: {
+      active: true,
+      events: { has: event },
+      OR: [
+        { userAddress: null },
+        { userAddress: { equals: userAddress, mode: 'insensitive' } },
+      ],
+    },
+    select: { id: true },
+  });
+  if (subscriptions.length === 0) {
+    return;
+  }
+
+  const envelope: WebhookEnvelope = {
+    id: `evt_${nanoid(16)}`,
+    event,
+    createdAt: new Date().toISOString(),
+    data: { userAddress, ...data },
+  };
+
+  await db.webhookDelivery.createMany({
+    data: subscriptions.map(subscription => ({
+      subscriptionId: subscription.id,
+      eventId: envelope.id,
+      event,
+      payload: envelope as unknown as Prisma.InputJsonValue,
+    })),
+  });
+}
+
+/**
+ * Queue a plan lifecycle event (plan.created, plan.paused, plan.completed, ...)
+ */
+export async function emitPlanEvent(
+  db: Prisma.TransactionClient,
+  event: WebhookEvent,
+  plan: Pick<DcaPlan, 'id' | 'userAddress' | 'kind' | 'side' | 'status' | 'fromToken' | 'toToken' | 'amount' | 'executionCount' | 'totalExecutions' | 'pauseReason'>
+): Promise<void> {
+  await emitWebhookEvent(db, event, plan.userAddress, {
+    planId: plan.id,
+    kind: plan.kind,
+    side: plan.side,
+    status: plan.status,
+    fromToken: plan.fromToken,
+    toToken: plan.toToken,
+    amount: plan.amount.toFixed(),
+    executionCount: plan.executionCount,
+    totalExecutions: plan.totalExecutions,
+    pauseReason: plan.pauseReason,
+  });
+}
+
+/**
+ * Queue execution.succeeded / execution.failed for a finalized execution row
+ * (a whole run: a single swap, or a basket group; legs are reported with their group)
+ */
+export async function emitExecutionEvent(db: Prisma.TransactionClient, executionId: string): Promise<void> {
+  const execution = await db.executionHistory.findUnique({
+    where: { id: executionId },
+    include: { plan: { select: { userAddress: true, fromToken: true, toToken: true, side: true } } },
+  });
+  if (!execution || execution.groupId) {
+    return;
+  }
+
+  const succeeded = execution.status === 'SUCCESS' || execution.status === 'PARTIAL';
+  if (!succeeded && execution.status !== 'FAILED') {
+    return;
+  }
+
+  await emitWebhookEvent(db, succeeded ? 'execution.succeeded' : 'execution.failed', execution.plan.userAddress, {
+    planId: execution.planId,
+    executionId: execution.id,
+    status: execution.status,
+    side: execution.plan.side,
+    fromToken: execution.plan.fromToken,
+    toToken: execution.plan.toToken,
+    fromAmount: execution.fromAmount.toFixed(),
+    toAmount: execution.toAmount.toFixed(),
+    txHash: execution.txHash,
+    errorMessage: execution.errorMessage,
+    depositPending: execution.depositPending,
+    executedAt: execution.executedAt.toISOString(),
+  });
+}
+
+/**
+ * Sends due deliveries on an interval; safe to run in several replicas at once
+ */
+export class WebhookDispatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(private prisma: PrismaClient) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.dispatchDue();
+    }, POLL_INTERVAL_MS);
+    console.log(`[Webhooks] 📮 Dispatcher started (every ${POLL_INTERVAL_MS / 1000}s, up to ${MAX_ATTEMPTS} attempts)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Claim and send one batch of due deliveries
+   */
+  async dispatchDue(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const now = new Date();
+      const due = await this.prisma.webhookDelivery.findMany({
+        where: { status: 'PENDING', nextAttemptAt: { lte: now } },
+        include: { subscription: true },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: BATCH_SIZE,
+      });
+
+      for (const delivery of due) {
+        // Push the attempt time forward first; whoever moves it owns this attempt
+        const claimed = await this.prisma.webhookDelivery.updateMany({
+          where: { id: delivery.id, status: 'PENDING', nextAttemptAt: delivery.nextAttemptAt },
+          data: { nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS) },
+        });
+        if (claimed.count === 1) {
+          await this.deliver(delivery, delivery.subscription);
+        }
+      }
+    } catch (error) {
+      console.error('[Webhooks] ❌ Dispatch failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async deliver(delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<void> {
+    const attempts = delivery.attempts + 1;
+
+    if (!subscription.active) {
+      await this.prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'FAILED', lastError: 'Subscription was deactivated' },
+      });
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    let statusCode: number | null = null;
+    let error: string | null = null;
+
+    try {
+      // The host may resolve elsewhere since the subscription was created
+      const urlError = await checkOutboundUrl(subscription.url);
+      if (urlError) {
+        throw new Error(urlError);
+      }
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'DCA-Agent-Webhooks/1.0',
+          'X-DCA-Event': delivery.event,
+          'X-DCA-Delivery': delivery.id,
+          'X-DCA-Signature': signWebhookPayload(subscription.secret, Math.floor(Date.now() / 1000), body),
+        },
+        body,
+        // A redirect could lead to an address the check above would refuse; 3xx counts as a failure
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      statusCode = response.status;
+      if (!response.ok) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (requestError) {
+      error = requestError instanceof Error ? requestError.message : String(requestError);
+    }
+
+    if (!error) {
+      await this.prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'SUCCESS', attempts, lastStatusCode: statusCode, lastError: null, deliveredAt: new Date() },
+      });
+      return;
+    }
+
+    const exhausted = attempts >= MAX_ATTEMPTS;
+    await this.prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: exhausted ? 'FAILED' : 'PENDING',
+        attempts,
+        lastStatusCode: statusCode,
+        lastError: error.slice(0, 500),
+        nextAttemptAt: new Date(Date.now() + getRetryDelayMs(attempts)),
+      },
+    });
+    console.warn(`[Webhooks] ⚠️  Delivery ${delivery.id} (${delivery.event}) to ${subscription.url} failed (attempt ${attempts}/${MAX_ATTEMPTS}): ${error}`);
+  }
+}
@@ -4,7 +4,9 @@ import {
   createDCAPlanTool,
   getUserDCAPlans,
   updateDCAPlanStatus,
+  editDCAPlan,
   getDCAExecutionHistory,
+  getDCAPerformance,
   getPlatformStats,
 } from '../tools/dcaPlans.js';
 import { executeDCASwapTool } from '../tools/executeDCASwap.js';
@@ -14,14 +16,16 @@ console.log('🔥🔥🔥 [SKILL] Available tools:', [
   createDCAPlanTool.name,
   getUserDCAPlans.name,
   updateDCAPlanStatus.name,
+  editDCAPlan.name,
   getDCAExecutionHistory.name,
+  getDCAPerformance.name,
   getPlatformStats.name,
   executeDCASwapTool.name
 ]);
 
 // Input schema for the DCA swapping skill with natural language instruction
 const DCASwappingInputSchema = z.object({
-  instruction: z.string().describe('Natural language instruction for DCA operations - e.g., "Create a DCA plan to invest 100 USDC into ETH every week for 6 months", "Show my active DCA plans", "Pause my USDC to ETH plan"'),
+  instruction: z.string().describe('Natural language instruction for DCA operations - e.g., "Create a DCA plan to invest 100 USDC into ETH every week for 6 months", "Show my active DCA plans", "Pause my USDC to ETH plan", "Raise my ETH plan to 50 USDC per run"'),
   userAddress: z.string().optional().describe('User wallet address for DCA operations (optional, can be extracted from instruction)'),
 });
 
@@ -34,7 +38,9 @@ export const dcaSwappingSkill = defineSkill({
     'Create a DCA plan to invest 100 USDC into ETH every week for 6 months',
     'Show me my active DCA plans and their performance',
     'Pause my USDC to ETH DCA plan',
+    'Change my ETH plan to 50 USDC every 2 days and extend it to the end of the year',
     'How is my DCA strategy performing this month?',
+    'Has my ETH plan beaten buying everything on day one?',
     'Invest 0.1 WETH daily in ARB tokens for 1 month',
     'Cancel my DAI to BTC investment plan',
     'Resume my weekly ETH purchases',
@@ -47,7 +53,9 @@ export const dcaSwappingSkill = defineSkill({
     createDCAPlanTool,
     getUserDCAPlans,
     updateDCAPlanStatus,
+    editDCAPlan,
     getDCAExecutionHistory,
+    getDCAPerformance,
     getPlatformStats,
     executeDCASwapTool, // DCA swap execution with transaction handling
   ],
@@ -1,7 +1,22 @@
-import type { VibkitToolDefinition } from 'arbitrum-vibekit-core';
+import type { AgentContext, VibkitToolDefinition } from 'arbitrum-vibekit-core';
 import { createSuccessTask, createErrorTask } from 'arbitrum-vibekit-core';
 import { z } from 'zod';
 import type { DCAContext } from '../context/types.js';
+import { ScheduleTypeSchema, CalendarRuleSchema, MissedRunPolicySchema, DcaStrategySchema, DipTierSchema, PlanSideSchema, BasketLegSchema, PlanKindSchema, TargetWeightSchema } from '../types/shared.js';
+import { describeSchedule } from '../utils/schedule.js';
+import { computeValueAveragingAmount } from '../utils/valueAveraging.js';
+import { hasPriceConditions } from '../utils/priceConditions.js';
+import { findVaultHolding } from '../services/vaultPositions.js';
+import { runBasket } from '../services/basketExecution.js';
+import { AGENT_SIGN_IN_REQUIRED, agentAuthHeaders, type AuthPrincipal } from '../services/auth.js';
+
+/**
+ * Headers for a tool's API calls, made for the principal who invoked the skill
+ * @returns null when the skill was invoked without credentials
+ */
+function userAuthHeaders(context: AgentContext<unknown, unknown, AuthPrincipal | null>): Record<string, string> | null {
+  return context.caller ? agentAuthHeaders(context.caller) : null;
+}
 
 /**
  * Tool to create a new DCA plan
@@ -13,51 +28,182 @@ export const createDCAPlanTool: VibkitToolDefinition<any, any, DCAContext, any>
     userAddress: z.string()
       .regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address')
       .describe('User wallet address'),
+    kind: PlanKindSchema
+      .optional()
+      .default('DCA')
+      .describe('DCA to buy/sell every run; REBALANCE to periodically swap the wallet back to targetWeights (e.g. "keep 50% WETH / 30% ARB / 20% USDC")'),
     fromToken: z.string()
       .min(1)
       .max(10)
-      .describe('Source token symbol (e.g., USDC)'),
+      .describe('Source token symbol (e.g., USDC) - for REBALANCE plans, the token holdings are valued in'),
     toToken: z.string()
       .min(1)
       .max(10)
-      .describe('Target token symbol (e.g., ETH)'),
+      .optional()
+      .describe('Target token symbol (e.g., ETH) - omit when buying a basket or rebalancing'),
+    basket: z.array(BasketLegSchema)
+      .min(2)
+      .max(10)
+      .optional()
+      .describe('Buy several tokens per run by weight, e.g. [{ toToken: "WETH", weight: 60 }, { toToken: "ARB", weight: 30 }, { toToken: "GMX", weight: 10 }] (weights add up to 100)'),
+    side: PlanSideSchema
+      .optional()
+      .default('BUY')
+      .describe('BUY to accumulate toToken; SELL to gradually sell toToken back into fromToken (e.g. "sell 0.05 ETH into USDC every day")'),
     amount: z.string()
       .regex(/^\d+(\.\d+)?$/, 'Amount must be a valid number')
-      .describe('Investment amount per execution'),
+      .describe('Amount per execution: fromToken for BUY plans, toToken for SELL plans; for REBALANCE plans the most value (in fromToken) to swap per run'),
+    scheduleType: ScheduleTypeSchema
+      .optional()
+      .default('INTERVAL')
+      .describe('INTERVAL for "every N minutes", CRON for a cron expression, CALENDAR for rules like "every Monday 09:00" or "1st and 15th of each month"'),
     intervalMinutes: z.number()
       .min(2)
       .max(43200) // Max 30 days
-      .describe('Execution interval in minutes'),
+      .optional()
+      .describe('Execution interval in minutes (INTERVAL schedules)'),
+    cronExpression: z.string()
+      .optional()
+      .describe('5-field cron expression, e.g. "0 9 * * 1" (CRON schedules)'),
+    calendarRule: CalendarRuleSchema
+      .optional()
+      .describe('Days of week and/or days of month plus HH:MM time (CALENDAR schedules)'),
+    timezone: z.string()
+      .optional()
+      .default('UTC')
+      .describe('IANA timezone for CRON/CALENDAR schedules (default: UTC)'),
     durationWeeks: z.number()
       // .min(1)
       // .max(260) // Max 5 years
-      .describe('Total investment duration in weeks'),
+      .optional()
+      .describe('Total investment duration in weeks (required unless endAt is given)'),
+    startAt: z.string()
+      .datetime({ offset: true })
+      .optional()
+      .describe('ISO-8601 start date for the first execution (default: execute now)'),
+    endAt: z.string()
+      .datetime({ offset: true })
+      .optional()
+      .describe('ISO-8601 end date for the plan (alternative to durationWeeks)'),
+    missedRunPolicy: MissedRunPolicySchema
+      .optional()
+      .default('RUN_ONCE')
+      .describe('What to do with runs missed during downtime: SKIP, RUN_ONCE or RUN_ALL'),
     slippage: z.string()
       .regex(/^\d+(\.\d+)?$/, 'Slippage must be a valid number')
       .optional()
       .default('2')
       .describe('Slippage tolerance in percentage (default: 2%)'),
+    dryRun: z.boolean()
+      .optional()
+      .default(false)
+      .describe('Simulate every run without broadcasting, to test a plan or token pair without spending funds'),
+    strategy: DcaStrategySchema
+      .optional()
+      .default('FIXED')
+      .describe('FIXED buys the same amount every run; VALUE_AVERAGING buys more when the price is down and less (or nothing) when it is up'),
+    targetIncrement: z.string()
+      .regex(/^\d+(\.\d+)?$/, 'Target increment must be a valid number')
+      .optional()
+      .describe('VALUE_AVERAGING: how much the position value should grow per run, in fromToken (default: amount)'),
+    minRunAmount: z.string()
+      .regex(/^\d+(\.\d+)?$/, 'Minimum run amount must be a valid number')
+      .optional()
+      .describe('VALUE_AVERAGING: minimum spend per run, in fromToken'),
+    maxRunAmount: z.string()
+      .regex(/^\d+(\.\d+)?$/, 'Maximum run amount must be a valid number')
+      .optional()
+      .describe('VALUE_AVERAGING: maximum spend per run, in fromToken'),
+    minPrice: z.string()
+      .regex(/^\d+(\.\d+)?$/, 'Min price must be a valid number')
+      .optional()
+      .describe('Skip runs while toToken is cheaper than this, in fromToken (the price floor for SELL plans, e.g. "while ETH > 4000")'),
+    maxPrice: z.string()
+      .regex(/^\d+(\.\d+)?$/, 'Max price must be a valid number')
+      .optional()
+      .describe('Skip runs while toToken costs more than this, in fromToken (e.g. "skip if ETH is above 4000")'),
+    dipTiers: z.array(DipTierSchema)
+      .optional()
+      .describe('Buy-the-dip multipliers, e.g. [{ drawdownPercent: 10, multiplier: 1.5 }] to buy 1.5x when 10% below the moving average'),
+    movingAverageDays: z.number()
+      .int()
+      .min(1)
+      .max(365)
+      .optional()
+      .default(30)
+      .describe('Moving average window for dipTiers, in days (default: 30)'),
+    targetWeights: z.array(TargetWeightSchema)
+      .min(2)
+      .max(10)
+      .optional()
+      .describe('REBALANCE target portfolio, e.g. [{ token: "WETH", weight: 50 }, { token: "ARB", weight: 30 }, { token: "USDC", weight: 20 }]'),
+    driftThreshold: z.string()
+      .regex(/^\d+(\.\d+)?$/, 'Drift threshold must be a valid number')
+      .optional()
+      .describe('REBALANCE only: swap once a token is this many percentage points off its target weight (default: 5)'),
   }),
-  execute: async ({ userAddress, fromToken, toToken, amount, intervalMinutes, durationWeeks, slippage }, context) => {
+  execute: async ({ userAddress, fromToken, toToken, basket, side, amount, scheduleType, intervalMinutes, cronExpression, calendarRule, timezone, durationWeeks, startAt, endAt, missedRunPolicy, slippage, dryRun, strategy, targetIncrement, minRunAmount, maxRunAmount, minPrice, maxPrice, dipTiers, movingAverageDays, kind, targetWeights, driftThreshold }, context) => {
 
     console.log('🔥🔥🔥 [TOOL] createDCAPlan CALLED!');
-    console.log('🔥🔥🔥 [TOOL] Args:', { userAddress, fromToken, toToken, amount, intervalMinutes, durationWeeks, slippage });
+    console.log('🔥🔥🔥 [TOOL] Args:', { userAddress, fromToken, toToken, basket, side, amount, scheduleType, intervalMinutes, cronExpression, calendarRule, timezone, durationWeeks, startAt, endAt, missedRunPolicy, slippage, dryRun, strategy, targetIncrement, minRunAmount, maxRunAmount, minPrice, maxPrice, dipTiers, movingAverageDays, kind, targetWeights, driftThreshold });
+
+    const tradeDescription = kind === 'REBALANCE'
+      ? `rebalance to ${(targetWeights ?? []).map((target: { token: string; weight: number }) => `${target.weight}% ${target.token}`).join(' / ')} (drift > ${driftThreshold || '5'}pp, up to ${amount} ${fromToken} per run)`
+      : basket
+      ? `${amount} ${fromToken} → ${basket.map((leg: { toToken: string; weight: number }) => `${leg.weight}% ${leg.toToken}`).join(' / ')}`
+      : side === 'SELL'
+        ? `sell ${amount} ${toToken} → ${fromToken}`
+        : `${amount} ${fromToken} → ${toToken}`;
+    const scheduleDescription = describeSchedule({
+      scheduleType: scheduleType || 'INTERVAL',
+      intervalMinutes,
+      cronExpression,
+      calendarRule,
+      timezone,
+    });
 
     try {
+      const headers = userAuthHeaders(context);
+      if (!headers) {
+        return createErrorTask('createDCAPlan', new Error(AGENT_SIGN_IN_REQUIRED));
+      }
+
       const API_PORT = parseInt(process.env.API_PORT || '3002', 10);
       const response = await fetch(`http://localhost:${API_PORT}/api/dca/create`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...headers,
         },
         body: JSON.stringify({
           userAddress,
           fromToken,
           toToken,
+          basket,
+          side,
           amount,
+          scheduleType,
           intervalMinutes,
+          cronExpression,
+          calendarRule,
+          timezone,
           durationWeeks,
+          startAt,
+          endAt,
+          missedRunPolicy,
           slippage: slippage || '2',
+          dryRun,
+          strategy,
+          targetIncrement,
+          minRunAmount,
+          maxRunAmount,
+          minPrice,
+          maxPrice,
+          dipTiers,
+          movingAverageDays,
+          kind,
+          targetWeights,
+          driftThreshold,
         }),
       });
 
@@ -70,6 +216,38 @@ export const createDCAPlanTool: VibkitToolDefinition<any, any, DCAContext, any>
         );
       }
 
+      const planWindow = endAt ? `until ${endAt}` : `for ${durationWeeks} weeks`;
+
+      // A plan with a future start date waits for the scheduler instead of swapping now
+      if (startAt && new Date(startAt) > new Date()) {
+        console.log(`🔥 [TOOL] Plan created successfully, first execution scheduled for ${startAt}`);
+        return createSuccessTask(
+          'createDCAPlan',
+          [result],
+          `DCA plan created: ${tradeDescription} ${scheduleDescription} ${planWindow}, starting ${startAt}`
+        );
+      }
+
+      // Rebalancing plans only trade once the scheduler finds the wallet has drifted
+      if (kind === 'REBALANCE') {
+        console.log('🔥 [TOOL] Rebalancing plan created, drift checks left to the scheduler');
+        return createSuccessTask(
+          'createDCAPlan',
+          [result],
+          `Rebalancing plan created: ${tradeDescription} ${scheduleDescription} ${planWindow}, first check at ${result.data.nextExecution}`
+        );
+      }
+
+      // Price-conditional plans leave every run, including the first, to the scheduler's checks
+      if (hasPriceConditions({ minPrice, maxPrice, dipTiers })) {
+        console.log('🔥 [TOOL] Plan has price conditions, first run left to the scheduler');
+        return createSuccessTask(
+          'createDCAPlan',
+          [result],
+          `DCA plan created: ${tradeDescription} ${scheduleDescription} ${planWindow}. Price conditions are checked before each run, starting ${result.data.nextExecution}`
+        );
+      }
+
       // After creating the plan, execute the first swap immediately
       console.log('🔥 [TOOL] Plan created successfully, executing first swap immediately...');
       
@@ -83,6 +261,40 @@ export const createDCAPlanTool: VibkitToolDefinition<any, any, DCAContext, any>
         finalSlippage = '0.3';
       }
       
+      // Basket plans swap each leg of their first run now, grouped like scheduled runs
+      if (basket) {
+        const basketRun = await runBasket(context.custom, { id: result.data.id, userAddress, fromToken: result.data.fromToken }, result.data.basket, amount, {
+          slippage: finalSlippage,
+          dryRun: dryRun ?? false,
+        });
+        const legSummary = basketRun.legs
+          .map(leg => `${leg.amount} ${fromToken} → ${leg.toToken}: ${leg.success ? 'done' : `failed (${leg.message})`}`)
+          .join('; ');
+        return createSuccessTask(
+          'createDCAPlan',
+          [result],
+          basketRun.status === 'FAILED'
+            ? `DCA plan created: ${tradeDescription} ${scheduleDescription} ${planWindow}. First execution failed: ${legSummary}`
+            : `🎉🎉 Successfully created basket DCA plan: ${tradeDescription} ${scheduleDescription} ${planWindow}. First run ${basketRun.status?.toLowerCase()}: ${legSummary}`
+        );
+      }
+
+      // A value-averaging plan holds nothing yet, so its first run buys one target increment
+      const firstAmount = strategy === 'VALUE_AVERAGING'
+        ? computeValueAveragingAmount({
+            targetIncrement: targetIncrement || amount,
+            runNumber: 1,
+            unitsHeld: '0',
+            price: '0',
+            minRunAmount,
+            maxRunAmount,
+          }).amount
+        : amount;
+
+      // SELL plans swap toToken back into fromToken, from the user's vault position if they have one
+      const isSell = side === 'SELL';
+      const fromVault = isSell && (await findVaultHolding(context.custom.prisma, userAddress, result.data.toToken)) !== null;
+
       // Create a minimal context for the execute tool (will be passed through)
       console.log("now executing the execute tool");
       console.log("userAddress", userAddress);
@@ -90,14 +302,16 @@ export const createDCAPlanTool: VibkitToolDefinition<any, any, DCAContext, any>
       const executeResult = await executeDCASwapTool.execute(
         {
           walletAddress: userAddress,
-          amount,
+          amount: firstAmount,
           amountType: 'exactIn', // Default to exact input amount
           toChain: 'Arbitrum One', // Default to Arbitrum for DCA
           fromChain: 'Arbitrum One', // Default to Arbitrum for DCA
-          fromToken,
-          toToken,
+          fromToken: isSell ? toToken : fromToken,
+          toToken: isSell ? fromToken : toToken,
           slippage: finalSlippage, // Pass slippage as-is without division
           planId: result.data.id, // Pass the created plan ID for tracking
+          dryRun: dryRun ?? false, // Dry-run plans simulate their first swap too
+          fromVault,
         },
         // Pass through the context from the agent
         context
@@ -114,7 +328,7 @@ export const createDCAPlanTool: VibkitToolDefinition<any, any, DCAContext, any>
            return createSuccessTask(
              'createDCAPlan',
              [result],
-             `DCA plan created: ${amount} ${fromToken} → ${toToken} every ${intervalMinutes} minutes for ${durationWeeks} weeks. First execution failed: ${errorMessage}`
+             `DCA plan created: ${tradeDescription} ${scheduleDescription} ${planWindow}. First execution failed: ${errorMessage}`
            );
          } else {
            // Task completed successfully
@@ -130,7 +344,9 @@ export const createDCAPlanTool: VibkitToolDefinition<any, any, DCAContext, any>
       return createSuccessTask(
         'createDCAPlan',
         [result],
-        `🎉🎉 Successfully created DCA plan and executed first swap: ${amount} ${fromToken} → ${toToken} every ${intervalMinutes} minutes for ${durationWeeks} weeks`
+        dryRun
+          ? `🧪 Created dry-run DCA plan and simulated first swap: ${tradeDescription} ${scheduleDescription} ${planWindow}. Runs are simulated, nothing is broadcast.`
+          : `🎉🎉 Successfully created DCA plan and executed first swap: ${tradeDescription} ${scheduleDescription} ${planWindow}`
       );
     } catch (error) {
       return createErrorTask(
@@ -152,10 +368,17 @@ export const getUserDCAPlans: VibkitToolDefinition<any, any> = {
       .regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address')
       .describe('User wallet address to get plans for'),
   }),
-  execute: async ({ userAddress }) => {
+  execute: async ({ userAddress }, context) => {
     try {
+      const headers = userAuthHeaders(context);
+      if (!headers) {
+        return createErrorTask('getUserDCAPlans', new Error(AGENT_SIGN_IN_REQUIRED));
+      }
+
       const API_PORT = parseInt(process.env.API_PORT || '3002', 10);
-      const response = await fetch(`http://localhost:${API_PORT}/api/dca/plans/${userAddress}`);
+      const response = await fetch(`http://localhost:${API_PORT}/api/dca/plans/${userAddress}`, {
+        headers,
+      });
       const result = await response.json() as any;
       
       if (!response.ok) {
@@ -193,13 +416,19 @@ export const updateDCAPlanStatus: VibkitToolDefinition<any, any> = {
     status: z.enum(['ACTIVE', 'PAUSED', 'CANCELLED'])
       .describe('New status for the DCA plan'),
   }),
-  execute: async ({ planId, status }) => {
+  execute: async ({ planId, status }, context) => {
     try {
+      const headers = userAuthHeaders(context);
+      if (!headers) {
+        return createErrorTask('updateDCAPlanStatus', new Error(AGENT_SIGN_IN_REQUIRED));
+      }
+
       const API_PORT = parseInt(process.env.API_PORT || '3002', 10);
       const response = await fetch(`http://localhost:${API_PORT}/api/dca/plans/${planId}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          ...headers,
         },
         body: JSON.stringify({ status }),
       });
@@ -227,6 +456,79 @@ export const updateDCAPlanStatus: VibkitToolDefinition<any, any> = {
   },
 };
 
+/**
+ * Tool to edit a DCA plan's parameters without recreating it
+ */
+export const editDCAPlan: VibkitToolDefinition<any, any> = {
+  name: 'editDCAPlan',
+  description: 'Change the amount, interval, slippage, end date or remaining number of executions of an existing DCA plan, keeping its execution history',
+  parameters: z.object({
+    planId: z.string()
+      .min(1)
+      .describe('DCA plan ID to edit'),
+    amount: z.string()
+      .regex(/^\d+(\.\d+)?$/, 'Amount must be a valid number')
+      .optional()
+      .describe('New amount per execution'),
+    intervalMinutes: z.number()
+      .min(2)
+      .max(43200)
+      .optional()
+      .describe('New execution interval in minutes (interval plans only)'),
+    slippage: z.string()
+      .regex(/^\d+(\.\d+)?$/, 'Slippage must be a valid number')
+      .optional()
+      .describe('New slippage tolerance in percentage'),
+    endAt: z.string()
+      .optional()
+      .describe('New end date (ISO-8601), e.g. to extend the plan by a month'),
+    remainingExecutions: z.number()
+      .int()
+      .min(1)
+      .optional()
+      .describe('Number of executions left (e.g. "only 4 more buys"); the end date moves to match'),
+  }),
+  execute: async ({ planId, amount, intervalMinutes, slippage, endAt, remainingExecutions }, context) => {
+    try {
+      const headers = userAuthHeaders(context);
+      if (!headers) {
+        return createErrorTask('editDCAPlan', new Error(AGENT_SIGN_IN_REQUIRED));
+      }
+
+      const API_PORT = parseInt(process.env.API_PORT || '3002', 10);
+      const response = await fetch(`http://localhost:${API_PORT}/api/dca/plans/${planId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...headers,
+        },
+        body: JSON.stringify({ amount, intervalMinutes, slippage, endAt, remainingExecutions }),
+      });
+
+      const result = await response.json() as any;
+      
+      if (!response.ok) {
+        return createErrorTask(
+          'editDCAPlan',
+          new Error(result.message || 'Failed to edit DCA plan')
+        );
+      }
+
+      const plan = result.data;
+      return createSuccessTask(
+        'editDCAPlan',
+        [result],
+        `${result.message}. The plan now runs ${plan.amount} ${plan.fromToken} → ${plan.toToken}, ${plan.totalExecutions - plan.executionCount} execution(s) left until ${plan.endAt}${plan.nextExecution ? `, next at ${plan.nextExecution}` : ''}`
+      );
+    } catch (error) {
+      return createErrorTask(
+        'editDCAPlan',
+        error instanceof Error ? error : new Error(`Failed to connect to DCA API: ${String(error)}`)
+      );
+    }
+  },
+};
+
 /**
  * Tool to get execution history for a DCA plan
  */
@@ -249,14 +551,21 @@ export const getDCAExecutionHistory: VibkitToolDefinition<any, any> = {
       .default(0)
       .describe('Number of executions to skip for pagination (default: 0)'),
   }),
-  execute: async ({ planId, limit = 50, offset = 0 }) => {
+  execute: async ({ planId, limit = 50, offset = 0 }, context) => {
     try {
+      const headers = userAuthHeaders(context);
+      if (!headers) {
+        return createErrorTask('getDCAExecutionHistory', new Error(AGENT_SIGN_IN_REQUIRED));
+      }
+
       const API_PORT = parseInt(process.env.API_PORT || '3002', 10);
       const url = new URL(`http://localhost:${API_PORT}/api/dca/history/${planId}`);
       url.searchParams.set('limit', limit.toString());
       url.searchParams.set('offset', offset.toString());
 
-      const response = await fetch(url.toString());
+      const response = await fetch(url.toString(), {
+        headers,
+      });
       const result = await response.json() as any;
       
       if (!response.ok) {
@@ -281,6 +590,70 @@ export const getDCAExecutionHistory: VibkitToolDefinition<any, any> = {
   },
 };
 
+/**
+ * Tool to get cost basis, PnL and DCA vs. lump-sum comparison for a plan or a user
+ */
+export const getDCAPerformance: VibkitToolDefinition<any, any> = {
+  name: 'getDCAPerformance',
+  description: 'Get the performance of a DCA plan, or of all plans of a user: average cost basis, current value, profit/loss and how it compares with investing everything at once',
+  parameters: z.object({
+    planId: z.string()
+      .min(1)
+      .optional()
+      .describe('DCA plan ID to report on'),
+    userAddress: z.string()
+      .regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address format')
+      .optional()
+      .describe('User wallet address to report on across all plans (used when no planId is given)'),
+  }),
+  execute: async ({ planId, userAddress }, context) => {
+    try {
+      if (!planId && !userAddress) {
+        return createErrorTask(
+          'getDCAPerformance',
+          new Error('Provide either a planId or a userAddress')
+        );
+      }
+
+      const headers = userAuthHeaders(context);
+      if (!headers) {
+        return createErrorTask('getDCAPerformance', new Error(AGENT_SIGN_IN_REQUIRED));
+      }
+
+      const API_PORT = parseInt(process.env.API_PORT || '3002', 10);
+      const path = planId ? `plans/${planId}/performance` : `user/${userAddress}/performance`;
+      const response = await fetch(`http://localhost:${API_PORT}/api/dca/${path}`, {
+        headers,
+      });
+      const result = await response.json() as any;
+      
+      if (!response.ok) {
+        return createErrorTask(
+          'getDCAPerformance',
+          new Error(result.message || 'Failed to fetch performance')
+        );
+      }
+
+      const totals = planId ? [result.data.totals] : result.data.totals;
+      const summary = totals
+        .map((t: any) => t.pnl === null
+          ? `${t.quoteAmount} ${t.quoteToken} invested (no current price available)`
+          : `${t.quoteAmount} ${t.quoteToken} invested, PnL ${t.pnl} ${t.quoteToken} (${t.pnlPercent}%), ${t.vsLumpSum} ${t.quoteToken} vs. lump sum`)
+        .join('; ');
+      return createSuccessTask(
+        'getDCAPerformance',
+        [result],
+        `Performance for ${planId ? `plan ${planId}` : userAddress}: ${summary || 'no executions yet'}`
+      );
+    } catch (error) {
+      return createErrorTask(
+        'getDCAPerformance',
+        error instanceof Error ? error : new Error(`Failed to connect to DCA API: ${String(error)}`)
+      );
+    }
+  },
+};
+
 /**
  * Tool to get platform statistics
  */
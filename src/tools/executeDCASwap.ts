@@ -16,6 +16,15 @@ import { arbitrum } from 'viem/chains';
 
 import { withHooks, transactionSigningAfterHook, transactionValidationBeforeHook } from '../hooks/index.js';
 import { hasVaultSupport, getVaultMapping } from '../utils/vaultUtils.js';
+import { findVaultHolding, redeemVaultShares, returnRedeemedTokens, type VaultRedemption } from '../services/vaultPositions.js';
+import { publishLiveEvent } from '../services/liveEvents.js';
+import { findUsablePermit, getReservedAllowance, pullWithPermit } from '../services/permits.js';
+import { routerApprovalFor } from '../services/approvals.js';
+import { ROUTER_ADDRESS } from '../utils/approvals.js';
+import { decimalsOf } from '../utils/tokens.js';
+import { KeyedMutex } from '../utils/keyedMutex.js';
+import { authorizeSkillCaller } from '../services/auth.js';
+import { enforceCalldataSafety } from '../services/calldataSafety.js';
 
 
 // Response schema for Ember MCP - this is the structuredContent directly
@@ -154,10 +163,12 @@ const ExecuteDCASwapParams = z.object({
   toToken: z.string().describe('The token to swap to (destination token symbol or name)'),
   slippage: z.string().optional().default('2').describe('Slippage tolerance percentage'),
   planId: z.string().optional().describe('Optional DCA plan ID for tracking executions'),
+  dryRun: z.boolean().optional().default(false).describe('Simulate the swap (eth_call/estimateGas) without moving funds or broadcasting'),
+  fromVault: z.boolean().optional().describe('Sell from the user\'s vault position in fromToken: redeem `amount` vault shares and swap the tokens they return'),
+  executionGroupId: z.string().optional().describe('Basket or rebalancing run this swap is a leg of (set by the scheduler, not by users)'),
+  depositToVault: z.boolean().optional().describe('Set to false to deliver vault-supported tokens to the wallet instead of depositing them (default: true)'),
 });
 
-const ROUTER_ADDRESS = '0xce16F69375520ab01377ce7B88f5BA8C48F8D666' as Address;
-
 /**
  * Retry wrapper for blockchain operations with exponential backoff
  */
@@ -202,13 +213,16 @@ async function retryBlockchainOperation<T>(
 }
 
 /**
- * Handle token approvals and transfer from user to executor
+ * Handle token approvals and transfer from user to executor.
+ * In dry-run mode allowances are only checked and the transfer is simulated with eth_call.
  */
 async function handleTokenApprovalsAndTransfer(
   context: any,
   fromTokenDetail: TokenInfo,
   amount: string,
-  walletAddress: string
+  walletAddress: string,
+  dryRun: boolean = false,
+  planId: string | null = null
 ): Promise<void> {
   if (!context.custom.executeTransaction) {
     throw new Error('Transaction executor not available');
@@ -220,12 +234,8 @@ async function handleTokenApprovalsAndTransfer(
   console.log("user", walletAddress);
   console.log("executor", executorAddress);
   
-  // Use token's actual decimals for all tokens
-  let atomicAmount = parseUnits(amount, fromTokenDetail.decimals);
-  if (fromTokenDetail.address == "0xaf88d065e77c8cC2239327C5EDb3A432268e5831") {
-    atomicAmount = parseUnits(amount, 6);
-    console.log("atomic amount", atomicAmount);
-  }
+  const decimals = decimalsOf(fromTokenDetail);
+  const atomicAmount = parseUnits(amount, decimals);
 
   // Create clients for token operations
   const publicClient = createPublicClient({
@@ -258,18 +268,21 @@ async function handleTokenApprovalsAndTransfer(
       'Check user approval to router'
     );
 
-    console.log(`[DCA Swap] 📋 User approval to router: ${formatUnits(userApproval, fromTokenDetail.decimals)} ${fromTokenDetail.symbol}`);
+    console.log(`[DCA Swap] 📋 User approval to router: ${formatUnits(userApproval, decimals)} ${fromTokenDetail.symbol}`);
 
-    // If approval is insufficient, approve unlimited to router
-    if (userApproval < atomicAmount) {
-      console.log(`[DCA Swap] 🔓 Approving unlimited ${fromTokenDetail.symbol} to router ${ROUTER_ADDRESS}...`);
+    // If approval is insufficient, approve what this swap needs (or the token's cap) to router
+    const approvalAmount = routerApprovalFor(fromTokenDetail, atomicAmount);
+    if (userApproval < atomicAmount && dryRun) {
+      console.log(`[DCA Swap] 🧪 Dry run: would approve ${formatUnits(approvalAmount, decimals)} ${fromTokenDetail.symbol} to router ${ROUTER_ADDRESS}`);
+    } else if (userApproval < atomicAmount) {
+      console.log(`[DCA Swap] 🔓 Approving ${formatUnits(approvalAmount, decimals)} ${fromTokenDetail.symbol} to router ${ROUTER_ADDRESS}...`);
 
       const approveTxHash = await retryBlockchainOperation(
         () => walletClient.writeContract({
           address: fromTokenDetail.address as Address,
           abi: erc20Abi,
           functionName: 'approve',
-          args: [ROUTER_ADDRESS, BigInt('0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff')],
+          args: [ROUTER_ADDRESS, approvalAmount],
           account: context.custom.executeTransaction.account,
         }),
         'Approve router'
@@ -299,18 +312,21 @@ async function handleTokenApprovalsAndTransfer(
       'Check executor approval'
     );
 
-    console.log(`[DCA Swap] 📋 Executor approval to router: ${formatUnits(executorApproval, fromTokenDetail.decimals)} ${fromTokenDetail.symbol}`);
+    console.log(`[DCA Swap] 📋 Executor approval to router: ${formatUnits(executorApproval, decimals)} ${fromTokenDetail.symbol}`);
 
-    // If approval is insufficient, approve unlimited to router
-    if (executorApproval < atomicAmount) {
-      console.log(`[DCA Swap] 🔓 Approving unlimited ${fromTokenDetail.symbol} to router ${ROUTER_ADDRESS}...`);
+    // If approval is insufficient, approve what this swap needs (or the token's cap) to router
+    const approvalAmount = routerApprovalFor(fromTokenDetail, atomicAmount);
+    if (executorApproval < atomicAmount && dryRun) {
+      console.log(`[DCA Swap] 🧪 Dry run: would approve ${formatUnits(approvalAmount, decimals)} ${fromTokenDetail.symbol} to router ${ROUTER_ADDRESS}`);
+    } else if (executorApproval < atomicAmount) {
+      console.log(`[DCA Swap] 🔓 Approving ${formatUnits(approvalAmount, decimals)} ${fromTokenDetail.symbol} to router ${ROUTER_ADDRESS}...`);
 
       const approveTxHash = await retryBlockchainOperation(
         () => walletClient.writeContract({
           address: fromTokenDetail.address as Address,
           abi: erc20Abi,
           functionName: 'approve',
-          args: [ROUTER_ADDRESS, BigInt('0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff')],
+          args: [ROUTER_ADDRESS, approvalAmount],
           account: context.custom.executeTransaction.account,
         }),
         'Approve router'
@@ -328,8 +344,11 @@ async function handleTokenApprovalsAndTransfer(
     // Transfer tokens from user to executor (assumes user has approved executor)
     console.log(`[DCA Swap] 💸 Transferring ${amount} ${fromTokenDetail.symbol} from user to executor...`);
 
-    // Check user's approval to executor first with retry
-    const userApproval = await retryBlockchainOperation(
+    // A permit signed for the plan stands in for the user's approval to the executor
+    const usablePermit = planId ? await findUsablePermit(context.custom, planId, fromTokenDetail.address) : null;
+
+    // Check user's approval to executor first with retry, leaving what other plans' EIP-2612 permits reserve
+    const userApproval = usablePermit ? usablePermit.allowance : await retryBlockchainOperation(
       () => publicClient.readContract({
         address: fromTokenDetail.address as Address,
         abi: erc20Abi,
@@ -337,12 +356,47 @@ async function handleTokenApprovalsAndTransfer(
         args: [walletAddress as Address, executorAddress],
       }),
       'Check user approval'
-    );
-
-    console.log(`[DCA Swap] 📋 User approval to executor: ${formatUnits(userApproval, fromTokenDetail.decimals)} ${fromTokenDetail.symbol}`);
+    ).then(async approved => {
+      const reserved = planId ? await getReservedAllowance(context.custom, planId, walletAddress, fromTokenDetail.address) : 0n;
+      return approved > reserved ? approved - reserved : 0n;
+    });
+
+    console.log(`[DCA Swap] 📋 User approval to executor${usablePermit ? ` (${usablePermit.permit.kind} permit)` : ''}: ${formatUnits(userApproval, decimals)} ${fromTokenDetail.symbol}`);
+
+    // Warn the user while the allowance still covers this run but not the next one
+    const remainingApproval = userApproval - atomicAmount;
+    if (remainingApproval < atomicAmount) {
+      publishLiveEvent(walletAddress, 'allowance.low', planId, {
+        token: fromTokenDetail.symbol,
+        allowance: formatUnits(remainingApproval > 0n ? remainingApproval : 0n, decimals),
+        required: amount,
+        spender: executorAddress,
+      });
+    }
 
     if (userApproval < atomicAmount) {
-      throw new Error(`Insufficient user approval: need ${amount} ${fromTokenDetail.symbol} but user only approved ${formatUnits(userApproval, fromTokenDetail.decimals)}`);
+      throw new Error(`Insufficient user approval: need ${amount} ${fromTokenDetail.symbol} but user only approved ${formatUnits(userApproval, decimals)}`);
+    }
+
+    if (usablePermit) {
+      await pullWithPermit(context.custom, usablePermit.permit, walletAddress, atomicAmount, dryRun);
+      return;
+    }
+
+    if (dryRun) {
+      // Reverts here (e.g. insufficient balance) surface as a failed dry run
+      await retryBlockchainOperation(
+        () => publicClient.simulateContract({
+          address: fromTokenDetail.address as Address,
+          abi: erc20Abi,
+          functionName: 'transferFrom',
+          args: [walletAddress as Address, executorAddress, atomicAmount],
+          account: executorAddress,
+        }),
+        'Simulate transfer from user to executor'
+      );
+      console.log(`[DCA Swap] 🧪 Dry run: transfer of ${amount} ${fromTokenDetail.symbol} from user to executor would succeed`);
+      return;
     }
 
     // Perform the transfer from user to executor with retry
@@ -368,12 +422,23 @@ async function handleTokenApprovalsAndTransfer(
 // Base executeDCASwap tool implementation (transaction preparation only)
 const baseExecuteDCASwapTool: VibkitToolDefinition<typeof ExecuteDCASwapParams, any, DCAContext, any> = {
   name: 'executeDCASwap',
-  description: 'Prepare a token swap transaction using Ember MCP for secure execution via hooks',
+  description: 'Prepare a token swap transaction using Ember MCP for secure execution via hooks (or a simulation-only dry run)',
   parameters: ExecuteDCASwapParams,
   execute: async (args, context) => {
+    // Shares redeemed for a vault sell - handed back to the user if preparation fails
+    let vaultRedemption: VaultRedemption | null = null;
+
     try {
       console.log(`[DCA Swap] 🔄 Preparing swap: ${args.amount} ${args.fromToken} → ${args.toToken} (${args.amountType})`);
 
+      // Invoked through the skill rather than by the scheduler: only for a wallet the caller may act for
+      if (context.skillInput) {
+        const denied = authorizeSkillCaller(context.caller ?? undefined, args.walletAddress, 'write:plans');
+        if (denied) {
+          throw new Error(denied);
+        }
+      }
+
       // Validate requirements
       if (!context.custom.executeTransaction) {
         throw new Error('Transaction execution not enabled - PRIVATE_KEY not configured');
@@ -392,19 +457,24 @@ const baseExecuteDCASwapTool: VibkitToolDefinition<typeof ExecuteDCASwapParams,
 
       console.log(`[DCA Swap] ✅ From: ${fromTokenDetail.symbol} → To: ${toTokenDetail.symbol}`);
 
-      // Check and handle token approvals and transfers
-      await handleTokenApprovalsAndTransfer(
-        context,
-        fromTokenDetail,
-        args.amount,
-        args.walletAddress
-      );
-      let atomicAmount = parseUnits(args.amount, fromTokenDetail.decimals);
-      if (fromTokenDetail.address == "0xaf88d065e77c8cC2239327C5EDb3A432268e5831") {
-        atomicAmount = parseUnits(args.amount, 6);
-        console.log("atomic amount", atomicAmount);
+      // Selling a vault position: redeem the user's shares so the tokens sit on the executor
+      let swapAmount = args.amount;
+      if (args.fromVault) {
+        const holding = await findVaultHolding(context.custom.prisma, args.walletAddress, fromTokenDetail.symbol);
+        if (!holding) {
+          throw new Error(`No ${fromTokenDetail.symbol} vault position to sell from`);
+        }
+        if (!args.dryRun) {
+          vaultRedemption = await redeemVaultShares(context.custom, args.walletAddress, fromTokenDetail.symbol, args.amount);
+          swapAmount = vaultRedemption.tokensReceived;
+          if (parseFloat(swapAmount) <= 0) {
+            throw new Error(`Vault withdrawal returned no ${fromTokenDetail.symbol}`);
+          }
+        }
       }
 
+      const atomicAmount = parseUnits(swapAmount, decimalsOf(fromTokenDetail));
+
       // Get swap plan from Ember MCP with retry mechanism
       console.log("args.slippage", args.slippage);
       console.log("fromTokenDetail", fromTokenDetail);
@@ -417,15 +487,17 @@ const baseExecuteDCASwapTool: VibkitToolDefinition<typeof ExecuteDCASwapParams,
       console.log("args.amount", args.amount);
       
       // Check if toToken has vault support - if so, send to executor instead of user
-      const hasVault = hasVaultSupport(args.toToken);
-      const finalRecipient = hasVault ? context.custom.executeTransaction.executorAddress : args.walletAddress;
+      // (proceeds of a vault exit always go straight to the user)
+      const hasVault = !args.fromVault && args.depositToVault !== false && hasVaultSupport(args.toToken);
+      const executorAddress = context.custom.executeTransaction.executorAddress;
+      const finalRecipient = hasVault ? executorAddress : args.walletAddress;
       
       console.log(`[DCA Swap] 🏦 Vault support for ${args.toToken}: ${hasVault}`);
       console.log(`[DCA Swap] 📍 Final recipient: ${finalRecipient} ${hasVault ? '(executor for vault)' : '(user direct)'}`);
       
       const swapArgs = {
         walletAddress: finalRecipient, // Use executor if vault supported, user otherwise
-        amount: args.amount,
+        amount: swapAmount,
         amountType: args.amountType,
         toChain: args.toChain,
         fromChain: args.fromChain,
@@ -455,6 +527,45 @@ const baseExecuteDCASwapTool: VibkitToolDefinition<typeof ExecuteDCASwapParams,
         throw new Error('No transactions received from swap plan');
       }
 
+      // Token metadata used to check the calldata and to decode the realized amounts from the swap receipt
+      const settlementTokens = {
+        fromToken: {
+          address: fromTokenDetail.address,
+          decimals: decimalsOf(fromTokenDetail),
+          isNative: structuredContent.fromToken.isNative,
+        },
+        toToken: {
+          address: toTokenDetail.address,
+          decimals: decimalsOf(toTokenDetail),
+          isNative: structuredContent.toToken.isNative,
+        },
+      };
+      const amountIn = args.amountType === 'exactIn' ? atomicAmount.toString() : null;
+      const maxRouterApproval = args.amountType === 'exactIn' ? routerApprovalFor(fromTokenDetail, atomicAmount).toString() : null;
+
+      // Refuse calldata that doesn't do what the plan asked for before any funds move
+      // (a redeemed vault position is handed back by the catch below)
+      await enforceCalldataSafety(context.custom, {
+        planId: args.planId ?? null,
+        userAddress: args.walletAddress,
+        transactions: structuredContent.transactions,
+        fromToken: settlementTokens.fromToken,
+        toToken: settlementTokens.toToken,
+        recipient: finalRecipient,
+        amountIn,
+        maxApproval: maxRouterApproval,
+      });
+
+      // Check and handle token approvals and transfers (redeemed tokens are already on the executor)
+      await handleTokenApprovalsAndTransfer(
+        context,
+        fromTokenDetail,
+        swapAmount,
+        args.fromVault ? executorAddress : args.walletAddress,
+        args.dryRun,
+        args.planId ?? null
+      );
+
       console.log(`[DCA Swap] ✅ Prepared ${structuredContent.transactions.length} transaction(s) for secure execution via hooks`);
 
       // Calculate amounts from structured content
@@ -463,6 +574,15 @@ const baseExecuteDCASwapTool: VibkitToolDefinition<typeof ExecuteDCASwapParams,
       const exchangeRate = structuredContent.estimation.effectivePrice;
 
       console.log(`[DCA Swap] 📈 Result: ${toAmountHuman} ${args.toToken} at rate ${exchangeRate}`);
+      publishLiveEvent(args.walletAddress, 'quote.fetched', args.planId ?? null, {
+        fromToken: args.fromToken,
+        toToken: args.toToken,
+        fromAmount: fromAmountHuman,
+        toAmount: toAmountHuman,
+        exchangeRate,
+        transactions: structuredContent.transactions.length,
+        dryRun: args.dryRun,
+      });
 
       // Get vault information if applicable
       const vaultMapping = hasVault ? getVaultMapping(args.toToken) : null;
@@ -471,6 +591,7 @@ const baseExecuteDCASwapTool: VibkitToolDefinition<typeof ExecuteDCASwapParams,
       return {
         transactions: structuredContent.transactions,
         planId: args.planId, // Include planId if provided
+        executionGroupId: args.executionGroupId,
         fromToken: args.fromToken,
         toToken: args.toToken,
         fromAmount: fromAmountHuman,
@@ -478,22 +599,52 @@ const baseExecuteDCASwapTool: VibkitToolDefinition<typeof ExecuteDCASwapParams,
         exchangeRate: exchangeRate,
         userAddress: args.walletAddress,
         operation: 'dca-swap',
+        dryRun: args.dryRun,
         structuredContent: structuredContent,
         // Vault-related data
         hasVaultSupport: hasVault,
         vaultAddress: vaultMapping?.vaultAddress,
-        recipient: finalRecipient
+        vaultRedemption,
+        recipient: finalRecipient,
+        // A dry run moves nothing, so the simulation credits the executor with what the live run would have
+        // pulled (unless the user is the executor) and approves the router on its behalf
+        simulationFunding: args.dryRun && !structuredContent.fromToken.isNative
+          ? {
+              token: fromTokenDetail.address,
+              holder: executorAddress,
+              spender: ROUTER_ADDRESS,
+              amount: atomicAmount.toString(),
+              creditBalance: args.fromVault || args.walletAddress.toLowerCase() !== executorAddress.toLowerCase(),
+            }
+          : null,
+        settlementTokens,
       };
 
     } catch (error) {
       console.error('[DCA Swap] ❌ Preparation failed:', error);
+      if (vaultRedemption) {
+        await returnRedeemedTokens(context.custom, args.walletAddress, vaultRedemption).catch(returnError =>
+          console.error('[DCA Swap] ❌ Failed to return redeemed vault tokens to user:', returnError)
+        );
+      }
       throw error instanceof Error ? error : new Error(`DCA swap preparation failed: ${String(error)}`);
     }
   },
 };
 
 
-export const executeDCASwapTool = withHooks(baseExecuteDCASwapTool, {
+const hookedExecuteDCASwapTool = withHooks(baseExecuteDCASwapTool, {
   before: transactionValidationBeforeHook,
   after: transactionSigningAfterHook,
 });
+
+// Runs spending the same token share the executor's allowance to the router, which each sets to
+// its own swap's amount: one at a time per token, from the approval until the swap has settled
+const routerAllowanceLock = new KeyedMutex();
+
+export const executeDCASwapTool: typeof hookedExecuteDCASwapTool = {
+  ...hookedExecuteDCASwapTool,
+  execute: (args, context) => args.dryRun
+    ? hookedExecuteDCASwapTool.execute(args, context)
+    : routerAllowanceLock.run(args.fromToken.toUpperCase(), () => hookedExecuteDCASwapTool.execute(args, context)),
+};
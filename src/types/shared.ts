@@ -1,43 +1,408 @@
 import { z } from 'zod';
+import { cronExpressionError, isValidTimezone } from '../utils/schedule.js';
+import { outboundUrlError } from '../utils/outboundUrls.js';
+
+// Plan schedule types
+export const ScheduleTypeSchema = z.enum(['INTERVAL', 'CRON', 'CALENDAR']);
+
+export type ScheduleType = z.infer<typeof ScheduleTypeSchema>;
+
+// Calendar rule - e.g. every Monday 09:00, or the 1st and 15th of each month
+export const CalendarRuleSchema = z.object({
+  daysOfWeek: z.array(z.number().int().min(0).max(6))
+    .optional()
+    .describe('Days of week (0 = Sunday ... 6 = Saturday)'),
+  daysOfMonth: z.array(z.number().int().min(1).max(31))
+    .optional()
+    .describe('Days of month (1-31)'),
+  time: z.string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM (24h)')
+    .describe('Time of day in HH:MM (24h) in the plan timezone'),
+});
+
+export type CalendarRule = z.infer<typeof CalendarRuleSchema>;
+
+// What the scheduler does when it finds a plan several slots behind (e.g. after downtime)
+export const MissedRunPolicySchema = z.enum(['SKIP', 'RUN_ONCE', 'RUN_ALL']);
+
+export type MissedRunPolicy = z.infer<typeof MissedRunPolicySchema>;
+
+// One target token of a basket plan and its share of each run, in percent
+export const BasketLegSchema = z.object({
+  toToken: z.string().min(1).max(10).describe('Target token symbol'),
+  weight: z.number().positive().max(100).describe('Share of each run, in percent'),
+});
+
+export type BasketLeg = z.infer<typeof BasketLegSchema>;
+
+// Placeholder toToken stored on basket plans
+export const BASKET_TOKEN = 'BASKET';
+
+// DCA plans buy or sell every run; REBALANCE plans swap between held tokens to keep target weights
+export const PlanKindSchema = z.enum(['DCA', 'REBALANCE']);
+
+export type PlanKind = z.infer<typeof PlanKindSchema>;
+
+// One token of a rebalancing plan and its target share of the portfolio, in percent
+export const TargetWeightSchema = z.object({
+  token: z.string().min(1).max(10).describe('Token symbol'),
+  weight: z.number().positive().max(100).describe('Target share of the portfolio, in percent'),
+});
+
+export type TargetWeight = z.infer<typeof TargetWeightSchema>;
+
+// Placeholder toToken stored on rebalancing plans
+export const REBALANCE_TOKEN = 'REBALANCE';
+
+// BUY accumulates toToken with fromToken; SELL gradually sells toToken back into fromToken
+export const PlanSideSchema = z.enum(['BUY', 'SELL']);
+
+export type PlanSide = z.infer<typeof PlanSideSchema>;
+
+// How each run is sized: a fixed amount, or value averaging towards a target growth path
+export const DcaStrategySchema = z.enum(['FIXED', 'VALUE_AVERAGING']);
+
+export type DcaStrategy = z.infer<typeof DcaStrategySchema>;
+
+// Buy-the-dip tier - multiply the run amount when the price is this far below its moving average
+export const DipTierSchema = z.object({
+  drawdownPercent: z.number().positive().max(100)
+    .describe('Drawdown from the moving average, in percent, at which the tier applies'),
+  multiplier: z.number().min(0.1).max(10)
+    .describe('Multiplier applied to the run amount'),
+});
+
+export type DipTier = z.infer<typeof DipTierSchema>;
+
+// Signed allowance instead of an approve: Uniswap Permit2 or the token's own EIP-2612 permit
+export const PermitKindSchema = z.enum(['PERMIT2', 'EIP2612']);
+
+export type PermitKind = z.infer<typeof PermitKindSchema>;
+
+// A permit signed over the typed data from POST /api/permits/prepare
+export const PlanPermitSchema = z.object({
+  kind: PermitKindSchema,
+  amount: z.string().regex(/^\d+$/, 'Amount must be in atomic units').describe('Allowance in atomic token units'),
+  nonce: z.string().regex(/^\d+$/, 'Nonce must be an integer'),
+  deadline: z.string().regex(/^\d+$/, 'Deadline must be unix seconds').describe('Signature deadline (Permit2: also when the allowance expires)'),
+  signature: z.string().regex(/^0x[a-fA-F0-9]+$/, 'Signature must be hex'),
+});
+
+export type PlanPermitRequest = z.infer<typeof PlanPermitSchema>;
+
+/**
+ * Validate that the fields required by the chosen schedule type are present
+ */
+function refineSchedule(
+  data: { scheduleType?: ScheduleType; intervalMinutes?: number; cronExpression?: string; calendarRule?: CalendarRule; timezone?: string },
+  ctx: z.RefinementCtx
+): void {
+  const scheduleType = data.scheduleType ?? 'INTERVAL';
+
+  if (scheduleType === 'INTERVAL' && data.intervalMinutes === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['intervalMinutes'], message: 'intervalMinutes is required for INTERVAL schedules' });
+  }
+  if (scheduleType === 'CRON') {
+    const cronError = data.cronExpression ? cronExpressionError(data.cronExpression) : 'A 5-field cronExpression is required for CRON schedules';
+    if (cronError) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['cronExpression'], message: cronError });
+    }
+  }
+  if (scheduleType === 'CALENDAR') {
+    const rule = data.calendarRule;
+    if (!rule || (!rule.daysOfWeek?.length && !rule.daysOfMonth?.length)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['calendarRule'], message: 'calendarRule with daysOfWeek or daysOfMonth is required for CALENDAR schedules' });
+    }
+  }
+  if (data.timezone && !isValidTimezone(data.timezone)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['timezone'], message: `Unknown timezone "${data.timezone}"` });
+  }
+}
+
+/**
+ * Validate the plan window: a duration or end date is required and must end after the start
+ */
+function refinePlanWindow(
+  data: { startAt?: string; endAt?: string; durationWeeks?: number },
+  ctx: z.RefinementCtx
+): void {
+  if (data.durationWeeks === undefined && !data.endAt) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['durationWeeks'], message: 'Either durationWeeks or endAt is required' });
+  }
+  if (data.endAt) {
+    const start = data.startAt ? new Date(data.startAt) : new Date();
+    if (new Date(data.endAt) <= start) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endAt'], message: 'endAt must be after startAt (or now)' });
+    }
+  }
+}
+
+/**
+ * Validate value-averaging caps
+ */
+function refineStrategy(
+  data: { side?: PlanSide; strategy?: DcaStrategy; minRunAmount?: string; maxRunAmount?: string; dipTiers?: DipTier[] },
+  ctx: z.RefinementCtx
+): void {
+  if (data.side === 'SELL' && data.strategy === 'VALUE_AVERAGING') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['strategy'], message: 'VALUE_AVERAGING is only available for BUY plans' });
+  }
+  if (data.side === 'SELL' && data.dipTiers?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['dipTiers'], message: 'Buy-the-dip tiers are only available for BUY plans' });
+  }
+  if (data.minRunAmount && data.maxRunAmount && parseFloat(data.minRunAmount) > parseFloat(data.maxRunAmount)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['minRunAmount'], message: 'minRunAmount must not exceed maxRunAmount' });
+  }
+  if ((data.strategy ?? 'FIXED') === 'FIXED' && (data.minRunAmount || data.maxRunAmount)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['strategy'], message: 'Run amount caps only apply to VALUE_AVERAGING plans' });
+  }
+}
+
+/**
+ * Validate basket legs: a toToken or a basket, weights adding up to 100%, plain BUY sizing only
+ */
+function refineBasket(
+  data: { kind?: PlanKind; toToken?: string; basket?: BasketLeg[]; side?: PlanSide; strategy?: DcaStrategy; minPrice?: string; maxPrice?: string; dipTiers?: DipTier[] },
+  ctx: z.RefinementCtx
+): void {
+  if (!data.basket) {
+    if (!data.toToken && data.kind !== 'REBALANCE') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['toToken'], message: 'toToken is required unless a basket is given' });
+    }
+    return;
+  }
+
+  const totalWeight = data.basket.reduce((sum, leg) => sum + leg.weight, 0);
+  if (Math.abs(totalWeight - 100) > 0.01) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['basket'], message: `Basket weights must add up to 100 (got ${totalWeight})` });
+  }
+  const symbols = data.basket.map(leg => leg.toToken.toUpperCase());
+  if (new Set(symbols).size !== symbols.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['basket'], message: 'Basket tokens must be unique' });
+  }
+  if (data.side === 'SELL' || data.strategy === 'VALUE_AVERAGING' || data.minPrice || data.maxPrice || data.dipTiers?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['basket'], message: 'Basket plans support fixed-amount BUY runs only' });
+  }
+}
+
+/**
+ * Validate rebalancing plans: target weights adding up to 100%, and none of the buy/sell-only options
+ */
+function refineRebalance(
+  data: { kind?: PlanKind; toToken?: string; basket?: BasketLeg[]; targetWeights?: TargetWeight[]; driftThreshold?: string; side?: PlanSide; strategy?: DcaStrategy; minPrice?: string; maxPrice?: string; dipTiers?: DipTier[] },
+  ctx: z.RefinementCtx
+): void {
+  if (data.kind !== 'REBALANCE') {
+    if (data.targetWeights || data.driftThreshold) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['kind'], message: 'targetWeights and driftThreshold only apply to REBALANCE plans' });
+    }
+    return;
+  }
+
+  if (!data.targetWeights) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['targetWeights'], message: 'targetWeights is required for REBALANCE plans' });
+  } else {
+    const totalWeight = data.targetWeights.reduce((sum, target) => sum + target.weight, 0);
+    if (Math.abs(totalWeight - 100) > 0.01) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['targetWeights'], message: `Target weights must add up to 100 (got ${totalWeight})` });
+    }
+    const symbols = data.targetWeights.map(target => target.token.toUpperCase());
+    if (new Set(symbols).size !== symbols.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['targetWeights'], message: 'Target tokens must be unique' });
+    }
+  }
+  if (data.toToken || data.basket || data.side === 'SELL' || data.strategy === 'VALUE_AVERAGING' ||
+      data.minPrice || data.maxPrice || data.dipTiers?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['kind'], message: 'REBALANCE plans take targetWeights instead of toToken, basket, side, strategy or price conditions' });
+  }
+}
+
+/**
+ * Validate the price guard band
+ */
+function refinePriceConditions(
+  data: { minPrice?: string; maxPrice?: string },
+  ctx: z.RefinementCtx
+): void {
+  if (data.minPrice && data.maxPrice && parseFloat(data.minPrice) > parseFloat(data.maxPrice)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['minPrice'], message: 'minPrice must not exceed maxPrice' });
+  }
+}
 
 // DCA Plan Creation Schema
 export const CreateDCAPlanSchema = z.object({
   userAddress: z.string()
     .regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address')
     .describe('User wallet address'),
+  kind: PlanKindSchema
+    .optional()
+    .default('DCA')
+    .describe('DCA buys/sells every run; REBALANCE keeps the wallet at targetWeights'),
   fromToken: z.string()
     .min(1)
     .max(10)
-    .describe('Source token symbol (e.g., USDC)'),
+    .describe('Source token symbol (e.g., USDC) - for REBALANCE plans, the token holdings are valued in'),
   toToken: z.string()
     .min(1)
     .max(10)
-    .describe('Target token symbol (e.g., ETH)'),
+    .optional()
+    .describe('Target token symbol (e.g., ETH) - omit for basket and REBALANCE plans'),
+  basket: z.array(BasketLegSchema)
+    .min(2)
+    .max(10)
+    .optional()
+    .describe('Split each run across several target tokens by weight, e.g. 60% WETH / 30% ARB / 10% GMX'),
+  side: PlanSideSchema
+    .optional()
+    .default('BUY')
+    .describe('BUY accumulates toToken; SELL sells `amount` toToken back into fromToken each run'),
   amount: z.string()
     .regex(/^\d+(\.\d+)?$/, 'Amount must be a valid number')
-    .describe('Investment amount per execution'),
+    .describe('Amount per execution: fromToken for BUY plans, toToken (or its vault shares) for SELL plans, the most value (in fromToken) swapped per run for REBALANCE plans'),
+  scheduleType: ScheduleTypeSchema
+    .optional()
+    .default('INTERVAL')
+    .describe('Schedule type: INTERVAL (every N minutes), CRON (cron expression) or CALENDAR (weekday/day-of-month rule)'),
   intervalMinutes: z.number()
     .min(2)
     .max(43200) // Max 30 days
-    .describe('Execution interval in minutes'),
+    .optional()
+    .describe('Execution interval in minutes (required for INTERVAL schedules)'),
+  cronExpression: z.string()
+    .max(120)
+    .optional()
+    .describe('5-field cron expression, e.g. "0 9 * * 1" for every Monday 09:00 (required for CRON schedules)'),
+  calendarRule: CalendarRuleSchema
+    .optional()
+    .describe('Calendar rule (required for CALENDAR schedules)'),
+  timezone: z.string()
+    .max(64)
+    .optional()
+    .default('UTC')
+    .describe('IANA timezone the schedule is evaluated in (default: UTC)'),
   durationWeeks: z.number()
     // .min(1)
     // .max(260) // Max 5 years
-    .describe('Total investment duration in weeks'),
+    .optional()
+    .describe('Total investment duration in weeks (required unless endAt is given)'),
+  startAt: z.string()
+    .datetime({ offset: true })
+    .optional()
+    .describe('ISO-8601 time of the first execution (default: one schedule slot from now)'),
+  endAt: z.string()
+    .datetime({ offset: true })
+    .optional()
+    .describe('ISO-8601 time after which no further executions run (default: start + durationWeeks)'),
+  missedRunPolicy: MissedRunPolicySchema
+    .optional()
+    .default('RUN_ONCE')
+    .describe('Catch-up behaviour after downtime: SKIP missed runs, RUN_ONCE, or RUN_ALL missed runs'),
   slippage: z.string()
     .regex(/^\d+(\.\d+)?$/, 'Slippage must be a valid number')
     .optional()
     .default('2')
     .describe('Slippage tolerance in percentage (default: 2%)'),
-});
+  dryRun: z.boolean()
+    .optional()
+    .default(false)
+    .describe('Simulate every run without broadcasting (for testing a plan or token pair)'),
+  strategy: DcaStrategySchema
+    .optional()
+    .default('FIXED')
+    .describe('FIXED buys `amount` every run; VALUE_AVERAGING buys whatever brings the position up to its target path'),
+  targetIncrement: z.string()
+    .regex(/^\d+(\.\d+)?$/, 'Target increment must be a valid number')
+    .optional()
+    .describe('Value-averaging growth of the position per run, in fromToken (default: amount)'),
+  minRunAmount: z.string()
+    .regex(/^\d+(\.\d+)?$/, 'Minimum run amount must be a valid number')
+    .optional()
+    .describe('Value-averaging lower cap per run, in fromToken (default: 0, i.e. skip when ahead of the path)'),
+  maxRunAmount: z.string()
+    .regex(/^\d+(\.\d+)?$/, 'Maximum run amount must be a valid number')
+    .optional()
+    .describe('Value-averaging upper cap per run, in fromToken (default: uncapped)'),
+  minPrice: z.string()
+    .regex(/^\d+(\.\d+)?$/, 'Min price must be a valid number')
+    .optional()
+    .describe('Skip runs while toToken costs less than this, in fromToken (the price floor of SELL plans)'),
+  maxPrice: z.string()
+    .regex(/^\d+(\.\d+)?$/, 'Max price must be a valid number')
+    .optional()
+    .describe('Skip runs while toToken costs more than this, in fromToken'),
+  dipTiers: z.array(DipTierSchema)
+    .max(10)
+    .optional()
+    .describe('Buy-the-dip multipliers keyed on drawdown from the moving average'),
+  movingAverageDays: z.number()
+    .int()
+    .min(1)
+    .max(365)
+    .optional()
+    .default(30)
+    .describe('Moving average window for dip tiers, in days (default: 30)'),
+  targetWeights: z.array(TargetWeightSchema)
+    .min(2)
+    .max(10)
+    .optional()
+    .describe('REBALANCE target portfolio, e.g. 50% WETH / 30% ARB / 20% USDC'),
+  driftThreshold: z.string()
+    .regex(/^\d+(\.\d+)?$/, 'Drift threshold must be a valid number')
+    .optional()
+    .describe('REBALANCE only: trade once a token drifts this many percentage points from its target (default: 5)'),
+  permit: PlanPermitSchema
+    .optional()
+    .describe('Signed allowance for the plan budget, used instead of approving the executor'),
+}).superRefine(refineSchedule).superRefine(refinePlanWindow).superRefine(refineStrategy).superRefine(refinePriceConditions).superRefine(refineBasket).superRefine(refineRebalance);
 
 export type CreateDCAPlanRequest = z.infer<typeof CreateDCAPlanSchema>;
 
-// DCA Plan Update Schema
+/**
+ * Validate a plan update: something to change, and at most one way of ending the plan
+ */
+function refinePlanUpdate(
+  data: { status?: string; amount?: string; intervalMinutes?: number; slippage?: string; endAt?: string; remainingExecutions?: number },
+  ctx: z.RefinementCtx
+): void {
+  const { status, amount, intervalMinutes, slippage, endAt, remainingExecutions } = data;
+  if ([status, amount, intervalMinutes, slippage, endAt, remainingExecutions].every(value => value === undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [], message: 'Nothing to update' });
+  }
+  if (endAt && remainingExecutions !== undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['remainingExecutions'], message: 'Give either endAt or remainingExecutions, not both' });
+  }
+}
+
+// DCA Plan Update Schema - any subset of status and the editable parameters
 export const UpdateDCAPlanSchema = z.object({
   status: z.enum(['ACTIVE', 'PAUSED', 'CANCELLED'])
+    .optional()
     .describe('Updated plan status'),
-});
+  amount: z.string()
+    .regex(/^\d+(\.\d+)?$/, 'Amount must be a valid number')
+    .refine(value => parseFloat(value) > 0, 'Amount must be greater than 0')
+    .optional()
+    .describe('New amount per execution'),
+  intervalMinutes: z.number()
+    .min(2)
+    .max(43200) // Max 30 days
+    .optional()
+    .describe('New execution interval in minutes (INTERVAL plans only)'),
+  slippage: z.string()
+    .regex(/^\d+(\.\d+)?$/, 'Slippage must be a valid number')
+    .optional()
+    .describe('New slippage tolerance in percentage'),
+  endAt: z.string()
+    .datetime({ offset: true })
+    .optional()
+    .describe('New end date (ISO-8601); the remaining executions are recounted'),
+  remainingExecutions: z.number()
+    .int()
+    .min(1)
+    .max(10000)
+    .optional()
+    .describe('Number of executions left to run; the end date is moved to match'),
+}).superRefine(refinePlanUpdate);
 
 export type UpdateDCAPlanRequest = z.infer<typeof UpdateDCAPlanSchema>;
 
@@ -56,24 +421,240 @@ export const ManualSwapSchema = z.object({
 
 export type ManualSwapRequest = z.infer<typeof ManualSwapSchema>;
 
+// SIWE Login Schema
+export const SiweLoginSchema = z.object({
+  message: z.string()
+    .min(1)
+    .max(4096)
+    .describe('EIP-4361 message containing a nonce from GET /api/auth/nonce'),
+  signature: z.string()
+    .regex(/^0x[a-fA-F0-9]+$/, 'Signature must be hex'),
+});
+
+export type SiweLoginRequest = z.infer<typeof SiweLoginSchema>;
+
+// API key scopes - admin implies all others
+export const ApiScopeSchema = z.enum(['read:plans', 'write:plans', 'vault:withdraw', 'admin']);
+export type ApiScope = z.infer<typeof ApiScopeSchema>;
+
+// API Key Creation Schema
+export const CreateApiKeySchema = z.object({
+  name: z.string()
+    .min(1)
+    .max(64)
+    .describe('What the key is for, e.g. "mini-app backend"'),
+  scopes: z.array(ApiScopeSchema)
+    .min(1)
+    .describe('Scopes granted to the key'),
+  address: z.string()
+    .regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address')
+    .optional()
+    .describe('Restrict the key to acting for this address'),
+  expiresAt: z.string()
+    .datetime({ offset: true })
+    .refine(value => new Date(value) > new Date(), 'expiresAt must be in the future')
+    .optional(),
+});
+
+export type CreateApiKeyRequest = z.infer<typeof CreateApiKeySchema>;
+
+// Webhook event types
+export const WebhookEventSchema = z.enum([
+  'plan.created',
+  'plan.updated',
+  'plan.paused',
+  'plan.awaiting_funds',
+  'plan.resumed',
+  'plan.cancelled',
+  'plan.completed',
+  'execution.succeeded',
+  'execution.failed',
+  'vault.withdrawn',
+  'vault.deposit_failed',
+]);
+export type WebhookEvent = z.infer<typeof WebhookEventSchema>;
+
+/**
+ * Validate a URL the server will POST to (the routes also check its DNS, and delivery checks it again)
+ */
+function refineOutboundUrl(url: string, ctx: z.RefinementCtx): void {
+  const error = outboundUrlError(url);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }
+}
+
+// Webhook Subscription Schema
+export const CreateWebhookSchema = z.object({
+  url: z.string()
+    .url()
+    .superRefine(refineOutboundUrl)
+    .describe('Endpoint that receives signed POST deliveries (https, public address)'),
+  events: z.array(WebhookEventSchema)
+    .min(1)
+    .describe('Event types to deliver'),
+  userAddress: z.string()
+    .regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address')
+    .optional()
+    .describe('Whose events to deliver (default: the signed-in address)'),
+  global: z.boolean()
+    .optional()
+    .default(false)
+    .describe('Deliver events of all users (admin only)'),
+});
+
+export type CreateWebhookRequest = z.infer<typeof CreateWebhookSchema>;
+
+// Farcaster notification details, as returned to the mini-app when the user adds it
+export const RegisterNotificationTokenSchema = z.object({
+  fid: z.number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Farcaster ID of the user'),
+  url: z.string()
+    .url()
+    .superRefine(refineOutboundUrl)
+    .describe('Notification URL from notificationDetails (https, public address)'),
+  token: z.string()
+    .min(1)
+    .max(256)
+    .describe('Notification token from notificationDetails'),
+});
+
+export type RegisterNotificationTokenRequest = z.infer<typeof RegisterNotificationTokenSchema>;
+
+export const NotificationPreferencesSchema = z.object({
+  executions: z.boolean().optional().describe('Notify after every successful swap'),
+  failures: z.boolean().optional().describe('Notify when a plan keeps failing'),
+  completions: z.boolean().optional().describe('Notify when a plan completes'),
+  lowAllowance: z.boolean().optional().describe('Notify when the allowance or balance will not cover the next runs'),
+});
+
+export type NotificationPreferencesRequest = z.infer<typeof NotificationPreferencesSchema>;
+
+// Tax lot accounting method: which lots a disposal is matched against first
+export const LotMethodSchema = z.enum(['FIFO', 'LIFO', 'HIFO']);
+export type LotMethod = z.infer<typeof LotMethodSchema>;
+
+// Tax Lot Export Query Schema
+export const TaxExportQuerySchema = z.object({
+  method: LotMethodSchema
+    .optional()
+    .default('FIFO')
+    .describe('Lot matching method: FIFO, LIFO or HIFO (highest cost first)'),
+  from: z.string()
+    .datetime({ offset: true })
+    .optional()
+    .describe('ISO-8601 start of the reporting period (default: all history)'),
+  to: z.string()
+    .datetime({ offset: true })
+    .optional()
+    .describe('ISO-8601 end of the reporting period (default: now)'),
+  format: z.enum(['json', 'csv'])
+    .optional()
+    .default('json'),
+  report: z.enum(['gains', 'lots', 'transactions'])
+    .optional()
+    .default('gains')
+    .describe('Which table a CSV export contains (JSON always contains all of them)'),
+}).refine(query => !query.from || !query.to || new Date(query.from) < new Date(query.to), {
+  message: 'from must be before to',
+  path: ['to'],
+});
+
+export type TaxExportQuery = z.infer<typeof TaxExportQuerySchema>;
+
 // Response Types
 export interface DCAPlanResponse {
   id: string;
   userAddress: string;
   fromToken: string;
   toToken: string;
+  kind: PlanKind;
+  basket: BasketLeg[] | null;
+  targetWeights: TargetWeight[] | null;
+  driftThreshold: string | null;
+  side: PlanSide;
   amount: string;
-  intervalMinutes: number;
+  intervalMinutes: number | null;
+  scheduleType: ScheduleType;
+  cronExpression: string | null;
+  calendarRule: CalendarRule | null;
+  timezone: string;
   durationWeeks: number;
-  status: 'ACTIVE' | 'PAUSED' | 'COMPLETED' | 'CANCELLED';
+  startAt: string | null;
+  endAt: string | null;
+  missedRunPolicy: MissedRunPolicy;
+  status: 'ACTIVE' | 'AWAITING_FUNDS' | 'PAUSED' | 'COMPLETED' | 'CANCELLED';
   nextExecution: string | null;
   executionCount: number;
   totalExecutions: number;
   slippage: string;
+  dryRun: boolean;
+  strategy: DcaStrategy;
+  targetIncrement: string | null;
+  minRunAmount: string | null;
+  maxRunAmount: string | null;
+  minPrice: string | null;
+  maxPrice: string | null;
+  dipTiers: DipTier[] | null;
+  movingAverageDays: number;
+  // History behind the dip tiers' moving average (null for plans without dip tiers)
+  movingAverage: MovingAverageStatus | null;
+  // Latest pre-flight balance/allowance check (null until the plan was checked)
+  funding: FundingCheck | null;
+  failures: PlanFailureState;
+  // Why the plan was paused automatically (null when it wasn't)
+  pauseReason: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// The moving average dip tiers compare against. It is only used (value set) once at least
+// requiredDays of the window's days have a price sample; until then tiers don't apply
+export interface MovingAverageStatus {
+  value: string | null;
+  days: number;
+  coveredDays: number;
+  requiredDays: number;
+  samples: number;
+}
+
+// What a failed run is attributed to (see utils/failures.ts)
+export type FailureClass =
+  | 'INSUFFICIENT_ALLOWANCE'
+  | 'INSUFFICIENT_BALANCE'
+  | 'NO_ROUTE'
+  | 'REVERT'
+  | 'RPC_OUTAGE'
+  | 'MCP_OUTAGE'
+  | 'UNSAFE_CALLDATA'
+  | 'UNKNOWN';
+
+export interface PlanFailureState {
+  // Failed runs in a row, reset by the next successful run
+  consecutive: number;
+  lastClass: FailureClass | null;
+  lastAt: string | null;
+  // The plan isn't attempted again before this time
+  retryAfter: string | null;
+}
+
+// Whether a plan's wallet can pay for its upcoming runs (amounts in `token`)
+export interface FundingCheck {
+  token: string;
+  perRun: string;
+  balance: string;
+  // null when no allowance is needed (self-execution, native token)
+  allowance: string | null;
+  runsCovered: number;
+  lookaheadRuns: number;
+  shortfall: 'balance' | 'allowance' | null;
+  warning: string | null;
+  checkedAt: string;
+}
+
 export interface ExecutionHistoryResponse {
   id: string;
   planId: string;
@@ -81,10 +662,313 @@ export interface ExecutionHistoryResponse {
   fromAmount: string;
   toAmount: string;
   exchangeRate: string;
+  // Quote at preparation time; fromAmount/toAmount/exchangeRate are realized values
+  quotedToAmount: string | null;
+  quotedExchangeRate: string | null;
+  // Realized shortfall against the quote, in percent
+  realizedSlippage: string | null;
   gasFee: string | null;
   txHash: string | null;
-  status: 'SUCCESS' | 'FAILED' | 'PENDING';
+  status: 'SUCCESS' | 'FAILED' | 'PENDING' | 'SIMULATED' | 'SKIPPED' | 'PARTIAL';
   errorMessage: string | null;
+  skipReason: string | null;
+  // The swap settled but its output hasn't been deposited into the vault yet (retried by the reconciler)
+  depositPending: boolean;
+  // Grouped runs (baskets, rebalances): the group row a leg belongs to, the leg's pair, and the legs of a group row
+  groupId: string | null;
+  legFromToken: string | null;
+  legToken: string | null;
+  legs?: ExecutionHistoryResponse[];
+  // Per-transaction results of a dry run (SIMULATED executions only)
+  simulation: unknown | null;
+}
+
+export const PreparePermitSchema = z.object({
+  userAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address'),
+  kind: PermitKindSchema,
+  token: z.string().min(1).describe('Symbol of the token the plan spends'),
+  budget: z.string()
+    .regex(/^\d+(\.\d+)?$/, 'Budget must be a valid number')
+    .describe('Most the plan may pull in total, in whole tokens'),
+  expiresAt: z.string()
+    .datetime({ offset: true })
+    .describe('When the allowance lapses (EIP-2612: the latest time the permit can be submitted)'),
+});
+
+export type PreparePermitRequest = z.infer<typeof PreparePermitSchema>;
+
+// What to sign for a plan permit, and the values to send back with the signature
+export interface PreparedPermitResponse {
+  kind: PermitKind;
+  token: string;
+  tokenAddress: string;
+  spender: string;
+  amount: string;
+  nonce: string;
+  deadline: string;
+  // EIP-712 payload for eth_signTypedData_v4
+  typedData: Record<string, unknown>;
+  // Permit2 only: whether the token still has to be approved to the Permit2 contract
+  requiresPermit2Approval: boolean;
+}
+
+export interface PlanPermitResponse {
+  planId: string;
+  kind: PermitKind;
+  tokenAddress: string;
+  spender: string;
+  amount: string;
+  // Pulled under the permit so far (atomic units)
+  spent: string;
+  deadline: string;
+  expiresAt: string | null;
+  appliedAt: string | null;
+  appliedTxHash: string | null;
+  createdAt: string;
+}
+
+// An allowance the executor has granted, from the approvals inventory
+export interface ExecutorApprovalResponse {
+  token: string;
+  tokenAddress: string;
+  spender: string;
+  spenderLabel: 'router' | 'vault';
+  allowance: string;
+  atomicAllowance: string;
+  // Effectively unlimited (a max uint256 approval)
+  unlimited: boolean;
+}
+
+export const RevokeApprovalSchema = z.object({
+  tokenAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid token address'),
+  spender: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid spender address'),
+});
+
+export type RevokeApprovalRequest = z.infer<typeof RevokeApprovalSchema>;
+
+export interface RevokedApprovalResponse {
+  tokenAddress: string;
+  spender: string;
+  previousAllowance: string;
+  // null when the allowance was already zero
+  txHash: string | null;
+}
+
+export interface PlanEditResponse {
+  id: string;
+  planId: string;
+  changes: Record<string, { from: string | null; to: string | null }>;
+  source: string;
+  createdAt: string;
+}
+
+// Performance of one bought (or sold) token, with all values in the plan's fromToken.
+// BUY: tokenAmount bought for quoteAmount spent; SELL: tokenAmount sold for quoteAmount received.
+export interface PositionPerformance {
+  token: string;
+  side: PlanSide;
+  executions: number;
+  firstExecutionAt: string | null;
+  lastExecutionAt: string | null;
+  tokenAmount: string;
+  quoteAmount: string;
+  // Volume-weighted average entry (BUY) or exit (SELL) price
+  averagePrice: string | null;
+  currentPrice: string | null;
+  // tokenAmount at the current price
+  currentValue: string | null;
+  // BUY: currentValue - quoteAmount (unrealized); SELL: quoteAmount - currentValue (vs. holding)
+  pnl: string | null;
+  pnlPercent: string | null;
+  // The same total traded in one go at the first execution's price
+  lumpSum: {
+    price: string;
+    value: string | null;
+    pnl: string | null;
+  } | null;
+  // pnl minus the lump-sum pnl: positive when averaging did better
+  vsLumpSum: string | null;
+}
+
+export interface PerformanceTotals {
+  quoteToken: string;
+  quoteAmount: string;
+  currentValue: string | null;
+  pnl: string | null;
+  pnlPercent: string | null;
+  lumpSumPnl: string | null;
+  vsLumpSum: string | null;
+}
+
+export interface PlanPerformanceResponse {
+  planId: string;
+  fromToken: string;
+  toToken: string;
+  side: PlanSide;
+  positions: PositionPerformance[];
+  totals: PerformanceTotals;
+  // Where current prices came from: a live Ember quote, or the latest stored price sample
+  priceSources: Record<string, 'quote' | 'sample' | null>;
+  generatedAt: string;
+}
+
+export interface UserPerformanceResponse {
+  userAddress: string;
+  plans: PlanPerformanceResponse[];
+  // One entry per fromToken, since values in different tokens can't be added up
+  totals: PerformanceTotals[];
+  generatedAt: string;
+}
+
+// A swap as a taxable event: BUY rows acquire `token`, SELL rows dispose of it.
+// Amounts are valued in quoteToken (the plan's fromToken).
+export interface TaxTransaction {
+  executionId: string;
+  planId: string;
+  type: 'ACQUISITION' | 'DISPOSAL';
+  date: string;
+  token: string;
+  amount: string;
+  quoteToken: string;
+  // Spent (acquisition) or received (disposal), before fees
+  quoteAmount: string;
+  // Gas paid, in ETH
+  gasFee: string | null;
+  // Gas converted to quoteToken (null when no ETH price was available)
+  gasFeeQuote: string | null;
+  txHash: string | null;
+}
+
+export interface TaxLot {
+  // Id of the acquiring execution
+  id: string;
+  token: string;
+  quoteToken: string;
+  acquiredAt: string;
+  amount: string;
+  // Quote spent plus gas
+  costBasis: string;
+  // Still held at the end of the reporting period
+  remaining: string;
+  remainingCostBasis: string;
+  txHash: string | null;
+}
+
+export interface RealizedGain {
+  disposalId: string;
+  // null when more was disposed of than the plans acquired (cost basis unknown, reported as 0)
+  lotId: string | null;
+  token: string;
+  quoteToken: string;
+  acquiredAt: string | null;
+  disposedAt: string;
+  amount: string;
+  // Quote received for this part of the disposal, net of gas
+  proceeds: string;
+  costBasis: string;
+  gain: string;
+  // LONG when the lot was held for more than a year
+  term: 'SHORT' | 'LONG' | null;
+  txHash: string | null;
+}
+
+export interface TaxExportResponse {
+  userAddress: string;
+  method: LotMethod;
+  from: string | null;
+  to: string;
+  transactions: TaxTransaction[];
+  lots: TaxLot[];
+  gains: RealizedGain[];
+  // Realized totals per quote token
+  totals: { quoteToken: string; proceeds: string; costBasis: string; gain: string }[];
+  warnings: string[];
+}
+
+export interface AuthSessionResponse {
+  kind?: 'session' | 'apiKey';
+  address: string | null;
+  role: 'USER' | 'ADMIN';
+  // API key scopes (null: sessions, which aren't limited by scope)
+  scopes?: ApiScope[] | null;
+  expiresAt?: string;
+  // Only returned by login
+  token?: string;
+}
+
+export interface ApiKeyResponse {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiScope[];
+  address: string | null;
+  createdBy: string | null;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  rotatedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  // The full key - only returned when a key is created or rotated
+  key?: string;
+}
+
+export interface WebhookSubscriptionResponse {
+  id: string;
+  // null for global subscriptions
+  userAddress: string | null;
+  url: string;
+  events: WebhookEvent[];
+  active: boolean;
+  createdAt: string;
+  // Only returned when the subscription is created
+  secret?: string;
+}
+
+export interface WebhookDeliveryResponse {
+  id: string;
+  eventId: string;
+  event: WebhookEvent;
+  status: 'PENDING' | 'SUCCESS' | 'FAILED';
+  attempts: number;
+  nextAttemptAt: string;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+export interface NotificationPreferencesResponse {
+  userAddress: string;
+  executions: boolean;
+  failures: boolean;
+  completions: boolean;
+  lowAllowance: boolean;
+  // Enabled notification tokens registered for the address
+  tokens: number;
+}
+
+// Live update pushed on GET /api/dca/stream/:userAddress (the SSE event name is `type`)
+export type LiveEventType =
+  | 'plan.state'
+  | 'execution.started'
+  | 'execution.skipped'
+  | 'quote.fetched'
+  | 'tx.broadcast'
+  | 'tx.confirmed'
+  | 'vault.deposited'
+  | 'vault.deposit_failed'
+  | 'allowance.low'
+  | 'funding.insufficient'
+  | 'execution.succeeded'
+  | 'execution.failed';
+
+export interface LiveEvent {
+  // Increasing within one server process
+  id: number;
+  type: LiveEventType;
+  planId: string | null;
+  data: Record<string, unknown>;
+  timestamp: string;
 }
 
 export interface PlatformStatsResponse {
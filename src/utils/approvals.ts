@@ -0,0 +1,39 @@
+/**
+ * Router Approvals
+ *
+ * The executor approves the swap router per swap rather than once for an unlimited amount,
+ * so a compromised router can only take what the executor has approved and not yet spent.
+ * By default each approval is the swap's exact amount; a per-token cap
+ * (ROUTER_APPROVAL_CAPS="USDC=1000,WETH=0.5") lets the executor approve up to that
+ * amount at once and skip the approve transaction on the runs it covers.
+ * Caps use the same "TOKEN=amount" format as MAX_COMMITTED_NOTIONAL (parseNotionalCaps).
+ */
+
+import { parseUnits, type Address } from 'viem';
+
+export const ROUTER_ADDRESS: Address = '0xce16F69375520ab01377ce7B88f5BA8C48F8D666';
+
+// Allowances at or above this are treated as "unlimited" (max uint256 approvals, minus anything spent)
+export const UNLIMITED_ALLOWANCE_THRESHOLD = 2n ** 255n;
+
+/**
+ * How much to approve for a swap of `required` atomic units: the exact amount, or the token's
+ * cap when one is configured and larger (a cap never stops a swap that needs more)
+ */
+export function routerApprovalAmount(
+  required: bigint,
+  symbol: string,
+  decimals: number,
+  caps: Record<string, string>
+): bigint {
+  const cap = caps[symbol.toUpperCase()];
+  if (!cap) {
+    return required;
+  }
+  const capAmount = parseUnits(cap, decimals);
+  return capAmount > required ? capAmount : required;
+}
+
+export function isUnlimitedAllowance(allowance: bigint): boolean {
+  return allowance >= UNLIMITED_ALLOWANCE_THRESHOLD;
+}
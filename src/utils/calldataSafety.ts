@@ -0,0 +1,215 @@
+/**
+ * Swap Calldata Safety
+ *
+ * Checks the transactions Ember's createSwap returns before the executor signs them:
+ * - every target is an allowed router or one of the swap's token contracts
+ * - native value is only sent to a router, for swaps from native ETH, and never above the input
+ * - calls to token contracts are approvals of an allowed router for no more than the swap needs
+ * - calls to a router decode as a known swap function that pulls the plan's token and amount
+ *   and delivers only to the plan's recipient; router calls that don't decode are refused
+ *   unless the caller opts out (allowUndecodedRouterCalls)
+ */
+
+import { decodeFunctionData, parseAbi, type Hex } from 'viem';
+
+// Swap entry points whose input token, amount and recipient can be read from the calldata
+const routerAbi = parseAbi([
+  // Uniswap V3 SwapRouter
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params)',
+  'function exactInput((bytes path, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum) params)',
+  // Uniswap SwapRouter02 (no deadline)
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params)',
+  'function exactInput((bytes path, address recipient, uint256 amountIn, uint256 amountOutMinimum) params)',
+  // 1inch AggregationRouter V5 / V6
+  'function swap(address executor, (address srcToken, address dstToken, address srcReceiver, address dstReceiver, uint256 amount, uint256 minReturnAmount, uint256 flags) desc, bytes permit, bytes data)',
+  'function swap(address executor, (address srcToken, address dstToken, address srcReceiver, address dstReceiver, uint256 amount, uint256 minReturnAmount, uint256 flags) desc, bytes data)',
+  // Squid router (the default ROUTER_ADDRESS): same-chain swaps pull `amount` of `token` and run the calls
+  'function fundAndRunMulticall(address token, uint256 amount, (uint8 callType, address target, uint256 value, bytes callData, bytes payload)[] calls)',
+]);
+
+const approveAbi = parseAbi(['function approve(address spender, uint256 amount)']);
+const transferAbi = parseAbi(['function transfer(address to, uint256 amount)']);
+
+// Squid multicall call types: FullNativeBalance sends the router's whole native balance to the call's target
+const SQUID_FULL_NATIVE_BALANCE = 2;
+
+// What a swap transaction is expected to do, from the plan's side
+export interface SwapExpectation {
+  chainId: string;
+  fromToken: { address: string; isNative?: boolean };
+  toToken: { address: string; isNative?: boolean };
+  // Atomic input amount (null for exactOut swaps, whose input is only bounded by the quote)
+  amountIn: bigint | null;
+  // Who receives the bought tokens (user, or executor for vault deposits)
+  recipient: string;
+  // Routers the swap may call and token approvals may name
+  routers: string[];
+  // Largest approval a token call may grant (null: unbounded)
+  maxApproval: bigint | null;
+  // Let router calls that don't decode as a known swap function through
+  allowUndecodedRouterCalls?: boolean;
+}
+
+export interface SwapTransaction {
+  chainId?: string;
+  to: string;
+  value?: string;
+  data?: string;
+}
+
+export interface CalldataCheck {
+  index: number;
+  to: string;
+  selector: string | null;
+  // Decoded function name, when the calldata matched a known function
+  functionName: string | null;
+  violations: string[];
+}
+
+interface DecodedSwap {
+  functionName: string;
+  tokenIn: string | null;
+  amountIn: bigint;
+  // Every address the swap delivers its output to (null: not readable, e.g. unwrapped by the router)
+  recipients: string[] | null;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * The first token of a Uniswap V3 encoded path (token, fee, token, ...)
+ */
+function pathTokenIn(path: Hex): string | null {
+  return path.length >= 42 ? `0x${path.slice(2, 42)}` : null;
+}
+
+/**
+ * Where a Squid multicall delivers the bought token: its transfers of that token, and native balance sweeps
+ */
+function multicallRecipients(
+  calls: readonly { callType: number; target: string; callData: Hex }[],
+  toToken: SwapExpectation['toToken']
+): string[] {
+  const recipients: string[] = [];
+  for (const call of calls) {
+    if (call.callType === SQUID_FULL_NATIVE_BALANCE) {
+      recipients.push(call.target);
+    } else if (!toToken.isNative && sameAddress(call.target, toToken.address)) {
+      try {
+        recipients.push(decodeFunctionData({ abi: transferAbi, data: call.callData }).args[0]);
+      } catch {
+        // Approvals of the bought token (e.g. for a further hop) deliver nothing
+      }
+    }
+  }
+  return recipients;
+}
+
+function decodeRouterSwap(data: Hex, toToken: SwapExpectation['toToken']): DecodedSwap | null {
+  let decoded;
+  try {
+    decoded = decodeFunctionData({ abi: routerAbi, data });
+  } catch {
+    return null;
+  }
+  if (decoded.functionName === 'fundAndRunMulticall') {
+    const [token, amount, calls] = decoded.args;
+    return { functionName: decoded.functionName, tokenIn: token, amountIn: amount, recipients: multicallRecipients(calls, toToken) };
+  }
+  // Native output is unwrapped and sent on by the router, so the encoded recipient is the router
+  if (decoded.functionName === 'swap') {
+    const desc = decoded.args[1];
+    return { functionName: 'swap', tokenIn: desc.srcToken, amountIn: desc.amount, recipients: toToken.isNative ? null : [desc.dstReceiver] };
+  }
+  const params = decoded.args[0];
+  return {
+    functionName: decoded.functionName,
+    tokenIn: 'tokenIn' in params ? params.tokenIn : pathTokenIn(params.path),
+    amountIn: params.amountIn,
+    recipients: toToken.isNative ? null : [params.recipient],
+  };
+}
+
+/**
+ * Check one transaction of a swap plan
+ */
+export function checkSwapTransaction(tx: SwapTransaction, index: number, expected: SwapExpectation): CalldataCheck {
+  const data = (tx.data && tx.data !== '0x' ? tx.data : null) as Hex | null;
+  const check: CalldataCheck = { index, to: tx.to, selector: data ? data.slice(0, 10) : null, functionName: null, violations: [] };
+  const value = BigInt(tx.value || '0');
+  const isRouter = expected.routers.some(router => sameAddress(router, tx.to));
+  const tokenContracts = [expected.fromToken, expected.toToken].filter(token => !token.isNative).map(token => token.address);
+  const isToken = tokenContracts.some(token => sameAddress(token, tx.to));
+
+  if (tx.chainId && tx.chainId !== expected.chainId) {
+    check.violations.push(`Transaction is for chain ${tx.chainId}, expected ${expected.chainId}`);
+  }
+  if (!isRouter && !isToken) {
+    check.violations.push(`Target ${tx.to} is not an allowed router or token contract`);
+  }
+
+  if (value > 0n) {
+    if (!expected.fromToken.isNative || !isRouter) {
+      check.violations.push(`Unexpected native value ${value}`);
+    } else if (expected.amountIn !== null && value > expected.amountIn) {
+      check.violations.push(`Native value ${value} exceeds the swap input ${expected.amountIn}`);
+    }
+  }
+
+  if (isToken) {
+    let approval;
+    try {
+      approval = data ? decodeFunctionData({ abi: approveAbi, data }) : null;
+    } catch {
+      approval = null;
+    }
+    if (!approval) {
+      check.violations.push(`Unexpected call ${check.selector ?? '(none)'} to token contract ${tx.to}`);
+    } else {
+      check.functionName = approval.functionName;
+      const [spender, amount] = approval.args;
+      if (!expected.routers.some(router => sameAddress(router, spender))) {
+        check.violations.push(`Approval names ${spender}, which is not an allowed router`);
+      } else if (expected.maxApproval !== null && amount > expected.maxApproval) {
+        check.violations.push(`Approval of ${amount} exceeds the ${expected.maxApproval} the swap needs`);
+      }
+    }
+  }
+
+  if (isRouter) {
+    const swap = data ? decodeRouterSwap(data, expected.toToken) : null;
+    if (!swap) {
+      if (!expected.allowUndecodedRouterCalls) {
+        check.violations.push(`Call ${check.selector ?? '(none)'} to router ${tx.to} is not a known swap function`);
+      }
+    } else {
+      check.functionName = swap.functionName;
+      if (!expected.fromToken.isNative && swap.tokenIn && !sameAddress(swap.tokenIn, expected.fromToken.address)) {
+        check.violations.push(`Swap input token ${swap.tokenIn} is not the plan's ${expected.fromToken.address}`);
+      }
+      if (expected.amountIn !== null && swap.amountIn !== expected.amountIn) {
+        check.violations.push(`Swap input amount ${swap.amountIn} does not match the plan's ${expected.amountIn}`);
+      }
+      if (swap.recipients?.length === 0) {
+        check.violations.push(`Swap does not deliver its output to the plan's recipient ${expected.recipient}`);
+      }
+      for (const recipient of swap.recipients ?? []) {
+        if (!sameAddress(recipient, expected.recipient)) {
+          check.violations.push(`Swap recipient ${recipient} is not the plan's recipient ${expected.recipient}`);
+        }
+      }
+    }
+  }
+
+  return check;
+}
+
+/**
+ * Check every transaction of a swap plan
+ * @returns the checks of the transactions that violate the expectation
+ */
+export function checkSwapTransactions(transactions: SwapTransaction[], expected: SwapExpectation): CalldataCheck[] {
+  return transactions
+    .map((tx, index) => checkSwapTransaction(tx, index, expected))
+    .filter(check => check.violations.length > 0);
+}
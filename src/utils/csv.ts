@@ -0,0 +1,27 @@
+/**
+ * CSV Utilities
+ */
+
+type CsvValue = string | number | null | undefined;
+
+/**
+ * Quote a CSV field when it contains a separator, quote or line break
+ */
+function escapeField(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render rows as CSV with a header line, in the given column order
+ */
+export function toCsv<T extends Record<string, CsvValue>>(columns: (keyof T & string)[], rows: T[]): string {
+  const lines = [columns.map(escapeField).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(column => escapeField(row[column])).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,73 @@
+/**
+ * Execution Failure Classification
+ *
+ * Sorts the error of a failed run into a class, and decides from the class how long the
+ * plan waits before its next attempt and whether it should be paused. Backoff doubles with
+ * every consecutive failure, up to MAX_BACKOFF_MS. Outages of the RPC or the Ember MCP
+ * server are not the plan's fault, so they back off but never pause a plan.
+ */
+
+import type { FailureClass } from '../types/shared.js';
+
+interface FailurePolicy {
+  // Wait after the first failure, doubled for every further consecutive one
+  backoffMs: number;
+  // Whether the failure may auto-pause the plan
+  pausable: boolean;
+  description: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+export const MAX_BACKOFF_MS = 24 * 60 * MINUTE_MS;
+
+export const FAILURE_POLICIES: Record<FailureClass, FailurePolicy> = {
+  INSUFFICIENT_ALLOWANCE: { backoffMs: 30 * MINUTE_MS, pausable: true, description: 'the executor is not approved for enough tokens' },
+  INSUFFICIENT_BALANCE: { backoffMs: 30 * MINUTE_MS, pausable: true, description: 'the wallet does not hold enough tokens' },
+  NO_ROUTE: { backoffMs: 15 * MINUTE_MS, pausable: true, description: 'no swap route was found' },
+  REVERT: { backoffMs: 5 * MINUTE_MS, pausable: true, description: 'the swap transaction reverted' },
+  RPC_OUTAGE: { backoffMs: 2 * MINUTE_MS, pausable: false, description: 'the RPC node was unreachable' },
+  MCP_OUTAGE: { backoffMs: 2 * MINUTE_MS, pausable: false, description: 'the Ember MCP server was unreachable' },
+  UNSAFE_CALLDATA: { backoffMs: 60 * MINUTE_MS, pausable: true, description: 'the swap calldata did not match the plan and was blocked' },
+  UNKNOWN: { backoffMs: 5 * MINUTE_MS, pausable: true, description: 'the run failed' },
+};
+
+// First match wins: specific causes before the generic network patterns
+const FAILURE_PATTERNS: Array<[FailureClass, RegExp]> = [
+  ['UNSAFE_CALLDATA', /unsafe swap calldata/i],
+  ['INSUFFICIENT_ALLOWANCE', /allowance|insufficient (user )?approval|not approved/i],
+  ['INSUFFICIENT_BALANCE', /insufficient (eth |token )?(balance|funds)|exceeds balance|transfer amount exceeds/i],
+  ['NO_ROUTE', /no (swap )?route|failed to get swap plan|no transactions received|insufficient liquidity|no liquidity/i],
+  ['REVERT', /revert/i],
+  ['MCP_OUTAGE', /\bmcp\b|ember/i],
+  ['RPC_OUTAGE', /fetch failed|timed? ?out|econn(reset|refused)|enotfound|etimedout|network|http request failed|rpc|\b(429|502|503|504)\b/i],
+];
+
+/**
+ * Classify a failed run from its error message
+ */
+export function classifyFailure(message: string): FailureClass {
+  return FAILURE_PATTERNS.find(([, pattern]) => pattern.test(message))?.[0] ?? 'UNKNOWN';
+}
+
+/**
+ * How long to wait before the next attempt after `consecutiveFailures` failures in a row
+ */
+export function failureBackoffMs(failureClass: FailureClass, consecutiveFailures: number): number {
+  const doublings = Math.min(Math.max(consecutiveFailures - 1, 0), 30);
+  return Math.min(FAILURE_POLICIES[failureClass].backoffMs * 2 ** doublings, MAX_BACKOFF_MS);
+}
+
+/**
+ * Whether a plan should be paused after this failure
+ * @param threshold - consecutive failures that pause a plan (0 disables auto-pause)
+ */
+export function shouldAutoPause(failureClass: FailureClass, consecutiveFailures: number, threshold: number): boolean {
+  return threshold > 0 && FAILURE_POLICIES[failureClass].pausable && consecutiveFailures >= threshold;
+}
+
+/**
+ * Human-readable pause reason stored on the plan
+ */
+export function describePauseReason(failureClass: FailureClass, consecutiveFailures: number, message: string): string {
+  return `Paused after ${consecutiveFailures} consecutive failures: ${FAILURE_POLICIES[failureClass].description} (${message})`;
+}
@@ -0,0 +1,55 @@
+/**
+ * Funding Assessment
+ *
+ * How many upcoming runs a plan's wallet can pay for, given the spent token's balance and
+ * (when the executor pulls tokens from the user) the user's allowance to the executor.
+ * Amounts are atomic token units.
+ */
+
+export type FundingShortfall = 'balance' | 'allowance';
+
+export interface FundingInput {
+  // What one run spends
+  perRun: bigint;
+  balance: bigint;
+  // null when no allowance is needed (the user executes their own swaps, native tokens)
+  allowance: bigint | null;
+  // Runs the plan still has
+  remainingRuns: number;
+  // How many upcoming runs should be covered before warning
+  lookaheadRuns: number;
+}
+
+export interface FundingAssessment {
+  // Upcoming runs the wallet covers, at most the plan's remaining runs
+  runsCovered: number;
+  // What runs out first, if the wallet covers fewer runs than the lookahead
+  shortfall: FundingShortfall | null;
+  // Whether the next run can be paid for
+  canRunNext: boolean;
+}
+
+/**
+ * Assess a plan's funding for its next runs
+ */
+export function assessFunding(input: FundingInput): FundingAssessment {
+  const remaining = BigInt(Math.max(input.remainingRuns, 0));
+  if (input.perRun <= 0n) {
+    return { runsCovered: Number(remaining), shortfall: null, canRunNext: true };
+  }
+
+  const byBalance = input.balance / input.perRun;
+  const byAllowance = input.allowance === null ? null : input.allowance / input.perRun;
+  let covered = byAllowance !== null && byAllowance < byBalance ? byAllowance : byBalance;
+  if (covered > remaining) {
+    covered = remaining;
+  }
+
+  const runsCovered = Number(covered);
+  const needed = Math.min(input.lookaheadRuns, input.remainingRuns);
+  const shortfall: FundingShortfall | null = runsCovered >= needed
+    ? null
+    : byAllowance !== null && byAllowance < byBalance ? 'allowance' : 'balance';
+
+  return { runsCovered, shortfall, canRunNext: runsCovered >= 1 || input.remainingRuns <= 0 };
+}
@@ -0,0 +1,31 @@
+/**
+ * Keyed Mutex
+ *
+ * Runs tasks that share a key one at a time, in the order they were queued; tasks with
+ * different keys run concurrently. Only serializes within this process.
+ */
+
+export class KeyedMutex {
+  // The promise the next task for each key waits on (resolved once every queued task is done)
+  private tails = new Map<string, Promise<void>>();
+
+  async run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    let release!: () => void;
+    const done = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    const tail = previous.then(() => done);
+    this.tails.set(key, tail);
+
+    try {
+      await previous;
+      return await task();
+    } finally {
+      release();
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    }
+  }
+}
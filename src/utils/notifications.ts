@@ -0,0 +1,93 @@
+/**
+ * Notification Batching
+ *
+ * Notifications are queued for a few seconds and sent in batches: duplicates (same
+ * notification id for a user) are dropped, several swaps of one user collapse into one
+ * summary, and texts are cut to the limits of Farcaster's notification API.
+ */
+
+export type NotificationKind = 'execution' | 'failure' | 'completion' | 'lowAllowance';
+
+export interface PendingNotification {
+  userAddress: string;
+  kind: NotificationKind;
+  // Farcaster clients drop a repeated (notificationId, token) pair for 24 hours
+  notificationId: string;
+  title: string;
+  body: string;
+  targetUrl: string;
+}
+
+export const MAX_TITLE_LENGTH = 32;
+export const MAX_BODY_LENGTH = 128;
+export const MAX_NOTIFICATION_ID_LENGTH = 128;
+export const MAX_TOKENS_PER_REQUEST = 100;
+
+/**
+ * Cut text to `max` characters, marking the cut with an ellipsis
+ */
+export function truncateText(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1)}…`;
+}
+
+/**
+ * Turn a batch of queued notifications into the ones to send, in queue order
+ */
+export function coalesceNotifications(pending: PendingNotification[]): PendingNotification[] {
+  const seen = new Set<string>();
+  const unique = pending.filter(notification => {
+    const key = `${notification.userAddress.toLowerCase()}:${notification.notificationId}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  const executionsByUser = new Map<string, PendingNotification[]>();
+  for (const notification of unique) {
+    if (notification.kind === 'execution') {
+      const user = notification.userAddress.toLowerCase();
+      executionsByUser.set(user, [...(executionsByUser.get(user) ?? []), notification]);
+    }
+  }
+
+  const result: PendingNotification[] = [];
+  for (const notification of unique) {
+    if (notification.kind !== 'execution') {
+      result.push(notification);
+      continue;
+    }
+
+    const executions = executionsByUser.get(notification.userAddress.toLowerCase())!;
+    if (executions.length === 1) {
+      result.push(notification);
+    } else if (executions[0] === notification) {
+      // The first swap of the batch stands in for all of them
+      result.push({
+        ...notification,
+        notificationId: `${notification.notificationId}+${executions.length - 1}`,
+        title: `${executions.length} DCA swaps executed`,
+        body: executions.map(execution => execution.body).join('; '),
+      });
+    }
+  }
+
+  return result.map(notification => ({
+    ...notification,
+    notificationId: notification.notificationId.slice(0, MAX_NOTIFICATION_ID_LENGTH),
+    title: truncateText(notification.title, MAX_TITLE_LENGTH),
+    body: truncateText(notification.body, MAX_BODY_LENGTH),
+  }));
+}
+
+/**
+ * Split a list into chunks of at most `size` items
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
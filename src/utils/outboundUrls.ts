@@ -0,0 +1,112 @@
+/**
+ * Outbound URL Checks
+ *
+ * Webhook and Farcaster notification URLs come from users, so the server must not be
+ * usable to reach its own network through them. Only https URLs are accepted, and every
+ * address the host resolves to has to be public: loopback, private, link-local, CGNAT,
+ * multicast and reserved ranges are refused. URLs are checked when they are registered and
+ * again before each request (DNS may have changed since), and requests never follow redirects.
+ */
+
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const resolveHost: HostResolver = async hostname =>
+  (await lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+
+/**
+ * Whether an IP address is publicly routable (IPv4-mapped IPv6 addresses are checked as IPv4)
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Checks that need no DNS: the URL must be https, carry no credentials, and not name a local host
+ * @returns an error message, or null if the URL passes
+ */
+export function outboundUrlError(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'URL is not valid';
+  }
+  if (parsed.protocol !== 'https:') {
+    return 'URL must use https';
+  }
+  if (parsed.username || parsed.password) {
+    return 'URL must not contain credentials';
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')) {
+    return 'URL must not point to a local host';
+  }
+  if (isIP(hostname) && !isPublicAddress(hostname)) {
+    return 'URL must not point to a private, loopback or link-local address';
+  }
+  return null;
+}
+
+/**
+ * Check a URL and every address its host resolves to
+ * @param resolve - returns the host's addresses (DNS by default)
+ * @returns an error message, or null if the URL may be requested
+ */
+export async function checkOutboundUrl(url: string, resolve: HostResolver = resolveHost): Promise<string | null> {
+  const error = outboundUrlError(url);
+  if (error) {
+    return error;
+  }
+
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname)) {
+    return null;
+  }
+  let addresses: string[];
+  try {
+    addresses = await resolve(hostname);
+  } catch {
+    return `Could not resolve ${hostname}`;
+  }
+  if (addresses.length === 0) {
+    return `Could not resolve ${hostname}`;
+  }
+  if (addresses.some(address => !isPublicAddress(address))) {
+    return `${hostname} resolves to a private, loopback or link-local address`;
+  }
+  return null;
+}
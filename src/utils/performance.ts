@@ -0,0 +1,136 @@
+/**
+ * Plan Performance
+ *
+ * Cost basis and profit/loss of the fills a plan has made for one token, valued at a
+ * current price, plus a lump-sum benchmark: the same total traded in a single swap at
+ * the price of the plan's first fill. Everything is denominated in the plan's fromToken.
+ *
+ * All arithmetic is 18-decimal fixed point, like the value-averaging sizing.
+ */
+
+import { formatUnits, parseUnits } from 'viem';
+import type { PerformanceTotals, PlanSide, PositionPerformance } from '../types/shared.js';
+
+const SCALE = 18;
+const ONE = 10n ** BigInt(SCALE);
+
+export interface PerformanceFill {
+  // BUY: fromToken spent; SELL: token sold
+  fromAmount: string;
+  // BUY: token bought; SELL: fromToken received
+  toAmount: string;
+  executedAt: Date;
+}
+
+const toFixed = (value: string) => parseUnits(value, SCALE);
+const format = (value: bigint) => formatUnits(value, SCALE);
+const mul = (a: bigint, b: bigint) => (a * b) / ONE;
+const div = (a: bigint, b: bigint) => (a * ONE) / b;
+const percent = (part: bigint, whole: bigint) =>
+  whole === 0n ? null : (Number((part * 10000n) / whole) / 100).toFixed(2);
+
+/**
+ * Compute a position's cost basis, PnL and lump-sum comparison
+ * @param currentPrice - price of one token in fromToken, or null when unknown
+ */
+export function computePositionPerformance(
+  token: string,
+  side: PlanSide,
+  fills: PerformanceFill[],
+  currentPrice: string | null
+): PositionPerformance {
+  // Fills with a zero leg carry no price information
+  const priced = fills
+    .map(fill => {
+      const from = toFixed(fill.fromAmount);
+      const to = toFixed(fill.toAmount);
+      return side === 'SELL'
+        ? { token: from, quote: to, executedAt: fill.executedAt }
+        : { token: to, quote: from, executedAt: fill.executedAt };
+    })
+    .filter(fill => fill.token > 0n && fill.quote > 0n)
+    .sort((a, b) => a.executedAt.getTime() - b.executedAt.getTime());
+
+  const tokenAmount = priced.reduce((sum, fill) => sum + fill.token, 0n);
+  const quoteAmount = priced.reduce((sum, fill) => sum + fill.quote, 0n);
+  const first = priced[0];
+  const last = priced[priced.length - 1];
+
+  const price = currentPrice !== null ? toFixed(currentPrice) : null;
+  const currentValue = price !== null ? mul(tokenAmount, price) : null;
+  const pnl = currentValue === null ? null : side === 'SELL' ? quoteAmount - currentValue : currentValue - quoteAmount;
+
+  let lumpSum: PositionPerformance['lumpSum'] = null;
+  if (first) {
+    const lumpPrice = div(first.quote, first.token);
+    let value: bigint | null = null;
+    let lumpPnl: bigint | null = null;
+    if (side === 'SELL') {
+      // Everything sold at the first price
+      value = mul(tokenAmount, lumpPrice);
+      lumpPnl = currentValue === null ? null : value - currentValue;
+    } else if (price !== null) {
+      // Everything spent at the first price, held until now
+      value = mul(div(quoteAmount, lumpPrice), price);
+      lumpPnl = value - quoteAmount;
+    }
+    lumpSum = {
+      price: format(lumpPrice),
+      value: value === null ? null : format(value),
+      pnl: lumpPnl === null ? null : format(lumpPnl),
+    };
+  }
+
+  const lumpSumPnl = lumpSum?.pnl != null ? toFixed(lumpSum.pnl) : null;
+
+  return {
+    token,
+    side,
+    executions: priced.length,
+    firstExecutionAt: first?.executedAt.toISOString() ?? null,
+    lastExecutionAt: last?.executedAt.toISOString() ?? null,
+    tokenAmount: format(tokenAmount),
+    quoteAmount: format(quoteAmount),
+    averagePrice: tokenAmount > 0n ? format(div(quoteAmount, tokenAmount)) : null,
+    currentPrice: price === null ? null : format(price),
+    currentValue: currentValue === null ? null : format(currentValue),
+    pnl: pnl === null ? null : format(pnl),
+    pnlPercent: pnl === null ? null : percent(pnl, side === 'SELL' ? currentValue! : quoteAmount),
+    lumpSum,
+    vsLumpSum: pnl === null || lumpSumPnl === null ? null : format(pnl - lumpSumPnl),
+  };
+}
+
+/**
+ * Add up positions that share a quote token; value fields are null if any position is unpriced
+ */
+export function sumPerformance(quoteToken: string, positions: PositionPerformance[]): PerformanceTotals {
+  const sum = (pick: (position: PositionPerformance) => string | null): bigint | null => {
+    let total = 0n;
+    for (const position of positions) {
+      const value = pick(position);
+      if (value === null) {
+        return null;
+      }
+      total += toFixed(value);
+    }
+    return total;
+  };
+
+  const quoteAmount = sum(position => position.quoteAmount) ?? 0n;
+  const currentValue = sum(position => position.currentValue);
+  const pnl = sum(position => position.pnl);
+  const lumpSumPnl = sum(position => (position.lumpSum ? position.lumpSum.pnl : '0'));
+  // SELL plans measure PnL against what the sold tokens are worth now
+  const base = positions.every(position => position.side === 'SELL') ? currentValue : quoteAmount;
+
+  return {
+    quoteToken,
+    quoteAmount: format(quoteAmount),
+    currentValue: currentValue === null ? null : format(currentValue),
+    pnl: pnl === null ? null : format(pnl),
+    pnlPercent: pnl === null || base === null ? null : percent(pnl, base),
+    lumpSumPnl: lumpSumPnl === null ? null : format(lumpSumPnl),
+    vsLumpSum: pnl === null || lumpSumPnl === null ? null : format(pnl - lumpSumPnl),
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * Permit Typed Data
+ *
+ * Instead of a standing `approve`, a user can sign a bounded allowance for a plan's budget:
+ * - PERMIT2: a Uniswap Permit2 `PermitSingle` granting the executor `amount` of the token
+ *   until `expiration`. The executor submits it once with `permit()` and pulls every run
+ *   with Permit2's `transferFrom`. The token must be approved to Permit2 (once per token).
+ * - EIP2612: the token's own `permit()`, setting the executor's ERC-20 allowance to `amount`.
+ *   It has to be submitted before `deadline`; the allowance it sets does not expire.
+ *
+ * These helpers build the EIP-712 payloads both sides sign and verify.
+ */
+
+import type { Address } from 'viem';
+
+// Canonical Permit2 deployment (same address on every chain)
+export const PERMIT2_ADDRESS: Address = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
+export const MAX_UINT160 = 2n ** 160n - 1n;
+export const MAX_UINT48 = 2n ** 48n - 1n;
+
+export const permit2Abi = [
+  {
+    type: 'function',
+    name: 'allowance',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'user', type: 'address' },
+      { name: 'token', type: 'address' },
+      { name: 'spender', type: 'address' },
+    ],
+    outputs: [
+      { name: 'amount', type: 'uint160' },
+      { name: 'expiration', type: 'uint48' },
+      { name: 'nonce', type: 'uint48' },
+    ],
+  },
+  {
+    type: 'function',
+    name: 'permit',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'owner', type: 'address' },
+      {
+        name: 'permitSingle',
+        type: 'tuple',
+        components: [
+          {
+            name: 'details',
+            type: 'tuple',
+            components: [
+              { name: 'token', type: 'address' },
+              { name: 'amount', type: 'uint160' },
+              { name: 'expiration', type: 'uint48' },
+              { name: 'nonce', type: 'uint48' },
+            ],
+          },
+          { name: 'spender', type: 'address' },
+          { name: 'sigDeadline', type: 'uint256' },
+        ],
+      },
+      { name: 'signature', type: 'bytes' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'transferFrom',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint160' },
+      { name: 'token', type: 'address' },
+    ],
+    outputs: [],
+  },
+] as const;
+
+export const eip2612Abi = [
+  {
+    type: 'function',
+    name: 'permit',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' },
+      { name: 'v', type: 'uint8' },
+      { name: 'r', type: 'bytes32' },
+      { name: 's', type: 'bytes32' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'nonces',
+    stateMutability: 'view',
+    inputs: [{ name: 'owner', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    type: 'function',
+    name: 'version',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'string' }],
+  },
+] as const;
+
+export interface Permit2Input {
+  chainId: number;
+  token: Address;
+  spender: Address;
+  amount: bigint;
+  // Unix seconds; also used as the signature deadline
+  expiration: bigint;
+  nonce: bigint;
+}
+
+export interface Eip2612Input {
+  chainId: number;
+  token: Address;
+  // The token's EIP-712 domain name and version
+  name: string;
+  version: string;
+  owner: Address;
+  spender: Address;
+  value: bigint;
+  nonce: bigint;
+  // Unix seconds
+  deadline: bigint;
+}
+
+/**
+ * The Permit2 `PermitSingle` a user signs to let `spender` pull up to `amount` until `expiration`
+ */
+export function buildPermit2TypedData(input: Permit2Input) {
+  if (input.amount <= 0n || input.amount > MAX_UINT160) {
+    throw new Error('Permit2 amount must fit in uint160');
+  }
+  if (input.expiration > MAX_UINT48 || input.nonce > MAX_UINT48) {
+    throw new Error('Permit2 expiration and nonce must fit in uint48');
+  }
+
+  return {
+    domain: { name: 'Permit2', chainId: input.chainId, verifyingContract: PERMIT2_ADDRESS },
+    types: {
+      PermitSingle: [
+        { name: 'details', type: 'PermitDetails' },
+        { name: 'spender', type: 'address' },
+        { name: 'sigDeadline', type: 'uint256' },
+      ],
+      PermitDetails: [
+        { name: 'token', type: 'address' },
+        { name: 'amount', type: 'uint160' },
+        { name: 'expiration', type: 'uint48' },
+        { name: 'nonce', type: 'uint48' },
+      ],
+    },
+    primaryType: 'PermitSingle',
+    message: {
+      details: { token: input.token, amount: input.amount, expiration: Number(input.expiration), nonce: Number(input.nonce) },
+      spender: input.spender,
+      sigDeadline: input.expiration,
+    },
+  } as const;
+}
+
+/**
+ * The EIP-2612 `Permit` a user signs to set `spender`'s allowance to `value`
+ */
+export function buildEip2612TypedData(input: Eip2612Input) {
+  if (input.value <= 0n) {
+    throw new Error('Permit value must be positive');
+  }
+
+  return {
+    domain: { name: input.name, version: input.version, chainId: input.chainId, verifyingContract: input.token },
+    types: {
+      Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+      ],
+    },
+    primaryType: 'Permit',
+    message: {
+      owner: input.owner,
+      spender: input.spender,
+      value: input.value,
+      nonce: input.nonce,
+      deadline: input.deadline,
+    },
+  } as const;
+}
+
+/**
+ * Typed data with bigints as decimal strings, for JSON responses (wallets accept both)
+ */
+export function serializeTypedData(typedData: object): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(typedData, (_key, value) => typeof value === 'bigint' ? value.toString() : value));
+}
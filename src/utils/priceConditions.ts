@@ -0,0 +1,103 @@
+/**
+ * Price Conditions
+ *
+ * Optional per-plan rules evaluated before each run, all in fromToken per toToken:
+ * - minPrice / maxPrice: skip the run when the price is outside the band
+ * - dip tiers: multiply the run amount when the price is at least `drawdownPercent`
+ *   below its moving average (the deepest matching tier wins)
+ *
+ * The moving average is the mean of daily average prices, and only exists once enough days
+ * of its window have a price sample; until then dip tiers don't apply.
+ */
+
+import { formatUnits, parseUnits } from 'viem';
+import type { DipTier, MovingAverageStatus } from '../types/shared.js';
+
+const SCALE = 18;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PriceConditions {
+  minPrice?: string | null;
+  maxPrice?: string | null;
+  dipTiers?: DipTier[] | null;
+}
+
+export type PriceConditionResult =
+  | { action: 'SKIP'; reason: string }
+  | { action: 'RUN'; multiplier: number; drawdownPercent: number | null };
+
+/**
+ * Whether a plan has any condition that needs a current price
+ */
+export function hasPriceConditions(conditions: PriceConditions): boolean {
+  return Boolean(conditions.minPrice || conditions.maxPrice || conditions.dipTiers?.length);
+}
+
+/**
+ * Evaluate a plan's price conditions against the current price and moving average
+ * @param movingAverage - null when there isn't enough price history (tiers don't apply)
+ */
+export function evaluatePriceConditions(
+  conditions: PriceConditions,
+  price: number,
+  movingAverage: number | null
+): PriceConditionResult {
+  if (conditions.maxPrice && price > parseFloat(conditions.maxPrice)) {
+    return { action: 'SKIP', reason: `Price ${price} is above the plan's max price ${conditions.maxPrice}` };
+  }
+  if (conditions.minPrice && price < parseFloat(conditions.minPrice)) {
+    return { action: 'SKIP', reason: `Price ${price} is below the plan's min price ${conditions.minPrice}` };
+  }
+
+  if (!conditions.dipTiers?.length || movingAverage === null || movingAverage <= 0) {
+    return { action: 'RUN', multiplier: 1, drawdownPercent: null };
+  }
+
+  const drawdownPercent = ((movingAverage - price) / movingAverage) * 100;
+  const tier = [...conditions.dipTiers]
+    .sort((a, b) => b.drawdownPercent - a.drawdownPercent)
+    .find(t => drawdownPercent >= t.drawdownPercent);
+
+  return { action: 'RUN', multiplier: tier?.multiplier ?? 1, drawdownPercent };
+}
+
+/**
+ * Scale a token amount by a multiplier, rounded down to the token's decimals
+ */
+export function applyMultiplier(amount: string, multiplier: number, decimals: number = SCALE): string {
+  const places = Math.min(decimals, SCALE);
+  const scaled = (parseUnits(amount, SCALE) * parseUnits(multiplier.toString(), 6)) / 10n ** 6n;
+  return formatUnits(scaled / 10n ** BigInt(SCALE - places), places);
+}
+
+/**
+ * Moving average over the `days` before `now` from observed prices
+ * @param minCoverage - share of the window's days that need a sample for the average to be used
+ */
+export function computeMovingAverage(
+  samples: { price: number; observedAt: Date }[],
+  days: number,
+  now: Date,
+  minCoverage: number
+): MovingAverageStatus {
+  const dailyPrices = new Map<number, number[]>();
+  let sampleCount = 0;
+  for (const sample of samples) {
+    const day = Math.floor((now.getTime() - sample.observedAt.getTime()) / DAY_MS);
+    if (day < 0 || day >= days || !(sample.price > 0)) continue;
+    dailyPrices.set(day, [...(dailyPrices.get(day) ?? []), sample.price]);
+    sampleCount++;
+  }
+
+  const dailyAverages = [...dailyPrices.values()].map(prices => prices.reduce((sum, price) => sum + price, 0) / prices.length);
+  const requiredDays = Math.max(1, Math.ceil(days * minCoverage));
+  const available = dailyAverages.length >= requiredDays;
+
+  return {
+    value: available ? (dailyAverages.reduce((sum, price) => sum + price, 0) / dailyAverages.length).toString() : null,
+    days,
+    coveredDays: dailyAverages.length,
+    requiredDays,
+    samples: sampleCount,
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Plan Quotas
+ *
+ * Per-user caps on how many plans may be ACTIVE at once and on the committed notional:
+ * what the user's active plans will still trade, i.e. amount per run times remaining runs,
+ * per token (fromToken for BUY plans, toToken for SELL plans, since that's what they spend).
+ * A change is only refused when it pushes a figure over its cap and makes it larger - a
+ * user who is already over a lowered cap can still shrink their plans. Plans AWAITING_FUNDS
+ * resume by themselves once funded, so they count as active.
+ */
+
+import { formatUnits, parseUnits } from 'viem';
+
+const SCALE = 18;
+
+const isActive = (plan: QuotaPlan) => plan.status === 'ACTIVE' || plan.status === 'AWAITING_FUNDS';
+
+export interface QuotaPlan {
+  status: string;
+  side: 'BUY' | 'SELL';
+  fromToken: string;
+  toToken: string;
+  // Per-run amount, in the token the plan spends
+  amount: string;
+  remainingExecutions: number;
+}
+
+export interface QuotaLimits {
+  // null: no limit
+  maxActivePlans: number | null;
+  // Cap per spent token symbol; tokens without an entry are uncapped
+  maxCommittedNotional: Record<string, string>;
+}
+
+/**
+ * Parse a "USDC=50000,WETH=20" cap list
+ */
+export function parseNotionalCaps(value: string | undefined): Record<string, string> {
+  const caps: Record<string, string> = {};
+  for (const entry of (value || '').split(',')) {
+    const [token, cap] = entry.split('=').map(part => part.trim());
+    if (token && cap && /^\d+(\.\d+)?$/.test(cap)) {
+      caps[token.toUpperCase()] = cap;
+    }
+  }
+  return caps;
+}
+
+/**
+ * What active plans will still spend, per token
+ */
+export function committedNotional(plans: QuotaPlan[]): Record<string, string> {
+  const totals = new Map<string, bigint>();
+  for (const plan of plans) {
+    if (!isActive(plan) || plan.remainingExecutions <= 0) {
+      continue;
+    }
+    const token = (plan.side === 'SELL' ? plan.toToken : plan.fromToken).toUpperCase();
+    const committed = parseUnits(plan.amount, SCALE) * BigInt(plan.remainingExecutions);
+    totals.set(token, (totals.get(token) ?? 0n) + committed);
+  }
+  return Object.fromEntries([...totals].map(([token, total]) => [token, formatUnits(total, SCALE)]));
+}
+
+/**
+ * Check a change to a user's plans against their quota
+ * @param before - the user's plans before the change
+ * @param after - the user's plans after the change
+ * @returns why the change is refused, or null if it is allowed
+ */
+export function checkPlanQuota(before: QuotaPlan[], after: QuotaPlan[], limits: QuotaLimits): string | null {
+  const activeBefore = before.filter(isActive).length;
+  const activeAfter = after.filter(isActive).length;
+  if (limits.maxActivePlans !== null && activeAfter > limits.maxActivePlans && activeAfter > activeBefore) {
+    return `Active plan limit reached: at most ${limits.maxActivePlans} plans can be active at once`;
+  }
+
+  const committedBefore = committedNotional(before);
+  const committedAfter = committedNotional(after);
+  for (const [token, cap] of Object.entries(limits.maxCommittedNotional)) {
+    const next = parseUnits(committedAfter[token] ?? '0', SCALE);
+    const previous = parseUnits(committedBefore[token] ?? '0', SCALE);
+    if (next > parseUnits(cap, SCALE) && next > previous) {
+      return `Committed ${token} across active plans would be ${formatUnits(next, SCALE)}, above the ${cap} ${token} cap`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,152 @@
+/**
+ * Rebalancing
+ *
+ * Given the wallet's holdings of a plan's target tokens (each valued in the plan's
+ * fromToken) and their target weights, works out the swaps that bring the portfolio back
+ * to target: over-weight tokens are sold straight into under-weight ones, largest
+ * imbalances first. Nothing trades until some token drifts more than the threshold
+ * (in percentage points) from its target weight.
+ *
+ * All arithmetic is 18-decimal fixed point, like the value-averaging sizing.
+ */
+
+import { formatUnits, parseUnits } from 'viem';
+
+const SCALE = 18;
+const WEIGHT_DECIMALS = 6;
+
+export interface RebalanceHolding {
+  token: string;
+  // Balance held, in token units
+  amount: string;
+  // Value of the balance, in the plan's fromToken
+  value: string;
+  decimals?: number;
+}
+
+export interface RebalanceTarget {
+  token: string;
+  // Target share of the portfolio, in percent
+  weight: number;
+}
+
+export interface RebalanceOptions {
+  // Largest allowed drift from a target weight, in percentage points
+  driftThreshold: number;
+  // Cap on the total value swapped in one run, in fromToken
+  maxTradeValue?: string | null;
+}
+
+export interface RebalanceTrade {
+  fromToken: string;
+  toToken: string;
+  // Amount of fromToken to sell, in token units
+  amount: string;
+  // Value of the trade, in the plan's fromToken
+  value: string;
+}
+
+export interface TokenDrift {
+  token: string;
+  currentWeight: number;
+  targetWeight: number;
+  drift: number;
+}
+
+export interface RebalanceResult {
+  totalValue: string;
+  drifts: TokenDrift[];
+  // Largest absolute drift, in percentage points
+  maxDrift: number;
+  trades: RebalanceTrade[];
+}
+
+/**
+ * Compute the trades that move a portfolio back to its target weights
+ */
+export function computeRebalanceTrades(
+  holdings: RebalanceHolding[],
+  targets: RebalanceTarget[],
+  options: RebalanceOptions
+): RebalanceResult {
+  const holdingOf = (token: string) => holdings.find(h => h.token.toUpperCase() === token.toUpperCase());
+  const valueOf = (token: string) => {
+    const holding = holdingOf(token);
+    return holding ? parseUnits(holding.value, SCALE) : 0n;
+  };
+
+  const totalValue = targets.reduce((sum, target) => sum + valueOf(target.token), 0n);
+  if (totalValue === 0n) {
+    return { totalValue: '0', drifts: [], maxDrift: 0, trades: [] };
+  }
+
+  const weightUnit = 10n ** BigInt(WEIGHT_DECIMALS);
+  const positions = targets.map(target => {
+    const value = valueOf(target.token);
+    const targetValue = (totalValue * parseUnits(target.weight.toString(), WEIGHT_DECIMALS)) / (100n * weightUnit);
+    const currentWeight = Number((value * 100n * weightUnit) / totalValue) / Number(weightUnit);
+    return {
+      token: target.token,
+      value,
+      // Positive when over-weight, negative when under-weight
+      excess: value - targetValue,
+      drift: { token: target.token, currentWeight, targetWeight: target.weight, drift: currentWeight - target.weight },
+    };
+  });
+
+  const drifts = positions.map(position => position.drift);
+  const maxDrift = Math.max(...drifts.map(d => Math.abs(d.drift)));
+  const result = { totalValue: formatUnits(totalValue, SCALE), drifts, maxDrift };
+
+  if (maxDrift <= options.driftThreshold) {
+    return { ...result, trades: [] };
+  }
+
+  // Pair the largest surpluses with the largest shortfalls
+  const sellers = positions.filter(p => p.excess > 0n)
+    .map(p => ({ ...p, remaining: p.excess }))
+    .sort((a, b) => (b.excess > a.excess ? 1 : b.excess < a.excess ? -1 : 0));
+  const buyers = positions.filter(p => p.excess < 0n)
+    .map(p => ({ ...p, remaining: -p.excess }))
+    .sort((a, b) => (b.remaining > a.remaining ? 1 : b.remaining < a.remaining ? -1 : 0));
+
+  const pairs: { from: string; to: string; value: bigint }[] = [];
+  let s = 0;
+  let b = 0;
+  while (s < sellers.length && b < buyers.length) {
+    const seller = sellers[s]!;
+    const buyer = buyers[b]!;
+    const value = seller.remaining < buyer.remaining ? seller.remaining : buyer.remaining;
+    pairs.push({ from: seller.token, to: buyer.token, value });
+    seller.remaining -= value;
+    buyer.remaining -= value;
+    if (seller.remaining === 0n) s++;
+    if (buyer.remaining === 0n) b++;
+  }
+
+  // Scale every trade down evenly when the run would move more than the cap
+  const totalTraded = pairs.reduce((sum, pair) => sum + pair.value, 0n);
+  const cap = options.maxTradeValue ? parseUnits(options.maxTradeValue, SCALE) : null;
+  const scale = (value: bigint) => (cap !== null && totalTraded > cap ? (value * cap) / totalTraded : value);
+
+  const trades: RebalanceTrade[] = [];
+  for (const pair of pairs) {
+    const holding = holdingOf(pair.from)!;
+    const value = scale(pair.value);
+    const decimals = Math.min(holding.decimals ?? SCALE, SCALE);
+    // Convert the value back into token units at the holding's own valuation
+    const amount = (parseUnits(holding.amount, SCALE) * value) / parseUnits(holding.value, SCALE);
+    const truncated = amount / 10n ** BigInt(SCALE - decimals);
+    if (truncated === 0n) {
+      continue;
+    }
+    trades.push({
+      fromToken: pair.from,
+      toToken: pair.to,
+      amount: formatUnits(truncated, decimals),
+      value: formatUnits(value, SCALE),
+    });
+  }
+
+  return { ...result, trades };
+}
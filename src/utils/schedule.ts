@@ -0,0 +1,575 @@
+/**
+ * Plan Schedule Utilities
+ *
+ * Computes execution times for the three DCA schedule types:
+ * - INTERVAL: every N minutes, anchored on the previous scheduled slot (not on "now")
+ * - CRON: standard 5-field cron expression evaluated in the plan's timezone
+ * - CALENDAR: weekday / day-of-month rule at a fixed time, compiled down to cron
+ *
+ * All "next" calculations are anchored on the scheduled slot rather than on the
+ * moment an execution finished, so schedules do not drift after every run.
+ */
+
+import type { DcaPlan } from '@prisma/client';
+import type { CalendarRule, ScheduleType } from '../types/shared.js';
+
+export interface PlanSchedule {
+  scheduleType: ScheduleType;
+  intervalMinutes?: number | null;
+  cronExpression?: string | null;
+  calendarRule?: CalendarRule | null;
+  timezone?: string | null;
+}
+
+interface ParsedCron {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Upper bound on search steps - enough to scan several years of day/hour/minute jumps
+const MAX_SEARCH_STEPS = 100_000;
+
+// Cron and calendar plans may not run more often than INTERVAL plans (intervalMinutes >= 2)
+export const MIN_CRON_INTERVAL_MINUTES = 2;
+
+// Most runs a plan window may hold (cron windows are counted slot by slot)
+export const MAX_WINDOW_EXECUTIONS = 10_000;
+const WINDOW_TOO_LONG = `The schedule runs more than ${MAX_WINDOW_EXECUTIONS} times in the plan window; shorten the window or run less often`;
+
+// Building a DateTimeFormat is expensive and slot counting converts every slot
+const timezoneFormatters = new Map<string, Intl.DateTimeFormat>();
+// Offsets per timezone and quarter hour (UTC offsets only ever change on quarter hours)
+const QUARTER_HOUR_MS = 15 * MINUTE_MS;
+const MAX_CACHED_OFFSETS = 50_000;
+const timezoneOffsets = new Map<string, number>();
+
+const CRON_MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+/**
+ * Parse a single cron field (supports *, lists, ranges, steps and month/day names)
+ */
+function parseCronField(
+  field: string,
+  min: number,
+  max: number,
+  names: string[] = [],
+  nameOffset: number = 0
+): Set<number> {
+  const values = new Set<number>();
+
+  const toNumber = (token: string): number => {
+    const nameIndex = names.indexOf(token.toUpperCase());
+    const value = nameIndex >= 0 ? nameIndex + nameOffset : Number(token);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`Invalid cron value "${token}" (expected ${min}-${max})`);
+    }
+    return value;
+  };
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart !== undefined ? Number(stepPart) : 1;
+    if (!rangePart || !Number.isInteger(step) || step <= 0) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = toNumber(from ?? '');
+      end = toNumber(to ?? '');
+    } else {
+      start = toNumber(rangePart);
+      end = stepPart !== undefined ? max : start;
+    }
+
+    if (start > end) {
+      throw new Error(`Invalid cron range "${rangePart}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression: minute hour day-of-month month day-of-week
+ */
+export function parseCronExpression(expression: string): ParsedCron {
+  const normalized = CRON_MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields (minute hour day month weekday): "${expression}"`);
+  }
+
+  const [minuteField, hourField, domField, monthField, dowField] = fields as [string, string, string, string, string];
+
+  // Day-of-week accepts 0-7 where both 0 and 7 mean Sunday
+  const daysOfWeek = parseCronField(dowField, 0, 7, DAY_NAMES);
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseCronField(minuteField, 0, 59),
+    hours: parseCronField(hourField, 0, 23),
+    daysOfMonth: parseCronField(domField, 1, 31),
+    months: parseCronField(monthField, 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+    // As in Vixie cron, a field starting with `*` (including steps like `*/2`) is unrestricted
+    domRestricted: !domField.startsWith('*'),
+    dowRestricted: !dowField.startsWith('*'),
+  };
+}
+
+/**
+ * Shortest possible gap between two runs of a parsed cron, in minutes (a lower bound:
+ * the gap across an hour boundary is counted whenever two consecutive hours match)
+ */
+function minCronGapMinutes(cron: ParsedCron): number {
+  const minutes = [...cron.minutes].sort((a, b) => a - b);
+  let gap = Infinity;
+  for (let i = 1; i < minutes.length; i++) {
+    gap = Math.min(gap, minutes[i]! - minutes[i - 1]!);
+  }
+  if ([...cron.hours].some(hour => cron.hours.has((hour + 1) % 24))) {
+    gap = Math.min(gap, 60 - minutes[minutes.length - 1]! + minutes[0]!);
+  }
+  return gap;
+}
+
+/**
+ * Check a cron expression for plans: it must parse, not run more often than
+ * MIN_CRON_INTERVAL_MINUTES and have an upcoming occurrence (e.g. not "0 0 30 2 *")
+ * @returns why the expression is refused, or null if it is valid
+ */
+export function cronExpressionError(expression: string): string | null {
+  let cron: ParsedCron;
+  try {
+    cron = parseCronExpression(expression);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  if (minCronGapMinutes(cron) < MIN_CRON_INTERVAL_MINUTES) {
+    return `Cron expression "${expression}" runs more often than every ${MIN_CRON_INTERVAL_MINUTES} minutes`;
+  }
+  try {
+    getNextCronOccurrence(expression, new Date());
+  } catch {
+    return `Cron expression "${expression}" never runs`;
+  }
+  return null;
+}
+
+/**
+ * Validate a cron expression without throwing
+ */
+export function isValidCronExpression(expression: string): boolean {
+  return cronExpressionError(expression) === null;
+}
+
+/**
+ * Check whether an IANA timezone name is supported by the runtime
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Compile a calendar rule (weekdays and/or days of month at HH:MM) to a cron expression.
+ * When both weekdays and days of month are given, a day matching either one qualifies.
+ */
+export function calendarRuleToCron(rule: CalendarRule): string {
+  const [hour, minute] = rule.time.split(':').map(Number);
+  const daysOfMonth = rule.daysOfMonth && rule.daysOfMonth.length > 0 ? rule.daysOfMonth.join(',') : '*';
+  const daysOfWeek = rule.daysOfWeek && rule.daysOfWeek.length > 0 ? rule.daysOfWeek.join(',') : '*';
+  return `${minute} ${hour} ${daysOfMonth} * ${daysOfWeek}`;
+}
+
+/**
+ * Offset (wall clock minus UTC) of a timezone at a given instant, in milliseconds
+ */
+function getTimezoneOffsetMs(timezone: string, instant: number): number {
+  const cacheKey = `${timezone}@${Math.floor(instant / QUARTER_HOUR_MS)}`;
+  const cached = timezoneOffsets.get(cacheKey);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let formatter = timezoneFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    timezoneFormatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  const wallClock = Date.UTC(
+    parts.year ?? 1970,
+    (parts.month ?? 1) - 1,
+    parts.day ?? 1,
+    parts.hour ?? 0,
+    parts.minute ?? 0,
+    parts.second ?? 0
+  );
+
+  const offset = wallClock - Math.floor(instant / 1000) * 1000;
+  if (timezoneOffsets.size >= MAX_CACHED_OFFSETS) {
+    timezoneOffsets.clear();
+  }
+  timezoneOffsets.set(cacheKey, offset);
+  return offset;
+}
+
+/**
+ * Convert a wall-clock time (encoded as UTC fields) in a timezone to the real instant.
+ * A repeated time (DST fall-back) maps to its first occurrence; a time skipped by a DST
+ * gap moves forward by the gap, like most cron implementations (02:30 runs at 03:30).
+ */
+function wallClockToInstant(wallClock: number, timezone: string): number {
+  const guess = wallClock - getTimezoneOffsetMs(timezone, wallClock);
+  const instant = wallClock - getTimezoneOffsetMs(timezone, guess);
+  if (instant + getTimezoneOffsetMs(timezone, instant) === wallClock) {
+    return instant;
+  }
+  // In a gap `instant` lands before it, still at the offset in force before the change
+  return wallClock - getTimezoneOffsetMs(timezone, instant);
+}
+
+/**
+ * Find the first instant strictly after `after` that matches the cron expression
+ */
+export function getNextCronOccurrence(expression: string, after: Date, timezone: string = 'UTC'): Date {
+  const cron = parseCronExpression(expression);
+  const afterMs = after.getTime();
+
+  // Work on wall-clock time in the plan's timezone, starting at the next whole minute
+  const startWall = afterMs + getTimezoneOffsetMs(timezone, afterMs);
+  let cursor = new Date(Math.floor(startWall / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    const year = cursor.getUTCFullYear();
+    const month = cursor.getUTCMonth();
+    const day = cursor.getUTCDate();
+    const hour = cursor.getUTCHours();
+
+    if (!cron.months.has(month + 1)) {
+      cursor = new Date(Date.UTC(year, month + 1, 1));
+      continue;
+    }
+
+    const domMatch = cron.daysOfMonth.has(day);
+    const dowMatch = cron.daysOfWeek.has(cursor.getUTCDay());
+    const dayMatches = cron.domRestricted && cron.dowRestricted
+      ? domMatch || dowMatch
+      : domMatch && dowMatch;
+
+    if (!dayMatches) {
+      cursor = new Date(Date.UTC(year, month, day + 1));
+      continue;
+    }
+
+    if (!cron.hours.has(hour)) {
+      cursor = new Date(Date.UTC(year, month, day, hour + 1));
+      continue;
+    }
+
+    if (!cron.minutes.has(cursor.getUTCMinutes())) {
+      // Jump straight to the next matching minute of this hour, or to the next hour
+      const minute = cursor.getUTCMinutes();
+      const nextMinute = [...cron.minutes].filter(candidate => candidate > minute).sort((a, b) => a - b)[0];
+      cursor = new Date(Date.UTC(year, month, day, nextMinute === undefined ? hour + 1 : hour, nextMinute ?? 0));
+      continue;
+    }
+
+    const instant = wallClockToInstant(cursor.getTime(), timezone);
+    // Repeated wall-clock hours (DST fall-back) can map to an instant we already passed
+    if (instant > afterMs) {
+      return new Date(instant);
+    }
+    cursor = new Date(cursor.getTime() + MINUTE_MS);
+  }
+
+  throw new Error(`Cron expression "${expression}" has no upcoming occurrence`);
+}
+
+/**
+ * Resolve the effective cron expression for CRON and CALENDAR schedules
+ */
+export function resolveCronExpression(schedule: PlanSchedule): string | null {
+  if (schedule.scheduleType === 'CRON') {
+    return schedule.cronExpression ?? null;
+  }
+  if (schedule.scheduleType === 'CALENDAR' && schedule.calendarRule) {
+    return calendarRuleToCron(schedule.calendarRule);
+  }
+  return null;
+}
+
+/**
+ * First scheduled slot strictly after `after`
+ */
+export function getNextExecution(schedule: PlanSchedule, after: Date): Date {
+  if (schedule.scheduleType === 'INTERVAL') {
+    if (!schedule.intervalMinutes) {
+      throw new Error('Interval schedule requires intervalMinutes');
+    }
+    return new Date(after.getTime() + schedule.intervalMinutes * MINUTE_MS);
+  }
+
+  const expression = resolveCronExpression(schedule);
+  if (!expression) {
+    throw new Error(`${schedule.scheduleType} schedule is missing its rule`);
+  }
+  return getNextCronOccurrence(expression, after, schedule.timezone || 'UTC');
+}
+
+/**
+ * Next slot after a run of the slot `scheduledAt`, without drift.
+ * Interval plans stay on the grid anchored at `scheduledAt` (slots that already passed
+ * are skipped); cron/calendar plans simply take the next matching time after now.
+ */
+export function getNextExecutionAfterRun(schedule: PlanSchedule, scheduledAt: Date, now: Date = new Date()): Date {
+  if (schedule.scheduleType === 'INTERVAL') {
+    if (!schedule.intervalMinutes) {
+      throw new Error('Interval schedule requires intervalMinutes');
+    }
+    const intervalMs = schedule.intervalMinutes * MINUTE_MS;
+    const elapsedSlots = Math.floor((now.getTime() - scheduledAt.getTime()) / intervalMs) + 1;
+    return new Date(scheduledAt.getTime() + Math.max(elapsedSlots, 1) * intervalMs);
+  }
+
+  const reference = scheduledAt.getTime() > now.getTime() ? scheduledAt : now;
+  return getNextExecution(schedule, reference);
+}
+
+/**
+ * First scheduled slot at or after `startAt` (an interval plan starts exactly at `startAt`)
+ */
+export function getFirstExecution(schedule: PlanSchedule, startAt: Date): Date {
+  if (schedule.scheduleType === 'INTERVAL') {
+    return new Date(startAt.getTime());
+  }
+  return getNextExecution(schedule, new Date(startAt.getTime() - 1));
+}
+
+/**
+ * Number of slots that have already come and gone after the slot `scheduledAt`,
+ * i.e. how many further runs were missed while the plan was waiting to execute
+ */
+export function countMissedSlots(schedule: PlanSchedule, scheduledAt: Date, now: Date = new Date()): number {
+  // Only reported, so a very long outage is counted up to the cap
+  return countSlots(schedule, scheduledAt, now, MAX_WINDOW_EXECUTIONS);
+}
+
+/**
+ * Count scheduled slots in (start, end], stopping once `limit` is reached
+ */
+function countSlots(schedule: PlanSchedule, start: Date, end: Date, limit: number): number {
+  if (schedule.scheduleType === 'INTERVAL') {
+    if (!schedule.intervalMinutes) {
+      throw new Error('Interval schedule requires intervalMinutes');
+    }
+    return Math.floor((end.getTime() - start.getTime()) / (schedule.intervalMinutes * MINUTE_MS));
+  }
+
+  let count = 0;
+  let cursor = start;
+  while (count < limit) {
+    cursor = getNextExecution(schedule, cursor);
+    if (cursor.getTime() > end.getTime()) break;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Why a cron or calendar plan window can't be scheduled, or null if it can
+ * (windows holding more than MAX_WINDOW_EXECUTIONS runs are refused, not truncated)
+ */
+export function scheduleWindowError(schedule: PlanSchedule, start: Date, end: Date): string | null {
+  if (schedule.scheduleType === 'INTERVAL' || start > end) {
+    return null;
+  }
+  return countSlots(schedule, start, end, MAX_WINDOW_EXECUTIONS) >= MAX_WINDOW_EXECUTIONS ? WINDOW_TOO_LONG : null;
+}
+
+/**
+ * Count scheduled slots in the half-open window (start, end]
+ * @throws for cron and calendar windows holding more than MAX_WINDOW_EXECUTIONS runs
+ */
+export function countExecutionsBetween(schedule: PlanSchedule, start: Date, end: Date): number {
+  const count = countSlots(schedule, start, end, MAX_WINDOW_EXECUTIONS);
+  if (schedule.scheduleType !== 'INTERVAL' && count >= MAX_WINDOW_EXECUTIONS) {
+    throw new Error(WINDOW_TOO_LONG);
+  }
+  return count;
+}
+
+/**
+ * The slot `slots` steps after `start` (0 returns `start` itself)
+ */
+export function getExecutionAfterSlots(schedule: PlanSchedule, start: Date, slots: number): Date {
+  if (schedule.scheduleType === 'INTERVAL') {
+    if (!schedule.intervalMinutes) {
+      throw new Error('Interval schedule requires intervalMinutes');
+    }
+    return new Date(start.getTime() + slots * schedule.intervalMinutes * MINUTE_MS);
+  }
+
+  let cursor = start;
+  for (let i = 0; i < slots; i++) {
+    cursor = getNextExecution(schedule, cursor);
+  }
+  return cursor;
+}
+
+export interface PlanWindowState {
+  schedule: PlanSchedule;
+  nextExecution: Date | null;
+  endAt: Date | null;
+  executionCount: number;
+  totalExecutions: number;
+}
+
+export interface PlanWindowEdit {
+  // New interval (INTERVAL schedules only)
+  intervalMinutes?: number;
+  endAt?: Date;
+  remainingExecutions?: number;
+}
+
+export interface PlanWindow {
+  schedule: PlanSchedule;
+  nextExecution: Date;
+  endAt: Date;
+  totalExecutions: number;
+  remainingExecutions: number;
+}
+
+/**
+ * Recompute a plan's next slot, end date and execution total after an edit.
+ * A new interval is measured from the last scheduled slot (a slot that would already be
+ * in the past moves one new interval from now). The remaining count and the end date
+ * define each other; whichever the edit doesn't set is derived from the other.
+ */
+export function recomputePlanWindow(current: PlanWindowState, edit: PlanWindowEdit, now: Date = new Date()): PlanWindow {
+  let schedule = current.schedule;
+  let nextExecution = current.nextExecution ?? getNextExecution(schedule, now);
+
+  if (edit.intervalMinutes !== undefined && edit.intervalMinutes !== schedule.intervalMinutes) {
+    if (schedule.scheduleType !== 'INTERVAL' || !schedule.intervalMinutes) {
+      throw new Error('intervalMinutes can only be changed on INTERVAL plans');
+    }
+    const previousSlot = nextExecution.getTime() - schedule.intervalMinutes * MINUTE_MS;
+    schedule = { ...schedule, intervalMinutes: edit.intervalMinutes };
+    const candidate = new Date(previousSlot + edit.intervalMinutes * MINUTE_MS);
+    nextExecution = candidate > now ? candidate : getNextExecution(schedule, now);
+  }
+
+  // Keep the remaining count when neither side of the window is edited and there's no end date
+  const remainingExecutions = edit.remainingExecutions ??
+    (edit.endAt === undefined && !current.endAt ? Math.max(current.totalExecutions - current.executionCount, 0) : undefined);
+
+  if (remainingExecutions !== undefined) {
+    return {
+      schedule,
+      nextExecution,
+      endAt: getExecutionAfterSlots(schedule, nextExecution, Math.max(remainingExecutions - 1, 0)),
+      totalExecutions: current.executionCount + remainingExecutions,
+      remainingExecutions,
+    };
+  }
+
+  const endAt = edit.endAt ?? current.endAt!;
+  const remaining = nextExecution <= endAt ? 1 + countExecutionsBetween(schedule, nextExecution, endAt) : 0;
+  return {
+    schedule,
+    nextExecution,
+    endAt,
+    totalExecutions: current.executionCount + remaining,
+    remainingExecutions: remaining,
+  };
+}
+
+/**
+ * Human-readable schedule summary for tool messages and logs
+ */
+export function describeSchedule(schedule: PlanSchedule): string {
+  const timezone = schedule.timezone || 'UTC';
+  switch (schedule.scheduleType) {
+    case 'CRON':
+      return `on cron "${schedule.cronExpression}" (${timezone})`;
+    case 'CALENDAR': {
+      const rule = schedule.calendarRule;
+      if (!rule) return `on a calendar rule (${timezone})`;
+      const days: string[] = [];
+      if (rule.daysOfWeek?.length) days.push(rule.daysOfWeek.map(d => DAY_NAMES[d % 7]).join('/'));
+      if (rule.daysOfMonth?.length) days.push(`day ${rule.daysOfMonth.join(', ')} of the month`);
+      return `every ${days.length > 0 ? days.join(' or ') : 'day'} at ${rule.time} (${timezone})`;
+    }
+    default:
+      return `every ${schedule.intervalMinutes} minutes`;
+  }
+}
+
+/**
+ * Extract the schedule fields from a stored DcaPlan row
+ */
+export function planScheduleFromRecord(
+  plan: Pick<DcaPlan, 'scheduleType' | 'intervalMinutes' | 'cronExpression' | 'calendarRule' | 'timezone'>
+): PlanSchedule {
+  return {
+    scheduleType: plan.scheduleType,
+    intervalMinutes: plan.intervalMinutes,
+    cronExpression: plan.cronExpression,
+    calendarRule: (plan.calendarRule as unknown as CalendarRule | null) ?? null,
+    timezone: plan.timezone,
+  };
+}
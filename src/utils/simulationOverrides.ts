@@ -0,0 +1,99 @@
+/**
+ * Simulation State Overrides
+ *
+ * A dry run never moves funds, so with a separate executor the swap would be simulated from
+ * an account that holds none of the source token and hasn't approved the router. The swap is
+ * simulated with eth_call state overrides instead: the executor is credited the run's amount
+ * and approves the router, as the live run would have done just before swapping.
+ *
+ * ERC-20 balances and allowances live in mappings whose storage slot differs per token, so the
+ * slot is found by probing: a candidate is overridden with a marker value and kept if balanceOf
+ * (or allowance) reads it back.
+ */
+
+import { encodeAbiParameters, keccak256, numberToHex, type Address, type Hex, type StateOverride } from 'viem';
+
+// Solidity hashes (key, slot); Vyper hashes (slot, key)
+export type MappingLayout = 'solidity' | 'vyper';
+
+export interface MappingSlot {
+  slot: bigint;
+  layout: MappingLayout;
+}
+
+export interface SimulationFunding {
+  token: Address;
+  // Account that signs the swap (the executor)
+  holder: Address;
+  // Router the swap pulls the token through
+  spender: Address;
+  // Atomic amount the swap needs
+  amount: bigint;
+  // Credit the balance too (false when the holder's real balance should be used, e.g. self-execution)
+  creditBalance: boolean;
+}
+
+export interface FundingSlots {
+  balance: MappingSlot | null;
+  allowance: MappingSlot | null;
+}
+
+// Highest mapping slot probed; proxied tokens keep their storage after the proxy's own slots
+export const MAX_PROBED_SLOT = 100n;
+
+/**
+ * Storage key of `mapping[key]` for a mapping declared at `slot`
+ */
+export function mappingKey(key: Address | Hex, slot: bigint | Hex, layout: MappingLayout): Hex {
+  const keyWord = key.length === 42 ? encodeAbiParameters([{ type: 'address' }], [key as Address]) : key;
+  const slotWord = typeof slot === 'bigint' ? numberToHex(slot, { size: 32 }) : slot;
+  return keccak256(layout === 'solidity'
+    ? `0x${keyWord.slice(2)}${slotWord.slice(2)}`
+    : `0x${slotWord.slice(2)}${keyWord.slice(2)}`);
+}
+
+/**
+ * Storage key of `balances[holder]`
+ */
+export function balanceKey(holder: Address, mapping: MappingSlot): Hex {
+  return mappingKey(holder, mapping.slot, mapping.layout);
+}
+
+/**
+ * Storage key of `allowances[owner][spender]`
+ */
+export function allowanceKey(owner: Address, spender: Address, mapping: MappingSlot): Hex {
+  return mappingKey(spender, mappingKey(owner, mapping.slot, mapping.layout), mapping.layout);
+}
+
+/**
+ * Find the mapping slot for which `readsBack(key)` confirms an override of `key` is seen by the token
+ * @returns null if no probed slot matched
+ */
+export async function findMappingSlot(
+  keyFor: (mapping: MappingSlot) => Hex,
+  readsBack: (key: Hex) => Promise<boolean>,
+  maxSlot: bigint = MAX_PROBED_SLOT
+): Promise<MappingSlot | null> {
+  for (let slot = 0n; slot <= maxSlot; slot++) {
+    for (const layout of ['solidity', 'vyper'] as const) {
+      if (await readsBack(keyFor({ slot, layout }))) {
+        return { slot, layout };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * State override funding the executor for a simulated swap
+ * @returns an empty override when no slot is known (the simulation runs against real state)
+ */
+export function fundingStateOverride(funding: SimulationFunding, slots: FundingSlots): StateOverride {
+  const value = numberToHex(funding.amount, { size: 32 });
+  const stateDiff = [
+    ...(funding.creditBalance && slots.balance ? [{ slot: balanceKey(funding.holder, slots.balance), value }] : []),
+    ...(slots.allowance ? [{ slot: allowanceKey(funding.holder, funding.spender, slots.allowance), value }] : []),
+  ];
+  return stateDiff.length > 0 ? [{ address: funding.token, stateDiff }] : [];
+}
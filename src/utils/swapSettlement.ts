@@ -0,0 +1,156 @@
+/**
+ * Swap Settlement Utilities
+ *
+ * Derives what a swap actually settled from its receipt logs, instead of trusting the
+ * quote returned by Ember's createSwap:
+ * - amount paid: ERC-20 Transfer events of the source token out of the payer
+ *   (or the transaction value for native ETH)
+ * - amount received: ERC-20 Transfer events of the target token into the recipient,
+ *   or WETH Withdrawal events by the router (or recipient) when it unwraps to native ETH
+ */
+
+import { parseEventLogs, erc20Abi, formatUnits, parseUnits, type Address, type Log } from 'viem';
+
+// Canonical WETH on Arbitrum One - unwrapped by routers when delivering native ETH
+export const ARBITRUM_WETH_ADDRESS = '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1' as Address;
+
+const wethAbi = [
+  {
+    type: 'event',
+    name: 'Withdrawal',
+    inputs: [
+      { name: 'src', type: 'address', indexed: true },
+      { name: 'wad', type: 'uint256', indexed: false },
+    ],
+  },
+] as const;
+
+export interface SettlementToken {
+  address: string;
+  decimals: number;
+  isNative?: boolean;
+}
+
+export interface SettlementParams {
+  fromToken: SettlementToken;
+  toToken: SettlementToken;
+  // Account whose tokens were sold (the executor that sent the swap)
+  payer: string;
+  // Account that receives the bought tokens (user, or executor for vault deposits)
+  recipient: string;
+  // Contract the swap was sent to; only its (or the recipient's) WETH unwraps count as native output
+  router?: string;
+}
+
+export interface SwapSettlement {
+  fromAmountRaw: bigint;
+  toAmountRaw: bigint;
+  fromAmount: string;
+  toAmount: string;
+}
+
+export interface ExecutionPricing {
+  // Realized rate, in toToken per fromToken
+  exchangeRate: string;
+  // Quoted rate, in toToken per fromToken (null if the quote couldn't be parsed)
+  quotedExchangeRate: string | null;
+  // Shortfall of the realized output against the quote, in percent (negative = better than quoted)
+  slippagePercent: string | null;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Decode the realized input/output amounts of a swap from its receipt logs
+ *
+ * @param logs - Logs of the swap transaction receipt
+ * @param params - Tokens, payer and recipient of the swap
+ * @param txValue - Native value sent with the swap (used when selling native ETH)
+ */
+export function decodeSwapSettlement(logs: Log[], params: SettlementParams, txValue: bigint = 0n): SwapSettlement {
+  const transfers = parseEventLogs({ abi: erc20Abi, eventName: 'Transfer', logs, strict: false });
+
+  let fromAmountRaw = 0n;
+  let toAmountRaw = 0n;
+
+  if (params.fromToken.isNative) {
+    fromAmountRaw = txValue;
+  } else {
+    for (const transfer of transfers) {
+      if (
+        sameAddress(transfer.address, params.fromToken.address) &&
+        transfer.args.from && sameAddress(transfer.args.from, params.payer) &&
+        transfer.args.value !== undefined
+      ) {
+        fromAmountRaw += transfer.args.value;
+      }
+    }
+  }
+
+  if (params.toToken.isNative) {
+    // Other unwraps in the same transaction (e.g. a pool or fee collector's) aren't the recipient's output
+    const unwrappers = [params.recipient, ...(params.router ? [params.router] : [])];
+    const withdrawals = parseEventLogs({ abi: wethAbi, eventName: 'Withdrawal', logs, strict: false });
+    for (const withdrawal of withdrawals) {
+      if (
+        sameAddress(withdrawal.address, ARBITRUM_WETH_ADDRESS) &&
+        withdrawal.args.src && unwrappers.some(unwrapper => sameAddress(unwrapper, withdrawal.args.src!)) &&
+        withdrawal.args.wad !== undefined
+      ) {
+        toAmountRaw += withdrawal.args.wad;
+      }
+    }
+  } else {
+    for (const transfer of transfers) {
+      if (
+        sameAddress(transfer.address, params.toToken.address) &&
+        transfer.args.to && sameAddress(transfer.args.to, params.recipient) &&
+        transfer.args.value !== undefined
+      ) {
+        toAmountRaw += transfer.args.value;
+      }
+    }
+  }
+
+  return {
+    fromAmountRaw,
+    toAmountRaw,
+    fromAmount: formatUnits(fromAmountRaw, params.fromToken.decimals),
+    toAmount: formatUnits(toAmountRaw, params.toToken.decimals),
+  };
+}
+
+/**
+ * Compute realized and quoted rates plus slippage against the quote (18-decimal fixed point).
+ * Runs after the swap is on-chain, so amounts that don't parse give unknown (null/'0') values rather than throwing.
+ */
+export function computeExecutionPricing(
+  quotedFromAmount: string,
+  quotedToAmount: string,
+  realizedFromAmount: string,
+  realizedToAmount: string
+): ExecutionPricing {
+  const SCALE = 18;
+  const toFixed = (value: string): bigint | null => {
+    try {
+      return parseUnits(value.trim(), SCALE);
+    } catch {
+      return null;
+    }
+  };
+  const ratio = (numerator: bigint, denominator: bigint) =>
+    denominator === 0n ? '0' : formatUnits((numerator * 10n ** BigInt(SCALE)) / denominator, SCALE);
+
+  const quotedFrom = toFixed(quotedFromAmount);
+  const quotedTo = toFixed(quotedToAmount);
+  const realizedFrom = toFixed(realizedFromAmount);
+  const realizedTo = toFixed(realizedToAmount);
+
+  return {
+    exchangeRate: realizedFrom !== null && realizedTo !== null ? ratio(realizedTo, realizedFrom) : '0',
+    quotedExchangeRate: quotedFrom !== null && quotedTo !== null ? ratio(quotedTo, quotedFrom) : null,
+    slippagePercent: quotedTo === null || realizedTo === null
+      ? null
+      : quotedTo === 0n ? '0' : formatUnits(((quotedTo - realizedTo) * 100n * 10n ** 4n) / quotedTo, 4),
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Tax Lots
+ *
+ * Every acquisition opens a lot whose cost basis is the quote spent plus gas; every
+ * disposal is matched against the open lots of the same token and quote token in the
+ * order the accounting method picks (FIFO, LIFO, or HIFO - highest unit cost first),
+ * splitting lots where needed. Disposal proceeds are net of gas. Disposals larger than
+ * the open lots are matched against an unknown lot with a zero cost basis.
+ *
+ * All arithmetic is 18-decimal fixed point, like the value-averaging sizing.
+ */
+
+import { formatUnits, parseUnits } from 'viem';
+import type { LotMethod, RealizedGain, TaxLot, TaxTransaction } from '../types/shared.js';
+
+const SCALE = 18;
+const ONE = 10n ** BigInt(SCALE);
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+const toFixed = (value: string) => parseUnits(value, SCALE);
+const format = (value: bigint) => formatUnits(value, SCALE);
+
+interface OpenLot {
+  lot: TaxLot;
+  acquiredAt: number;
+  remaining: bigint;
+  remainingCost: bigint;
+  // Cost per token, for HIFO
+  unitCost: bigint;
+}
+
+export interface TaxLotMatch {
+  lots: TaxLot[];
+  gains: RealizedGain[];
+}
+
+/**
+ * Pick the open lot a disposal is matched against next
+ */
+function nextLot(open: OpenLot[], method: LotMethod): OpenLot | undefined {
+  const candidates = open.filter(lot => lot.remaining > 0n);
+  const compare: Record<LotMethod, (a: OpenLot, b: OpenLot) => number> = {
+    FIFO: (a, b) => a.acquiredAt - b.acquiredAt,
+    LIFO: (a, b) => b.acquiredAt - a.acquiredAt,
+    HIFO: (a, b) => (a.unitCost === b.unitCost ? a.acquiredAt - b.acquiredAt : a.unitCost > b.unitCost ? -1 : 1),
+  };
+  return candidates.sort(compare[method])[0];
+}
+
+/**
+ * Build lots and realized gains from a user's taxable swaps
+ */
+export function matchTaxLots(transactions: TaxTransaction[], method: LotMethod): TaxLotMatch {
+  const ordered = [...transactions].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const pools = new Map<string, OpenLot[]>();
+  const openLots: OpenLot[] = [];
+  const gains: RealizedGain[] = [];
+
+  for (const tx of ordered) {
+    const key = `${tx.token}/${tx.quoteToken}`;
+    const pool = pools.get(key) ?? [];
+    pools.set(key, pool);
+    const amount = toFixed(tx.amount);
+    const fee = tx.gasFeeQuote !== null ? toFixed(tx.gasFeeQuote) : 0n;
+
+    if (tx.type === 'ACQUISITION') {
+      const cost = toFixed(tx.quoteAmount) + fee;
+      if (amount === 0n) {
+        continue;
+      }
+      const open: OpenLot = {
+        lot: {
+          id: tx.executionId,
+          token: tx.token,
+          quoteToken: tx.quoteToken,
+          acquiredAt: tx.date,
+          amount: tx.amount,
+          costBasis: format(cost),
+          remaining: tx.amount,
+          remainingCostBasis: format(cost),
+          txHash: tx.txHash,
+        },
+        acquiredAt: new Date(tx.date).getTime(),
+        remaining: amount,
+        remainingCost: cost,
+        unitCost: (cost * ONE) / amount,
+      };
+      pool.push(open);
+      openLots.push(open);
+      continue;
+    }
+
+    const proceeds = toFixed(tx.quoteAmount) - fee;
+    const disposedAt = new Date(tx.date).getTime();
+    let left = amount;
+    let proceedsLeft = proceeds;
+
+    while (left > 0n) {
+      const lot = nextLot(pool, method);
+      const take = lot && lot.remaining < left ? lot.remaining : left;
+      // The last part of a disposal takes whatever proceeds rounding left over
+      const partProceeds = take === left ? proceedsLeft : (proceeds * take) / amount;
+      let partCost = 0n;
+
+      if (lot) {
+        partCost = take === lot.remaining ? lot.remainingCost : (lot.remainingCost * take) / lot.remaining;
+        lot.remaining -= take;
+        lot.remainingCost -= partCost;
+      }
+
+      gains.push({
+        disposalId: tx.executionId,
+        lotId: lot?.lot.id ?? null,
+        token: tx.token,
+        quoteToken: tx.quoteToken,
+        acquiredAt: lot?.lot.acquiredAt ?? null,
+        disposedAt: tx.date,
+        amount: format(take),
+        proceeds: format(partProceeds),
+        costBasis: format(partCost),
+        gain: format(partProceeds - partCost),
+        term: lot ? (disposedAt - lot.acquiredAt > YEAR_MS ? 'LONG' : 'SHORT') : null,
+        txHash: tx.txHash,
+      });
+
+      left -= take;
+      proceedsLeft -= partProceeds;
+    }
+  }
+
+  const lots = openLots.map(open => ({
+    ...open.lot,
+    remaining: format(open.remaining),
+    remainingCostBasis: format(open.remainingCost),
+  }));
+
+  return { lots, gains };
+}
@@ -0,0 +1,13 @@
+/**
+ * Token Helpers
+ */
+
+// Native USDC on Arbitrum; swaps always use 6 decimals for it, whatever the token map says
+export const NATIVE_USDC_ADDRESS = '0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+
+/**
+ * Decimals a token's amounts are converted with for swaps, approvals and permits
+ */
+export function decimalsOf(token: { address: string; decimals: number }): number {
+  return token.address.toLowerCase() === NATIVE_USDC_ADDRESS.toLowerCase() ? 6 : token.decimals;
+}
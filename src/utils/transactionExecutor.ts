@@ -10,15 +10,29 @@ import {
   type Hex,
   type TransactionReceipt,
   type LocalAccount,
+  type Log,
   BaseError,
   ContractFunctionRevertedError,
   hexToString,
   isHex,
+  numberToHex,
   createWalletClient,
   createPublicClient,
   http,
+  erc20Abi,
+  type PublicClient,
+  type StateOverride,
 } from 'viem';
 import { arbitrum } from 'viem/chains';
+import { decodeSwapSettlement, type SettlementParams } from './swapSettlement.js';
+import {
+  allowanceKey,
+  balanceKey,
+  findMappingSlot,
+  fundingStateOverride,
+  type FundingSlots,
+  type SimulationFunding,
+} from './simulationOverrides.js';
 // Type definition for transaction plan (simplified version of ember-schemas)
 interface TransactionPlan {
   chainId: string;
@@ -32,6 +46,43 @@ interface TransactionPlan {
   nonce?: string;
 }
 
+/**
+ * Options for DCA swap execution
+ */
+export interface ExecuteSwapOptions {
+  /**
+   * Called right after each transaction is broadcast and before waiting for its receipt,
+   * so callers can persist the hash and recover the outcome if the process dies mid-wait
+   */
+  onBroadcast?: (txHash: string, index: number, total: number) => Promise<void>;
+  /**
+   * Tokens and accounts of the swap; when given, the realized amounts are decoded
+   * from the swap receipt's Transfer/Withdrawal logs
+   */
+  settlement?: SettlementParams;
+}
+
+/**
+ * Outcome of simulating one transaction of a swap plan
+ */
+export interface SimulatedTransaction {
+  index: number;
+  to: string;
+  success: boolean;
+  gasEstimate: string | null;
+  error: string | null;
+}
+
+/**
+ * Outcome of a dry run: nothing is signed or broadcast
+ */
+export interface SwapSimulationResult {
+  success: boolean;
+  gasUsed: string;
+  gasCostEth: string;
+  transactions: SimulatedTransaction[];
+}
+
 interface ChainConfig {
   viemChain: typeof arbitrum;
   rpcUrl: string;
@@ -68,6 +119,8 @@ export class DCATransactionExecutor {
   private currentNonce: number | null = null;
   private nonceLastUpdated: number = 0;
   private readonly NONCE_CACHE_MS = 5000; // Cache nonce for 5 seconds
+  // Balance/allowance storage slots of tokens funded in simulations, by token address
+  private fundingSlots = new Map<string, FundingSlots>();
 
   constructor(
     account: LocalAccount<string>,
@@ -143,9 +196,10 @@ export class DCATransactionExecutor {
    * Execute DCA swap transactions (can be multiple: approval + swap)
    * @param planId - DCA plan identifier for logging
    * @param transactions - Transaction plans from Ember MCP
+   * @param options - Optional broadcast callback
    * @returns Transaction hashes and execution summary
    */
-  async executeDCASwap(planId: string, transactions: TransactionPlan[]): Promise<{
+  async executeDCASwap(planId: string, transactions: TransactionPlan[], options: ExecuteSwapOptions = {}): Promise<{
     txHash: string;
     fromAmount: string;
     toAmount: string;
@@ -166,6 +220,7 @@ export class DCATransactionExecutor {
       const txHashes: string[] = [];
       let totalGasUsed = BigInt(0);
       let totalGasCostWei = BigInt(0);
+      let swapLogs: Log[] = [];
 
       // Execute all transactions sequentially with proper nonce management
       for (let i = 0; i < transactions.length; i++) {
@@ -192,10 +247,15 @@ export class DCATransactionExecutor {
         }
 
         // Execute with retry logic for nonce issues
-        const { txHash, gasUsed, gasCostWei } = await this.signAndSendTransactionWithRetry(transaction, 3);
+        const { txHash, gasUsed, gasCostWei, logs } = await this.signAndSendTransactionWithRetry(
+          transaction,
+          3,
+          options.onBroadcast ? hash => options.onBroadcast!(hash, i, transactions.length) : undefined
+        );
         txHashes.push(txHash);
         totalGasUsed += BigInt(gasUsed);
         totalGasCostWei += BigInt(gasCostWei);
+        swapLogs = logs;
 
         this.log(`Transaction ${i + 1}/${transactions.length} sent: ${txHash}`);
       }
@@ -209,10 +269,25 @@ export class DCATransactionExecutor {
         throw new Error('No transaction hashes were recorded');
       }
 
+      // Decode what actually settled from the swap (last) transaction's logs
+      let fromAmount = '0';
+      let toAmount = '0';
+      if (options.settlement) {
+        const swapTx = transactions[transactions.length - 1];
+        const settlement = decodeSwapSettlement(
+          swapLogs,
+          { ...options.settlement, router: swapTx?.to },
+          swapTx?.value ? BigInt(swapTx.value) : 0n
+        );
+        fromAmount = settlement.fromAmount;
+        toAmount = settlement.toAmount;
+        this.log(`Realized settlement for plan ${planId}: ${fromAmount} in → ${toAmount} out`);
+      }
+
       return {
         txHash: finalTxHash, // Use the last (swap) transaction hash
-        fromAmount: '0', // Will be filled from actual swap result analysis
-        toAmount: '0', // Will be calculated from swap result analysis
+        fromAmount, // Decoded from receipt logs when settlement params are provided
+        toAmount,
         gasUsed: totalGasUsed.toString(),
         gasCostEth: formatWeiToEth(totalGasCostWei),
       };
@@ -228,24 +303,164 @@ export class DCATransactionExecutor {
   }
 
   /**
-   * Wrapper for transaction execution with retry logic for nonce issues
+   * Dry-run DCA swap transactions: each one is checked with eth_call and estimateGas
+   * from the executor account, without signing or broadcasting anything.
+   *
+   * Transactions are simulated independently against current chain state, so a step
+   * that depends on an earlier one (e.g. a swap after its approval) may revert here
+   * even though the sequence would succeed on-chain.
+   * @param planId - DCA plan identifier for logging
+   * @param transactions - Transaction plans from Ember MCP
+   * @param funding - Source token the executor would hold and have approved by swap time;
+   *   credited through eth_call state overrides since a dry run moves no funds
+   */
+  async simulateDCASwap(
+    planId: string,
+    transactions: TransactionPlan[],
+    funding?: SimulationFunding
+  ): Promise<SwapSimulationResult> {
+    if (!transactions || transactions.length === 0) {
+      throw new Error('No transactions provided for DCA swap simulation');
+    }
+
+    this.log(`🧪 Simulating ${transactions.length} transaction(s) for DCA swap plan ${planId}...`);
+
+    const results: SimulatedTransaction[] = [];
+    let totalGas = 0n;
+    let gasPrice = 0n;
+    let stateOverride: StateOverride | undefined;
+
+    for (let i = 0; i < transactions.length; i++) {
+      const tx = transactions[i];
+      if (!tx) {
+        throw new Error(`Transaction ${i + 1} is undefined`);
+      }
+
+      const chainConfig = getChainConfigById(tx.chainId);
+      const publicClient = createPublicClient({
+        chain: chainConfig.viemChain,
+        transport: http(chainConfig.rpcUrl)
+      });
+
+      if (!tx.to || !/^0x[a-fA-F0-9]{40}$/.test(tx.to)) {
+        results.push({ index: i, to: String(tx.to), success: false, gasEstimate: null, error: `Invalid 'to' field: ${tx.to}` });
+        continue;
+      }
+
+      if (funding && !stateOverride) {
+        stateOverride = await this.simulationStateOverride(publicClient as PublicClient, funding);
+      }
+
+      const request = {
+        account: this.userAddress,
+        to: tx.to as Address,
+        value: tx.value ? BigInt(tx.value) : 0n,
+        data: tx.data ? (tx.data as Hex) : undefined,
+        stateOverride: stateOverride?.length ? stateOverride : undefined,
+      };
+
+      try {
+        await publicClient.call(request);
+        const gasEstimate = await publicClient.estimateGas(request);
+        totalGas += gasEstimate;
+        if (gasPrice === 0n) {
+          gasPrice = tx.gasPrice ? BigInt(tx.gasPrice) : await publicClient.getGasPrice();
+        }
+        results.push({ index: i, to: tx.to, success: true, gasEstimate: gasEstimate.toString(), error: null });
+        this.log(`🧪 Transaction ${i + 1}/${transactions.length} simulated OK (gas: ${gasEstimate})`);
+      } catch (error) {
+        const reason = this.describeTransactionError(error);
+        results.push({ index: i, to: tx.to, success: false, gasEstimate: null, error: reason });
+        this.logError(`🧪 Transaction ${i + 1}/${transactions.length} would fail: ${reason}`);
+      }
+    }
+
+    const success = results.every(result => result.success);
+    this.log(`🧪 Simulation for plan ${planId} ${success ? 'passed' : 'failed'} (estimated gas: ${totalGas})`);
+
+    return {
+      success,
+      gasUsed: totalGas.toString(),
+      gasCostEth: formatWeiToEth(totalGas * gasPrice),
+      transactions: results,
+    };
+  }
+
+  /**
+   * State override crediting the executor with a swap's source token and router allowance.
+   * The token's storage slots are probed once and cached; tokens whose slots can't be found
+   * are simulated against real state.
+   */
+  private async simulationStateOverride(publicClient: PublicClient, funding: SimulationFunding): Promise<StateOverride> {
+    const token = funding.token.toLowerCase();
+    let slots = this.fundingSlots.get(token);
+
+    if (!slots) {
+      const marker = 0x5eed5eedn;
+      const markAt = (key: Hex): StateOverride => [
+        { address: funding.token, stateDiff: [{ slot: key, value: numberToHex(marker, { size: 32 }) }] },
+      ];
+      const readsBalance = async (key: Hex) => marker === await publicClient.readContract({
+        address: funding.token,
+        abi: erc20Abi,
+        functionName: 'balanceOf',
+        args: [funding.holder],
+        stateOverride: markAt(key),
+      }).catch(() => null);
+      const readsAllowance = async (key: Hex) => marker === await publicClient.readContract({
+        address: funding.token,
+        abi: erc20Abi,
+        functionName: 'allowance',
+        args: [funding.holder, funding.spender],
+        stateOverride: markAt(key),
+      }).catch(() => null);
+
+      slots = {
+        balance: await findMappingSlot(mapping => balanceKey(funding.holder, mapping), readsBalance),
+        allowance: await findMappingSlot(mapping => allowanceKey(funding.holder, funding.spender, mapping), readsAllowance),
+      } satisfies FundingSlots;
+      this.fundingSlots.set(token, slots);
+    }
+
+    if (!slots.balance || !slots.allowance) {
+      this.logError(`🧪 Could not locate ${!slots.balance ? 'balance' : 'allowance'} storage of ${funding.token}; simulating without funding it`);
+    }
+    return fundingStateOverride(funding, slots);
+  }
+
+  /**
+   * Wrapper for transaction execution with retry logic for nonce issues.
+   * Only failures before the broadcast are retried: once a transaction is out, sending it
+   * again (e.g. after a receipt timeout) could execute it twice.
    */
   private async signAndSendTransactionWithRetry(
     tx: TransactionPlan, 
-    maxRetries: number = 3
+    maxRetries: number = 3,
+    onBroadcast?: (txHash: string) => Promise<void>
   ): Promise<{
     txHash: string;
     gasUsed: string;
     gasCostWei: string;
+    logs: Log[];
   }> {
     let lastError: Error | null = null;
+    let broadcastHash: string | null = null;
+    const trackBroadcast = async (txHash: string) => {
+      broadcastHash = txHash;
+      await onBroadcast?.(txHash);
+    };
     
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
         this.log(`🎯 Transaction attempt ${attempt}/${maxRetries}`);
-        return await this.signAndSendTransaction(tx);
+        return await this.signAndSendTransaction(tx, trackBroadcast);
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
+
+        if (broadcastHash) {
+          this.logError(`❌ Transaction ${broadcastHash} was broadcast and failed afterwards, not resending: ${lastError.message}`);
+          throw lastError;
+        }
         
         // Check if it's a nonce-related error
         const isNonceError = lastError.message.toLowerCase().includes('nonce') ||
@@ -275,10 +490,14 @@ export class DCATransactionExecutor {
     throw lastError || new Error('Unknown error in transaction retry');
   }
 
-  private async signAndSendTransaction(tx: TransactionPlan): Promise<{
+  private async signAndSendTransaction(
+    tx: TransactionPlan,
+    onBroadcast?: (txHash: string) => Promise<void>
+  ): Promise<{
     txHash: string;
     gasUsed: string;
     gasCostWei: string;
+    logs: Log[];
   }> {
     if (!tx.chainId) {
       const errorMsg = `Transaction object missing required 'chainId' field`;
@@ -392,6 +611,15 @@ export class DCATransactionExecutor {
         `Transaction submitted to chain ${chainConfig.viemChain.id}: ${txHash}. Waiting for confirmation...`
       );
 
+      // Let the caller record the broadcast before we block on the receipt
+      if (onBroadcast) {
+        try {
+          await onBroadcast(txHash);
+        } catch (callbackError) {
+          this.logError('onBroadcast callback failed (continuing to wait for receipt):', callbackError);
+        }
+      }
+
       // Wait for transaction confirmation
       const receipt = await publicClient.waitForTransactionReceipt({
         hash: txHash,
@@ -420,34 +648,13 @@ export class DCATransactionExecutor {
         txHash,
         gasUsed: receipt.gasUsed.toString(),
         gasCostWei: gasCostWei.toString(),
+        logs: receipt.logs,
       };
 
     } catch (error: unknown) {
-      // Improved error handling based on liquidation prevention agent
-      let revertReason =
-        error instanceof Error
-          ? `Transaction failed: ${error.message}`
-          : 'Transaction failed: Unknown error';
+      const revertReason = this.describeTransactionError(error);
 
       if (error instanceof BaseError) {
-        const cause = error.walk((e: unknown) => e instanceof ContractFunctionRevertedError);
-        if (cause instanceof ContractFunctionRevertedError) {
-          const errorName = cause.reason ?? cause.shortMessage;
-          revertReason = `Transaction reverted: ${errorName}`;
-
-          if (cause.data?.errorName === '_decodeRevertReason') {
-            const hexReason = cause.data.args?.[0];
-            if (hexReason && typeof hexReason === 'string' && isHex(hexReason as Hex)) {
-              try {
-                revertReason = `Transaction reverted: ${hexToString(hexReason as Hex)}`;
-              } catch (decodeError) {
-                this.logError('Failed to decode revert reason hex:', hexReason, decodeError);
-              }
-            }
-          }
-        } else {
-          revertReason = `Transaction failed: ${error.shortMessage}`;
-        }
         this.logError(`Send transaction failed: ${revertReason}`, error.details);
       } else if (error instanceof Error) {
         this.logError(`Send transaction failed: ${revertReason}`, error);
@@ -458,4 +665,38 @@ export class DCATransactionExecutor {
       throw new Error(revertReason);
     }
   }
+
+  /**
+   * Turn a viem error into a readable reason, decoding contract revert reasons where possible
+   * (based on the liquidation prevention agent)
+   */
+  private describeTransactionError(error: unknown): string {
+    let revertReason =
+      error instanceof Error
+        ? `Transaction failed: ${error.message}`
+        : 'Transaction failed: Unknown error';
+
+    if (error instanceof BaseError) {
+      const cause = error.walk((e: unknown) => e instanceof ContractFunctionRevertedError);
+      if (cause instanceof ContractFunctionRevertedError) {
+        const errorName = cause.reason ?? cause.shortMessage;
+        revertReason = `Transaction reverted: ${errorName}`;
+
+        if (cause.data?.errorName === '_decodeRevertReason') {
+          const hexReason = cause.data.args?.[0];
+          if (hexReason && typeof hexReason === 'string' && isHex(hexReason as Hex)) {
+            try {
+              revertReason = `Transaction reverted: ${hexToString(hexReason as Hex)}`;
+            } catch (decodeError) {
+              this.logError('Failed to decode revert reason hex:', hexReason, decodeError);
+            }
+          }
+        }
+      } else {
+        revertReason = `Transaction failed: ${error.shortMessage}`;
+      }
+    }
+
+    return revertReason;
+  }
 }
@@ -0,0 +1,78 @@
+/**
+ * Value Averaging
+ *
+ * Instead of buying a fixed amount every run, a value-averaging plan targets a position
+ * whose value grows by `targetIncrement` (in fromToken) per run. Each run buys the
+ * shortfall between that target path and the current value of the tokens bought so far,
+ * clamped to the plan's per-run min/max caps. When the position is ahead of the path
+ * (and no minimum is set) the run buys nothing.
+ *
+ * All arithmetic is 18-decimal fixed point, like the swap settlement pricing.
+ */
+
+import { formatUnits, parseUnits } from 'viem';
+
+const SCALE = 18;
+
+export interface ValueAveragingInput {
+  // Growth of the position's value per run, in fromToken
+  targetIncrement: string;
+  // 1-based number of the run being sized
+  runNumber: number;
+  // toToken accumulated by the plan so far
+  unitsHeld: string;
+  // Current price of one toToken, in fromToken
+  price: string;
+  minRunAmount?: string | null;
+  maxRunAmount?: string | null;
+  // Decimals of fromToken - the amount is rounded down to what the token can represent
+  fromDecimals?: number;
+}
+
+export interface ValueAveragingRun {
+  // Amount of fromToken to spend this run ('0' = nothing to buy)
+  amount: string;
+  targetValue: string;
+  currentValue: string;
+  // Which cap, if any, changed the raw shortfall
+  cappedBy: 'min' | 'max' | null;
+}
+
+/**
+ * Compute how much fromToken a value-averaging run should spend
+ */
+export function computeValueAveragingAmount(input: ValueAveragingInput): ValueAveragingRun {
+  const toFixed = (value: string) => parseUnits(value, SCALE);
+  const unit = 10n ** BigInt(SCALE);
+
+  const targetValue = toFixed(input.targetIncrement) * BigInt(input.runNumber);
+  const currentValue = (toFixed(input.unitsHeld) * toFixed(input.price)) / unit;
+
+  let amount = targetValue > currentValue ? targetValue - currentValue : 0n;
+  let cappedBy: ValueAveragingRun['cappedBy'] = null;
+
+  if (input.maxRunAmount) {
+    const max = toFixed(input.maxRunAmount);
+    if (amount > max) {
+      amount = max;
+      cappedBy = 'max';
+    }
+  }
+  if (input.minRunAmount) {
+    const min = toFixed(input.minRunAmount);
+    if (amount < min) {
+      amount = min;
+      cappedBy = 'min';
+    }
+  }
+
+  const decimals = Math.min(input.fromDecimals ?? SCALE, SCALE);
+  const truncated = amount / 10n ** BigInt(SCALE - decimals);
+
+  return {
+    amount: formatUnits(truncated, decimals),
+    targetValue: formatUnits(targetValue, SCALE),
+    currentValue: formatUnits(currentValue, SCALE),
+    cappedBy,
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Webhook Utilities
+ *
+ * Deliveries are signed like Stripe's: the `X-DCA-Signature` header carries the send
+ * time and an HMAC-SHA256 of `<timestamp>.<raw body>` keyed with the subscription secret,
+ * so receivers can check both authenticity and freshness.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Build the signature header for a delivery body
+ * @param timestamp - send time in unix seconds
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Check a signature header against a body (for receivers and tests)
+ * @param toleranceSeconds - how old the signature may be
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  toleranceSeconds = 300,
+  now = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = Object.fromEntries(header.split(',').map(part => part.split('=') as [string, string]));
+  const timestamp = parseInt(parts.t ?? '', 10);
+  if (!Number.isFinite(timestamp) || !parts.v1 || Math.abs(now - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body).split('v1=')[1]!);
+  const actual = Buffer.from(parts.v1);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed ones: 30s, 1m, 2m, ... capped at 6h
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
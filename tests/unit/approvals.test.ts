@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { isUnlimitedAllowance, routerApprovalAmount } from '../../src/utils/approvals.js';
+import { parseNotionalCaps } from '../../src/utils/quotas.js';
+
+describe('Router approvals', () => {
+  it('should approve exactly what the swap needs without a cap', () => {
+    expect(routerApprovalAmount(25_000_000n, 'USDC', 6, {})).toBe(25_000_000n);
+  });
+
+  it('should approve up to the token cap, but never less than the swap needs', () => {
+    const caps = parseNotionalCaps('usdc=1000, WETH=0.5');
+    expect(routerApprovalAmount(25_000_000n, 'USDC', 6, caps)).toBe(1_000_000_000n);
+    expect(routerApprovalAmount(2_000_000_000n, 'USDC', 6, caps)).toBe(2_000_000_000n);
+    expect(routerApprovalAmount(10n ** 17n, 'weth', 18, caps)).toBe(5n * 10n ** 17n);
+  });
+
+  it('should flag max uint256 approvals as unlimited, even partly spent', () => {
+    const max = 2n ** 256n - 1n;
+    expect(isUnlimitedAllowance(max)).toBe(true);
+    expect(isUnlimitedAllowance(max - 1_000_000n)).toBe(true);
+    expect(isUnlimitedAllowance(1_000_000_000n)).toBe(false);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { encodeAbiParameters, encodeFunctionData, erc20Abi, parseAbi, parseAbiParameters } from 'viem';
+import { checkSwapTransactions, type SwapExpectation } from '../../src/utils/calldataSafety.js';
+import { ROUTER_ADDRESS } from '../../src/utils/approvals.js';
+
+const usdc = '0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+const weth = '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1';
+const user = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const attacker = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+const swapRouterAbi = parseAbi([
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params)',
+]);
+
+const expected: SwapExpectation = {
+  chainId: '42161',
+  fromToken: { address: usdc },
+  toToken: { address: weth },
+  amountIn: 100_000_000n,
+  recipient: user,
+  routers: [ROUTER_ADDRESS],
+  maxApproval: 100_000_000n,
+};
+
+const squidRouterAbi = parseAbi([
+  'function fundAndRunMulticall(address token, uint256 amount, (uint8 callType, address target, uint256 value, bytes callData, bytes payload)[] calls)',
+]);
+const uniswapRouter02 = '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45';
+
+// A same-chain USDC → WETH swap as createSwap builds it for the Squid router: approve and swap
+// through Uniswap, then send the router's whole WETH balance to the recipient
+const squidSwapData = (recipient: string, amountIn: bigint) => encodeFunctionData({
+  abi: squidRouterAbi,
+  functionName: 'fundAndRunMulticall',
+  args: [usdc, amountIn, [
+    {
+      callType: 0,
+      target: usdc,
+      value: 0n,
+      callData: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [uniswapRouter02, amountIn] }),
+      payload: '0x',
+    },
+    {
+      callType: 0,
+      target: uniswapRouter02,
+      value: 0n,
+      callData: encodeFunctionData({
+        abi: swapRouterAbi,
+        functionName: 'exactInputSingle',
+        args: [{ tokenIn: usdc, tokenOut: weth, fee: 500, recipient: ROUTER_ADDRESS, amountIn, amountOutMinimum: 1n, sqrtPriceLimitX96: 0n }],
+      }),
+      payload: '0x',
+    },
+    {
+      callType: 1,
+      target: weth,
+      value: 0n,
+      callData: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [recipient as `0x${string}`, 0n] }),
+      payload: encodeAbiParameters(parseAbiParameters('address, uint256'), [weth, 1n]),
+    },
+  ]],
+});
+
+const swapData = (recipient: string, amountIn: bigint) => encodeFunctionData({
+  abi: swapRouterAbi,
+  functionName: 'exactInputSingle',
+  args: [{ tokenIn: usdc, tokenOut: weth, fee: 500, recipient: recipient as `0x${string}`, amountIn, amountOutMinimum: 1n, sqrtPriceLimitX96: 0n }],
+});
+
+describe('Swap calldata safety', () => {
+  it('should pass an approval and swap that match the plan', () => {
+    const transactions = [
+      { chainId: '42161', to: usdc, data: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [ROUTER_ADDRESS, 100_000_000n] }) },
+      { chainId: '42161', to: ROUTER_ADDRESS, data: swapData(user, 100_000_000n), value: '0' },
+    ];
+    expect(checkSwapTransactions(transactions, expected)).toEqual([]);
+  });
+
+  it('should flag a swap to another recipient or for another amount', () => {
+    const [check] = checkSwapTransactions([{ to: ROUTER_ADDRESS, data: swapData(attacker, 200_000_000n) }], expected);
+    expect(check?.functionName).toBe('exactInputSingle');
+    expect(check?.violations).toHaveLength(2);
+    expect(check?.violations.join(' ')).toContain(attacker);
+  });
+
+  it('should flag unknown targets, native value and unbounded approvals', () => {
+    const checks = checkSwapTransactions([
+      { to: attacker, data: '0x' },
+      { to: ROUTER_ADDRESS, data: swapData(user, 100_000_000n), value: '1' },
+      { to: usdc, data: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [ROUTER_ADDRESS, 2n ** 256n - 1n] }) },
+      { to: usdc, data: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [attacker, 1n] }) },
+    ], expected);
+
+    expect(checks.map(check => check.index)).toEqual([0, 1, 2, 3]);
+    expect(checks[0]?.violations[0]).toContain('not an allowed router');
+    expect(checks[1]?.violations[0]).toContain('Unexpected native value');
+    expect(checks[2]?.violations[0]).toContain('exceeds');
+    expect(checks[3]?.violations[0]).toContain('Unexpected call 0xa9059cbb');
+  });
+
+  it('should decode swaps through the Squid router and check where they deliver', () => {
+    const approval = { to: usdc, data: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [ROUTER_ADDRESS, 100_000_000n] }) };
+    expect(squidSwapData(user, 100_000_000n).slice(0, 10)).toBe('0x58181a80');
+    expect(checkSwapTransactions([approval, { to: ROUTER_ADDRESS, data: squidSwapData(user, 100_000_000n) }], expected)).toEqual([]);
+
+    const [check] = checkSwapTransactions([{ to: ROUTER_ADDRESS, data: squidSwapData(attacker, 100_000_000n) }], expected);
+    expect(check?.functionName).toBe('fundAndRunMulticall');
+    expect(check?.violations).toEqual([`Swap recipient ${attacker} is not the plan's recipient ${user}`]);
+  });
+
+  it('should refuse router calls it cannot decode unless allowed', () => {
+    const transactions = [{ to: ROUTER_ADDRESS, data: '0xdeadbeef' }];
+    const [check] = checkSwapTransactions(transactions, expected);
+    expect(check?.violations[0]).toContain('is not a known swap function');
+    expect(checkSwapTransactions(transactions, { ...expected, allowUndecodedRouterCalls: true })).toEqual([]);
+  });
+});
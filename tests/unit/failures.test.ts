@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { classifyFailure, failureBackoffMs, MAX_BACKOFF_MS, shouldAutoPause } from '../../src/utils/failures.js';
+
+describe('Failure classification', () => {
+  it('should classify the errors runs fail with', () => {
+    expect(classifyFailure('Tool execution failed: Insufficient user approval: need 100 USDC but user only approved 20')).toBe('INSUFFICIENT_ALLOWANCE');
+    expect(classifyFailure('Insufficient ETH balance. Required: 1 ETH, Available: 0 ETH')).toBe('INSUFFICIENT_BALANCE');
+    expect(classifyFailure('Failed to get swap plan: no route found')).toBe('NO_ROUTE');
+    expect(classifyFailure('Transaction 0xabc failed (reverted). Check blockchain explorer for details.')).toBe('REVERT');
+    expect(classifyFailure('MCP error -32001: Request timed out')).toBe('MCP_OUTAGE');
+    expect(classifyFailure('HTTP request failed. Status: 503')).toBe('RPC_OUTAGE');
+    expect(classifyFailure('Unsafe swap calldata blocked: transaction 1: Target 0xabc is not an allowed router or token contract')).toBe('UNSAFE_CALLDATA');
+    expect(classifyFailure('Unexpected tool result type')).toBe('UNKNOWN');
+  });
+
+  it('should double the backoff per consecutive failure up to the cap', () => {
+    expect(failureBackoffMs('REVERT', 1)).toBe(5 * 60 * 1000);
+    expect(failureBackoffMs('REVERT', 3)).toBe(20 * 60 * 1000);
+    expect(failureBackoffMs('INSUFFICIENT_ALLOWANCE', 50)).toBe(MAX_BACKOFF_MS);
+  });
+
+  it('should only auto-pause for failures caused by the plan', () => {
+    expect(shouldAutoPause('REVERT', 4, 5)).toBe(false);
+    expect(shouldAutoPause('REVERT', 5, 5)).toBe(true);
+    expect(shouldAutoPause('RPC_OUTAGE', 10, 5)).toBe(false);
+    expect(shouldAutoPause('NO_ROUTE', 10, 0)).toBe(false);
+  });
+});
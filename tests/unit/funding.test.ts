@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { assessFunding } from '../../src/utils/funding.js';
+
+describe('Funding Assessment', () => {
+  const base = { perRun: 100n, remainingRuns: 10, lookaheadRuns: 3 };
+
+  it('should count the runs covered by the smaller of balance and allowance', () => {
+    expect(assessFunding({ ...base, balance: 1000n, allowance: 250n })).toEqual({
+      runsCovered: 2,
+      shortfall: 'allowance',
+      canRunNext: true,
+    });
+    expect(assessFunding({ ...base, balance: 50n, allowance: 1000n })).toEqual({
+      runsCovered: 0,
+      shortfall: 'balance',
+      canRunNext: false,
+    });
+    // No allowance needed
+    expect(assessFunding({ ...base, balance: 500n, allowance: null })).toEqual({
+      runsCovered: 5,
+      shortfall: null,
+      canRunNext: true,
+    });
+  });
+
+  it('should not ask for more than the plan still needs', () => {
+    const result = assessFunding({ ...base, remainingRuns: 1, balance: 10000n, allowance: 100n });
+    expect(result).toEqual({ runsCovered: 1, shortfall: null, canRunNext: true });
+    expect(assessFunding({ ...base, remainingRuns: 2, balance: 200n, allowance: 200n }).shortfall).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { KeyedMutex } from '../../src/utils/keyedMutex.js';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+
+describe('Keyed Mutex', () => {
+  it('should keep concurrent approve-then-swap runs on one token from spending each other\'s allowance', async () => {
+    const mutex = new KeyedMutex();
+    let allowance = 0n;
+    const spent: bigint[] = [];
+
+    // Each run approves exactly its own amount, waits for the approval to mine, then swaps
+    const run = (amount: bigint) => mutex.run('USDC', async () => {
+      if (allowance < amount) {
+        await tick();
+        allowance = amount;
+      }
+      await tick();
+      if (allowance < amount) {
+        throw new Error(`Allowance ${allowance} below ${amount}`);
+      }
+      allowance -= amount;
+      spent.push(amount);
+    });
+
+    const results = await Promise.allSettled([100n, 250n, 50n, 100n, 400n].map(run));
+    expect(results.every(result => result.status === 'fulfilled')).toBe(true);
+    expect(spent).toEqual([100n, 250n, 50n, 100n, 400n]);
+  });
+
+  it('should run different keys concurrently and keep going after a task fails', async () => {
+    const mutex = new KeyedMutex();
+    let running = 0;
+    let maxRunning = 0;
+    const task = async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await tick();
+      running--;
+    };
+
+    await Promise.all([mutex.run('USDC', task), mutex.run('WETH', task)]);
+    expect(maxRunning).toBe(2);
+
+    await expect(mutex.run('USDC', async () => {
+      throw new Error('swap reverted');
+    })).rejects.toThrow('swap reverted');
+    await expect(mutex.run('USDC', async () => 'next')).resolves.toBe('next');
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { chunk, coalesceNotifications, type PendingNotification } from '../../src/utils/notifications.js';
+
+const notification = (overrides: Partial<PendingNotification>): PendingNotification => ({
+  userAddress: '0xaaa',
+  kind: 'execution',
+  notificationId: 'exec-1',
+  title: 'DCA swap executed',
+  body: 'Swapped 100 USDC for 0.03 WETH',
+  targetUrl: 'https://app.example.com',
+  ...overrides,
+});
+
+describe('Notification batching', () => {
+  it('should drop duplicates and collapse several swaps of a user into one', () => {
+    const result = coalesceNotifications([
+      notification({}),
+      notification({ kind: 'failure', notificationId: 'fail-1', title: 'DCA plan failing', body: 'Failed 3 times' }),
+      notification({}),
+      notification({ notificationId: 'exec-2', body: 'Swapped 50 USDC for 0.015 WETH' }),
+      notification({ userAddress: '0xbbb', notificationId: 'exec-3' }),
+    ]);
+
+    expect(result.map(n => [n.userAddress, n.notificationId, n.title])).toEqual([
+      ['0xaaa', 'exec-1+1', '2 DCA swaps executed'],
+      ['0xaaa', 'fail-1', 'DCA plan failing'],
+      ['0xbbb', 'exec-3', 'DCA swap executed'],
+    ]);
+    expect(result[0]!.body).toBe('Swapped 100 USDC for 0.03 WETH; Swapped 50 USDC for 0.015 WETH');
+  });
+
+  it('should cut texts to the Farcaster limits', () => {
+    const [result] = coalesceNotifications([
+      notification({ title: 'A title that is much longer than allowed', body: 'x'.repeat(200) }),
+    ]);
+    expect(result!.title).toHaveLength(32);
+    expect(result!.title.endsWith('…')).toBe(true);
+    expect(result!.body).toHaveLength(128);
+  });
+
+  it('should chunk tokens per request', () => {
+    const tokens = Array.from({ length: 250 }, (_, i) => `token-${i}`);
+    expect(chunk(tokens, 100).map(part => part.length)).toEqual([100, 100, 50]);
+    expect(chunk([], 100)).toEqual([]);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { computePositionPerformance, sumPerformance } from '../../src/utils/performance.js';
+
+describe('Plan Performance', () => {
+  // 100 USDC at 2000, then 100 USDC at 1000
+  const buys = [
+    { fromAmount: '100', toAmount: '0.05', executedAt: new Date('2025-01-01T00:00:00Z') },
+    { fromAmount: '100', toAmount: '0.1', executedAt: new Date('2025-01-08T00:00:00Z') },
+  ];
+
+  it('should compute cost basis, PnL and the lump-sum comparison of a buy plan', () => {
+    const result = computePositionPerformance('WETH', 'BUY', buys, '1500');
+    expect(result.tokenAmount).toBe('0.15');
+    expect(result.quoteAmount).toBe('200');
+    expect(result.averagePrice).toBe('1333.333333333333333333');
+    expect(result.currentValue).toBe('225');
+    expect(result.pnl).toBe('25');
+    expect(result.pnlPercent).toBe('12.50');
+    // 200 USDC at 2000 = 0.1 WETH, worth 150 now
+    expect(result.lumpSum).toEqual({ price: '2000', value: '150', pnl: '-50' });
+    expect(result.vsLumpSum).toBe('75');
+  });
+
+  it('should treat sell fills as tokens sold for fromToken', () => {
+    const result = computePositionPerformance('WETH', 'SELL', [
+      { fromAmount: '0.1', toAmount: '300', executedAt: new Date('2025-01-01T00:00:00Z') },
+      { fromAmount: '0.1', toAmount: '200', executedAt: new Date('2025-01-08T00:00:00Z') },
+    ], '2000');
+    expect(result.averagePrice).toBe('2500');
+    expect(result.currentValue).toBe('400');
+    expect(result.pnl).toBe('100');
+    expect(result.lumpSum).toEqual({ price: '3000', value: '600', pnl: '200' });
+    expect(result.vsLumpSum).toBe('-100');
+  });
+
+  it('should leave value fields empty without a current price', () => {
+    const result = computePositionPerformance('WETH', 'BUY', buys, null);
+    expect(result.averagePrice).toBe('1333.333333333333333333');
+    expect(result.pnl).toBeNull();
+    expect(result.lumpSum).toEqual({ price: '2000', value: null, pnl: null });
+
+    const totals = sumPerformance('USDC', [result, computePositionPerformance('ARB', 'BUY', buys, '1500')]);
+    expect(totals.quoteAmount).toBe('400');
+    expect(totals.pnl).toBeNull();
+  });
+});
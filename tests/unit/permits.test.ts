@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { verifyTypedData } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { buildEip2612TypedData, buildPermit2TypedData, MAX_UINT160, PERMIT2_ADDRESS, serializeTypedData } from '../../src/utils/permits.js';
+
+const user = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const executor = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const usdc = '0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+
+describe('Permit typed data', () => {
+  it('should build a Permit2 PermitSingle that verifies against the signer', async () => {
+    const typedData = buildPermit2TypedData({
+      chainId: 42161,
+      token: usdc,
+      spender: executor,
+      amount: 1_000_000_000n,
+      expiration: 1_900_000_000n,
+      nonce: 2n,
+    });
+
+    expect(typedData.domain).toEqual({ name: 'Permit2', chainId: 42161, verifyingContract: PERMIT2_ADDRESS });
+    expect(typedData.message.sigDeadline).toBe(1_900_000_000n);
+
+    const signature = await user.signTypedData(typedData);
+    expect(await verifyTypedData({ address: user.address, ...typedData, signature })).toBe(true);
+    expect(await verifyTypedData({ address: executor, ...typedData, signature })).toBe(false);
+  });
+
+  it('should build an EIP-2612 Permit in the token domain', async () => {
+    const typedData = buildEip2612TypedData({
+      chainId: 42161,
+      token: usdc,
+      name: 'USD Coin',
+      version: '2',
+      owner: user.address,
+      spender: executor,
+      value: 500_000_000n,
+      nonce: 0n,
+      deadline: 1_900_000_000n,
+    });
+
+    const signature = await user.signTypedData(typedData);
+    expect(await verifyTypedData({ address: user.address, ...typedData, signature })).toBe(true);
+    expect(serializeTypedData(typedData).message).toMatchObject({ value: '500000000', deadline: '1900000000' });
+  });
+
+  it('should refuse amounts Permit2 cannot hold', () => {
+    expect(() => buildPermit2TypedData({
+      chainId: 42161,
+      token: usdc,
+      spender: executor,
+      amount: MAX_UINT160 + 1n,
+      expiration: 1_900_000_000n,
+      nonce: 0n,
+    })).toThrow('uint160');
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { evaluatePriceConditions, applyMultiplier, computeMovingAverage } from '../../src/utils/priceConditions.js';
+
+describe('Price conditions', () => {
+  const dipTiers = [
+    { drawdownPercent: 10, multiplier: 1.5 },
+    { drawdownPercent: 20, multiplier: 2 },
+  ];
+
+  it('should skip runs outside the price band', () => {
+    expect(evaluatePriceConditions({ maxPrice: '4000' }, 4100, null)).toMatchObject({ action: 'SKIP' });
+    expect(evaluatePriceConditions({ minPrice: '1000' }, 900, null)).toMatchObject({ action: 'SKIP' });
+    expect(evaluatePriceConditions({ minPrice: '1000', maxPrice: '4000' }, 2500, null)).toMatchObject({ action: 'RUN', multiplier: 1 });
+  });
+
+  it('should apply the deepest matching dip tier', () => {
+    expect(evaluatePriceConditions({ dipTiers }, 2700, 3000)).toMatchObject({ action: 'RUN', multiplier: 1.5 });
+    expect(evaluatePriceConditions({ dipTiers }, 2300, 3000)).toMatchObject({ action: 'RUN', multiplier: 2 });
+    expect(evaluatePriceConditions({ dipTiers }, 2950, 3000)).toMatchObject({ action: 'RUN', multiplier: 1 });
+  });
+
+  it('should ignore dip tiers without price history', () => {
+    expect(evaluatePriceConditions({ dipTiers }, 2000, null)).toEqual({ action: 'RUN', multiplier: 1, drawdownPercent: null });
+  });
+
+  it('should scale amounts to the token decimals', () => {
+    expect(applyMultiplier('100', 1.5, 6)).toBe('150');
+    expect(applyMultiplier('0.333333', 1.5, 6)).toBe('0.499999');
+  });
+
+  it('should only use a moving average whose window is covered by daily samples', () => {
+    const now = new Date('2025-06-30T12:00:00Z');
+    const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+    // Three samples bunched into the last hour don't make a 30-day average
+    const sparse = computeMovingAverage(
+      [{ price: 3000, observedAt: hoursAgo(1) }, { price: 3100, observedAt: hoursAgo(0.5) }, { price: 2900, observedAt: hoursAgo(0.1) }],
+      30,
+      now,
+      0.8
+    );
+    expect(sparse).toEqual({ value: null, days: 30, coveredDays: 1, requiredDays: 24, samples: 3 });
+
+    // One sample a day for 8 of 10 days, with a busy day that doesn't outweigh the others
+    const samples = Array.from({ length: 8 }, (_, day) => ({ price: 100, observedAt: hoursAgo(day * 24 + 1) }));
+    samples.push(...Array.from({ length: 10 }, () => ({ price: 190, observedAt: hoursAgo(2) })));
+    const covered = computeMovingAverage(samples, 10, now, 0.8);
+    expect(covered.coveredDays).toBe(8);
+    expect(covered.requiredDays).toBe(8);
+    expect(covered.samples).toBe(18);
+    expect(parseFloat(covered.value!)).toBeCloseTo((100 * 7 + (100 + 190 * 10) / 11) / 8, 6);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { checkPlanQuota, committedNotional, parseNotionalCaps, type QuotaPlan } from '../../src/utils/quotas.js';
+
+const plan = (overrides: Partial<QuotaPlan> = {}): QuotaPlan => ({
+  status: 'ACTIVE',
+  side: 'BUY',
+  fromToken: 'USDC',
+  toToken: 'WETH',
+  amount: '100',
+  remainingExecutions: 10,
+  ...overrides,
+});
+
+describe('Plan Quotas', () => {
+  it('should sum what active plans will still spend per token', () => {
+    expect(committedNotional([
+      plan(),
+      plan({ amount: '50', remainingExecutions: 4 }),
+      plan({ side: 'SELL', amount: '0.5', remainingExecutions: 3 }),
+      plan({ status: 'PAUSED' }),
+    ])).toEqual({ USDC: '1200', WETH: '1.5' });
+  });
+
+  it('should parse per-token caps and refuse changes that exceed them', () => {
+    const limits = { maxActivePlans: 2, maxCommittedNotional: parseNotionalCaps('usdc=1500, WETH = 2,bad') };
+    expect(limits.maxCommittedNotional).toEqual({ USDC: '1500', WETH: '2' });
+
+    expect(checkPlanQuota([plan()], [plan(), plan({ amount: '50' })], limits)).toBeNull();
+    expect(checkPlanQuota([plan()], [plan(), plan()], limits)).toMatch(/Committed USDC .* 2000, above the 1500 USDC cap/);
+    expect(checkPlanQuota([plan(), plan({ amount: '1' })], [plan(), plan({ amount: '1' }), plan({ amount: '1' })], limits))
+      .toMatch(/at most 2 plans/);
+  });
+
+  it('should let users over a lowered cap shrink their plans', () => {
+    const limits = { maxActivePlans: 1, maxCommittedNotional: { USDC: '500' } };
+    const before = [plan(), plan()];
+    expect(checkPlanQuota(before, [plan(), plan({ amount: '10' })], limits)).toBeNull();
+  });
+});
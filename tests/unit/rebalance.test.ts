@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { computeRebalanceTrades } from '../../src/utils/rebalance.js';
+
+const targets = [
+  { token: 'WETH', weight: 50 },
+  { token: 'ARB', weight: 30 },
+  { token: 'USDC', weight: 20 },
+];
+
+describe('Rebalancing', () => {
+  it('should leave a portfolio within the drift threshold alone', () => {
+    const result = computeRebalanceTrades(
+      [
+        { token: 'WETH', amount: '0.02', value: '52' },
+        { token: 'ARB', amount: '60', value: '29' },
+        { token: 'USDC', amount: '19', value: '19' },
+      ],
+      targets,
+      { driftThreshold: 5 }
+    );
+    expect(result.maxDrift).toBe(2);
+    expect(result.trades).toEqual([]);
+  });
+
+  it('should sell over-weight tokens into under-weight ones', () => {
+    // 1000 total: WETH 700 (target 500), ARB 200 (target 300), USDC 100 (target 200)
+    const result = computeRebalanceTrades(
+      [
+        { token: 'WETH', amount: '0.2', value: '700', decimals: 18 },
+        { token: 'ARB', amount: '400', value: '200' },
+        { token: 'USDC', amount: '100', value: '100', decimals: 6 },
+      ],
+      targets,
+      { driftThreshold: 5 }
+    );
+    expect(result.totalValue).toBe('1000');
+    expect(result.maxDrift).toBe(20);
+    expect(result.trades).toEqual([
+      { fromToken: 'WETH', toToken: 'ARB', amount: '0.028571428571428571', value: '100' },
+      { fromToken: 'WETH', toToken: 'USDC', amount: '0.028571428571428571', value: '100' },
+    ]);
+  });
+
+  it('should scale trades down to the per-run cap', () => {
+    const result = computeRebalanceTrades(
+      [
+        { token: 'WETH', amount: '0.2', value: '700' },
+        { token: 'ARB', amount: '400', value: '200' },
+        { token: 'USDC', amount: '100', value: '100' },
+      ],
+      targets,
+      { driftThreshold: 5, maxTradeValue: '50' }
+    );
+    expect(result.trades.map(trade => trade.value)).toEqual(['25', '25']);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseCronExpression,
+  calendarRuleToCron,
+  getNextCronOccurrence,
+  getNextExecution,
+  getNextExecutionAfterRun,
+  getFirstExecution,
+  countExecutionsBetween,
+  countMissedSlots,
+  recomputePlanWindow,
+  cronExpressionError,
+  scheduleWindowError,
+} from '../../src/utils/schedule.js';
+
+describe('Plan schedules', () => {
+  it('should parse cron lists, ranges, steps and names', () => {
+    const cron = parseCronExpression('*/15 9-11 1,15 * MON-FRI');
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 10, 11]);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should reject malformed cron expressions', () => {
+    expect(() => parseCronExpression('0 9 * *')).toThrow();
+    expect(() => parseCronExpression('61 * * * *')).toThrow();
+  });
+
+  it('should AND a stepped day-of-month with day-of-week, as Vixie cron does', () => {
+    // Mondays that fall on an odd day of the month; 2025-01-06 is an even Monday
+    const next = getNextCronOccurrence('0 0 */2 * 1', new Date('2025-01-01T12:00:00Z'));
+    expect(next.toISOString()).toBe('2025-01-13T00:00:00.000Z');
+    // Both fields restricted: either may match
+    expect(getNextCronOccurrence('0 0 3 * 1', new Date('2025-01-01T12:00:00Z')).toISOString()).toBe('2025-01-03T00:00:00.000Z');
+  });
+
+  it('should compile calendar rules to cron', () => {
+    expect(calendarRuleToCron({ daysOfWeek: [1], time: '09:00' })).toBe('0 9 * * 1');
+    expect(calendarRuleToCron({ daysOfMonth: [1, 15], time: '14:30' })).toBe('30 14 1,15 * *');
+  });
+
+  it('should find the next Monday 09:00 UTC', () => {
+    // 2025-01-01 is a Wednesday
+    const next = getNextCronOccurrence('0 9 * * 1', new Date('2025-01-01T12:00:00Z'));
+    expect(next.toISOString()).toBe('2025-01-06T09:00:00.000Z');
+  });
+
+  it('should evaluate cron expressions in the plan timezone', () => {
+    // 09:00 in New York during winter is 14:00 UTC
+    const next = getNextCronOccurrence('0 9 * * *', new Date('2025-01-10T00:00:00Z'), 'America/New_York');
+    expect(next.toISOString()).toBe('2025-01-10T14:00:00.000Z');
+  });
+
+  it('should schedule the 1st and 15th of each month', () => {
+    const schedule = { scheduleType: 'CALENDAR' as const, calendarRule: { daysOfMonth: [1, 15], time: '09:00' } };
+    const first = getNextExecution(schedule, new Date('2025-01-15T10:00:00Z'));
+    expect(first.toISOString()).toBe('2025-02-01T09:00:00.000Z');
+    expect(countExecutionsBetween(schedule, new Date('2025-01-01T00:00:00Z'), new Date('2025-03-31T00:00:00Z'))).toBe(6);
+  });
+
+  it('should keep interval plans on their original grid after a late run', () => {
+    const schedule = { scheduleType: 'INTERVAL' as const, intervalMinutes: 60 };
+    const scheduledAt = new Date('2025-01-01T10:00:00Z');
+    const next = getNextExecutionAfterRun(schedule, scheduledAt, new Date('2025-01-01T10:07:30Z'));
+    expect(next.toISOString()).toBe('2025-01-01T11:00:00.000Z');
+  });
+
+  it('should start on the first matching slot at or after startAt', () => {
+    const schedule = { scheduleType: 'CRON' as const, cronExpression: '0 9 * * 1' };
+    expect(getFirstExecution(schedule, new Date('2025-01-06T09:00:00Z')).toISOString()).toBe('2025-01-06T09:00:00.000Z');
+  });
+
+  it('should count slots missed during downtime', () => {
+    const schedule = { scheduleType: 'INTERVAL' as const, intervalMinutes: 60 };
+    const scheduledAt = new Date('2025-01-01T10:00:00Z');
+    expect(countMissedSlots(schedule, scheduledAt, new Date('2025-01-01T10:30:00Z'))).toBe(0);
+    expect(countMissedSlots(schedule, scheduledAt, new Date('2025-01-01T13:30:00Z'))).toBe(3);
+  });
+
+  it('should recompute the plan window after an edit', () => {
+    const now = new Date('2025-01-01T10:30:00Z');
+    const current = {
+      schedule: { scheduleType: 'INTERVAL' as const, intervalMinutes: 60 },
+      nextExecution: new Date('2025-01-01T11:00:00Z'),
+      endAt: new Date('2025-01-01T20:00:00Z'),
+      executionCount: 3,
+      totalExecutions: 13,
+    };
+
+    // A longer interval is measured from the last slot (10:00)
+    const slower = recomputePlanWindow(current, { intervalMinutes: 120 }, now);
+    expect(slower.nextExecution.toISOString()).toBe('2025-01-01T12:00:00.000Z');
+    expect(slower.totalExecutions).toBe(3 + 5);
+
+    // A remaining count moves the end date to the last remaining slot
+    const shorter = recomputePlanWindow(current, { remainingExecutions: 2 }, now);
+    expect(shorter.endAt.toISOString()).toBe('2025-01-01T12:00:00.000Z');
+    expect(shorter.totalExecutions).toBe(5);
+
+    const extended = recomputePlanWindow(current, { endAt: new Date('2025-01-02T00:00:00Z') }, now);
+    expect(extended.remainingExecutions).toBe(14);
+  });
+
+  it('should refuse crons that run too often or never', () => {
+    expect(cronExpressionError('0 9 * * 1')).toBeNull();
+    expect(cronExpressionError('*/5 * * * *')).toBeNull();
+    expect(cronExpressionError('* * * * *')).toContain('more often');
+    expect(cronExpressionError('0,59 * * * *')).toContain('more often');
+    expect(cronExpressionError('0 0 30 2 *')).toContain('never runs');
+    expect(cronExpressionError('0 9 * *')).toContain('5 fields');
+  });
+
+  it('should run a time skipped by spring-forward after the gap, and a repeated time once', () => {
+    // 2025-03-09: New York clocks jump from 02:00 EST to 03:00 EDT, so 02:30 runs at 03:30 EDT
+    const springForward = getNextCronOccurrence('30 2 * * *', new Date('2025-03-09T05:00:00Z'), 'America/New_York');
+    expect(springForward.toISOString()).toBe('2025-03-09T07:30:00.000Z');
+
+    // 2025-11-02: 01:00-02:00 happens twice; 01:30 runs at its first (EDT) occurrence only
+    const fallBack = getNextCronOccurrence('30 1 * * *', new Date('2025-11-02T04:00:00Z'), 'America/New_York');
+    expect(fallBack.toISOString()).toBe('2025-11-02T05:30:00.000Z');
+    const following = getNextCronOccurrence('30 1 * * *', fallBack, 'America/New_York');
+    expect(following.toISOString()).toBe('2025-11-03T06:30:00.000Z');
+  });
+
+  it('should refuse plan windows with more runs than the cap instead of truncating them', () => {
+    const schedule = { scheduleType: 'CRON' as const, cronExpression: '*/2 * * * *', timezone: 'America/New_York' };
+    const start = new Date('2025-01-01T00:00:00Z');
+    expect(scheduleWindowError(schedule, start, new Date('2025-01-08T00:00:00Z'))).toBeNull();
+    expect(scheduleWindowError(schedule, start, new Date('2025-01-20T00:00:00Z'))).toContain('more than 10000');
+    expect(() => countExecutionsBetween(schedule, start, new Date('2025-01-20T00:00:00Z'))).toThrow('more than 10000');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { encodeAbiParameters, keccak256, type Address, type Hex } from 'viem';
+import {
+  allowanceKey,
+  balanceKey,
+  findMappingSlot,
+  fundingStateOverride,
+  type MappingSlot,
+} from '../../src/utils/simulationOverrides.js';
+
+const USDC = '0xaf88d065e77c8cC2239327C5EDb3A432268e5831' as Address;
+const EXECUTOR = '0x1111111111111111111111111111111111111111' as Address;
+const USER = '0x2222222222222222222222222222222222222222' as Address;
+const ROUTER = '0xce16F69375520ab01377ce7B88f5BA8C48F8D666' as Address;
+
+const solidityKey = (key: Address | Hex, slot: bigint | Hex) => keccak256(encodeAbiParameters(
+  [{ type: key.length === 42 ? 'address' : 'bytes32' }, { type: typeof slot === 'bigint' ? 'uint256' : 'bytes32' }],
+  [key, slot]
+));
+
+describe('Simulation state overrides', () => {
+  it('should derive Solidity mapping keys for balances and nested allowances', () => {
+    const balances: MappingSlot = { slot: 9n, layout: 'solidity' };
+    expect(balanceKey(EXECUTOR, balances)).toBe(solidityKey(EXECUTOR, 9n));
+    expect(allowanceKey(EXECUTOR, ROUTER, { slot: 10n, layout: 'solidity' }))
+      .toBe(solidityKey(ROUTER, solidityKey(EXECUTOR, 10n)));
+  });
+
+  it('should find the slot whose override the token reads back', async () => {
+    // A token keeping balances at slot 9, like native USDC
+    const storedAt = balanceKey(EXECUTOR, { slot: 9n, layout: 'solidity' });
+    const probed: Hex[] = [];
+    const found = await findMappingSlot(
+      mapping => balanceKey(EXECUTOR, mapping),
+      async key => {
+        probed.push(key);
+        return key === storedAt;
+      }
+    );
+    expect(found).toEqual({ slot: 9n, layout: 'solidity' });
+    expect(probed).toHaveLength(19);
+
+    const vyper = balanceKey(EXECUTOR, { slot: 3n, layout: 'vyper' });
+    expect(await findMappingSlot(mapping => balanceKey(EXECUTOR, mapping), async key => key === vyper))
+      .toEqual({ slot: 3n, layout: 'vyper' });
+    expect(await findMappingSlot(mapping => balanceKey(EXECUTOR, mapping), async () => false, 5n)).toBeNull();
+  });
+
+  it('should credit a separate executor with the amount and its router allowance', () => {
+    const slots = { balance: { slot: 9n, layout: 'solidity' as const }, allowance: { slot: 10n, layout: 'solidity' as const } };
+    const override = fundingStateOverride(
+      { token: USDC, holder: EXECUTOR, spender: ROUTER, amount: 25_000_000n, creditBalance: true },
+      slots
+    );
+
+    expect(override).toHaveLength(1);
+    expect(override[0]!.address).toBe(USDC);
+    const slotsSet = override[0]!.stateDiff!.map(entry => entry.slot);
+    expect(slotsSet).toEqual([balanceKey(EXECUTOR, slots.balance), allowanceKey(EXECUTOR, ROUTER, slots.allowance)]);
+    expect(slotsSet).not.toContain(balanceKey(USER, slots.balance));
+    expect(BigInt(override[0]!.stateDiff![0]!.value)).toBe(25_000_000n);
+  });
+
+  it('should keep the real balance for self-execution and skip tokens with unknown storage', () => {
+    const slots = { balance: { slot: 9n, layout: 'solidity' as const }, allowance: { slot: 10n, layout: 'solidity' as const } };
+    const override = fundingStateOverride(
+      { token: USDC, holder: USER, spender: ROUTER, amount: 1n, creditBalance: false },
+      slots
+    );
+    expect(override[0]!.stateDiff!.map(entry => entry.slot)).toEqual([allowanceKey(USER, ROUTER, slots.allowance)]);
+
+    expect(fundingStateOverride(
+      { token: USDC, holder: EXECUTOR, spender: ROUTER, amount: 1n, creditBalance: true },
+      { balance: null, allowance: null }
+    )).toEqual([]);
+  });
+});
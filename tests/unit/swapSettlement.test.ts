@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { encodeAbiParameters, encodeEventTopics, erc20Abi, type Address, type Log } from 'viem';
+import { decodeSwapSettlement, computeExecutionPricing, ARBITRUM_WETH_ADDRESS } from '../../src/utils/swapSettlement.js';
+
+const USDC = '0xaf88d065e77c8cC2239327C5EDb3A432268e5831' as Address;
+const ARB = '0x912CE59144191C1204E64559FE8253a0e49E6548' as Address;
+const EXECUTOR = '0x1111111111111111111111111111111111111111' as Address;
+const USER = '0x2222222222222222222222222222222222222222' as Address;
+const POOL = '0x3333333333333333333333333333333333333333' as Address;
+const ROUTER = '0x4444444444444444444444444444444444444444' as Address;
+
+const wethWithdrawal = [
+  { type: 'event', name: 'Withdrawal', inputs: [{ name: 'src', type: 'address', indexed: true }, { name: 'wad', type: 'uint256', indexed: false }] },
+] as const;
+
+function transferLog(token: Address, from: Address, to: Address, value: bigint, logIndex: number): Log {
+  return {
+    address: token,
+    topics: encodeEventTopics({ abi: erc20Abi, eventName: 'Transfer', args: { from, to } }) as Log['topics'],
+    data: encodeAbiParameters([{ type: 'uint256' }], [value]),
+    blockHash: null,
+    blockNumber: null,
+    logIndex,
+    transactionHash: null,
+    transactionIndex: null,
+    removed: false,
+  };
+}
+
+function withdrawalLog(src: Address, wad: bigint, logIndex: number): Log {
+  return {
+    ...transferLog(ARBITRUM_WETH_ADDRESS, src, src, wad, logIndex),
+    topics: encodeEventTopics({ abi: wethWithdrawal, eventName: 'Withdrawal', args: { src } }) as Log['topics'],
+  };
+}
+
+describe('Swap settlement', () => {
+  const params = {
+    fromToken: { address: USDC, decimals: 6 },
+    toToken: { address: ARB, decimals: 18 },
+    payer: EXECUTOR,
+    recipient: USER,
+  };
+
+  it('should decode paid and received amounts from Transfer logs', () => {
+    const logs = [
+      transferLog(USDC, EXECUTOR, POOL, 10_000_000n, 0),
+      transferLog(ARB, POOL, USER, 12_500_000_000_000_000_000n, 1),
+      // Unrelated transfer of the target token to someone else
+      transferLog(ARB, POOL, POOL, 1n, 2),
+    ];
+
+    const settlement = decodeSwapSettlement(logs, params);
+    expect(settlement.fromAmount).toBe('10');
+    expect(settlement.toAmount).toBe('12.5');
+  });
+
+  it('should only count WETH unwraps by the router or recipient as native output', () => {
+    const logs = [
+      transferLog(USDC, EXECUTOR, POOL, 10_000_000n, 0),
+      withdrawalLog(ROUTER, 3_000_000_000_000_000n, 1),
+      // Another contract unwrapping in the same transaction
+      withdrawalLog(POOL, 5_000_000_000_000_000n, 2),
+    ];
+
+    const settlement = decodeSwapSettlement(logs, {
+      ...params,
+      toToken: { address: '0x0000000000000000000000000000000000000000', decimals: 18, isNative: true },
+      router: ROUTER,
+    });
+    expect(settlement.toAmount).toBe('0.003');
+  });
+
+  it('should compute realized rate and slippage against the quote', () => {
+    const pricing = computeExecutionPricing('10', '12.6', '10', '12.5');
+    expect(pricing.exchangeRate).toBe('1.25');
+    expect(pricing.quotedExchangeRate).toBe('1.26');
+    expect(pricing.slippagePercent).toBe('0.7936');
+  });
+
+  it('should leave quoted values unknown when the quote does not parse', () => {
+    const pricing = computeExecutionPricing('10', '1.2e+1', '10', '12.5');
+    expect(pricing.exchangeRate).toBe('1.25');
+    expect(pricing.quotedExchangeRate).toBeNull();
+    expect(pricing.slippagePercent).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { matchTaxLots } from '../../src/utils/taxLots.js';
+import type { TaxTransaction } from '../../src/types/shared.js';
+
+const tx = (
+  executionId: string,
+  type: TaxTransaction['type'],
+  date: string,
+  amount: string,
+  quoteAmount: string,
+  gasFeeQuote: string | null = null
+): TaxTransaction => ({
+  executionId,
+  planId: 'plan',
+  type,
+  date,
+  token: 'WETH',
+  amount,
+  quoteToken: 'USDC',
+  quoteAmount,
+  gasFee: null,
+  gasFeeQuote,
+  txHash: null,
+});
+
+// Bought 1 WETH at 1000 (plus 1 USDC gas), then 1 at 3000, then 1 at 2000; sold 1.5 at 2500
+const history = [
+  tx('buy-1', 'ACQUISITION', '2024-01-01T00:00:00Z', '1', '1000', '1'),
+  tx('buy-2', 'ACQUISITION', '2025-02-01T00:00:00Z', '1', '3000'),
+  tx('buy-3', 'ACQUISITION', '2025-03-01T00:00:00Z', '1', '2000'),
+  tx('sell-1', 'DISPOSAL', '2025-04-01T00:00:00Z', '1.5', '3750'),
+];
+
+describe('Tax Lots', () => {
+  it('should match disposals against the oldest lots first with FIFO', () => {
+    const { gains, lots } = matchTaxLots(history, 'FIFO');
+    expect(gains.map(g => [g.lotId, g.amount, g.proceeds, g.costBasis, g.gain, g.term])).toEqual([
+      ['buy-1', '1', '2500', '1001', '1499', 'LONG'],
+      ['buy-2', '0.5', '1250', '1500', '-250', 'SHORT'],
+    ]);
+    expect(lots.map(lot => [lot.id, lot.remaining, lot.remainingCostBasis])).toEqual([
+      ['buy-1', '0', '0'],
+      ['buy-2', '0.5', '1500'],
+      ['buy-3', '1', '2000'],
+    ]);
+  });
+
+  it('should pick the newest or most expensive lots with LIFO and HIFO', () => {
+    expect(matchTaxLots(history, 'LIFO').gains.map(g => [g.lotId, g.amount])).toEqual([
+      ['buy-3', '1'],
+      ['buy-2', '0.5'],
+    ]);
+    expect(matchTaxLots(history, 'HIFO').gains.map(g => [g.lotId, g.amount])).toEqual([
+      ['buy-2', '1'],
+      ['buy-3', '0.5'],
+    ]);
+  });
+
+  it('should report disposals beyond the acquired lots with an unknown basis', () => {
+    const { gains } = matchTaxLots([
+      tx('buy-1', 'ACQUISITION', '2025-01-01T00:00:00Z', '1', '2000'),
+      tx('sell-1', 'DISPOSAL', '2025-02-01T00:00:00Z', '2', '5000', '2'),
+    ], 'FIFO');
+    expect(gains.map(g => [g.lotId, g.amount, g.proceeds, g.costBasis, g.term])).toEqual([
+      ['buy-1', '1', '2499', '2000', 'SHORT'],
+      [null, '1', '2499', '0', null],
+    ]);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { computeValueAveragingAmount } from '../../src/utils/valueAveraging.js';
+
+describe('Value averaging', () => {
+  it('should buy the shortfall against the target path', () => {
+    // Run 3 targets 300; 2 units at 120 are worth 240
+    const run = computeValueAveragingAmount({ targetIncrement: '100', runNumber: 3, unitsHeld: '2', price: '120' });
+    expect(run.amount).toBe('60');
+    expect(run.currentValue).toBe('240');
+    expect(run.cappedBy).toBeNull();
+  });
+
+  it('should buy nothing when the position is ahead of the path', () => {
+    const run = computeValueAveragingAmount({ targetIncrement: '100', runNumber: 2, unitsHeld: '2', price: '150' });
+    expect(run.amount).toBe('0');
+  });
+
+  it('should clamp to the per-run caps and token decimals', () => {
+    const max = computeValueAveragingAmount({ targetIncrement: '100', runNumber: 4, unitsHeld: '1', price: '50', maxRunAmount: '150' });
+    expect(max.amount).toBe('150');
+    expect(max.cappedBy).toBe('max');
+
+    const min = computeValueAveragingAmount({ targetIncrement: '100', runNumber: 2, unitsHeld: '2', price: '150', minRunAmount: '10' });
+    expect(min.amount).toBe('10');
+    expect(min.cappedBy).toBe('min');
+
+    const rounded = computeValueAveragingAmount({ targetIncrement: '1', runNumber: 1, unitsHeld: '0.3', price: '1.1111111', fromDecimals: 6 });
+    expect(rounded.amount).toBe('0.666666');
+  });
+});
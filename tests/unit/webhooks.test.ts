@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { getRetryDelayMs, signWebhookPayload, verifyWebhookSignature } from '../../src/utils/webhooks.js';
+
+describe('Webhooks', () => {
+  const body = JSON.stringify({ event: 'plan.created', data: { planId: 'plan-1' } });
+
+  it('should sign deliveries so receivers can verify them', () => {
+    const header = signWebhookPayload('whsec_test', 1735689600, body);
+    expect(header).toMatch(/^t=1735689600,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature('whsec_test', header, body, 300, 1735689660)).toBe(true);
+    expect(verifyWebhookSignature('whsec_other', header, body, 300, 1735689660)).toBe(false);
+    expect(verifyWebhookSignature('whsec_test', header, body + ' ', 300, 1735689660)).toBe(false);
+    // Too old
+    expect(verifyWebhookSignature('whsec_test', header, body, 300, 1735690000)).toBe(false);
+  });
+
+  it('should back off exponentially up to a cap', () => {
+    expect([1, 2, 3, 4].map(getRetryDelayMs)).toEqual([30000, 60000, 120000, 240000]);
+    expect(getRetryDelayMs(20)).toBe(6 * 60 * 60 * 1000);
+  });
+});